@@ -0,0 +1,68 @@
+import { findDecidingOverride, isAvailableAt, parseOverrideInput, parseWeeklyAvailabilityInput } from '@/lib/availability';
+
+// Thursday 6 March 2025, UTC
+const thursdayAt = (hour: number) => new Date(Date.UTC(2025, 2, 6, hour, 0, 0));
+const thursday = new Date('2025-03-06T00:00:00.000Z');
+const weekly = [{ dayOfWeek: 4, startTime: '08:00', endTime: '17:00', isAvailable: true }];
+
+describe('Availability', () => {
+  it('should validate weekly windows', () => {
+    expect(parseWeeklyAvailabilityInput({ dayOfWeek: 4, startTime: '08:00', endTime: '17:00' }).data)
+      .toEqual({ dayOfWeek: 4, startTime: '08:00', endTime: '17:00', isAvailable: true });
+    expect(parseWeeklyAvailabilityInput({ dayOfWeek: 7, startTime: '08:00', endTime: '17:00' }).error).toBeDefined();
+    expect(parseWeeklyAvailabilityInput({ dayOfWeek: 4, startTime: '17:00', endTime: '08:00' }).error).toBeDefined();
+    expect(parseWeeklyAvailabilityInput({ endTime: '18:30' }, true).data).toEqual({ endTime: '18:30' });
+  });
+
+  it('should validate overrides as whole days or time ranges', () => {
+    expect(parseOverrideInput({ date: '2025-03-06', isAvailable: false }).data)
+      .toEqual({ date: thursday, startTime: null, endTime: null, isAvailable: false });
+    expect(parseOverrideInput({ date: '2025-03-06', isAvailable: false, startTime: '12:00' }).error).toBeDefined();
+    expect(parseOverrideInput({ date: '06/03/2025', isAvailable: false }).error).toBeDefined();
+    expect(parseOverrideInput({ date: '2025-03-06' }).error).toBeDefined();
+  });
+
+  it('should let overrides take precedence over the weekly pattern', () => {
+    const afternoonOff = { date: thursday, startTime: '12:00', endTime: '17:00', isAvailable: false };
+    expect(isAvailableAt(weekly, [afternoonOff], thursdayAt(9))).toBe(true);
+    expect(isAvailableAt(weekly, [afternoonOff], thursdayAt(13))).toBe(false);
+
+    const extraEvening = { date: thursday, startTime: '18:00', endTime: '21:00', isAvailable: true };
+    expect(isAvailableAt(weekly, [], thursdayAt(19))).toBe(false);
+    expect(isAvailableAt(weekly, [extraEvening], thursdayAt(19))).toBe(true);
+
+    const wholeDayOff = { date: thursday, startTime: null, endTime: null, isAvailable: false };
+    expect(findDecidingOverride([extraEvening, wholeDayOff], thursdayAt(19))).toBe(wholeDayOff);
+    expect(isAvailableAt(weekly, [wholeDayOff], new Date(Date.UTC(2025, 2, 13, 9)))).toBe(true);
+  });
+
+  it('should check availability over the whole task', () => {
+    // 15:30 start is inside 08:00-17:00, but a two-hour task runs past it
+    expect(isAvailableAt(weekly, [], thursdayAt(15), 'UTC', 120)).toBe(true);
+    expect(isAvailableAt(weekly, [], new Date(Date.UTC(2025, 2, 6, 15, 30)), 'UTC', 120)).toBe(false);
+
+    // Starts before an afternoon off but overlaps it
+    const afternoonOff = { date: thursday, startTime: '12:00', endTime: '17:00', isAvailable: false };
+    expect(isAvailableAt(weekly, [afternoonOff], thursdayAt(11), 'UTC', 120)).toBe(false);
+    expect(findDecidingOverride([afternoonOff], thursdayAt(11), 'UTC', 120)).toBe(afternoonOff);
+    expect(isAvailableAt(weekly, [afternoonOff], thursdayAt(10), 'UTC', 120)).toBe(true);
+
+    // An extra evening continues the weekly window without a gap
+    const extraEvening = { date: thursday, startTime: '17:00', endTime: '21:00', isAvailable: true };
+    expect(isAvailableAt(weekly, [extraEvening], thursdayAt(16), 'UTC', 120)).toBe(true);
+    expect(isAvailableAt(weekly, [extraEvening], thursdayAt(20), 'UTC', 120)).toBe(false);
+  });
+
+  it('should read days and times in the company timezone', () => {
+    // Thursday 3 April 2025 08:30 BST is 07:30 UTC
+    const bstMorning = new Date('2025-04-03T07:30:00.000Z');
+    expect(isAvailableAt(weekly, [], bstMorning, 'UTC')).toBe(false);
+    expect(isAvailableAt(weekly, [], bstMorning, 'Europe/London')).toBe(true);
+
+    // Friday 00:30 in Sydney is still Thursday in UTC
+    const sydneyFriday = new Date('2025-03-06T13:30:00.000Z');
+    const fridayOff = { date: new Date('2025-03-07T00:00:00.000Z'), startTime: null, endTime: null, isAvailable: false };
+    expect(findDecidingOverride([fridayOff], sydneyFriday, 'Australia/Sydney')).toBe(fridayOff);
+    expect(findDecidingOverride([fridayOff], sydneyFriday, 'UTC')).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { TaskStatus } from '@prisma/client';
+import { buildIcsCalendar, escapeIcsText, foldIcsLine, taskToIcsEvent } from '@/lib/calendar-feeds';
+
+describe('Calendar feeds', () => {
+  it('should escape text values and fold long lines', () => {
+    expect(escapeIcsText('Flat 2, 10 High St; back door\\gate\nKey in box')).toBe(
+      'Flat 2\\, 10 High St\\; back door\\\\gate\\nKey in box'
+    );
+
+    const folded = foldIcsLine(`DESCRIPTION:${'é'.repeat(100)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(100)}`);
+  });
+
+  it('should render tasks in the company timezone with stable UIDs', () => {
+    const task = {
+      id: 1,
+      title: 'End of tenancy clean',
+      description: null,
+      status: TaskStatus.PLANNED,
+      scheduledDate: new Date('2025-04-01T08:00:00Z'),
+      updatedAt: new Date('2025-03-20T12:00:00Z'),
+      property: { address: '10 High St, London' },
+      assignedUser: { firstName: 'Sam', lastName: 'Lee' },
+      checklist: ['Strip beds', 'Clean oven'],
+    };
+    const event = taskToIcsEvent(task, 150, 'cleaner');
+    expect(event.uid).toBe('task-1@mayaops');
+    expect(event.end.toISOString()).toBe('2025-04-01T10:30:00.000Z');
+    expect(event.description).toContain('Duration: 2h 30m');
+    expect(event.description).not.toContain('Cleaner:');
+    // Cleaners can't open admin pages, so their events carry the checklist itself
+    expect(event.description).toContain('Checklist:\n- Strip beds\n- Clean oven');
+    expect(event.url).toBeNull();
+
+    const ics = buildIcsCalendar('MayaOps: Sam Lee', 'Europe/London', [event], new Date('2025-03-25T00:00:00Z'));
+    expect(ics).toContain('UID:task-1@mayaops\r\n');
+    expect(ics).toContain('DTSTART;TZID=Europe/London:20250401T090000\r\n');
+    expect(ics).toContain('DTEND;TZID=Europe/London:20250401T113000\r\n');
+    expect(ics).toContain('LOCATION:10 High St\\, London\r\n');
+    // Clocks went forward at 01:00 GMT on 30 March
+    expect(ics).toContain('BEGIN:DAYLIGHT\r\nDTSTART:20250330T010000\r\nTZOFFSETFROM:+0000\r\nTZOFFSETTO:+0100\r\nEND:DAYLIGHT');
+
+    // Cancelling the task replaces the same event
+    const cancelled = taskToIcsEvent({ ...task, status: TaskStatus.CANCELLED }, 150, 'cleaner');
+    expect(cancelled.uid).toBe(event.uid);
+    expect(cancelled.status).toBe('CANCELLED');
+  });
+
+  it('should link company feed events to the task in the admin app', () => {
+    const event = taskToIcsEvent(
+      {
+        id: 7,
+        title: 'Midweek clean',
+        description: null,
+        status: TaskStatus.ASSIGNED,
+        scheduledDate: new Date('2025-04-02T10:00:00Z'),
+        updatedAt: new Date('2025-03-20T12:00:00Z'),
+        property: null,
+        assignedUser: null,
+        checklist: ['Mop floors'],
+      },
+      60,
+      'company'
+    );
+    expect(event.url).toContain('/admin/tasks?taskId=7');
+    expect(event.description).toContain('Cleaner: Unassigned');
+    expect(event.description).toContain('Checklist (1 items): ');
+    expect(event.status).toBe('TENTATIVE');
+  });
+});
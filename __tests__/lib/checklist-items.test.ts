@@ -0,0 +1,90 @@
+import {
+  checklistDataForProperty,
+  evaluateChecklistAnswer,
+  formatChecklistAnswer,
+  itemAppliesToProperty,
+  parseChecklistDefinitions,
+  serializePropertyTags,
+  validateChecklistDefinitions,
+} from '@/lib/checklist-items';
+
+const studio = { propertyType: 'apartment', unitCount: 1, tags: [], skillIds: [] };
+const hmo = { propertyType: 'hmo', unitCount: 6, tags: ['garden'], skillIds: [3] };
+
+describe('Checklist Items', () => {
+  describe('parseChecklistDefinitions', () => {
+    it('should read legacy titles as tick items and skip blanks', () => {
+      expect(parseChecklistDefinitions(JSON.stringify(['Mop floors', ' ', { title: 'Meter reading', type: 'numeric', unit: 'kWh' }])))
+        .toEqual([
+          { title: 'Mop floors', type: 'tick', required: true },
+          { title: 'Meter reading', type: 'numeric', unit: 'kWh', required: true },
+        ]);
+    });
+
+    it('should return an empty list for invalid JSON', () => {
+      expect(parseChecklistDefinitions('not json')).toEqual([]);
+    });
+  });
+
+  it('should reject unknown item types when saving a template', () => {
+    expect(validateChecklistDefinitions([{ title: 'Smell test', type: 'smell' }]).error).toContain('smell');
+    expect(validateChecklistDefinitions('[]').error).toBeDefined();
+  });
+
+  describe('evaluateChecklistAnswer', () => {
+    it('should require a comment when a yes/no item is answered no', () => {
+      expect(evaluateChecklistAnswer('yes_no', { answerBoolean: false }, 0).error).toBeDefined();
+      expect(evaluateChecklistAnswer('yes_no', { answerBoolean: false, comment: 'Boiler leaking' }, 0).data)
+        .toMatchObject({ answerBoolean: false, comment: 'Boiler leaking', isCompleted: true });
+    });
+
+    it('should only complete photo items that have evidence', () => {
+      expect(evaluateChecklistAnswer('photo', { isCompleted: true }, 0).error).toBeDefined();
+      expect(evaluateChecklistAnswer('photo', {}, 2).data?.isCompleted).toBe(true);
+    });
+
+    it('should validate numeric readings', () => {
+      expect(evaluateChecklistAnswer('numeric', { answerNumber: 'warm' }, 0).error).toBeDefined();
+      expect(evaluateChecklistAnswer('numeric', { answerNumber: '21.5' }, 0).data?.answerNumber).toBe(21.5);
+    });
+  });
+
+  describe('conditional items', () => {
+    const { items } = validateChecklistDefinitions([
+      'Hoover',
+      { title: 'Clean communal kitchen', conditions: { propertyTypes: ['HMO'], minUnits: 3 } },
+      { title: 'Sweep patio', conditions: { tags: ['Garden', 'patio'] } },
+      { title: 'Descale boiler', conditions: { skillIds: ['3'] } },
+    ]);
+
+    it('should normalise conditions and reject invalid ranges', () => {
+      expect(items![1].conditions).toEqual({ propertyTypes: ['hmo'], minUnits: 3 });
+      expect(items![0]).not.toHaveProperty('conditions');
+      expect(validateChecklistDefinitions([{ title: 'Bins', conditions: { minUnits: 5, maxUnits: 2 } }]).error).toContain('Bins');
+    });
+
+    it('should evaluate every condition against the property', () => {
+      expect(items!.filter(item => itemAppliesToProperty(item, studio)).map(item => item.title)).toEqual(['Hoover']);
+      expect(items!.filter(item => itemAppliesToProperty(item, hmo))).toHaveLength(4);
+      expect(itemAppliesToProperty(items![1], { ...hmo, unitCount: 2 })).toBe(false);
+    });
+
+    it('should renumber applicable items and keep hand-added extras', () => {
+      const extra = { title: 'Check smoke alarm', itemType: 'tick', unit: null, isRequired: true };
+      expect(checklistDataForProperty(items!, studio, [{ ...extra, title: 'Hoover' }, extra]).map(item => [item.title, item.order]))
+        .toEqual([['Hoover', 0], ['Check smoke alarm', 1]]);
+    });
+
+    it('should store property tags lower-cased and de-duplicated', () => {
+      expect(serializePropertyTags('Garden, lift, garden,')).toBe('["garden","lift"]');
+      expect(serializePropertyTags([])).toBeNull();
+    });
+  });
+
+  it('should format answers for reports', () => {
+    const base = { isCompleted: true, answerBoolean: null, answerNumber: null, answerText: null, comment: null };
+    expect(formatChecklistAnswer({ ...base, itemType: 'numeric', answerNumber: 4, unit: '°C' })).toBe('4 °C');
+    expect(formatChecklistAnswer({ ...base, itemType: 'yes_no', answerBoolean: false, comment: 'Broken' })).toBe('No - Broken');
+    expect(formatChecklistAnswer({ ...base, itemType: 'photo' }, 1)).toBe('1 photo');
+  });
+});
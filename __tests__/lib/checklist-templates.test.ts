@@ -0,0 +1,32 @@
+import { diffChecklistItems, summarizeChecklistChanges } from '@/lib/checklist-templates';
+import { ChecklistItemDefinition } from '@/lib/checklist-items';
+
+const tick = (title: string): ChecklistItemDefinition => ({ title, type: 'tick', required: true });
+
+describe('Checklist Template Versions', () => {
+  describe('diffChecklistItems', () => {
+    it('should report added, removed and changed items by title', () => {
+      const before = [tick('Hoover'), tick('Mop'), tick('Meter reading')];
+      const after = [tick('Hoover'), { title: 'Meter reading', type: 'numeric', unit: 'kWh', required: true } as ChecklistItemDefinition, tick('Bins')];
+
+      expect(diffChecklistItems(before, after)).toEqual({
+        added: ['Bins'],
+        removed: ['Mop'],
+        changed: ['Meter reading'],
+      });
+    });
+
+    it('should treat a reorder as no item changes', () => {
+      expect(diffChecklistItems([tick('A'), tick('B')], [tick('B'), tick('A')]))
+        .toEqual({ added: [], removed: [], changed: [] });
+    });
+  });
+
+  describe('summarizeChecklistChanges', () => {
+    it('should describe each kind of change', () => {
+      expect(summarizeChecklistChanges({ added: ['Bins'], removed: ['Mop'], changed: [] }))
+        .toBe('Added: Bins; Removed: Mop');
+      expect(summarizeChecklistChanges({ added: [], removed: [], changed: [] })).toBe('Reordered items');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { appliesToPropertyType, buildTaskDefaults, parseJobTemplateInput, templateTaskData } from '@/lib/job-templates';
+import { Prisma } from '@prisma/client';
+
+const template = {
+  id: 7,
+  companyId: 1,
+  name: 'Turnover',
+  title: 'Turnover clean',
+  description: 'Full changeover',
+  checklistTemplateId: 3,
+  estimatedDurationMinutes: 90,
+  budget: new Prisma.Decimal(45),
+  requiredSkillIds: '[2,5]',
+  photoCountRequirement: 8,
+  propertyTypes: '["apartment"]',
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const checklistVersion = {
+  id: 11,
+  templateId: 3,
+  version: 2,
+  items: '["Strip beds","Mop floors"]',
+  changeNote: null,
+  createdById: null,
+  createdAt: new Date(),
+};
+
+describe('Job Templates', () => {
+  describe('parseJobTemplateInput', () => {
+    it('should require name and title on create but not on update', () => {
+      expect(parseJobTemplateInput({ name: 'Turnover' }).error).toBe('title is required');
+      expect(parseJobTemplateInput({ budget: 20 }, true).data).toEqual({ budget: 20 });
+    });
+
+    it('should reject unknown property types', () => {
+      const result = parseJobTemplateInput({ name: 'A', title: 'B', propertyTypes: ['castle'] });
+      expect(result.error).toContain('castle');
+    });
+  });
+
+  it('should apply to every property type when none are listed', () => {
+    expect(appliesToPropertyType(template, 'apartment')).toBe(true);
+    expect(appliesToPropertyType(template, 'hmo')).toBe(false);
+    expect(appliesToPropertyType({ propertyTypes: null }, 'hmo')).toBe(true);
+  });
+
+  it('should copy template values into task data, letting explicit values win', () => {
+    const data = templateTaskData(buildTaskDefaults(template, checklistVersion), { title: 'Deep clean', budget: 60 });
+    expect(data).toMatchObject({
+      jobTemplateId: 7,
+      title: 'Deep clean',
+      description: 'Full changeover',
+      estimatedDurationMinutes: 90,
+      budget: 60,
+      requiredSkillIds: '[2,5]',
+      photoCountRequirement: 8,
+      checklistTemplateVersionId: 11,
+    });
+    expect(data.checklists?.create).toEqual([
+      { title: 'Strip beds', itemType: 'tick', unit: null, isRequired: true, order: 0 },
+      { title: 'Mop floors', itemType: 'tick', unit: null, isRequired: true, order: 1 },
+    ]);
+  });
+});
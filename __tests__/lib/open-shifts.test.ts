@@ -0,0 +1,34 @@
+import { TaskStatus } from '@prisma/client';
+import { claimCapReached, eligibilityFromWarnings, isOpenShiftCandidate } from '@/lib/open-shifts';
+
+const now = new Date('2025-03-01T08:00:00Z');
+const task = {
+  status: TaskStatus.PLANNED,
+  scheduledDate: new Date('2025-03-03T10:00:00Z'),
+  assignedUserId: null,
+  taskAssignments: [],
+};
+
+describe('Open shifts', () => {
+  it('should only publish unassigned planned tasks in the future', () => {
+    expect(isOpenShiftCandidate(task, now)).toBe(true);
+    expect(isOpenShiftCandidate({ ...task, assignedUserId: 5 }, now)).toBe(false);
+    expect(isOpenShiftCandidate({ ...task, taskAssignments: [{ userId: 5 }] }, now)).toBe(false);
+    expect(isOpenShiftCandidate({ ...task, status: TaskStatus.ASSIGNED }, now)).toBe(false);
+    expect(isOpenShiftCandidate({ ...task, scheduledDate: new Date('2025-02-28T10:00:00Z') }, now)).toBe(false);
+    expect(isOpenShiftCandidate({ ...task, scheduledDate: null }, now)).toBe(false);
+  });
+
+  it('should make any rota warning a reason for ineligibility', () => {
+    expect(eligibilityFromWarnings([])).toEqual({ eligible: true, reasons: [] });
+    expect(eligibilityFromWarnings([
+      { type: 'on_leave', severity: 'warning', message: 'Cleaner has approved leave request for this date' },
+    ])).toEqual({ eligible: false, reasons: ['Cleaner has approved leave request for this date'] });
+  });
+
+  it('should apply the weekly claim cap only when set', () => {
+    expect(claimCapReached(10, null)).toBe(false);
+    expect(claimCapReached(1, 2)).toBe(false);
+    expect(claimCapReached(2, 2)).toBe(true);
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  expandRecurrence,
+  formatRRule,
+  isSeriesLive,
+  legacyPatternToRRule,
+  nextOccurrenceStart,
+  parseRRule,
+  splitSeriesAt,
+} from '@/lib/recurrence';
+
+const window = (from: string, to: string) => [new Date(from), new Date(to)] as const;
+
+describe('Recurrence Engine', () => {
+  describe('parseRRule', () => {
+    it('should parse weekday lists and ordinals', () => {
+      expect(parseRRule('FREQ=WEEKLY;BYDAY=MO,WE,FR').byDay?.map(d => d.weekday)).toEqual([1, 3, 5]);
+      expect(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=1TU').byDay).toEqual([{ weekday: 2, ordinal: 1 }]);
+    });
+
+    it('should reject unsupported or conflicting rules', () => {
+      expect(() => parseRRule('FREQ=HOURLY')).toThrow();
+      expect(() => parseRRule('FREQ=WEEKLY;COUNT=3;UNTIL=20250101')).toThrow();
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow();
+    });
+
+    it('should map legacy patterns', () => {
+      expect(legacyPatternToRRule('biweekly')).toBe('FREQ=WEEKLY;INTERVAL=2');
+      expect(legacyPatternToRRule('unknown')).toBeNull();
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('should expand every Mon/Wed/Fri', () => {
+      const [from, to] = window('2025-06-02T00:00:00Z', '2025-06-08T23:59:59Z');
+      const occurrences = expandRecurrence({
+        rule: parseRRule('FREQ=WEEKLY;BYDAY=MO,WE,FR'),
+        start: new Date('2025-06-02T09:00:00Z'),
+        timezone: 'UTC',
+      }, from, to);
+      expect(occurrences.map(o => o.localDate)).toEqual(['2025-06-02', '2025-06-04', '2025-06-06']);
+    });
+
+    it('should expand the first Tuesday of each month', () => {
+      const [from, to] = window('2025-01-01T00:00:00Z', '2025-03-31T23:59:59Z');
+      const occurrences = expandRecurrence({
+        rule: parseRRule('FREQ=MONTHLY;BYDAY=1TU'),
+        start: new Date('2025-01-07T10:00:00Z'),
+        timezone: 'UTC',
+      }, from, to);
+      expect(occurrences.map(o => o.localDate)).toEqual(['2025-01-07', '2025-02-04', '2025-03-04']);
+    });
+
+    it('should skip EXDATEs while still counting them towards COUNT', () => {
+      const [from, to] = window('2025-12-01T00:00:00Z', '2026-01-31T00:00:00Z');
+      const occurrences = expandRecurrence({
+        rule: parseRRule('FREQ=WEEKLY;COUNT=3'),
+        start: new Date('2025-12-18T09:00:00Z'),
+        timezone: 'UTC',
+        exdates: ['2025-12-25'],
+      }, from, to);
+      expect(occurrences.map(o => o.localDate)).toEqual(['2025-12-18', '2026-01-01']);
+    });
+
+    it('should stop at UNTIL', () => {
+      const [from, to] = window('2025-06-01T00:00:00Z', '2025-07-01T00:00:00Z');
+      const occurrences = expandRecurrence({
+        rule: parseRRule('FREQ=DAILY;UNTIL=20250603T235959Z'),
+        start: new Date('2025-06-01T08:00:00Z'),
+        timezone: 'UTC',
+      }, from, to);
+      expect(occurrences).toHaveLength(3);
+    });
+
+    it('should keep local wall time across a DST change', () => {
+      // 09:00 Europe/London is 09:00Z in GMT and 08:00Z in BST (clocks change 30 March 2025)
+      const [from, to] = window('2025-03-24T00:00:00Z', '2025-04-01T00:00:00Z');
+      const occurrences = expandRecurrence({
+        rule: parseRRule('FREQ=WEEKLY;BYDAY=MO'),
+        start: new Date('2025-03-24T09:00:00Z'),
+        timezone: 'Europe/London',
+      }, from, to);
+      expect(occurrences.map(o => o.scheduledDate.toISOString())).toEqual([
+        '2025-03-24T09:00:00.000Z',
+        '2025-03-31T08:00:00.000Z',
+      ]);
+    });
+
+    it('should apply per-occurrence overrides without changing series identity', () => {
+      const [from, to] = window('2025-06-01T00:00:00Z', '2025-06-30T00:00:00Z');
+      const occurrences = expandRecurrence({
+        rule: parseRRule('FREQ=WEEKLY'),
+        start: new Date('2025-06-02T09:00:00Z'),
+        timezone: 'UTC',
+        overrides: { '2025-06-09': { time: '14:30' } },
+      }, from, to);
+      const moved = occurrences.find(o => o.localDate === '2025-06-09');
+      expect(moved?.scheduledDate.toISOString()).toBe('2025-06-09T14:30:00.000Z');
+      expect(moved?.occurrenceDate.toISOString()).toBe('2025-06-09T09:00:00.000Z');
+    });
+  });
+
+  describe('splitSeriesAt', () => {
+    const series = {
+      rule: parseRRule('FREQ=WEEKLY;COUNT=6'),
+      start: new Date('2025-06-02T09:00:00Z'),
+      timezone: 'UTC',
+      exdates: ['2025-06-09', '2025-06-23'],
+      overrides: { '2025-06-30': { time: '11:00' } },
+    };
+
+    it('should end the original series before the split and carry the remaining COUNT', () => {
+      const { before, after } = splitSeriesAt(series, new Date('2025-06-16T09:00:00Z'));
+      expect(formatRRule(before.rule)).toBe('FREQ=WEEKLY;UNTIL=20250616T085959Z');
+      expect(after.rule?.count).toBe(4);
+      expect(before.exdates).toEqual(['2025-06-09']);
+      expect(after.exdates).toEqual(['2025-06-23']);
+      expect(Object.keys(after.overrides)).toEqual(['2025-06-30']);
+    });
+
+    it('should find the next occurrence past skipped and moved dates', () => {
+      expect(nextOccurrenceStart(series, new Date('2025-06-02T09:00:00Z'))?.toISOString()).toBe('2025-06-09T09:00:00.000Z');
+      expect(nextOccurrenceStart(series, new Date('2025-06-23T09:00:00Z'))?.toISOString()).toBe('2025-06-30T09:00:00.000Z');
+      expect(nextOccurrenceStart(series, new Date('2025-07-07T09:00:00Z'))).toBeNull();
+    });
+
+    it('should treat a series as live until its COUNT or UNTIL runs out', () => {
+      expect(isSeriesLive(series, new Date('2025-07-01T00:00:00Z'))).toBe(true);
+      expect(isSeriesLive(series, new Date('2025-07-08T00:00:00Z'))).toBe(false);
+      const ended = { ...series, rule: parseRRule('FREQ=WEEKLY;UNTIL=20250616T085959Z') };
+      expect(isSeriesLive(ended, new Date('2025-06-10T00:00:00Z'))).toBe(false);
+    });
+
+    it('should leave nothing after the split when COUNT is used up', () => {
+      const { after } = splitSeriesAt(series, new Date('2025-07-14T09:00:00Z'));
+      expect(after.rule).toBeNull();
+    });
+  });
+});
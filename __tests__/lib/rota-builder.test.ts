@@ -0,0 +1,85 @@
+import { buildRotaProposal, hardConstraintFailures, BuilderCleaner, BuilderTask } from '@/lib/rota-builder';
+
+const monday = (hour: number) => new Date(Date.UTC(2025, 2, 3, hour, 0, 0));
+
+const task = (id: number, hour: number, overrides: Partial<BuilderTask> = {}): BuilderTask => ({
+  id,
+  title: `Task ${id}`,
+  propertyId: 1,
+  address: '1 Baker Street',
+  location: { latitude: 51.5237, longitude: -0.1585 },
+  start: monday(hour),
+  durationMinutes: 120,
+  requiredSkills: [],
+  ...overrides,
+});
+
+const cleaner = (id: number, overrides: Partial<BuilderCleaner> = {}): BuilderCleaner => ({
+  id,
+  name: `Cleaner ${id}`,
+  skillIds: [],
+  maxWorkingHours: null,
+  availability: [{ dayOfWeek: 1, startTime: '06:00', endTime: '20:00', isAvailable: true }],
+  dateOverrides: [],
+  leave: [],
+  bookings: [],
+  propertyVisits: {},
+  ...overrides,
+});
+
+describe('Rota builder', () => {
+  it('should rule out cleaners without required skills, with overlapping shifts, without time to travel or on leave', () => {
+    const skilled = task(1, 9, { requiredSkills: [{ id: 7, name: 'Deep clean' }] });
+    expect(hardConstraintFailures(skilled, cleaner(1))).toEqual(['missing required skills: Deep clean']);
+    expect(hardConstraintFailures(skilled, cleaner(1, { skillIds: [7] }))).toEqual([]);
+
+    const busy = cleaner(2, {
+      bookings: [{ taskId: 9, propertyId: 2, location: null, start: monday(10), end: monday(12) }],
+    });
+    expect(hardConstraintFailures(task(2, 9), busy)).toEqual(['already booked 10:00–12:00']);
+    expect(hardConstraintFailures(task(2, 12), busy)).toEqual([]);
+
+    // Baker Street to Oxford is well over an hour at 30 km/h
+    const inOxford = cleaner(4, {
+      bookings: [{ taskId: 8, propertyId: 2, location: { latitude: 51.75, longitude: -1.26 }, start: monday(7), end: monday(9) }],
+    });
+    expect(hardConstraintFailures(task(4, 9), inOxford)[0]).toMatch(/^needs about \d+ min to travel from the job ending 09:00$/);
+    expect(hardConstraintFailures(task(4, 13), inOxford)).toEqual([]);
+
+    const away = cleaner(3, { leave: [{ startDate: monday(0), endDate: monday(23) }] });
+    expect(hardConstraintFailures(task(3, 9), away)).toEqual(['on approved leave']);
+  });
+
+  it('should balance hours and never double-book', () => {
+    const proposal = buildRotaProposal([task(1, 9), task(2, 9), task(3, 14)], [cleaner(1), cleaner(2)]);
+    const byTask = Object.fromEntries(proposal.assignments.map(a => [a.taskId, a.cleanerId]));
+    expect(byTask[1]).not.toBe(byTask[2]);
+    expect(proposal.assignments).toHaveLength(3);
+    expect(proposal.unplaced).toEqual([]);
+  });
+
+  it('should prefer cleaners who know the property', () => {
+    const proposal = buildRotaProposal([task(1, 9)], [cleaner(1), cleaner(2, { propertyVisits: { 1: 4 } })]);
+    expect(proposal.assignments[0].cleanerId).toBe(2);
+    expect(proposal.assignments[0].reasons).toContain('Has cleaned this property 4 times recently');
+  });
+
+  it('should prefer the cleaner already working nearby', () => {
+    const nearby = { latitude: 51.52, longitude: -0.16 };
+    const farAway = { latitude: 51.75, longitude: -1.26 };
+    const proposal = buildRotaProposal([task(1, 12)], [
+      cleaner(1, { bookings: [{ taskId: 8, propertyId: 2, location: farAway, start: monday(9), end: monday(11) }] }),
+      cleaner(2, { bookings: [{ taskId: 9, propertyId: 3, location: nearby, start: monday(9), end: monday(11) }] }),
+    ]);
+    expect(proposal.assignments[0].cleanerId).toBe(2);
+  });
+
+  it('should list tasks nobody can take with the reason for each cleaner', () => {
+    const proposal = buildRotaProposal(
+      [task(1, 9, { requiredSkills: [{ id: 7, name: 'Deep clean' }] })],
+      [cleaner(1)]
+    );
+    expect(proposal.assignments).toEqual([]);
+    expect(proposal.unplaced[0].reasons).toEqual(['Cleaner 1: missing required skills: Deep clean']);
+  });
+});
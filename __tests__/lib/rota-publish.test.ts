@@ -0,0 +1,52 @@
+import { diffRotaSnapshots, parseRotaSnapshot, RotaSnapshotEntry } from '@/lib/rota-publish';
+
+const job = (taskId: number, cleanerId: number, scheduledDate = '2025-03-03T09:00:00.000Z', durationMinutes = 120): RotaSnapshotEntry => ({
+  taskId,
+  cleanerId,
+  scheduledDate,
+  durationMinutes,
+  title: `Task ${taskId}`,
+  address: null,
+});
+
+describe('Rota publishing', () => {
+  it('should treat everything as added on the first publish', () => {
+    expect(diffRotaSnapshots([], [job(1, 10), job(2, 10), job(3, 11)])).toEqual([
+      { cleanerId: 10, added: [job(1, 10), job(2, 10)], removed: [], moved: [] },
+      { cleanerId: 11, added: [job(3, 11)], removed: [], moved: [] },
+    ]);
+  });
+
+  it('should list only each cleaner\'s added, removed and moved jobs', () => {
+    const previous = [job(1, 10), job(2, 10), job(3, 11), job(4, 12)];
+    const current = [
+      job(1, 10), // unchanged
+      job(2, 11), // reassigned from 10 to 11
+      job(3, 11, '2025-03-04T09:00:00.000Z'), // moved a day
+      job(5, 12), // new
+    ]; // 4 unassigned or cancelled
+
+    expect(diffRotaSnapshots(previous, current)).toEqual([
+      { cleanerId: 10, added: [], removed: [job(2, 10)], moved: [] },
+      { cleanerId: 11, added: [job(2, 11)], removed: [], moved: [{ before: job(3, 11), after: job(3, 11, '2025-03-04T09:00:00.000Z') }] },
+      { cleanerId: 12, added: [job(5, 12)], removed: [job(4, 12)], moved: [] },
+    ]);
+  });
+
+  it('should tell co-cleaners about their own changes', () => {
+    const previous = [job(1, 10), job(1, 11)];
+    const current = [job(1, 10, '2025-03-03T10:00:00.000Z'), job(1, 12, '2025-03-03T10:00:00.000Z')]; // 11 swapped for 12
+
+    expect(diffRotaSnapshots(previous, current)).toEqual([
+      { cleanerId: 10, added: [], removed: [], moved: [{ before: job(1, 10), after: job(1, 10, '2025-03-03T10:00:00.000Z') }] },
+      { cleanerId: 11, added: [], removed: [job(1, 11)], moved: [] },
+      { cleanerId: 12, added: [job(1, 12, '2025-03-03T10:00:00.000Z')], removed: [], moved: [] },
+    ]);
+  });
+
+  it('should report no changes for an unchanged week and count resizes as moves', () => {
+    expect(diffRotaSnapshots([job(1, 10)], [job(1, 10)])).toEqual([]);
+    expect(diffRotaSnapshots([job(1, 10)], [job(1, 10, undefined, 90)])[0].moved).toHaveLength(1);
+    expect(parseRotaSnapshot('not json')).toEqual([]);
+  });
+});
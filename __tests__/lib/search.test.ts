@@ -0,0 +1,31 @@
+import { clampSearchLimit, parseSearchTypes, searchResultHref, SEARCH_ENTITY_TYPES, toPrefixTsQuery } from '@/lib/search';
+
+describe('Search', () => {
+  it('should build a prefix tsquery from free text', () => {
+    expect(toPrefixTsQuery('Baker Street boiler')).toBe('baker:* & street:* & boiler:*');
+    expect(toPrefixTsQuery('NW1 6XE')).toBe('nw1:* & 6xe:*');
+  });
+
+  it('should strip tsquery operators from user input', () => {
+    expect(toPrefixTsQuery("boiler & !leak | 'x':*")).toBe('boiler:* & leak:* & x:*');
+    expect(toPrefixTsQuery('  &|!  ')).toBeNull();
+  });
+
+  it('should ignore unknown types and default to every type', () => {
+    expect(parseSearchTypes('task,issue,bogus')).toEqual(['task', 'issue']);
+    expect(parseSearchTypes('bogus')).toEqual(SEARCH_ENTITY_TYPES);
+    expect(parseSearchTypes(null)).toEqual(SEARCH_ENTITY_TYPES);
+  });
+
+  it('should clamp the result limit', () => {
+    expect(clampSearchLimit(null)).toBe(20);
+    expect(clampSearchLimit('5')).toBe(5);
+    expect(clampSearchLimit('500')).toBe(50);
+    expect(clampSearchLimit('-1')).toBe(20);
+  });
+
+  it('should link messages to their task when they have one', () => {
+    expect(searchResultHref('message', 3, 42)).toBe('/admin/tasks?taskId=42');
+    expect(searchResultHref('task', 42)).toBe('/admin/tasks?taskId=42');
+  });
+});
@@ -0,0 +1,51 @@
+import { TaskStatus } from '@prisma/client';
+import { getAssigneeIds, swapAssignment, swapResponseError, swapTaskError } from '@/lib/shift-swaps';
+
+const now = new Date('2025-03-01T08:00:00Z');
+const task = {
+  id: 1,
+  companyId: 1,
+  status: TaskStatus.ASSIGNED,
+  scheduledDate: new Date('2025-03-02T10:00:00Z'),
+  assignedUserId: 10,
+  taskAssignments: [{ userId: 10 }, { userId: 11 }],
+};
+
+describe('Shift swaps', () => {
+  it('should collect assignees from the task and its assignment rows', () => {
+    expect(getAssigneeIds(task).sort()).toEqual([10, 11]);
+    expect(getAssigneeIds({ assignedUserId: 12, taskAssignments: [] })).toEqual([12]);
+  });
+
+  describe('swapTaskError', () => {
+    it('should allow assignees to offer upcoming tasks', () => {
+      expect(swapTaskError(task, 11, now)).toBeNull();
+    });
+
+    it('should reject tasks the requester is not on, started tasks and past tasks', () => {
+      expect(swapTaskError(task, 99, now)).toBe('You are not assigned to this task');
+      expect(swapTaskError({ ...task, status: TaskStatus.IN_PROGRESS }, 10, now)).toBe('Cannot swap a task that is IN_PROGRESS');
+      expect(swapTaskError(task, 10, new Date('2025-03-02T11:00:00Z'))).toBe('Cannot swap a task that has already started');
+    });
+  });
+
+  describe('swapResponseError', () => {
+    const swap = { status: 'pending', requesterId: 10, targetUserId: null };
+
+    it('should let any other cleaner take an open offer', () => {
+      expect(swapResponseError(swap, 20, [10, 11])).toBeNull();
+      expect(swapResponseError(swap, 11, [10, 11])).toBe('You are already assigned to this task');
+      expect(swapResponseError(swap, 10, [10, 11])).toBe('You cannot respond to your own request');
+    });
+
+    it('should restrict named offers and decided requests', () => {
+      expect(swapResponseError({ ...swap, targetUserId: 20 }, 21, [10])).toBe('This request was offered to someone else');
+      expect(swapResponseError({ ...swap, status: 'accepted' }, 20, [10])).toBe('This request is already accepted');
+    });
+  });
+
+  it('should hand the requester\'s place to the colleague', () => {
+    expect(swapAssignment(task, 10, 20)).toEqual({ assignedUserId: 20, assigneeIds: [20, 11] });
+    expect(swapAssignment(task, 11, 20)).toEqual({ assignedUserId: 10, assigneeIds: [10, 20] });
+  });
+});
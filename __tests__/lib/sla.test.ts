@@ -0,0 +1,58 @@
+import { TaskStatus } from '@prisma/client';
+import { evaluateSla, nextEscalationLevel, shiftDeadline, summarizeSlaCompliance } from '@/lib/sla';
+
+const dueBy = new Date('2025-03-01T15:00:00Z');
+const minutesBefore = (minutes: number) => new Date(dueBy.getTime() - minutes * 60000);
+
+describe('Task SLA', () => {
+  describe('evaluateSla', () => {
+    it('should flag tasks not started within the start warning window', () => {
+      const task = { status: TaskStatus.ASSIGNED, startedAt: null, dueBy };
+      expect(evaluateSla(task, minutesBefore(180))).toBeNull();
+      expect(evaluateSla(task, minutesBefore(90))).toBe('not_started');
+    });
+
+    it('should flag in-progress tasks close to the deadline', () => {
+      const task = { status: TaskStatus.IN_PROGRESS, startedAt: minutesBefore(120), dueBy };
+      expect(evaluateSla(task, minutesBefore(60))).toBeNull();
+      expect(evaluateSla(task, minutesBefore(20))).toBe('at_risk');
+    });
+
+    it('should report missed deadlines and ignore submitted tasks', () => {
+      expect(evaluateSla({ status: TaskStatus.IN_PROGRESS, startedAt: null, dueBy }, minutesBefore(-1))).toBe('missed');
+      expect(evaluateSla({ status: TaskStatus.SUBMITTED, startedAt: null, dueBy }, minutesBefore(-1))).toBeNull();
+      expect(evaluateSla({ status: TaskStatus.ASSIGNED, startedAt: null, dueBy: null }, minutesBefore(0))).toBeNull();
+    });
+  });
+
+  describe('nextEscalationLevel', () => {
+    const now = new Date('2025-03-01T14:00:00Z');
+
+    it('should notify the cleaner straight away and wait between later levels', () => {
+      expect(nextEscalationLevel({ escalationLevel: 0, lastEscalatedAt: null }, now)).toBe(1);
+      expect(nextEscalationLevel({ escalationLevel: 1, lastEscalatedAt: new Date(now.getTime() - 10 * 60000) }, now)).toBeNull();
+      expect(nextEscalationLevel({ escalationLevel: 1, lastEscalatedAt: new Date(now.getTime() - 30 * 60000) }, now)).toBe(2);
+    });
+
+    it('should stop after the company admin level', () => {
+      expect(nextEscalationLevel({ escalationLevel: 3, lastEscalatedAt: new Date(0) }, now)).toBeNull();
+    });
+  });
+
+  it('should keep a deadline at the same offset from a copied start', () => {
+    const source = { scheduledDate: new Date('2025-03-01T10:00:00Z'), dueBy };
+    expect(shiftDeadline(source, new Date('2025-03-08T10:00:00Z'))).toEqual(new Date('2025-03-08T15:00:00Z'));
+    expect(shiftDeadline({ ...source, dueBy: null }, new Date())).toBeNull();
+  });
+
+  it('should summarize compliance from submission times', () => {
+    const summary = summarizeSlaCompliance([
+      { dueBy, submittedAt: minutesBefore(10), completedAt: null },
+      { dueBy, submittedAt: minutesBefore(-5), completedAt: null },
+      { dueBy, submittedAt: null, completedAt: null },
+      { dueBy: null, submittedAt: null, completedAt: null },
+    ], minutesBefore(-60));
+
+    expect(summary).toEqual({ tasksWithDeadline: 3, met: 1, missed: 2, pending: 0, complianceRate: 33.3 });
+  });
+});
@@ -0,0 +1,22 @@
+import { parseBulkOperation } from '@/lib/task-bulk';
+
+describe('Bulk Task Operations', () => {
+  describe('parseBulkOperation', () => {
+    it('should parse assign with replace by default', () => {
+      expect(parseBulkOperation({ operation: 'assign', userIds: ['3', 4] }).operation)
+        .toEqual({ type: 'assign', userIds: [3, 4], replace: true });
+    });
+
+    it('should require users to assign and a non-zero shift', () => {
+      expect(parseBulkOperation({ operation: 'assign', userIds: [] }).error).toBeDefined();
+      expect(parseBulkOperation({ operation: 'shift_date', days: 0 }).error).toBeDefined();
+      expect(parseBulkOperation({ operation: 'shift_date', days: -1 }).operation)
+        .toEqual({ type: 'shift_date', days: -1, minutes: 0 });
+    });
+
+    it('should reject unknown operations and statuses', () => {
+      expect(parseBulkOperation({ operation: 'explode' }).error).toBeDefined();
+      expect(parseBulkOperation({ operation: 'change_status', status: 'DONE' }).error).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  DEFAULT_CANCELLATION_REASONS,
+  computeCancellationCharges,
+  parseCancellationPolicy,
+  parseCancellationReasons,
+  validateCancellationPolicy,
+  validateCancellationReasons,
+} from '@/lib/task-cancellation';
+
+const now = new Date('2025-03-01T08:00:00Z');
+const task = { scheduledDate: new Date('2025-03-01T20:00:00Z'), estimatedDurationMinutes: 180 };
+const policy = [
+  { maxNoticeHours: 24, fee: 40, compensationPercent: 50 },
+  { maxNoticeHours: 4, fee: 80, compensationPercent: 100 },
+];
+const clientCancelled = DEFAULT_CANCELLATION_REASONS[0];
+const weather = DEFAULT_CANCELLATION_REASONS.find(r => r.code === 'weather')!;
+
+describe('Task cancellation', () => {
+  it('should apply the smallest tier above the notice given', () => {
+    expect(computeCancellationCharges(task, clientCancelled, policy, now)).toMatchObject({
+      noticeHours: 12,
+      fee: 40,
+      compensationMinutes: 90,
+    });
+    const lastMinute = { ...task, scheduledDate: new Date('2025-03-01T10:00:00Z') };
+    expect(computeCancellationCharges(lastMinute, clientCancelled, policy, now)).toMatchObject({ fee: 80, compensationMinutes: 180 });
+  });
+
+  it('should charge nothing with enough notice, no schedule or no policy', () => {
+    const nextWeek = { ...task, scheduledDate: new Date('2025-03-08T08:00:00Z') };
+    expect(computeCancellationCharges(nextWeek, clientCancelled, policy, now)).toMatchObject({ fee: 0, compensationMinutes: 0, tier: null });
+    expect(computeCancellationCharges({ ...task, scheduledDate: null }, clientCancelled, policy, now).noticeHours).toBeNull();
+    expect(computeCancellationCharges(task, clientCancelled, [], now).fee).toBe(0);
+  });
+
+  it('should let the reason code waive the client fee', () => {
+    expect(computeCancellationCharges(task, weather, policy, now)).toMatchObject({ fee: 0, compensationMinutes: 90 });
+  });
+
+  it('should validate reason codes and policy tiers', () => {
+    expect(validateCancellationReasons([]).error).toBeDefined();
+    expect(validateCancellationReasons([{ code: 'Bad Code', label: 'x' }]).error).toBeDefined();
+    expect(validateCancellationReasons([{ code: 'snow', label: 'Snow', chargeClient: false }]).reasons).toEqual([
+      { code: 'snow', label: 'Snow', chargeClient: false, compensateCleaner: true },
+    ]);
+    expect(validateCancellationPolicy([{ maxNoticeHours: 24, fee: -1 }]).error).toBeDefined();
+    expect(validateCancellationPolicy([{ maxNoticeHours: 24, compensationPercent: 150 }]).error).toBeDefined();
+    expect(validateCancellationPolicy(policy).policy?.map(t => t.maxNoticeHours)).toEqual([4, 24]);
+  });
+
+  it('should fall back to defaults when stored settings are missing or invalid', () => {
+    expect(parseCancellationReasons(null)).toBe(DEFAULT_CANCELLATION_REASONS);
+    expect(parseCancellationReasons('not json')).toBe(DEFAULT_CANCELLATION_REASONS);
+    expect(parseCancellationPolicy(null)).toEqual([]);
+    expect(parseCancellationPolicy('[{"maxNoticeHours":0}]')).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { isDependencySatisfied, orderByDependencies } from '@/lib/task-dependencies';
+import { TaskStatus } from '@prisma/client';
+
+describe('Task Dependencies', () => {
+  describe('orderByDependencies', () => {
+    it('should put predecessors before their successors', () => {
+      const edges = [
+        { taskId: 3, dependsOnTaskId: 2 },
+        { taskId: 2, dependsOnTaskId: 1 },
+      ];
+      expect(orderByDependencies([3, 2, 1], edges)).toEqual([1, 2, 3]);
+    });
+
+    it('should keep input order for independent tasks', () => {
+      expect(orderByDependencies([5, 4, 6], [{ taskId: 6, dependsOnTaskId: 4 }])).toEqual([5, 4, 6]);
+    });
+
+    it('should append tasks caught in a cycle', () => {
+      const edges = [
+        { taskId: 2, dependsOnTaskId: 3 },
+        { taskId: 3, dependsOnTaskId: 2 },
+      ];
+      expect(orderByDependencies([1, 2, 3], edges)).toEqual([1, 2, 3]);
+    });
+  });
+
+  it('should only release successors once a predecessor is submitted', () => {
+    expect(isDependencySatisfied(TaskStatus.IN_PROGRESS)).toBe(false);
+    expect(isDependencySatisfied(TaskStatus.SUBMITTED)).toBe(true);
+    expect(isDependencySatisfied(TaskStatus.APPROVED)).toBe(true);
+    expect(isDependencySatisfied(TaskStatus.ARCHIVED)).toBe(true);
+    expect(isDependencySatisfied(TaskStatus.CANCELLED)).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+import { assignmentStatus, canTransition, evaluateTransition, getAllowedTransitions } from '@/lib/task-lifecycle';
+import { TaskStatus, UserRole } from '@prisma/client';
+
+const baseContext = {
+  role: UserRole.MANAGER,
+  checklistAcknowledged: true,
+  photoCount: 20,
+  requiredPhotoCount: 20,
+  incompleteRequiredItems: 0,
+  qaScoreCount: 1,
+  reason: null,
+};
+
+describe('Task Lifecycle', () => {
+  describe('canTransition', () => {
+    it('should allow forward moves defined in the table', () => {
+      expect(canTransition(TaskStatus.DRAFT, TaskStatus.PLANNED)).toBe(true);
+      expect(canTransition(TaskStatus.SUBMITTED, TaskStatus.APPROVED)).toBe(true);
+    });
+
+    it('should block skipping straight from DRAFT to APPROVED', () => {
+      expect(canTransition(TaskStatus.DRAFT, TaskStatus.APPROVED)).toBe(false);
+    });
+
+    it('should treat ARCHIVED as terminal', () => {
+      expect(getAllowedTransitions(TaskStatus.ARCHIVED)).toEqual([]);
+    });
+  });
+
+  describe('evaluateTransition', () => {
+    it('should restrict cleaners to starting and submitting', () => {
+      const result = evaluateTransition(TaskStatus.SUBMITTED, TaskStatus.APPROVED, { ...baseContext, role: UserRole.CLEANER });
+      expect(result.allowed).toBe(false);
+      expect(result.httpStatus).toBe(403);
+    });
+
+    it('should require checklist acknowledgement before IN_PROGRESS', () => {
+      const result = evaluateTransition(TaskStatus.ASSIGNED, TaskStatus.IN_PROGRESS, { ...baseContext, checklistAcknowledged: false });
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should block IN_PROGRESS while predecessor stages are unfinished', () => {
+      const result = evaluateTransition(TaskStatus.ASSIGNED, TaskStatus.IN_PROGRESS, { ...baseContext, blockingPredecessors: ['Strip linen'] });
+      expect(result.allowed).toBe(false);
+      expect(result.httpStatus).toBe(409);
+      expect(result.reason).toContain('Strip linen');
+    });
+
+    it('should require every required checklist item before SUBMITTED', () => {
+      const result = evaluateTransition(TaskStatus.IN_PROGRESS, TaskStatus.SUBMITTED, { ...baseContext, incompleteRequiredItems: 2 });
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('2 required checklist item(s)');
+      expect(evaluateTransition(TaskStatus.IN_PROGRESS, TaskStatus.SUBMITTED, baseContext).allowed).toBe(true);
+    });
+
+    it('should require the minimum photo count before SUBMITTED', () => {
+      const result = evaluateTransition(TaskStatus.IN_PROGRESS, TaskStatus.SUBMITTED, { ...baseContext, photoCount: 5 });
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('20 photos');
+    });
+
+    it('should require a QA score before APPROVED', () => {
+      const result = evaluateTransition(TaskStatus.QA_REVIEW, TaskStatus.APPROVED, { ...baseContext, qaScoreCount: 0 });
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should require a reason before REJECTED', () => {
+      expect(evaluateTransition(TaskStatus.QA_REVIEW, TaskStatus.REJECTED, baseContext).allowed).toBe(false);
+      expect(evaluateTransition(TaskStatus.QA_REVIEW, TaskStatus.REJECTED, { ...baseContext, reason: 'Bathroom missed' }).allowed).toBe(true);
+    });
+
+    it('should require a reason code before CANCELLED', () => {
+      expect(evaluateTransition(TaskStatus.ASSIGNED, TaskStatus.CANCELLED, baseContext).allowed).toBe(false);
+      expect(evaluateTransition(TaskStatus.ASSIGNED, TaskStatus.CANCELLED, { ...baseContext, cancellationReasonCode: 'weather' }).allowed).toBe(true);
+      expect(evaluateTransition(TaskStatus.SUBMITTED, TaskStatus.CANCELLED, { ...baseContext, cancellationReasonCode: 'weather' }).allowed).toBe(false);
+    });
+  });
+
+  describe('assignmentStatus', () => {
+    it('should move between PLANNED and ASSIGNED and leave work in progress alone', () => {
+      expect(assignmentStatus(TaskStatus.DRAFT, true)).toBe(TaskStatus.ASSIGNED);
+      expect(assignmentStatus(TaskStatus.PLANNED, true)).toBe(TaskStatus.ASSIGNED);
+      expect(assignmentStatus(TaskStatus.ASSIGNED, false)).toBe(TaskStatus.PLANNED);
+      expect(assignmentStatus(TaskStatus.DRAFT, false)).toBe(TaskStatus.DRAFT);
+      expect(assignmentStatus(TaskStatus.IN_PROGRESS, true)).toBe(TaskStatus.IN_PROGRESS);
+    });
+  });
+});
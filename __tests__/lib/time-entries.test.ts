@@ -0,0 +1,78 @@
+import {
+  checkClockLocation,
+  closedBreakMinutes,
+  effectiveTaskMinutes,
+  parseTimeEntryCorrection,
+  workedMinutes,
+} from '@/lib/time-entries';
+
+const clockInAt = new Date('2025-03-01T09:00:00Z');
+const minutesAfter = (minutes: number) => new Date(clockInAt.getTime() + minutes * 60000);
+
+describe('Time entries', () => {
+  describe('workedMinutes', () => {
+    it('should subtract completed breaks from a closed entry', () => {
+      const entry = { clockInAt, clockOutAt: minutesAfter(150), breakMinutes: 20, breakStartedAt: null };
+      expect(workedMinutes(entry)).toBe(130);
+    });
+
+    it('should count an open entry up to now, excluding a break in progress', () => {
+      const entry = { clockInAt, clockOutAt: null, breakMinutes: 10, breakStartedAt: minutesAfter(60) };
+      expect(workedMinutes(entry, minutesAfter(90))).toBe(50);
+    });
+
+    it('should add a break in progress when the entry is closed', () => {
+      expect(closedBreakMinutes({ breakMinutes: 10, breakStartedAt: minutesAfter(60) }, minutesAfter(90))).toBe(40);
+      expect(closedBreakMinutes({ breakMinutes: 10, breakStartedAt: null }, minutesAfter(90))).toBe(10);
+    });
+  });
+
+  it('should use worked time once clocked out and the estimate until then', () => {
+    expect(effectiveTaskMinutes(120, undefined)).toBe(120);
+    expect(effectiveTaskMinutes(120, { minutes: 95, open: false })).toBe(95);
+    expect(effectiveTaskMinutes(120, { minutes: 30, open: true })).toBe(120);
+    expect(effectiveTaskMinutes(120, { minutes: 150, open: true })).toBe(150);
+  });
+
+  describe('checkClockLocation', () => {
+    const property = { latitude: 51.5074, longitude: -0.1278 };
+
+    it('should record whether the location is within the geofence', () => {
+      expect(checkClockLocation({ latitude: 51.5074, longitude: -0.1278 }, property, 150).withinGeofence).toBe(true);
+      const far = checkClockLocation({ latitude: 51.52, longitude: -0.1278 }, property, 150);
+      expect(far.withinGeofence).toBe(false);
+      expect(far.distance).toBeGreaterThan(150);
+    });
+
+    it('should return a null result when coordinates are missing', () => {
+      expect(checkClockLocation(null, property, 150).withinGeofence).toBeNull();
+      expect(checkClockLocation({ latitude: 51.5, longitude: -0.1 }, { latitude: null, longitude: null }, 150))
+        .toEqual({ latitude: 51.5, longitude: -0.1, distance: null, withinGeofence: null });
+    });
+  });
+
+  describe('parseTimeEntryCorrection', () => {
+    const current = { clockInAt, clockOutAt: minutesAfter(120) };
+
+    it('should require a reason', () => {
+      expect(parseTimeEntryCorrection({ breakMinutes: 10 }, current).error).toBeDefined();
+    });
+
+    it('should reject a clock-out before the clock-in', () => {
+      const result = parseTimeEntryCorrection({ clockOutAt: minutesAfter(-10).toISOString(), reason: 'Typo' }, current);
+      expect(result.error).toBe('clockOutAt must be after clockInAt');
+    });
+
+    it('should reject breaks longer than the time clocked', () => {
+      expect(parseTimeEntryCorrection({ breakMinutes: 120, reason: 'Long lunch' }, current).error).toBeDefined();
+    });
+
+    it('should parse valid corrections', () => {
+      const result = parseTimeEntryCorrection(
+        { clockOutAt: minutesAfter(90).toISOString(), breakMinutes: 15, reason: 'Forgot to clock out' },
+        current
+      );
+      expect(result.correction).toEqual({ clockOutAt: minutesAfter(90), breakMinutes: 15, reason: 'Forgot to clock out' });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  addZonedDays,
+  formatZonedTime,
+  getZonedDayRange,
+  getZonedMonthRange,
+  getZonedPeriod,
+  getZonedWeekBounds,
+  toLocalDateKey,
+} from '@/lib/timezone';
+import { getReminderTime, isReminderDue } from '@/lib/notifications';
+
+const LONDON = 'Europe/London';
+const HOUR = 60 * 60 * 1000;
+
+describe('Timezone', () => {
+  describe('DST transitions (Europe/London)', () => {
+    it('should give 23 and 25 hour days when the clocks change', () => {
+      const spring = getZonedDayRange({ year: 2025, month: 3, day: 30 }, LONDON);
+      expect(spring.start.toISOString()).toBe('2025-03-30T00:00:00.000Z');
+      expect(spring.end.getTime() + 1 - spring.start.getTime()).toBe(23 * HOUR);
+
+      const autumn = getZonedDayRange({ year: 2025, month: 10, day: 26 }, LONDON);
+      expect(autumn.start.toISOString()).toBe('2025-10-25T23:00:00.000Z');
+      expect(autumn.end.getTime() + 1 - autumn.start.getTime()).toBe(25 * HOUR);
+    });
+
+    it('should bound weeks at local midnight on either side of a change', () => {
+      // Wednesday 2 April 2025 (BST); the week started on Sunday 30 March in GMT
+      const { weekStart, weekEnd } = getZonedWeekBounds(new Date('2025-04-02T12:00:00Z'), LONDON);
+      expect(weekStart.toISOString()).toBe('2025-03-30T00:00:00.000Z');
+      expect(weekEnd.toISOString()).toBe('2025-04-05T22:59:59.999Z');
+
+      // Saturday 1 November 2025 (GMT); the week started on Sunday 26 October in BST
+      const autumn = getZonedWeekBounds(new Date('2025-11-01T12:00:00Z'), LONDON);
+      expect(autumn.weekStart.toISOString()).toBe('2025-10-25T23:00:00.000Z');
+      expect(autumn.weekEnd.toISOString()).toBe('2025-11-01T23:59:59.999Z');
+    });
+
+    it('should keep the wall-clock time when adding days across a change', () => {
+      const saturdayNine = new Date('2025-03-29T09:00:00Z'); // 09:00 GMT
+      const sundayNine = addZonedDays(saturdayNine, 1, LONDON);
+      expect(sundayNine.toISOString()).toBe('2025-03-30T08:00:00.000Z'); // 09:00 BST
+      expect(formatZonedTime(sundayNine, LONDON)).toBe('09:00');
+      expect(addZonedDays(sundayNine, -1, LONDON).toISOString()).toBe(saturdayNine.toISOString());
+    });
+
+    it('should assign late-evening instants to the local date', () => {
+      expect(toLocalDateKey(new Date('2025-07-01T23:30:00Z'), LONDON)).toBe('2025-07-02');
+      expect(toLocalDateKey(new Date('2025-12-01T23:30:00Z'), LONDON)).toBe('2025-12-01');
+    });
+  });
+
+  describe('periods', () => {
+    it('should span whole local days for payroll periods', () => {
+      const period = getZonedPeriod('2025-03-24', '2025-03-30', LONDON);
+      expect(period?.periodStart.toISOString()).toBe('2025-03-24T00:00:00.000Z');
+      expect(period?.periodEnd.toISOString()).toBe('2025-03-30T22:59:59.999Z');
+      expect(getZonedPeriod('2025-03-24T10:00:00.000Z', '2025-03-30', LONDON)?.periodStart)
+        .toEqual(period?.periodStart);
+      expect(getZonedPeriod('24/03/2025', '2025-03-30', LONDON)).toBeNull();
+    });
+
+    it('should span local calendar months', () => {
+      const october = getZonedMonthRange(2025, 10, LONDON);
+      expect(october.start.toISOString()).toBe('2025-09-30T23:00:00.000Z');
+      expect(october.end.toISOString()).toBe('2025-10-31T23:59:59.999Z');
+      expect(getZonedMonthRange(2025, 12, 'UTC').end.toISOString()).toBe('2025-12-31T23:59:59.999Z');
+    });
+  });
+
+  describe('reminders', () => {
+    it('should send 24h reminders at the same local time the day before', () => {
+      // Task at 09:00 BST on Sunday 30 March; the reminder is 09:00 GMT on Saturday, 23 hours earlier
+      const task = new Date('2025-03-30T08:00:00Z');
+      expect(getReminderTime(task, 24, LONDON).toISOString()).toBe('2025-03-29T09:00:00.000Z');
+      expect(getReminderTime(task, 1, LONDON).toISOString()).toBe('2025-03-30T07:00:00.000Z');
+    });
+
+    it('should fall into exactly one hourly run', () => {
+      const task = new Date('2025-03-30T08:00:00Z');
+      expect(isReminderDue(task, 24, new Date('2025-03-29T09:00:00Z'), LONDON)).toBe(true);
+      expect(isReminderDue(task, 24, new Date('2025-03-29T08:00:00Z'), LONDON)).toBe(false);
+      expect(isReminderDue(task, 24, new Date('2025-03-29T10:00:00Z'), LONDON)).toBe(false);
+      expect(isReminderDue(task, 1, new Date('2025-03-30T06:45:00Z'), LONDON)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  estimateTravelMinutes,
+  getTravelEstimate,
+  setTravelTimeProvider,
+  travelShortfallMinutes,
+} from '@/lib/travel-time';
+import { averageDurationMinutes } from '@/lib/rota-conflicts';
+
+// About 20 km apart, straight line
+const camden = { latitude: 51.539, longitude: -0.1426 };
+const croydon = { latitude: 51.3762, longitude: -0.0982 };
+
+describe('Travel time', () => {
+  afterEach(() => setTravelTimeProvider(null));
+
+  it('should estimate straight-line travel at the average speed', () => {
+    expect(estimateTravelMinutes(camden, croydon, 30)).toBe(37);
+    expect(estimateTravelMinutes(camden, croydon, 60)).toBe(19);
+    expect(estimateTravelMinutes(camden, camden, 30)).toBe(0);
+  });
+
+  it('should report how far short the gap between jobs is', () => {
+    const end = new Date('2025-03-03T10:00:00Z');
+    expect(travelShortfallMinutes(end, new Date('2025-03-03T10:00:00Z'), 40)).toBe(40);
+    expect(travelShortfallMinutes(end, new Date('2025-03-03T10:30:00Z'), 40)).toBe(10);
+    expect(travelShortfallMinutes(end, new Date('2025-03-03T11:00:00Z'), 40)).toBe(0);
+  });
+
+  it('should use a routing provider and fall back when it has no answer', async () => {
+    setTravelTimeProvider({ name: 'routes', estimateMinutes: async () => 52.2 });
+    expect(await getTravelEstimate(camden, croydon)).toMatchObject({ minutes: 53, source: 'routes' });
+
+    setTravelTimeProvider({ name: 'routes', estimateMinutes: async () => null });
+    expect(await getTravelEstimate(camden, croydon, 30)).toMatchObject({ minutes: 37, source: 'straight_line' });
+  });
+
+  it('should average completed durations at a property', () => {
+    const at = (iso: string) => new Date(`2025-03-03T${iso}:00Z`);
+    expect(averageDurationMinutes([
+      { startedAt: at('09:00'), completedAt: at('10:30') },
+      { startedAt: at('09:00'), completedAt: at('10:00') },
+      { startedAt: at('09:00'), completedAt: null },
+    ])).toBe(75);
+    expect(averageDurationMinutes([])).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+import { TaskStatus } from '@prisma/client';
+import { cloneSkipReason, consecutiveWeeks, localDaysBetween } from '@/lib/week-clone';
+
+const task = (overrides: Partial<Parameters<typeof cloneSkipReason>[0]> = {}) => ({
+  status: TaskStatus.ASSIGNED,
+  isRecurring: false,
+  parentTaskId: null,
+  scheduledDate: new Date('2025-03-03T09:00:00Z'),
+  ...overrides,
+});
+
+describe('Week cloning', () => {
+  it('should copy only live one-off jobs', () => {
+    expect(cloneSkipReason(task())).toBeNull();
+    expect(cloneSkipReason(task({ status: TaskStatus.CANCELLED }))).toBe('Cancelled');
+    expect(cloneSkipReason(task({ status: TaskStatus.ARCHIVED }))).toBe('Archived');
+    expect(cloneSkipReason(task({ isRecurring: true }))).toBe('Covered by a recurring series');
+    expect(cloneSkipReason(task({ parentTaskId: 7 }))).toBe('Covered by a recurring series');
+    expect(cloneSkipReason(task({ scheduledDate: null }))).toBe('Not scheduled');
+  });
+
+  it('should work out target weeks as local dates', () => {
+    const monday = { year: 2025, month: 3, day: 24 };
+    expect(consecutiveWeeks(monday, 3)).toEqual([
+      { year: 2025, month: 3, day: 24 },
+      { year: 2025, month: 3, day: 31 },
+      { year: 2025, month: 4, day: 7 },
+    ]);
+    // Across the clocks going forward, a week is still 7 days
+    expect(localDaysBetween(monday, { year: 2025, month: 3, day: 31 })).toBe(7);
+    expect(localDaysBetween(monday, { year: 2025, month: 3, day: 17 })).toBe(-7);
+  });
+});
@@ -4,21 +4,85 @@ import { useState, useEffect } from "react"
 import axios from "axios"
 import AdminLayout from "@/components/AdminLayout"
 
+const ITEM_TYPES = [
+  { value: "tick", label: "Tick" },
+  { value: "photo", label: "Photo" },
+  { value: "yes_no", label: "Yes / No" },
+  { value: "numeric", label: "Reading" },
+  { value: "text", label: "Text" },
+]
+
+const PROPERTY_TYPES = ["block", "apartment", "hmo"]
+
+// Limits an item to matching properties; evaluated when a task's checklist is created
+interface ChecklistItemConditions {
+  propertyTypes?: string[]
+  minUnits?: number
+  maxUnits?: number
+  tags?: string[]
+  skillIds?: number[]
+}
+
+interface ChecklistItemDefinition {
+  title: string
+  type: string
+  unit?: string | null
+  required?: boolean
+  conditions?: ChecklistItemConditions
+}
+
+interface Skill {
+  id: number
+  name: string
+}
+
 interface ChecklistTemplate {
   id: number
   name: string
   description?: string
-  items: string[]
+  items: ChecklistItemDefinition[]
+  currentVersion: number
   isDefault: boolean
   createdAt: string
 }
 
+const describeConditions = (conditions?: ChecklistItemConditions, skills: Skill[] = []) => {
+  if (!conditions) return ""
+  const parts: string[] = []
+  if (conditions.propertyTypes?.length) parts.push(conditions.propertyTypes.join("/"))
+  if (conditions.minUnits !== undefined || conditions.maxUnits !== undefined) {
+    parts.push(`${conditions.minUnits ?? 0}${conditions.maxUnits !== undefined ? `-${conditions.maxUnits}` : "+"} units`)
+  }
+  if (conditions.tags?.length) parts.push(`tag: ${conditions.tags.join(" or ")}`)
+  if (conditions.skillIds?.length) {
+    parts.push(`skill: ${conditions.skillIds.map((id) => skills.find((s) => s.id === id)?.name || `#${id}`).join(" or ")}`)
+  }
+  return parts.join(", ")
+}
+
+// Drop empty condition fields so unconditional items are saved without conditions
+const cleanConditions = (conditions?: ChecklistItemConditions): ChecklistItemConditions | undefined => {
+  if (!conditions) return undefined
+  const cleaned: ChecklistItemConditions = {}
+  if (conditions.propertyTypes?.length) cleaned.propertyTypes = conditions.propertyTypes
+  if (conditions.minUnits !== undefined && !Number.isNaN(conditions.minUnits)) cleaned.minUnits = conditions.minUnits
+  if (conditions.maxUnits !== undefined && !Number.isNaN(conditions.maxUnits)) cleaned.maxUnits = conditions.maxUnits
+  if (conditions.tags?.length) cleaned.tags = conditions.tags
+  if (conditions.skillIds?.length) cleaned.skillIds = conditions.skillIds
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined
+}
+
+// Templates saved before item types existed store plain titles
+const toDefinition = (item: string | ChecklistItemDefinition): ChecklistItemDefinition =>
+  typeof item === "string" ? { title: item, type: "tick", required: true } : { type: "tick", ...item }
+
 export default function ChecklistTemplatesPage() {
   const [templates, setTemplates] = useState<ChecklistTemplate[]>([])
   const [loading, setLoading] = useState(true)
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [selectedTemplate, setSelectedTemplate] = useState<ChecklistTemplate | null>(null)
   const [showEditModal, setShowEditModal] = useState(false)
+  const [historyTemplate, setHistoryTemplate] = useState<ChecklistTemplate | null>(null)
 
   useEffect(() => {
     loadTemplates()
@@ -35,7 +99,7 @@ export default function ChecklistTemplatesPage() {
       if (response.data.success) {
         const templatesWithItems = response.data.data.templates.map((template: any) => ({
           ...template,
-          items: typeof template.items === "string" ? JSON.parse(template.items) : template.items,
+          items: (typeof template.items === "string" ? JSON.parse(template.items) : template.items).map(toDefinition),
         }))
         setTemplates(templatesWithItems)
       }
@@ -61,6 +125,24 @@ export default function ChecklistTemplatesPage() {
     }
   }
 
+  const handleApplyToUpcoming = async (template: ChecklistTemplate) => {
+    if (!confirm(`Update upcoming tasks that have not started to version ${template.currentVersion} of "${template.name}"?`)) return
+
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const response = await axios.post(`/api/checklist-templates/${template.id}/apply`, {}, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (response.data.success) {
+        const { updatedTaskIds, skippedTaskIds } = response.data.data
+        alert(`Updated ${updatedTaskIds.length} task(s)${skippedTaskIds.length > 0 ? `, skipped ${skippedTaskIds.length} with answers already recorded` : ""}`)
+      }
+    } catch (error: any) {
+      console.error("Error applying template version:", error)
+      alert(error.response?.data?.message || "Failed to update tasks")
+    }
+  }
+
   const handleSetDefault = async (templateId: number) => {
     try {
       const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
@@ -112,6 +194,9 @@ export default function ChecklistTemplatesPage() {
                 <div className="flex items-start justify-between mb-4">
                   <div>
                     <h3 className="text-lg font-bold text-gray-900">{template.name}</h3>
+                    <span className="inline-block mt-1 mr-1 px-2 py-1 text-xs font-semibold bg-gray-100 text-gray-700 rounded">
+                      v{template.currentVersion}
+                    </span>
                     {template.isDefault && (
                       <span className="inline-block mt-1 px-2 py-1 text-xs font-semibold bg-blue-100 text-blue-800 rounded">
                         Default
@@ -130,7 +215,21 @@ export default function ChecklistTemplatesPage() {
                     {template.items.slice(0, 5).map((item, idx) => (
                       <li key={idx} className="text-sm text-gray-700 flex items-start">
                         <span className="mr-2">•</span>
-                        <span>{item}</span>
+                        <span className="flex-1">{item.title}</span>
+                        {item.type !== "tick" && (
+                          <span className="ml-2 px-1.5 py-0.5 text-xs bg-gray-100 text-gray-600 rounded">
+                            {ITEM_TYPES.find((t) => t.value === item.type)?.label}
+                            {item.unit ? ` (${item.unit})` : ""}
+                          </span>
+                        )}
+                        {item.conditions && (
+                          <span
+                            title={describeConditions(item.conditions)}
+                            className="ml-2 px-1.5 py-0.5 text-xs bg-amber-50 text-amber-700 rounded"
+                          >
+                            Conditional
+                          </span>
+                        )}
                       </li>
                     ))}
                     {template.items.length > 5 && (
@@ -158,6 +257,12 @@ export default function ChecklistTemplatesPage() {
                       Set Default
                     </button>
                   )}
+                  <button
+                    onClick={() => setHistoryTemplate(template)}
+                    className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    History
+                  </button>
                   <button
                     onClick={() => handleDelete(template.id)}
                     className="px-3 py-2 text-sm text-red-600 hover:text-red-800 border border-red-300 rounded-lg hover:bg-red-50"
@@ -187,6 +292,15 @@ export default function ChecklistTemplatesPage() {
         />
       )}
 
+      {/* Version History Modal */}
+      {historyTemplate && (
+        <VersionHistoryModal
+          template={historyTemplate}
+          onApply={() => handleApplyToUpcoming(historyTemplate)}
+          onClose={() => setHistoryTemplate(null)}
+        />
+      )}
+
       {/* Edit Template Modal */}
       {showEditModal && selectedTemplate && (
         <ChecklistTemplateModal
@@ -213,32 +327,58 @@ function ChecklistTemplateModal({
   const [formData, setFormData] = useState({
     name: template?.name || "",
     description: template?.description || "",
-    items: template?.items || [""],
+    items: template?.items || [{ title: "", type: "tick", required: true }],
     isDefault: template?.isDefault || false,
+    changeNote: "",
   })
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
+  const [skills, setSkills] = useState<Skill[]>([])
+  const [conditionsIndex, setConditionsIndex] = useState<number | null>(null)
 
-  const handleItemChange = (index: number, value: string) => {
+  useEffect(() => {
+    const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+    axios
+      .get("/api/skills", { headers: { Authorization: `Bearer ${token}` } })
+      .then((response) => response.data.success && setSkills(response.data.data.skills))
+      .catch((error) => console.error("Error loading skills:", error))
+  }, [])
+
+  const handleItemChange = (index: number, changes: Partial<ChecklistItemDefinition>) => {
     const newItems = [...formData.items]
-    newItems[index] = value
+    newItems[index] = { ...newItems[index], ...changes }
     setFormData({ ...formData, items: newItems })
   }
 
+  const handleConditionChange = (index: number, changes: Partial<ChecklistItemConditions>) => {
+    handleItemChange(index, { conditions: { ...formData.items[index].conditions, ...changes } })
+  }
+
+  const toggleListCondition = <T,>(list: T[] | undefined, value: T): T[] =>
+    list?.includes(value) ? list.filter((v) => v !== value) : [...(list || []), value]
+
+  const parseUnits = (value: string) => (value === "" ? undefined : parseInt(value))
+
   const handleAddItem = () => {
-    setFormData({ ...formData, items: [...formData.items, ""] })
+    setFormData({ ...formData, items: [...formData.items, { title: "", type: "tick", required: true }] })
   }
 
   const handleRemoveItem = (index: number) => {
     const newItems = formData.items.filter((_, i) => i !== index)
-    setFormData({ ...formData, items: newItems.length > 0 ? newItems : [""] })
+    setFormData({ ...formData, items: newItems.length > 0 ? newItems : [{ title: "", type: "tick", required: true }] })
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError("")
 
-    const validItems = formData.items.filter((item) => item.trim() !== "")
+    const validItems = formData.items
+      .filter((item) => item.title.trim() !== "")
+      .map((item) => ({
+        ...item,
+        unit: item.type === "numeric" ? item.unit || null : null,
+        conditions: cleanConditions(item.conditions),
+      }))
     if (validItems.length === 0) {
       setError("At least one checklist item is required")
       return
@@ -253,6 +393,7 @@ function ChecklistTemplateModal({
         description: formData.description || undefined,
         items: JSON.stringify(validItems),
         isDefault: formData.isDefault,
+        changeNote: formData.changeNote || undefined,
       }
 
       const response = template
@@ -315,27 +456,150 @@ function ChecklistTemplateModal({
             </div>
             <div className="space-y-2">
               {formData.items.map((item, index) => (
-                <div key={index} className="flex items-center gap-2">
-                  <input
-                    type="text"
-                    value={item}
-                    onChange={(e) => handleItemChange(index, e.target.value)}
-                    placeholder={`Item ${index + 1}`}
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
-                  />
-                  {formData.items.length > 1 && (
+                <div key={index}>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={item.title}
+                      onChange={(e) => handleItemChange(index, { title: e.target.value })}
+                      placeholder={`Item ${index + 1}`}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                    <select
+                      value={item.type}
+                      onChange={(e) => handleItemChange(index, { type: e.target.value })}
+                      className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {ITEM_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                    {item.type === "numeric" && (
+                      <input
+                        type="text"
+                        value={item.unit || ""}
+                        onChange={(e) => handleItemChange(index, { unit: e.target.value })}
+                        placeholder="Unit"
+                        className="w-20 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                    )}
                     <button
                       type="button"
-                      onClick={() => handleRemoveItem(index)}
-                      className="px-3 py-2 text-red-600 hover:text-red-800"
+                      onClick={() => setConditionsIndex(conditionsIndex === index ? null : index)}
+                      className={`px-2 py-2 text-sm ${cleanConditions(item.conditions) ? "text-amber-700" : "text-gray-500"} hover:text-gray-800`}
                     >
-                      Remove
+                      Conditions
                     </button>
+                    {formData.items.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveItem(index)}
+                        className="px-3 py-2 text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  {conditionsIndex === index ? (
+                    <div className="mt-2 ml-2 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-3 text-sm">
+                      <p className="text-xs text-gray-500">
+                        Only include this item for properties matching all of the conditions below. Leave empty to always include it.
+                      </p>
+                      <div className="flex items-center gap-3">
+                        <span className="w-24 text-gray-700">Property type</span>
+                        {PROPERTY_TYPES.map((type) => (
+                          <label key={type} className="flex items-center gap-1">
+                            <input
+                              type="checkbox"
+                              checked={item.conditions?.propertyTypes?.includes(type) || false}
+                              onChange={() =>
+                                handleConditionChange(index, { propertyTypes: toggleListCondition(item.conditions?.propertyTypes, type) })
+                              }
+                            />
+                            {type.toUpperCase()}
+                          </label>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="w-24 text-gray-700">Units</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={item.conditions?.minUnits ?? ""}
+                          onChange={(e) => handleConditionChange(index, { minUnits: parseUnits(e.target.value) })}
+                          placeholder="Min"
+                          className="w-20 px-2 py-1 border border-gray-300 rounded"
+                        />
+                        <span className="text-gray-500">to</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={item.conditions?.maxUnits ?? ""}
+                          onChange={(e) => handleConditionChange(index, { maxUnits: parseUnits(e.target.value) })}
+                          placeholder="Max"
+                          className="w-20 px-2 py-1 border border-gray-300 rounded"
+                        />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="w-24 text-gray-700">Tags</span>
+                        <input
+                          type="text"
+                          defaultValue={item.conditions?.tags?.join(", ") || ""}
+                          onBlur={(e) =>
+                            handleConditionChange(index, {
+                              tags: e.target.value.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean),
+                            })
+                          }
+                          placeholder="Any of, e.g. garden, lift"
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded"
+                        />
+                      </div>
+                      {skills.length > 0 && (
+                        <div className="flex items-start gap-2">
+                          <span className="w-24 text-gray-700">Needs skill</span>
+                          <div className="flex flex-wrap gap-2">
+                            {skills.map((skill) => (
+                              <label key={skill.id} className="flex items-center gap-1">
+                                <input
+                                  type="checkbox"
+                                  checked={item.conditions?.skillIds?.includes(skill.id) || false}
+                                  onChange={() =>
+                                    handleConditionChange(index, { skillIds: toggleListCondition(item.conditions?.skillIds, skill.id) })
+                                  }
+                                />
+                                {skill.name}
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    cleanConditions(item.conditions) && (
+                      <p className="mt-1 ml-2 text-xs text-amber-700">
+                        Only for: {describeConditions(cleanConditions(item.conditions), skills)}
+                      </p>
+                    )
                   )}
                 </div>
               ))}
             </div>
           </div>
+          {template && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Change Note</label>
+              <input
+                type="text"
+                value={formData.changeNote}
+                onChange={(e) => setFormData({ ...formData, changeNote: e.target.value })}
+                placeholder="What changed and why (recorded in the version history)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Changing items creates version {template.currentVersion + 1}. Existing tasks keep the version they were created with.
+              </p>
+            </div>
+          )}
           <div>
             <label className="flex items-center gap-2">
               <input
@@ -370,3 +634,78 @@ function ChecklistTemplateModal({
 }
 
 
+
+// Version History Modal Component
+function VersionHistoryModal({
+  template,
+  onApply,
+  onClose,
+}: {
+  template: ChecklistTemplate
+  onApply: () => void
+  onClose: () => void
+}) {
+  const [versions, setVersions] = useState<any[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+    axios
+      .get(`/api/checklist-templates/${template.id}/versions`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((response) => response.data.success && setVersions(response.data.data.versions))
+      .catch((error) => console.error("Error loading versions:", error))
+      .finally(() => setLoading(false))
+  }, [template.id])
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold">{template.name} — History</h2>
+          <button
+            onClick={onApply}
+            className="px-3 py-2 text-sm text-white bg-gradient-to-r from-cyan-500 to-teal-600 rounded-lg hover:from-cyan-600 hover:to-teal-700"
+          >
+            Apply v{template.currentVersion} to upcoming tasks
+          </button>
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-500"></div>
+          </div>
+        ) : (
+          <ol className="space-y-4">
+            {versions.map((version) => (
+              <li key={version.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold text-gray-900">Version {version.version}</span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(version.createdAt).toLocaleString()}
+                    {version.createdBy && ` · ${version.createdBy.firstName || version.createdBy.email}`}
+                  </span>
+                </div>
+                {version.changeNote && <p className="text-sm text-gray-700 mt-1">{version.changeNote}</p>}
+                {version.changes && (
+                  <div className="text-xs mt-2 space-y-0.5">
+                    {version.changes.added.length > 0 && <p className="text-green-700">+ {version.changes.added.join(", ")}</p>}
+                    {version.changes.removed.length > 0 && <p className="text-red-700">− {version.changes.removed.join(", ")}</p>}
+                    {version.changes.changed.length > 0 && <p className="text-amber-700">~ {version.changes.changed.join(", ")}</p>}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mt-2">
+                  {version.items.length} items · used by {version._count.tasks} task(s)
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+        <button
+          onClick={onClose}
+          className="mt-6 w-full px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
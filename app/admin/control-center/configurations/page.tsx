@@ -12,6 +12,28 @@ interface Configuration {
   timezone: string
   data_retention_days: number
   notification_template?: string
+  recurrenceHorizonDays?: number
+  slaStartWarningMinutes?: number
+  slaFinishWarningMinutes?: number
+  slaEscalationMinutes?: number
+  openShiftClaimMode?: "first_come" | "approval"
+  openShiftWeeklyClaimCap?: number | null
+  travelSpeedKmh?: number
+  cancellationReasons?: CancellationReason[]
+  cancellationPolicy?: CancellationPolicyTier[]
+}
+
+interface CancellationReason {
+  code: string
+  label: string
+  chargeClient: boolean
+  compensateCleaner: boolean
+}
+
+interface CancellationPolicyTier {
+  maxNoticeHours: number
+  fee: number
+  compensationPercent: number
 }
 
 export default function ConfigurationsPage() {
@@ -73,6 +95,18 @@ export default function ConfigurationsPage() {
     }
   }
 
+  const updateReason = (index: number, changes: Partial<CancellationReason>) => {
+    const reasons = [...(config?.cancellationReasons || [])]
+    reasons[index] = { ...reasons[index], ...changes }
+    setConfig({ ...config!, cancellationReasons: reasons })
+  }
+
+  const updateTier = (index: number, changes: Partial<CancellationPolicyTier>) => {
+    const tiers = [...(config?.cancellationPolicy || [])]
+    tiers[index] = { ...tiers[index], ...changes }
+    setConfig({ ...config!, cancellationPolicy: tiers })
+  }
+
   if (loading) {
     return (
       <AdminLayout>
@@ -193,6 +227,254 @@ export default function ConfigurationsPage() {
             </p>
           </div>
 
+          {/* Recurring Job Horizon */}
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-2">
+              Recurring Job Horizon (days)
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="365"
+              value={config?.recurrenceHorizonDays || 14}
+              onChange={(e) =>
+                setConfig({ ...config!, recurrenceHorizonDays: Number.parseInt(e.target.value) })
+              }
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              How many days ahead recurring jobs are generated automatically
+            </p>
+          </div>
+
+          {/* SLA Deadlines */}
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-2">
+              SLA Deadline Alerts (minutes)
+            </label>
+            <div className="grid grid-cols-3 gap-4">
+              {[
+                { key: "slaStartWarningMinutes" as const, label: "Not started before deadline", fallback: 120 },
+                { key: "slaFinishWarningMinutes" as const, label: "Still in progress before deadline", fallback: 30 },
+                { key: "slaEscalationMinutes" as const, label: "Wait between escalations", fallback: 30 },
+              ].map(({ key, label, fallback }) => (
+                <div key={key}>
+                  <input
+                    type="number"
+                    min="0"
+                    max="1440"
+                    value={config?.[key] ?? fallback}
+                    onChange={(e) => setConfig({ ...config!, [key]: Number.parseInt(e.target.value) })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{label}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Tasks with a must-finish-by deadline are flagged at these thresholds and escalated from the cleaner to managers, then company admins
+            </p>
+          </div>
+
+          {/* Open Shifts */}
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-2">
+              Open Shifts
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <select
+                  value={config?.openShiftClaimMode || "first_come"}
+                  onChange={(e) =>
+                    setConfig({ ...config!, openShiftClaimMode: e.target.value as "first_come" | "approval" })
+                  }
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                >
+                  <option value="first_come">First come, first served</option>
+                  <option value="approval">Manager approval</option>
+                </select>
+                <p className="text-xs text-gray-500 mt-1">How cleaner claims are handled</p>
+              </div>
+              <div>
+                <input
+                  type="number"
+                  min="1"
+                  placeholder="No limit"
+                  value={config?.openShiftWeeklyClaimCap ?? ""}
+                  onChange={(e) =>
+                    setConfig({
+                      ...config!,
+                      openShiftWeeklyClaimCap: e.target.value ? Number.parseInt(e.target.value) : null,
+                    })
+                  }
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">Max claims per cleaner per week</p>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Unassigned tasks published as open shifts can be claimed by eligible cleaners from the mobile app
+            </p>
+          </div>
+
+          {/* Travel Between Jobs */}
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-2">
+              Average Travel Speed (km/h)
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="200"
+              value={config?.travelSpeedKmh || 30}
+              onChange={(e) =>
+                setConfig({ ...config!, travelSpeedKmh: Number.parseInt(e.target.value) })
+              }
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Used to estimate travel time between properties and flag back-to-back jobs that are too far apart
+            </p>
+          </div>
+
+          {/* Cancellations */}
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-2">
+              Cancellation Reasons
+            </label>
+            <div className="space-y-2">
+              {(config?.cancellationReasons || []).map((reason, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    placeholder="code"
+                    value={reason.code}
+                    onChange={(e) => updateReason(index, { code: e.target.value })}
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Label"
+                    value={reason.label}
+                    onChange={(e) => updateReason(index, { label: e.target.value })}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                  />
+                  <label className="flex items-center gap-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={reason.chargeClient}
+                      onChange={(e) => updateReason(index, { chargeClient: e.target.checked })}
+                    />
+                    Charge client
+                  </label>
+                  <label className="flex items-center gap-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={reason.compensateCleaner}
+                      onChange={(e) => updateReason(index, { compensateCleaner: e.target.checked })}
+                    />
+                    Pay cleaner
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setConfig({ ...config!, cancellationReasons: config!.cancellationReasons!.filter((_, i) => i !== index) })
+                    }
+                    className="text-red-500 hover:text-red-700 text-sm"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                setConfig({
+                  ...config!,
+                  cancellationReasons: [
+                    ...(config?.cancellationReasons || []),
+                    { code: "", label: "", chargeClient: true, compensateCleaner: true },
+                  ],
+                })
+              }
+              className="mt-2 text-sm text-cyan-600 hover:text-cyan-700"
+            >
+              + Add reason
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-2">
+              Late Cancellation Policy
+            </label>
+            <div className="space-y-2">
+              {(config?.cancellationPolicy || []).map((tier, index) => (
+                <div key={index} className="grid grid-cols-4 gap-3 items-center">
+                  <div>
+                    <input
+                      type="number"
+                      min="1"
+                      value={tier.maxNoticeHours}
+                      onChange={(e) => updateTier(index, { maxNoticeHours: Number(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Less than (hours notice)</p>
+                  </div>
+                  <div>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={tier.fee}
+                      onChange={(e) => updateTier(index, { fee: Number(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Client fee</p>
+                  </div>
+                  <div>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={tier.compensationPercent}
+                      onChange={(e) => updateTier(index, { compensationPercent: Number(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Cleaner pay (% of estimate)</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setConfig({ ...config!, cancellationPolicy: config!.cancellationPolicy!.filter((_, i) => i !== index) })
+                    }
+                    className="text-red-500 hover:text-red-700 text-sm justify-self-start"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                setConfig({
+                  ...config!,
+                  cancellationPolicy: [
+                    ...(config?.cancellationPolicy || []),
+                    { maxNoticeHours: 24, fee: 0, compensationPercent: 0 },
+                  ],
+                })
+              }
+              className="mt-2 text-sm text-cyan-600 hover:text-cyan-700"
+            >
+              + Add tier
+            </button>
+            <p className="text-xs text-gray-500 mt-1">
+              The smallest tier above the notice given before the scheduled start applies. No tiers means cancellations are free.
+            </p>
+          </div>
+
           {/* Notification Template */}
           <div>
             <label className="block text-sm font-medium text-gray-900 mb-2">
@@ -333,6 +333,7 @@ function StatusBadge({ status }: { status: string }) {
     APPROVED: "bg-green-50 text-green-700 border-green-200",
     REJECTED: "bg-red-50 text-red-700 border-red-200",
     ARCHIVED: "bg-gray-100 text-gray-500 border-gray-200 line-through",
+    CANCELLED: "bg-gray-50 text-gray-500 border-gray-200 line-through",
   }
   
   const defaultStyle = "bg-gray-50 text-gray-600 border-gray-200";
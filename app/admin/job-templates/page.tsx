@@ -0,0 +1,430 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import axios from "axios"
+import AdminLayout from "@/components/AdminLayout"
+
+const PROPERTY_TYPES = ["block", "apartment", "hmo"]
+
+interface JobTemplate {
+  id: number
+  name: string
+  title: string
+  description?: string | null
+  checklistTemplateId?: number | null
+  checklistTemplate?: { id: number; name: string } | null
+  estimatedDurationMinutes?: number | null
+  budget?: string | number | null
+  requiredSkillIds?: string | null
+  photoCountRequirement?: number | null
+  propertyTypes?: string | null
+  isActive: boolean
+}
+
+interface Option {
+  id: number
+  name: string
+}
+
+const parseList = (value?: string | null): any[] => {
+  try {
+    return value ? JSON.parse(value) : []
+  } catch {
+    return []
+  }
+}
+
+export default function JobTemplatesPage() {
+  const [templates, setTemplates] = useState<JobTemplate[]>([])
+  const [checklistTemplates, setChecklistTemplates] = useState<Option[]>([])
+  const [skills, setSkills] = useState<Option[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedTemplate, setSelectedTemplate] = useState<JobTemplate | null>(null)
+  const [showModal, setShowModal] = useState(false)
+
+  useEffect(() => {
+    loadTemplates()
+    loadOptions()
+  }, [])
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true)
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const response = await axios.get("/api/job-templates?includeInactive=true", {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (response.data.success) {
+        setTemplates(response.data.data.templates)
+      }
+    } catch (error) {
+      console.error("Error loading job templates:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadOptions = async () => {
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const [checklistRes, skillsRes] = await Promise.all([
+        axios.get("/api/checklist-templates", { headers: { Authorization: `Bearer ${token}` } }),
+        axios.get("/api/skills", { headers: { Authorization: `Bearer ${token}` } }),
+      ])
+      if (checklistRes.data.success) setChecklistTemplates(checklistRes.data.data.templates)
+      if (skillsRes.data.success) setSkills(skillsRes.data.data.skills)
+    } catch (error) {
+      console.error("Error loading template options:", error)
+    }
+  }
+
+  const handleDelete = async (templateId: number) => {
+    if (!confirm("Delete this job template? Tasks already created from it are not affected.")) return
+
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      await axios.delete(`/api/job-templates/${templateId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      loadTemplates()
+    } catch (error) {
+      console.error("Error deleting job template:", error)
+      alert("Failed to delete template")
+    }
+  }
+
+  const skillName = (id: number) => skills.find((s) => s.id === id)?.name || `#${id}`
+
+  return (
+    <AdminLayout>
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Job Templates</h1>
+              <p className="text-gray-600 mt-1">Presets for creating tasks, recurring series and Sheets imports</p>
+            </div>
+            <button
+              onClick={() => {
+                setSelectedTemplate(null)
+                setShowModal(true)
+              }}
+              className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-600 text-white rounded-lg hover:from-cyan-600 hover:to-teal-700 transition"
+            >
+              + Create Template
+            </button>
+          </div>
+        </div>
+
+        {/* Templates Grid */}
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-500"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className={`bg-white rounded-lg shadow p-6 hover:shadow-lg transition ${template.isActive ? "" : "opacity-60"}`}
+              >
+                <div className="mb-4">
+                  <h3 className="text-lg font-bold text-gray-900">{template.name}</h3>
+                  <p className="text-sm text-gray-600">{template.title}</p>
+                  {!template.isActive && (
+                    <span className="inline-block mt-1 px-2 py-1 text-xs font-semibold bg-gray-100 text-gray-700 rounded">
+                      Inactive
+                    </span>
+                  )}
+                </div>
+                <dl className="text-sm text-gray-700 space-y-1 mb-4">
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Checklist</dt>
+                    <dd>{template.checklistTemplate?.name || "—"}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Duration</dt>
+                    <dd>{template.estimatedDurationMinutes ? `${template.estimatedDurationMinutes} min` : "—"}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Budget</dt>
+                    <dd>{template.budget != null ? `£${Number(template.budget).toFixed(2)}` : "—"}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Photos</dt>
+                    <dd>{template.photoCountRequirement ?? "Company default"}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Skills</dt>
+                    <dd className="text-right">{parseList(template.requiredSkillIds).map(skillName).join(", ") || "—"}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">Property types</dt>
+                    <dd>{parseList(template.propertyTypes).join(", ") || "All"}</dd>
+                  </div>
+                </dl>
+                <div className="flex items-center gap-2 pt-4 border-t border-gray-200">
+                  <button
+                    onClick={() => {
+                      setSelectedTemplate(template)
+                      setShowModal(true)
+                    }}
+                    className="flex-1 px-3 py-2 text-sm text-blue-600 hover:text-blue-800 border border-blue-300 rounded-lg hover:bg-blue-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template.id)}
+                    className="px-3 py-2 text-sm text-red-600 hover:text-red-800 border border-red-300 rounded-lg hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!loading && templates.length === 0 && (
+          <div className="bg-white rounded-lg shadow p-12 text-center text-gray-500">
+            No job templates found. Create your first template to get started.
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <JobTemplateModal
+          template={selectedTemplate || undefined}
+          checklistTemplates={checklistTemplates}
+          skills={skills}
+          onClose={() => {
+            setShowModal(false)
+            setSelectedTemplate(null)
+            loadTemplates()
+          }}
+        />
+      )}
+    </AdminLayout>
+  )
+}
+
+// Job Template Modal Component
+function JobTemplateModal({
+  template,
+  checklistTemplates,
+  skills,
+  onClose,
+}: {
+  template?: JobTemplate
+  checklistTemplates: Option[]
+  skills: Option[]
+  onClose: () => void
+}) {
+  const [formData, setFormData] = useState({
+    name: template?.name || "",
+    title: template?.title || "",
+    description: template?.description || "",
+    checklistTemplateId: template?.checklistTemplateId ? String(template.checklistTemplateId) : "",
+    estimatedDurationMinutes: template?.estimatedDurationMinutes != null ? String(template.estimatedDurationMinutes) : "",
+    budget: template?.budget != null ? String(template.budget) : "",
+    photoCountRequirement: template?.photoCountRequirement != null ? String(template.photoCountRequirement) : "",
+    requiredSkillIds: parseList(template?.requiredSkillIds) as number[],
+    propertyTypes: parseList(template?.propertyTypes) as string[],
+    isActive: template?.isActive ?? true,
+  })
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    setLoading(true)
+
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const payload = {
+        ...formData,
+        checklistTemplateId: formData.checklistTemplateId || null,
+        estimatedDurationMinutes: formData.estimatedDurationMinutes || null,
+        budget: formData.budget || null,
+        photoCountRequirement: formData.photoCountRequirement || null,
+        // Platform roles create templates in the company they have selected
+        ...(template ? {} : { companyId: localStorage.getItem("selectedCompanyId") || undefined }),
+      }
+
+      const response = template
+        ? await axios.patch(`/api/job-templates/${template.id}`, payload, {
+            headers: { Authorization: `Bearer ${token}` },
+          })
+        : await axios.post("/api/job-templates", payload, {
+            headers: { Authorization: `Bearer ${token}` },
+          })
+
+      if (response.data.success) {
+        onClose()
+      } else {
+        setError(response.data.message || "Failed to save template")
+      }
+    } catch (error: any) {
+      setError(error.response?.data?.message || "Failed to save template")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-1">{template ? "Edit Job Template" : "Create Job Template"}</h2>
+        {template && (
+          <p className="text-sm text-gray-500 mb-4">Changes apply to new tasks only; existing tasks keep their values.</p>
+        )}
+        {error && <div className="mb-4 p-3 bg-red-50 text-red-800 rounded">{error}</div>}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Template Name *</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Task Title *</label>
+              <input
+                type="text"
+                required
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Task Description</label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Checklist Template</label>
+            <select
+              value={formData.checklistTemplateId}
+              onChange={(e) => setFormData({ ...formData, checklistTemplateId: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">None</option>
+              {checklistTemplates.map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Duration (min)</label>
+              <input
+                type="number"
+                min={0}
+                value={formData.estimatedDurationMinutes}
+                onChange={(e) => setFormData({ ...formData, estimatedDurationMinutes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Budget (£)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={formData.budget}
+                onChange={(e) => setFormData({ ...formData, budget: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Required Photos</label>
+              <input
+                type="number"
+                min={0}
+                value={formData.photoCountRequirement}
+                onChange={(e) => setFormData({ ...formData, photoCountRequirement: e.target.value })}
+                placeholder="Company default"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Required Skills</label>
+            <div className="flex flex-wrap gap-2">
+              {skills.map((skill) => (
+                <label key={skill.id} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.requiredSkillIds.includes(skill.id)}
+                    onChange={() => setFormData({ ...formData, requiredSkillIds: toggle(formData.requiredSkillIds, skill.id) })}
+                    className="w-4 h-4"
+                  />
+                  {skill.name}
+                </label>
+              ))}
+              {skills.length === 0 && <span className="text-sm text-gray-500">No skills defined</span>}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Property Types (none = all)</label>
+            <div className="flex gap-4">
+              {PROPERTY_TYPES.map((type) => (
+                <label key={type} className="flex items-center gap-1 text-sm capitalize">
+                  <input
+                    type="checkbox"
+                    checked={formData.propertyTypes.includes(type)}
+                    onChange={() => setFormData({ ...formData, propertyTypes: toggle(formData.propertyTypes, type) })}
+                    className="w-4 h-4"
+                  />
+                  {type}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                className="w-4 h-4"
+              />
+              <span className="text-sm font-medium text-gray-700">Active (offered when creating tasks)</span>
+            </label>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2 bg-gradient-to-r from-cyan-500 to-teal-600 text-white rounded-lg hover:from-cyan-600 hover:to-teal-700 disabled:opacity-50"
+            >
+              {loading ? "Saving..." : template ? "Update Template" : "Create Template"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
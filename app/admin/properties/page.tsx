@@ -31,6 +31,7 @@ interface Property {
   longitude?: number
   propertyType: string
   notes?: string
+  tags?: string | null // JSON array
   isActive: boolean
   createdAt: string
   company?: {
@@ -434,6 +435,7 @@ function PropertyModal({ title, initialData, companies, onClose, onSubmit }: Pro
         postcode: initialData?.postcode || "",
         propertyType: initialData?.propertyType || "apartment",
         notes: initialData?.notes || "",
+        tags: initialData?.tags ? (JSON.parse(initialData.tags) as string[]).join(", ") : "",
         companyId: getDefaultCompanyId(),
         latitude: initialData?.latitude || "",
         longitude: initialData?.longitude || "",
@@ -561,6 +563,19 @@ function PropertyModal({ title, initialData, companies, onClose, onSubmit }: Pro
                             </div>
                         </div>
 
+                        {/* Tags */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+                            <input
+                                type="text"
+                                value={formData.tags}
+                                onChange={e => setFormData({...formData, tags: e.target.value})}
+                                placeholder="e.g. garden, lift, communal-kitchen"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">Comma-separated. Checklist items can be limited to properties with a tag.</p>
+                        </div>
+
                         {/* Notes */}
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">Internal Notes</label>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { Fragment, useState, useEffect } from "react"
 import axios from "axios"
 import AdminLayout from "@/components/AdminLayout"
 import Link from "next/link"
@@ -9,7 +9,9 @@ interface RecurringTask {
   id: number
   title: string
   description?: string
-  recurringPattern: string
+  recurringPattern?: string
+  recurrenceRule?: string
+  recurrenceExdates?: string
   property: {
     id: number
     address: string
@@ -24,16 +26,59 @@ interface RecurringTask {
   createdAt: string
   childTasks: Array<{
     id: number
+    title: string
     scheduledDate: string
     status: string
   }>
 }
 
+type SeriesScope = "this" | "following" | "all"
+
+interface OccurrenceAction {
+  mode: "edit" | "delete"
+  series: RecurringTask
+  occurrence: RecurringTask["childTasks"][number]
+}
+
+const SCOPE_OPTIONS: Array<{ value: SeriesScope; label: string }> = [
+  { value: "this", label: "This occurrence" },
+  { value: "following", label: "This and following occurrences" },
+  { value: "all", label: "All occurrences in the series" },
+]
+
+// Occurrences that have started or finished are never changed by series edits
+const EDITABLE_STATUSES = ["DRAFT", "PLANNED", "ASSIGNED"]
+
+// Value for a datetime-local input in the browser's timezone
+const toLocalInputValue = (iso: string) => {
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+const LEGACY_PATTERN_RULES: Record<string, string> = {
+  daily: "FREQ=DAILY",
+  weekly: "FREQ=WEEKLY",
+  biweekly: "FREQ=WEEKLY;INTERVAL=2",
+  monthly: "FREQ=MONTHLY",
+}
+
+// Effective iCalendar RRULE for a series (legacy patterns map onto equivalent rules)
+const getRule = (task: RecurringTask) =>
+  task.recurrenceRule || LEGACY_PATTERN_RULES[task.recurringPattern || ""] || ""
+
+const getFrequency = (task: RecurringTask) => /FREQ=(\w+)/.exec(getRule(task))?.[1]?.toLowerCase() || "custom"
+
 export default function RecurringJobsPage() {
   const [recurringTasks, setRecurringTasks] = useState<RecurringTask[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState("")
   const [patternFilter, setPatternFilter] = useState("all")
+  const [expandedTaskId, setExpandedTaskId] = useState<number | null>(null)
+  const [action, setAction] = useState<OccurrenceAction | null>(null)
+  const [scope, setScope] = useState<SeriesScope>("this")
+  const [editTitle, setEditTitle] = useState("")
+  const [editDate, setEditDate] = useState("")
+  const [saving, setSaving] = useState(false)
 
   useEffect(() => {
     loadRecurringTasks()
@@ -72,14 +117,18 @@ export default function RecurringJobsPage() {
   const handleGenerateInstances = async (taskId: number, count: number = 4) => {
     try {
       const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
-      await axios.post(
+      const response = await axios.post(
         "/api/tasks/recurring",
-        { parentTaskId: taskId, count },
+        { taskId, count },
         {
           headers: { Authorization: `Bearer ${token}` },
         }
       )
-      alert(`Generated ${count} instances successfully!`)
+      const { created, skipped, conflicts } = response.data.data
+      alert(
+        `Generated ${created} new instance(s), ${skipped} already existed.` +
+          (conflicts.length > 0 ? ` ${conflicts.length} assignment conflict(s) need review.` : "")
+      )
       loadRecurringTasks()
     } catch (error) {
       console.error("Error generating instances:", error)
@@ -88,18 +137,60 @@ export default function RecurringJobsPage() {
   }
 
   const handleDelete = async (taskId: number) => {
-    if (!confirm("Are you sure you want to delete this recurring job series? This will also delete all generated instances."))
+    if (!confirm("Are you sure you want to delete this recurring job series? Generated instances that have not started will also be deleted."))
       return
 
     try {
       const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
-      await axios.delete(`/api/tasks/${taskId}`, {
+      const response = await axios.delete(`/api/tasks/${taskId}`, {
         headers: { Authorization: `Bearer ${token}` },
+        params: { scope: "all" },
       })
+      const kept = response.data.data.protectedTaskIds.length
+      if (kept > 0) alert(`${kept} started or completed instance(s) were kept as standalone tasks.`)
       loadRecurringTasks()
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error deleting recurring task:", error)
-      alert("Failed to delete recurring job")
+      alert(error.response?.data?.message || "Failed to delete recurring job")
+    }
+  }
+
+  const openOccurrenceAction = (mode: OccurrenceAction["mode"], series: RecurringTask, occurrence: OccurrenceAction["occurrence"]) => {
+    setAction({ mode, series, occurrence })
+    setScope("this")
+    setEditTitle(occurrence.title || series.title)
+    setEditDate(occurrence.scheduledDate ? toLocalInputValue(occurrence.scheduledDate) : "")
+  }
+
+  const handleOccurrenceAction = async () => {
+    if (!action) return
+    try {
+      setSaving(true)
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const headers = { Authorization: `Bearer ${token}` }
+      const response = action.mode === "edit"
+        ? await axios.patch(
+            `/api/tasks/${action.occurrence.id}`,
+            {
+              scope,
+              title: editTitle,
+              ...(editDate && { scheduledDate: new Date(editDate).toISOString() }),
+            },
+            { headers }
+          )
+        : await axios.delete(`/api/tasks/${action.occurrence.id}`, { headers, params: { scope } })
+
+      const series = action.mode === "edit" ? response.data.data.series : response.data.data
+      if (series?.protectedTaskIds?.length > 0) {
+        alert(`${series.protectedTaskIds.length} started or completed occurrence(s) were left unchanged.`)
+      }
+      setAction(null)
+      loadRecurringTasks()
+    } catch (error: any) {
+      console.error("Error updating occurrence:", error)
+      alert(error.response?.data?.message || "Failed to update occurrence")
+    } finally {
+      setSaving(false)
     }
   }
 
@@ -107,18 +198,18 @@ export default function RecurringJobsPage() {
     const matchesSearch =
       task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
       task.property.address.toLowerCase().includes(searchTerm.toLowerCase())
-    const matchesPattern = patternFilter === "all" || task.recurringPattern === patternFilter
+    const matchesPattern = patternFilter === "all" || getFrequency(task) === patternFilter
     return matchesSearch && matchesPattern
   })
 
-  const getPatternBadge = (pattern: string) => {
+  const getPatternBadge = (frequency: string) => {
     const colors: Record<string, string> = {
       daily: "bg-blue-100 text-blue-800",
       weekly: "bg-green-100 text-green-800",
-      biweekly: "bg-yellow-100 text-yellow-800",
       monthly: "bg-purple-100 text-purple-800",
+      yearly: "bg-yellow-100 text-yellow-800",
     }
-    return colors[pattern] || "bg-gray-100 text-gray-800"
+    return colors[frequency] || "bg-gray-100 text-gray-800"
   }
 
   return (
@@ -157,8 +248,8 @@ export default function RecurringJobsPage() {
                 <option value="all">All Patterns</option>
                 <option value="daily">Daily</option>
                 <option value="weekly">Weekly</option>
-                <option value="biweekly">Bi-Weekly</option>
                 <option value="monthly">Monthly</option>
+                <option value="yearly">Yearly</option>
               </select>
             </div>
           </div>
@@ -197,7 +288,8 @@ export default function RecurringJobsPage() {
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {filteredTasks.map((task) => (
-                    <tr key={task.id} className="hover:bg-gray-50">
+                    <Fragment key={task.id}>
+                    <tr className="hover:bg-gray-50">
                       <td className="px-6 py-4">
                         <div>
                           <div className="text-sm font-medium text-gray-900">{task.title}</div>
@@ -212,11 +304,17 @@ export default function RecurringJobsPage() {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span
                           className={`px-2 py-1 text-xs font-semibold rounded-full ${getPatternBadge(
-                            task.recurringPattern
+                            getFrequency(task)
                           )}`}
                         >
-                          {task.recurringPattern}
+                          {getFrequency(task)}
                         </span>
+                        <div className="text-xs text-gray-400 font-mono mt-1">{getRule(task)}</div>
+                        {task.recurrenceExdates && JSON.parse(task.recurrenceExdates).length > 0 && (
+                          <div className="text-xs text-gray-400 mt-1">
+                            Skips {JSON.parse(task.recurrenceExdates).length} date(s)
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {task.assignedUser
@@ -231,6 +329,13 @@ export default function RecurringJobsPage() {
                         {task.childTasks && task.childTasks.length > 0 && (
                           <div className="text-xs text-gray-400 mt-1">
                             {task.childTasks.filter((t) => t.status === "APPROVED").length} completed
+                            {" · "}
+                            <button
+                              onClick={() => setExpandedTaskId(expandedTaskId === task.id ? null : task.id)}
+                              className="text-cyan-600 hover:text-cyan-900"
+                            >
+                              {expandedTaskId === task.id ? "Hide" : "Show"}
+                            </button>
                           </div>
                         )}
                       </td>
@@ -263,6 +368,46 @@ export default function RecurringJobsPage() {
                         </div>
                       </td>
                     </tr>
+                    {expandedTaskId === task.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-6 py-4">
+                          <div className="space-y-2">
+                            {task.childTasks.map((occurrence) => (
+                              <div key={occurrence.id} className="flex items-center justify-between text-sm">
+                                <div className="flex items-center gap-3">
+                                  <span className="text-gray-900">
+                                    {occurrence.scheduledDate ? new Date(occurrence.scheduledDate).toLocaleString() : "Unscheduled"}
+                                  </span>
+                                  <span className="text-gray-500">{occurrence.title}</span>
+                                  <span className="px-2 py-0.5 text-xs rounded-full bg-gray-200 text-gray-700">
+                                    {occurrence.status}
+                                  </span>
+                                </div>
+                                {EDITABLE_STATUSES.includes(occurrence.status) ? (
+                                  <div className="flex items-center gap-3">
+                                    <button
+                                      onClick={() => openOccurrenceAction("edit", task, occurrence)}
+                                      className="text-cyan-600 hover:text-cyan-900"
+                                    >
+                                      Edit
+                                    </button>
+                                    <button
+                                      onClick={() => openOccurrenceAction("delete", task, occurrence)}
+                                      className="text-red-600 hover:text-red-900"
+                                    >
+                                      Delete
+                                    </button>
+                                  </div>
+                                ) : (
+                                  <span className="text-xs text-gray-400">Locked (started)</span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
@@ -273,6 +418,83 @@ export default function RecurringJobsPage() {
             <div className="p-12 text-center text-gray-500">No recurring jobs found</div>
           )}
         </div>
+
+        {/* Edit / delete occurrence */}
+        {action && (
+          <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-lg w-full max-w-md p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">
+                {action.mode === "edit" ? "Edit occurrence" : "Delete occurrence"}
+              </h2>
+              <p className="text-sm text-gray-500 mb-4">
+                {action.series.title} ·{" "}
+                {action.occurrence.scheduledDate ? new Date(action.occurrence.scheduledDate).toLocaleString() : "Unscheduled"}
+              </p>
+
+              {action.mode === "edit" && (
+                <div className="space-y-4 mb-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                    <input
+                      type="text"
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Scheduled</label>
+                    <input
+                      type="datetime-local"
+                      value={editDate}
+                      onChange={(e) => setEditDate(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                    />
+                    {scope !== "this" && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Moving the time shifts every affected occurrence by the same amount
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2 mb-4">
+                {SCOPE_OPTIONS.map((option) => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="scope"
+                      value={option.value}
+                      checked={scope === option.value}
+                      onChange={() => setScope(option.value)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+                <p className="text-xs text-gray-500">Occurrences that have started or finished are never changed.</p>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setAction(null)}
+                  className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleOccurrenceAction}
+                  disabled={saving}
+                  className={`px-4 py-2 text-sm text-white rounded-lg disabled:opacity-50 ${
+                    action.mode === "edit" ? "bg-cyan-600 hover:bg-cyan-700" : "bg-red-600 hover:bg-red-700"
+                  }`}
+                >
+                  {saving ? "Saving..." : action.mode === "edit" ? "Save" : "Delete"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </AdminLayout>
   )
@@ -10,6 +10,7 @@ interface ReportData {
     completed: number
     inProgress: number
     pending: number
+    cancelled: number
     completionRate: number
   }
   cleanerPerformance: Array<{
@@ -30,6 +31,23 @@ interface ReportData {
     activeSubscriptions: number
     failedPayments: number
   }
+  slaCompliance: {
+    tasksWithDeadline: number
+    met: number
+    missed: number
+    pending: number
+    complianceRate: number
+    breaches: Record<string, number>
+    escalated: number
+    open: number
+  }
+  cancellations: {
+    total: number
+    byReason: Record<string, number>
+    charged: number
+    totalFees: number
+    compensationMinutes: number
+  }
   dateRange: {
     start: string
     end: string
@@ -72,6 +90,8 @@ export default function ReportingPage() {
           cleanerPerformance: data.cleanerPerformance,
           issueStats: data.issueStats,
           billingSummary: data.billingSummary,
+          slaCompliance: data.slaCompliance,
+          cancellations: data.cancellations,
           dateRange: data.dateRange,
         })
       }
@@ -262,6 +282,71 @@ export default function ReportingPage() {
           </div>
         </div>
 
+        {/* SLA Compliance */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">SLA Compliance</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="p-4 bg-gradient-to-br from-cyan-50 to-teal-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Finished On Time</p>
+              <p className="text-2xl font-bold text-gray-900">{reportData.slaCompliance.complianceRate}%</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {reportData.slaCompliance.met} of {reportData.slaCompliance.met + reportData.slaCompliance.missed} tasks with a deadline
+              </p>
+            </div>
+            <div className="p-4 bg-red-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Missed Deadlines</p>
+              <p className="text-2xl font-bold text-red-600">{reportData.slaCompliance.missed}</p>
+            </div>
+            <div className="p-4 bg-yellow-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">At-Risk Alerts</p>
+              <p className="text-2xl font-bold text-yellow-600">
+                {(reportData.slaCompliance.breaches.not_started || 0) + (reportData.slaCompliance.breaches.at_risk || 0)}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">{reportData.slaCompliance.open} still open</p>
+            </div>
+            <div className="p-4 bg-blue-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Escalated to Managers</p>
+              <p className="text-2xl font-bold text-gray-900">{reportData.slaCompliance.escalated}</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Cancellations */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Cancellations</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Cancelled Tasks</p>
+              <p className="text-2xl font-bold text-gray-900">{reportData.cancellations.total}</p>
+              <p className="text-xs text-gray-500 mt-1">{reportData.cancellations.charged} with late charges</p>
+            </div>
+            <div className="p-4 bg-gradient-to-br from-cyan-50 to-teal-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Late Cancellation Fees</p>
+              <p className="text-2xl font-bold text-gray-900">
+                £{reportData.cancellations.totalFees.toLocaleString()}
+              </p>
+            </div>
+            <div className="p-4 bg-blue-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Cleaner Compensation</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {Math.round((reportData.cancellations.compensationMinutes / 60) * 10) / 10}h
+              </p>
+            </div>
+            <div className="p-4 bg-yellow-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">By Reason</p>
+              {Object.entries(reportData.cancellations.byReason).length === 0 ? (
+                <p className="text-sm text-gray-500">None</p>
+              ) : (
+                Object.entries(reportData.cancellations.byReason).map(([reason, count]) => (
+                  <p key={reason} className="text-sm text-gray-700">
+                    {reason}: <span className="font-semibold">{count}</span>
+                  </p>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
         {/* Billing Summary */}
         <div className="bg-white rounded-lg shadow p-6">
           <h2 className="text-xl font-bold text-gray-900 mb-4">Billing Summary</h2>
@@ -3,11 +3,19 @@
 import { useState, useEffect } from "react"
 import axios from "axios"
 import AdminLayout from "@/components/AdminLayout"
+import RotaCalendar, {
+  AvailabilityOverrideBadge,
+  overridesOn,
+  type RotaAvailabilityOverride,
+  type RotaChange,
+  type RotaWarning,
+} from "@/components/RotaCalendar"
 
 interface Task {
   id: number
   title: string
   scheduledDate: string
+  estimatedDurationMinutes?: number | null
   property: {
     id: number
     address: string
@@ -19,6 +27,13 @@ interface Task {
     email: string
   }
   status: string
+  openShiftPublishedAt?: string | null
+}
+
+interface OpenShiftClaim {
+  id: number
+  status: string
+  user: SwapUser
 }
 
 interface Cleaner {
@@ -33,6 +48,29 @@ interface Cleaner {
     endTime: string
     isAvailable: boolean
   }>
+  availabilityOverrides?: RotaAvailabilityOverride[]
+}
+
+interface SwapUser {
+  id: number
+  email: string
+  firstName?: string
+  lastName?: string
+}
+
+interface SwapRequest {
+  id: number
+  status: string
+  note?: string
+  task: {
+    id: number
+    title: string
+    scheduledDate?: string
+    property: { id: number; address: string }
+  }
+  requester: SwapUser
+  acceptedBy?: SwapUser
+  warnings?: Array<{ type: string; message: string; severity: string }>
 }
 
 interface RotaData {
@@ -45,6 +83,67 @@ interface RotaData {
   }>
 }
 
+interface ProposedAssignment {
+  taskId: number
+  taskTitle: string
+  address: string
+  scheduledDate: string
+  cleanerId: number
+  cleanerName: string
+  reasons: string[]
+  warnings: string[]
+}
+
+interface RotaProposal {
+  assignments: ProposedAssignment[]
+  unplaced: Array<{
+    taskId: number
+    taskTitle: string
+    address: string
+    scheduledDate: string
+    reasons: string[]
+  }>
+}
+
+// Publish state of the week, with changes cleaners haven't been told about yet
+interface RotaPublishState {
+  status: "draft" | "published" | "unpublished_changes"
+  version: number | null
+  publishedAt: string | null
+  changes: Array<{
+    cleanerId: number
+    added: Array<{ taskId: number }>
+    removed: Array<{ taskId: number }>
+    moved: Array<{ after: { taskId: number } }>
+  }>
+}
+
+// Dry run of a week clone: tasks it would create and what it would skip
+interface ClonePreview {
+  sourceWeekStart: string
+  targetWeekStarts: string[]
+  items: Array<{
+    sourceTaskId: number
+    targetWeekStart: string
+    title: string
+    address: string | null
+    cleanerId: number | null
+    scheduledDate: string
+    warnings: Array<{ type: string; message: string }>
+  }>
+  skipped: Array<{ sourceTaskId: number; title: string; targetWeekStart?: string; reason: string }>
+}
+
+// Values a rota change replaced, as returned by the assign endpoint
+interface RotaUndoEntry {
+  taskId: number
+  previous: {
+    cleanerId: number | null
+    scheduledDate: string | null
+    estimatedDurationMinutes: number | null
+  }
+}
+
 export default function RotaBuilderPage() {
   const [rotaData, setRotaData] = useState<RotaData | null>(null)
   const [loading, setLoading] = useState(true)
@@ -56,11 +155,29 @@ export default function RotaBuilderPage() {
   })
   const [draggedTask, setDraggedTask] = useState<Task | null>(null)
   const [showConflicts, setShowConflicts] = useState(false)
+  const [swapRequests, setSwapRequests] = useState<SwapRequest[]>([])
+  const [showSwaps, setShowSwaps] = useState(false)
+  const [openShiftClaims, setOpenShiftClaims] = useState<Record<number, OpenShiftClaim[]>>({})
+  const [viewMode, setViewMode] = useState<"grid" | "calendar">("calendar")
+  const [undoStack, setUndoStack] = useState<RotaUndoEntry[]>([])
+  const [warnings, setWarnings] = useState<Record<number, RotaWarning[]>>({})
+  const [proposal, setProposal] = useState<RotaProposal | null>(null)
+  const [acceptedTaskIds, setAcceptedTaskIds] = useState<number[]>([])
+  const [proposing, setProposing] = useState(false)
+  const [publishState, setPublishState] = useState<RotaPublishState | null>(null)
+  const [publishing, setPublishing] = useState(false)
+  const [clonePreview, setClonePreview] = useState<ClonePreview | null>(null)
+  const [cloneWeeks, setCloneWeeks] = useState(1)
 
   useEffect(() => {
     loadRota()
   }, [selectedWeek])
 
+  useEffect(() => {
+    loadSwapRequests()
+    loadOpenShifts()
+  }, [])
+
   const getWeekDates = () => {
     const start = new Date(selectedWeek)
     const dates = []
@@ -112,6 +229,8 @@ export default function RotaBuilderPage() {
           conflicts: conflictsRes.data.data.conflicts || [],
         })
       }
+      // Edits change whether the week has unpublished changes
+      loadPublishState()
     } catch (error) {
       console.error("Error loading rota:", error)
     } finally {
@@ -119,20 +238,198 @@ export default function RotaBuilderPage() {
     }
   }
 
-  const handleAssign = async (taskId: number, cleanerId: number | null) => {
+  const loadPublishState = async () => {
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const selectedCompanyId = localStorage.getItem("selectedCompanyId")
+      const params: any = { weekStart: getWeekStartEnd().start }
+      if (selectedCompanyId) {
+        params.companyId = selectedCompanyId
+      }
+      const res = await axios.get("/api/admin/rota/publish", {
+        headers: { Authorization: `Bearer ${token}` },
+        params,
+      })
+      if (res.data.success) {
+        setPublishState(res.data.data)
+      }
+    } catch (error) {
+      console.error("Error loading rota publish state:", error)
+    }
+  }
+
+  const handlePublish = async () => {
+    const affected = publishState?.changes.length || 0
+    if (!confirm(`Publish this week's rota? ${affected} cleaner${affected === 1 ? "" : "s"} will be notified of their changes.`)) return
+
+    try {
+      setPublishing(true)
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const selectedCompanyId = localStorage.getItem("selectedCompanyId")
+      const payload: any = { weekStart: getWeekStartEnd().start }
+      if (selectedCompanyId) {
+        payload.companyId = parseInt(selectedCompanyId)
+      }
+      const res = await axios.post("/api/admin/rota/publish", payload, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (res.data.success) {
+        setPublishState(res.data.data)
+        alert(res.data.message)
+      }
+    } catch (error: any) {
+      console.error("Error publishing rota:", error)
+      alert(error.response?.data?.message || "Failed to publish rota")
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  const loadSwapRequests = async () => {
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const res = await axios.get("/api/shift-swaps", {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { status: "accepted" },
+      })
+      if (res.data.success) {
+        setSwapRequests(res.data.data || [])
+      }
+    } catch (error) {
+      console.error("Error loading swap requests:", error)
+    }
+  }
+
+  const handleDecideSwap = async (swap: SwapRequest, approved: boolean) => {
+    if (approved && swap.warnings && swap.warnings.length > 0) {
+      if (!confirm(`This swap has ${swap.warnings.length} warning(s). Approve anyway?`)) return
+    }
     try {
       const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
       await axios.post(
-        "/api/admin/rota/assign",
-        { taskId, cleanerId },
+        `/api/shift-swaps/${swap.id}/approve`,
+        { approved },
         {
           headers: { Authorization: `Bearer ${token}` },
         }
       )
+      loadSwapRequests()
       loadRota()
+    } catch (error: any) {
+      console.error("Error deciding swap request:", error)
+      alert(error.response?.data?.message || "Failed to update swap request")
+    }
+  }
+
+  const loadOpenShifts = async () => {
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const selectedCompanyId = localStorage.getItem("selectedCompanyId")
+      const res = await axios.get("/api/open-shifts", {
+        headers: { Authorization: `Bearer ${token}` },
+        params: selectedCompanyId ? { companyId: selectedCompanyId } : {},
+      })
+      if (res.data.success) {
+        const claims: Record<number, OpenShiftClaim[]> = {}
+        for (const shift of res.data.data.shifts || []) {
+          claims[shift.id] = (shift.openShiftClaims || []).filter((c: OpenShiftClaim) => c.status === "pending")
+        }
+        setOpenShiftClaims(claims)
+      }
     } catch (error) {
+      console.error("Error loading open shifts:", error)
+    }
+  }
+
+  const handlePublishOpenShift = async (taskId: number, publish: boolean) => {
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const selectedCompanyId = localStorage.getItem("selectedCompanyId")
+      if (publish) {
+        const payload: any = { taskIds: [taskId] }
+        if (selectedCompanyId) {
+          payload.companyId = parseInt(selectedCompanyId)
+        }
+        const res = await axios.post("/api/open-shifts", payload, {
+          headers: { Authorization: `Bearer ${token}` },
+        })
+        if (res.data.data.skipped.length > 0) {
+          alert("Only unassigned, planned future tasks can be published as open shifts")
+        }
+      } else {
+        await axios.delete(`/api/open-shifts/${taskId}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        })
+      }
+      loadRota()
+      loadOpenShifts()
+    } catch (error: any) {
+      console.error("Error updating open shift:", error)
+      alert(error.response?.data?.message || "Failed to update open shift")
+    }
+  }
+
+  const handleDecideClaim = async (claimId: number, approved: boolean) => {
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      await axios.post(
+        `/api/open-shifts/claims/${claimId}/approve`,
+        { approved },
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      )
+      loadRota()
+      loadOpenShifts()
+    } catch (error: any) {
+      console.error("Error deciding open shift claim:", error)
+      alert(error.response?.data?.message || "Failed to update claim")
+    }
+  }
+
+  const swapUserName = (user?: SwapUser) =>
+    user ? (user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.email) : "Unknown"
+
+  // Apply an assign/move/resize and remember what it replaced so it can be undone
+  const applyRotaChange = async (taskId: number, change: RotaChange, recordUndo = true) => {
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const response = await axios.post(
+        "/api/admin/rota/assign",
+        { taskId, ...change },
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      )
+      const { previous, warnings: changeWarnings } = response.data.data
+      if (recordUndo) {
+        setUndoStack((stack) => [...stack, { taskId, previous }])
+      }
+      setWarnings((current) => ({ ...current, [taskId]: changeWarnings || [] }))
+      loadRota()
+      return true
+    } catch (error: any) {
       console.error("Error assigning task:", error)
-      alert("Failed to assign task")
+      alert(error.response?.data?.message || "Failed to assign task")
+      return false
+    }
+  }
+
+  const handleAssign = async (taskId: number, cleanerId: number | null) => {
+    await applyRotaChange(taskId, { cleanerId })
+  }
+
+  const handleUndo = async () => {
+    const entry = undoStack[undoStack.length - 1]
+    if (!entry) return
+    const { previous } = entry
+    const change: RotaChange = {
+      cleanerId: previous.cleanerId,
+      estimatedDurationMinutes: previous.estimatedDurationMinutes ?? null,
+    }
+    if (previous.scheduledDate) change.scheduledDate = previous.scheduledDate
+    if (await applyRotaChange(entry.taskId, change, false)) {
+      setUndoStack((stack) => stack.slice(0, -1))
     }
   }
 
@@ -156,31 +453,85 @@ export default function RotaBuilderPage() {
     await handleAssign(taskId, null)
   }
 
-  const handleCloneWeek = async () => {
-    if (!confirm("Clone this week's assignments to next week?")) return
-
+  const handleAutoAssign = async () => {
     try {
+      setProposing(true)
       const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
       const selectedCompanyId = localStorage.getItem("selectedCompanyId")
       const { start, end } = getWeekStartEnd()
-      
-      const payload: any = { weekStart: start, weekEnd: end }
+
+      const payload: any = { from: start, to: end }
       if (selectedCompanyId) {
         payload.companyId = parseInt(selectedCompanyId)
       }
-      
-      await axios.post(
-        "/api/admin/rota/week-clone",
-        payload,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      )
-      alert("Week cloned successfully!")
+
+      const response = await axios.post("/api/admin/rota/auto-assign", payload, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      const result: RotaProposal = response.data.data
+      setProposal(result)
+      setAcceptedTaskIds(result.assignments.map((assignment) => assignment.taskId))
+    } catch (error: any) {
+      console.error("Error building rota proposal:", error)
+      alert(error.response?.data?.message || "Failed to build rota proposal")
+    } finally {
+      setProposing(false)
+    }
+  }
+
+  // Apply accepted rows one by one through the assign endpoint, so each can be undone
+  const handleApplyProposal = async () => {
+    if (!proposal) return
+    const accepted = proposal.assignments.filter((assignment) => acceptedTaskIds.includes(assignment.taskId))
+    for (const assignment of accepted) {
+      if (!(await applyRotaChange(assignment.taskId, { cleanerId: assignment.cleanerId }))) break
+    }
+    setProposal(null)
+  }
+
+  // Copy the selected week into the following week(s): preview first, then create
+  const requestClone = async (dryRun: boolean) => {
+    const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+    const selectedCompanyId = localStorage.getItem("selectedCompanyId")
+    const { start } = getWeekStartEnd()
+    const nextWeek = new Date(selectedWeek)
+    nextWeek.setDate(nextWeek.getDate() + 7)
+
+    const payload: any = {
+      sourceWeekStart: start,
+      targetWeekStart: nextWeek.toISOString().split("T")[0],
+      weeks: cloneWeeks,
+      dryRun,
+    }
+    if (selectedCompanyId) {
+      payload.companyId = parseInt(selectedCompanyId)
+    }
+
+    return axios.post("/api/admin/rota/week-clone", payload, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+  }
+
+  const handleCloneWeek = async () => {
+    try {
+      const res = await requestClone(true)
+      if (res.data.success) {
+        setClonePreview(res.data.data)
+      }
+    } catch (error: any) {
+      console.error("Error previewing week clone:", error)
+      alert(error.response?.data?.message || "Failed to preview week clone")
+    }
+  }
+
+  const handleConfirmClone = async () => {
+    try {
+      const res = await requestClone(false)
+      setClonePreview(null)
+      alert(res.data.message || "Week cloned successfully!")
       const nextWeek = new Date(selectedWeek)
       nextWeek.setDate(nextWeek.getDate() + 7)
       setSelectedWeek(nextWeek.toISOString().split("T")[0])
-      loadRota() // Reload rota to show cloned tasks
     } catch (error: any) {
       console.error("Error cloning week:", error)
       const errorMessage = error.response?.data?.message || "Failed to clone week"
@@ -215,12 +566,61 @@ export default function RotaBuilderPage() {
               <p className="text-gray-600 mt-1">Visual calendar for weekly cleaner assignments</p>
             </div>
             <div className="flex items-center gap-3">
+              <div className="flex bg-gray-100 p-1 rounded-lg">
+                {(["calendar", "grid"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setViewMode(mode)}
+                    className={`px-3 py-1 rounded-md text-sm capitalize ${
+                      viewMode === mode ? "bg-white shadow text-cyan-700" : "text-gray-600"
+                    }`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleUndo}
+                disabled={undoStack.length === 0}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Undo{undoStack.length > 0 ? ` (${undoStack.length})` : ""}
+              </button>
               <button
-                onClick={handleCloneWeek}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+                onClick={handleAutoAssign}
+                disabled={proposing}
+                className="px-4 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 transition disabled:opacity-50"
               >
-                Clone Week
+                {proposing ? "Building..." : "Auto-assign"}
               </button>
+              <div className="flex items-center">
+                <select
+                  value={cloneWeeks}
+                  onChange={(e) => setCloneWeeks(Number(e.target.value))}
+                  className="px-2 py-2 border border-gray-300 rounded-l-lg text-sm"
+                  title="Number of following weeks to clone into"
+                >
+                  {[1, 2, 3, 4, 6, 8, 12].map((weeks) => (
+                    <option key={weeks} value={weeks}>
+                      {weeks} wk
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleCloneWeek}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-r-lg hover:bg-blue-700 transition"
+                >
+                  Clone Week
+                </button>
+              </div>
+              {swapRequests.length > 0 && (
+                <button
+                  onClick={() => setShowSwaps(!showSwaps)}
+                  className="px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition"
+                >
+                  Swap Requests ({swapRequests.length})
+                </button>
+              )}
               {rotaData && rotaData.conflicts.length > 0 && (
                 <button
                   onClick={() => setShowConflicts(!showConflicts)}
@@ -278,6 +678,194 @@ export default function RotaBuilderPage() {
           </div>
         </div>
 
+        {/* Draft / publish state of the week */}
+        {publishState && (
+          <div
+            className={`rounded-lg p-4 mb-6 border flex items-center justify-between ${
+              publishState.status === "published"
+                ? "bg-green-50 border-green-200"
+                : publishState.status === "unpublished_changes"
+                ? "bg-amber-50 border-amber-200"
+                : "bg-gray-50 border-gray-200"
+            }`}
+          >
+            <div>
+              <p className="font-semibold text-gray-900">
+                {publishState.status === "draft" && "Draft: cleaners have not been sent this week's rota"}
+                {publishState.status === "published" && `Published (version ${publishState.version})`}
+                {publishState.status === "unpublished_changes" && "Unpublished changes"}
+              </p>
+              <p className="text-sm text-gray-600">
+                {publishState.publishedAt &&
+                  `Last published ${new Date(publishState.publishedAt).toLocaleString()}. `}
+                {publishState.changes.length > 0 &&
+                  publishState.changes
+                    .map((change) => {
+                      const cleaner = rotaData?.cleaners.find((c) => c.id === change.cleanerId)
+                      const name = cleaner ? `${cleaner.firstName || ""} ${cleaner.lastName || ""}`.trim() || cleaner.email : `Cleaner ${change.cleanerId}`
+                      const counts = [
+                        change.added.length > 0 && `${change.added.length} added`,
+                        change.removed.length > 0 && `${change.removed.length} removed`,
+                        change.moved.length > 0 && `${change.moved.length} moved`,
+                      ].filter(Boolean)
+                      return `${name}: ${counts.join(", ")}`
+                    })
+                    .join(" · ")}
+              </p>
+            </div>
+            <button
+              onClick={handlePublish}
+              disabled={publishing || publishState.status === "published"}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {publishing ? "Publishing..." : "Publish Week"}
+            </button>
+          </div>
+        )}
+
+        {/* Week clone preview */}
+        {clonePreview && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-blue-900">
+                Clone week of {clonePreview.sourceWeekStart} into {clonePreview.targetWeekStarts.join(", ")} (
+                {clonePreview.items.length} to create, {clonePreview.skipped.length} skipped)
+              </h3>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleConfirmClone}
+                  disabled={clonePreview.items.length === 0}
+                  className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                >
+                  Create {clonePreview.items.length} tasks
+                </button>
+                <button
+                  onClick={() => setClonePreview(null)}
+                  className="px-3 py-1 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {clonePreview.items.map((item) => {
+                const cleaner = rotaData?.cleaners.find((c) => c.id === item.cleanerId)
+                return (
+                  <div
+                    key={`${item.targetWeekStart}-${item.sourceTaskId}`}
+                    className={`bg-white border rounded p-3 text-sm ${item.warnings.length > 0 ? "border-amber-300" : "border-blue-200"}`}
+                  >
+                    <div className="font-medium text-gray-900">
+                      {item.title}
+                      {item.address ? ` · ${item.address}` : ""} →{" "}
+                      {cleaner ? `${cleaner.firstName || ""} ${cleaner.lastName || ""}`.trim() || cleaner.email : "Unassigned"}
+                    </div>
+                    <div className="text-gray-600">{new Date(item.scheduledDate).toLocaleString("en-GB")}</div>
+                    {item.warnings.length > 0 && (
+                      <ul className="mt-1 text-xs text-amber-800">
+                        {item.warnings.map((warning, idx) => (
+                          <li key={idx}>• {warning.message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+            {clonePreview.skipped.length > 0 && (
+              <div className="mt-4">
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">Skipped</h4>
+                <ul className="text-xs text-gray-600 space-y-1">
+                  {clonePreview.skipped.map((skip, idx) => (
+                    <li key={idx}>
+                      • {skip.title}
+                      {skip.targetWeekStart ? ` (week of ${skip.targetWeekStart})` : ""}: {skip.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Auto-assign proposal awaiting review */}
+        {proposal && (
+          <div className="bg-cyan-50 border border-cyan-200 rounded-lg p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-cyan-900">
+                Proposed Rota ({proposal.assignments.length} placed, {proposal.unplaced.length} unplaced)
+              </h3>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleApplyProposal}
+                  disabled={acceptedTaskIds.length === 0}
+                  className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                >
+                  Apply {acceptedTaskIds.length} selected
+                </button>
+                <button
+                  onClick={() => setProposal(null)}
+                  className="px-3 py-1 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              {proposal.assignments.map((assignment) => (
+                <label key={assignment.taskId} className="flex items-start gap-3 bg-white border border-cyan-200 rounded p-3">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={acceptedTaskIds.includes(assignment.taskId)}
+                    onChange={(e) =>
+                      setAcceptedTaskIds((ids) =>
+                        e.target.checked ? [...ids, assignment.taskId] : ids.filter((id) => id !== assignment.taskId)
+                      )
+                    }
+                  />
+                  <div className="text-sm">
+                    <div className="font-medium text-gray-900">
+                      {assignment.taskTitle} · {assignment.address} → {assignment.cleanerName}
+                    </div>
+                    <div className="text-gray-600">{new Date(assignment.scheduledDate).toLocaleString("en-GB")}</div>
+                    <ul className="mt-1 text-xs text-gray-600">
+                      {assignment.reasons.map((reason, idx) => (
+                        <li key={idx}>• {reason}</li>
+                      ))}
+                      {assignment.warnings.map((warning, idx) => (
+                        <li key={`w${idx}`} className="text-amber-800">
+                          • {warning}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </label>
+              ))}
+            </div>
+            {proposal.unplaced.length > 0 && (
+              <div className="mt-4">
+                <h4 className="text-sm font-semibold text-red-900 mb-2">Could not place</h4>
+                <div className="space-y-2">
+                  {proposal.unplaced.map((task) => (
+                    <div key={task.taskId} className="bg-white border border-red-200 rounded p-3 text-sm">
+                      <div className="font-medium text-gray-900">
+                        {task.taskTitle} · {task.address}
+                      </div>
+                      <div className="text-gray-600">{new Date(task.scheduledDate).toLocaleString("en-GB")}</div>
+                      <ul className="mt-1 text-xs text-red-700">
+                        {task.reasons.map((reason, idx) => (
+                          <li key={idx}>• {reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Conflicts Alert */}
         {showConflicts && rotaData && rotaData.conflicts.length > 0 && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
@@ -292,10 +880,77 @@ export default function RotaBuilderPage() {
           </div>
         )}
 
-        {loading ? (
+        {/* Swap Requests awaiting approval */}
+        {showSwaps && swapRequests.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+            <h3 className="font-semibold text-amber-900 mb-3">Swap Requests Awaiting Approval</h3>
+            <div className="space-y-3">
+              {swapRequests.map((swap) => (
+                <div key={swap.id} className="bg-white border border-amber-200 rounded p-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="text-sm">
+                      <div className="font-medium text-gray-900">
+                        {swap.task.title} · {swap.task.property.address}
+                      </div>
+                      <div className="text-gray-600">
+                        {swap.task.scheduledDate
+                          ? new Date(swap.task.scheduledDate).toLocaleString("en-GB")
+                          : "Unscheduled"}
+                        {" · "}
+                        {swapUserName(swap.requester)} → {swapUserName(swap.acceptedBy)}
+                      </div>
+                      {swap.note && <div className="text-gray-500 mt-1">&ldquo;{swap.note}&rdquo;</div>}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => handleDecideSwap(swap, true)}
+                        className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleDecideSwap(swap, false)}
+                        className="px-3 py-1 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </div>
+                  {swap.warnings && swap.warnings.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {swap.warnings.map((warning, idx) => (
+                        <li
+                          key={idx}
+                          className={`text-xs ${warning.severity === "error" ? "text-red-700" : "text-amber-800"}`}
+                        >
+                          • {warning.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {loading && !rotaData ? (
           <div className="flex items-center justify-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-500"></div>
           </div>
+        ) : rotaData && viewMode === "calendar" ? (
+          <RotaCalendar
+            tasks={rotaData.tasks}
+            cleaners={rotaData.cleaners.map((cleaner) => ({
+              id: cleaner.id,
+              name: cleaner.firstName && cleaner.lastName ? `${cleaner.firstName} ${cleaner.lastName}` : cleaner.email,
+              availabilityOverrides: cleaner.availabilityOverrides,
+            }))}
+            weekDates={weekDates}
+            conflicts={rotaData.conflicts}
+            warnings={warnings}
+            onChange={(task, change) => applyRotaChange(task.id, change)}
+          />
         ) : rotaData ? (
           <div className="bg-white rounded-lg shadow overflow-hidden">
             {/* Calendar Grid */}
@@ -344,6 +999,9 @@ export default function RotaBuilderPage() {
                             onDrop={(e) => handleDrop(e, cleaner.id)}
                           >
                             <div className="space-y-1 min-h-[60px]">
+                              {overridesOn(cleaner.availabilityOverrides, date).map((override) => (
+                                <AvailabilityOverrideBadge key={override.id} override={override} />
+                              ))}
                               {dayTasks.map((task) => (
                                 <div
                                   key={task.id}
@@ -388,7 +1046,46 @@ export default function RotaBuilderPage() {
                                   {task.property.address}
                                 </div>
                                 <div className="text-gray-600 truncate">{task.title}</div>
-                                <div className="text-xs text-gray-500 mt-1">Drag to assign</div>
+                                {task.openShiftPublishedAt ? (
+                                  <>
+                                    <div className="mt-1 inline-block px-1.5 py-0.5 bg-green-100 text-green-800 rounded">
+                                      Open shift
+                                    </div>
+                                    {(openShiftClaims[task.id] || []).map((claim) => (
+                                      <div key={claim.id} className="mt-1 flex items-center gap-1">
+                                        <span className="truncate">{swapUserName(claim.user)}</span>
+                                        <button
+                                          onClick={() => handleDecideClaim(claim.id, true)}
+                                          className="text-green-700 hover:text-green-900"
+                                        >
+                                          ✓
+                                        </button>
+                                        <button
+                                          onClick={() => handleDecideClaim(claim.id, false)}
+                                          className="text-red-600 hover:text-red-800"
+                                        >
+                                          ✕
+                                        </button>
+                                      </div>
+                                    ))}
+                                    <button
+                                      onClick={() => handlePublishOpenShift(task.id, false)}
+                                      className="mt-1 block text-red-600 hover:text-red-800 text-xs"
+                                    >
+                                      Withdraw
+                                    </button>
+                                  </>
+                                ) : (
+                                  <>
+                                    <div className="text-xs text-gray-500 mt-1">Drag to assign</div>
+                                    <button
+                                      onClick={() => handlePublishOpenShift(task.id, true)}
+                                      className="mt-1 text-cyan-700 hover:text-cyan-900 text-xs"
+                                    >
+                                      Publish as open shift
+                                    </button>
+                                  </>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -16,7 +16,8 @@ import {
   Link as LinkIcon,
   Search,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  ClipboardList
 } from "lucide-react"
 
 // --- Types ---
@@ -26,6 +27,7 @@ interface SyncResult {
   geocodedAddresses: number
   errors: number
   totalProcessed: number
+  tasksCreated?: number
 }
 
 interface Company {
@@ -69,9 +71,12 @@ export default function SheetsSyncPage() {
   const [error, setError] = useState("")
   const [sheetHeaders, setSheetHeaders] = useState<string[]>([])
   const [columnMapping, setColumnMapping] = useState<ColumnMapping>({})
+  const [jobTemplates, setJobTemplates] = useState<any[]>([])
+  const [jobTemplateId, setJobTemplateId] = useState("")
 
   useEffect(() => {
     loadCompanies()
+    loadJobTemplates()
   }, [])
 
   // Smart ID Extraction
@@ -84,6 +89,20 @@ export default function SheetsSyncPage() {
     setSpreadsheetId(extractId(spreadsheetInput))
   }, [spreadsheetInput])
 
+  const loadJobTemplates = async () => {
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const response = await axios.get("/api/job-templates", {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (response.data.success) {
+        setJobTemplates(response.data.data.templates || [])
+      }
+    } catch (error) {
+      console.error("Error loading job templates:", error)
+    }
+  }
+
   const loadCompanies = async () => {
     try {
       const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
@@ -171,6 +190,7 @@ export default function SheetsSyncPage() {
         range,
         companyId,
         columnMapping,
+        jobTemplateId: jobTemplateId ? Number(jobTemplateId) : undefined,
       }, {
         headers: { Authorization: `Bearer ${token}` },
       })
@@ -336,10 +356,11 @@ export default function SheetsSyncPage() {
         {result && (
             <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
                 <h2 className="text-lg font-bold text-gray-900 mb-4">Sync Results</h2>
-                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
                     <StatCard icon={CheckCircle2} label="Created" value={result.createdProperties} color="text-green-600" bg="bg-green-50" />
                     <StatCard icon={RefreshCw} label="Updated" value={result.updatedProperties} color="text-blue-600" bg="bg-blue-50" />
                     <StatCard icon={MapIcon} label="Geocoded" value={result.geocodedAddresses} color="text-amber-600" bg="bg-amber-50" />
+                    <StatCard icon={ClipboardList} label="Tasks" value={result.tasksCreated ?? 0} color="text-indigo-600" bg="bg-indigo-50" />
                     <StatCard icon={AlertCircle} label="Errors" value={result.errors} color="text-red-600" bg="bg-red-50" />
                     <StatCard icon={Database} label="Total" value={result.totalProcessed} color="text-purple-600" bg="bg-purple-50" />
                 </div>
@@ -427,6 +448,26 @@ export default function SheetsSyncPage() {
                 </div>
             </div>
 
+            {/* Job template for imported cleaning dates */}
+            {Object.values(columnMapping).includes("cleaningDate") && (
+                <div className="px-6 py-4 border-t border-gray-100 bg-white">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Job template for cleaning tasks</label>
+                    <select
+                        value={jobTemplateId}
+                        onChange={(e) => setJobTemplateId(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none"
+                    >
+                        <option value="">None (title only)</option>
+                        {jobTemplates
+                            .filter((t) => !companyId || t.companyId === companyId)
+                            .map((t) => (
+                                <option key={t.id} value={t.id}>{t.name}</option>
+                            ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">Applied to properties whose type matches the template.</p>
+                </div>
+            )}
+
             {/* Modal Footer */}
             <div className="px-6 py-4 border-t border-gray-100 bg-white rounded-b-xl flex flex-col sm:flex-row justify-between items-center gap-4">
                 <div className="text-xs text-gray-500 flex items-center gap-2">
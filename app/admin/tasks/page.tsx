@@ -31,10 +31,14 @@ interface Task {
   description?: string
   status: string
   scheduledDate?: string
+  dueBy?: string
   startedAt?: string
   completedAt?: string
   isRecurring: boolean
   recurringPattern?: string
+  recurrenceRule?: string
+  recurrenceExdates?: string
+  parentTaskId?: number
   property: {
     id: number
     address: string
@@ -50,9 +54,17 @@ interface Task {
     id: number
     name: string
   }
+  taskAssignments?: Array<{
+    user: {
+      id: number
+      firstName?: string
+      lastName?: string
+      email: string
+    }
+  }>
   _count?: {
     photos: number
-    notes: number
+    notes: number // Open issues only
   }
 }
 
@@ -74,6 +86,29 @@ interface User {
 const STATUS_ORDER = [
   "DRAFT", "PLANNED", "ASSIGNED", "IN_PROGRESS", "SUBMITTED", "QA_REVIEW", "APPROVED", "REJECTED"
 ];
+// New tasks start in one of these; later statuses are reached through the lifecycle
+const INITIAL_STATUSES = ["DRAFT", "PLANNED", "ASSIGNED"];
+
+// Cancelling goes through POST /api/tasks/[id]/cancel so a reason code and charges are recorded
+const CANCELLABLE_STATUSES = ["DRAFT", "PLANNED", "ASSIGNED", "IN_PROGRESS"];
+
+// Common iCalendar RRULE presets; anything else can be entered as a custom rule
+const RECURRENCE_PRESETS = [
+  { label: "Daily", rule: "FREQ=DAILY" },
+  { label: "Weekly", rule: "FREQ=WEEKLY" },
+  { label: "Every 2 weeks", rule: "FREQ=WEEKLY;INTERVAL=2" },
+  { label: "Mon / Wed / Fri", rule: "FREQ=WEEKLY;BYDAY=MO,WE,FR" },
+  { label: "Weekdays", rule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" },
+  { label: "First Tuesday of the month", rule: "FREQ=MONTHLY;BYDAY=1TU" },
+  { label: "Monthly", rule: "FREQ=MONTHLY" },
+];
+
+const LEGACY_PATTERN_RULES: Record<string, string> = {
+  daily: "FREQ=DAILY",
+  weekly: "FREQ=WEEKLY",
+  biweekly: "FREQ=WEEKLY;INTERVAL=2",
+  monthly: "FREQ=MONTHLY",
+};
 
 export default function TasksPage() {
   const [tasks, setTasks] = useState<Task[]>([])
@@ -85,6 +120,8 @@ export default function TasksPage() {
   const [viewMode, setViewMode] = useState<"list" | "board">("list")
   const [isDrawerOpen, setIsDrawerOpen] = useState(false)
   const [selectedTask, setSelectedTask] = useState<Task | null>(null)
+  const [selectedIds, setSelectedIds] = useState<number[]>([])
+  const [cancellingTask, setCancellingTask] = useState<Task | null>(null)
   
   // Filters
   const [searchTerm, setSearchTerm] = useState("")
@@ -105,7 +142,20 @@ export default function TasksPage() {
         axios.get("/api/users", { headers: { Authorization: `Bearer ${token}` } })
       ])
 
-      if (tasksRes.data.success) setTasks(tasksRes.data.data.tasks)
+      if (tasksRes.data.success) {
+        setTasks(tasksRes.data.data.tasks)
+        // Drop selections for tasks that no longer exist
+        const ids = new Set(tasksRes.data.data.tasks.map((t: Task) => t.id))
+        setSelectedIds(prev => prev.filter(id => ids.has(id)))
+        // Open the task linked from global search (?taskId=)
+        const linkedId = Number(new URLSearchParams(window.location.search).get("taskId"))
+        const linked = linkedId ? tasksRes.data.data.tasks.find((t: Task) => t.id === linkedId) : null
+        if (linked) {
+          setSelectedTask(linked)
+          setIsDrawerOpen(true)
+          window.history.replaceState(null, "", window.location.pathname)
+        }
+      }
       if (propsRes.data.success) setProperties(propsRes.data.data.properties)
       if (usersRes.data.success) {
         // Filter for cleaners
@@ -125,19 +175,24 @@ export default function TasksPage() {
       const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
       await axios.delete(`/api/tasks/${taskId}`, { headers: { Authorization: `Bearer ${token}` } })
       setTasks(prev => prev.filter(t => t.id !== taskId))
-    } catch (e) {
-      alert("Failed to delete task")
+    } catch (e: any) {
+      alert(e.response?.data?.message || "Failed to delete task")
     }
   }
 
-  const handleStatusChange = async (taskId: number, newStatus: string) => {
+  // Returns the server's reason when the move is rejected
+  const handleStatusChange = async (taskId: number, newStatus: string): Promise<string | null> => {
+    const previous = tasks.find(t => t.id === taskId)?.status
     // Optimistic update
     setTasks(prev => prev.map(t => t.id === taskId ? { ...t, status: newStatus } : t))
     try {
       const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
       await axios.patch(`/api/tasks/${taskId}/status`, { status: newStatus }, { headers: { Authorization: `Bearer ${token}` } })
-    } catch (e) {
-      loadData() // Revert on error
+      return null
+    } catch (e: any) {
+      // Snap back to where it was
+      if (previous) setTasks(prev => prev.map(t => t.id === taskId ? { ...t, status: previous } : t))
+      return e.response?.data?.message || "Status change failed"
     }
   }
 
@@ -190,7 +245,7 @@ export default function TasksPage() {
                 className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
               >
                 <option value="all">All Statuses</option>
-                {STATUS_ORDER.map(s => <option key={s} value={s}>{s.replace("_", " ")}</option>)}
+                {[...STATUS_ORDER, "CANCELLED"].map(s => <option key={s} value={s}>{s.replace("_", " ")}</option>)}
               </select>
               
               <select 
@@ -223,6 +278,16 @@ export default function TasksPage() {
           </div>
         </div>
 
+        {/* Bulk Actions */}
+        {selectedIds.length > 0 && (
+          <BulkActionBar
+            taskIds={selectedIds}
+            users={users}
+            onClear={() => setSelectedIds([])}
+            onDone={loadData}
+          />
+        )}
+
         {/* Content Area */}
         <div className="flex-1 min-h-0 overflow-hidden">
           {loading ? (
@@ -232,14 +297,19 @@ export default function TasksPage() {
           ) : viewMode === "list" ? (
             <TaskListView 
               tasks={filteredTasks} 
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
               onEdit={(t) => { setSelectedTask(t); setIsDrawerOpen(true) }}
               onDelete={handleDelete}
+              onCancel={setCancellingTask}
               onStatusChange={handleStatusChange}
             />
           ) : (
             <TaskBoardView 
               tasks={filteredTasks}
-              onEdit={(t) => { setSelectedTask(t); setIsDrawerOpen(true) }}
+              onEdit={(t: Task) => { setSelectedTask(t); setIsDrawerOpen(true) }}
+              onStatusChange={handleStatusChange}
+              onCancel={setCancellingTask}
             />
           )}
         </div>
@@ -250,24 +320,41 @@ export default function TasksPage() {
         isOpen={isDrawerOpen}
         onClose={() => setIsDrawerOpen(false)}
         task={selectedTask}
+        tasks={tasks}
         properties={properties}
         users={users}
         onSave={() => { setIsDrawerOpen(false); loadData() }}
       />
+
+      {cancellingTask && (
+        <CancelTaskModal
+          task={cancellingTask}
+          onClose={() => setCancellingTask(null)}
+          onCancelled={() => { setCancellingTask(null); loadData() }}
+        />
+      )}
     </AdminLayout>
   )
 }
 
 // --- List View Component ---
-function TaskListView({ tasks, onEdit, onDelete, onStatusChange }: any) {
+function TaskListView({ tasks, selectedIds, onSelectionChange, onEdit, onDelete, onCancel, onStatusChange }: any) {
   if (tasks.length === 0) return <EmptyState />
 
+  const allSelected = tasks.every((t: Task) => selectedIds.includes(t.id))
+  const toggleAll = () => onSelectionChange(allSelected ? [] : tasks.map((t: Task) => t.id))
+  const toggle = (id: number) =>
+    onSelectionChange(selectedIds.includes(id) ? selectedIds.filter((s: number) => s !== id) : [...selectedIds, id])
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden h-full flex flex-col">
       <div className="overflow-auto flex-1">
         <table className="w-full">
           <thead className="bg-gray-50 border-b border-gray-200 sticky top-0 z-10">
             <tr>
+              <th className="pl-6 py-3 w-4">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} className="rounded border-gray-300" />
+              </th>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Task Details</th>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Property</th>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Assignee</th>
@@ -277,14 +364,22 @@ function TaskListView({ tasks, onEdit, onDelete, onStatusChange }: any) {
           </thead>
           <tbody className="divide-y divide-gray-100">
             {tasks.map((task: Task) => (
-              <tr key={task.id} className="group hover:bg-gray-50/80 transition-colors">
+              <tr key={task.id} className={`group hover:bg-gray-50/80 transition-colors ${selectedIds.includes(task.id) ? "bg-indigo-50/50" : ""}`}>
+                <td className="pl-6 py-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(task.id)}
+                    onChange={() => toggle(task.id)}
+                    className="rounded border-gray-300"
+                  />
+                </td>
                 <td className="px-6 py-4">
                   <div className="flex flex-col">
                     <span className="font-medium text-gray-900">{task.title}</span>
                     <div className="flex items-center gap-2 mt-1">
                       {task.isRecurring && (
                         <span className="inline-flex items-center gap-1 text-[10px] bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded border border-blue-100">
-                          <Repeat size={10} /> {task.recurringPattern}
+                          <Repeat size={10} /> {describeRecurrence(task)}
                         </span>
                       )}
                       <span className="text-xs text-gray-500 flex items-center gap-1">
@@ -318,6 +413,9 @@ function TaskListView({ tasks, onEdit, onDelete, onStatusChange }: any) {
                 <td className="px-6 py-4 text-right">
                    <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                       <button onClick={() => onEdit(task)} className="text-gray-400 hover:text-indigo-600 p-1">Edit</button>
+                      {CANCELLABLE_STATUSES.includes(task.status) && (
+                        <button onClick={() => onCancel(task)} className="text-gray-400 hover:text-amber-600 p-1">Cancel</button>
+                      )}
                       <button onClick={() => onDelete(task.id)} className="text-gray-400 hover:text-red-600 p-1">Delete</button>
                    </div>
                 </td>
@@ -330,61 +428,400 @@ function TaskListView({ tasks, onEdit, onDelete, onStatusChange }: any) {
   )
 }
 
+// --- Bulk Action Bar ---
+const BULK_OPERATIONS = [
+  { value: "assign", label: "Assign cleaners" },
+  { value: "unassign", label: "Unassign cleaners" },
+  { value: "shift_date", label: "Shift date" },
+  { value: "change_status", label: "Change status" },
+  { value: "apply_checklist_template", label: "Apply checklist template" },
+]
+
+function BulkActionBar({ taskIds, users, onClear, onDone }: any) {
+  const [operation, setOperation] = useState("assign")
+  const [userIds, setUserIds] = useState<number[]>([])
+  const [days, setDays] = useState(1)
+  const [status, setStatus] = useState("PLANNED")
+  const [reason, setReason] = useState("")
+  const [templates, setTemplates] = useState<Array<{ id: number; name: string }>>([])
+  const [templateId, setTemplateId] = useState("")
+  const [running, setRunning] = useState(false)
+  const [outcome, setOutcome] = useState<any>(null)
+
+  useEffect(() => {
+    const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+    axios.get("/api/checklist-templates", { headers: { Authorization: `Bearer ${token}` } })
+      .then(res => res.data.success && setTemplates(res.data.data.templates))
+      .catch(() => setTemplates([]))
+  }, [])
+
+  const handleApply = async () => {
+    const params: Record<string, any> =
+      operation === "assign" ? { userIds } :
+      operation === "unassign" ? (userIds.length > 0 ? { userIds } : {}) :
+      operation === "shift_date" ? { days } :
+      operation === "change_status" ? { status, reason: reason || undefined } :
+      { templateId: Number(templateId) }
+
+    setRunning(true)
+    setOutcome(null)
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      const res = await axios.post(
+        "/api/tasks/bulk",
+        { taskIds, operation, ...params },
+        { headers: { Authorization: `Bearer ${token}` } }
+      )
+      setOutcome(res.data.data)
+      onDone()
+    } catch (e: any) {
+      alert(e.response?.data?.message || "Bulk update failed")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const failures = outcome?.results.filter((r: any) => !r.success) || []
+  const warnings = outcome?.results.flatMap((r: any) => r.warnings.map((w: any) => ({ taskId: r.taskId, ...w }))) || []
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-200 rounded-xl p-4 mb-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-indigo-900">{taskIds.length} selected</span>
+        <select
+          value={operation}
+          onChange={(e) => { setOperation(e.target.value); setOutcome(null) }}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+        >
+          {BULK_OPERATIONS.map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+        </select>
+
+        {(operation === "assign" || operation === "unassign") && (
+          <select
+            multiple
+            value={userIds.map(String)}
+            onChange={(e) => setUserIds(Array.from(e.target.selectedOptions).map(o => Number(o.value)))}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white h-20 min-w-[200px]"
+          >
+            {users.map((u: User) => (
+              <option key={u.id} value={u.id}>{`${u.firstName || ""} ${u.lastName || ""}`.trim() || u.email}</option>
+            ))}
+          </select>
+        )}
+        {operation === "unassign" && userIds.length === 0 && (
+          <span className="text-xs text-gray-500">No cleaners selected removes everyone</span>
+        )}
+
+        {operation === "shift_date" && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Days
+            <input
+              type="number"
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+        )}
+
+        {operation === "change_status" && (
+          <>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              {[...STATUS_ORDER, "ARCHIVED"].map(s => <option key={s} value={s}>{s.replace("_", " ")}</option>)}
+            </select>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={status === "REJECTED" ? "Reason (required)" : "Reason (optional)"}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+            />
+          </>
+        )}
+
+        {operation === "apply_checklist_template" && (
+          <select
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            <option value="">Select template...</option>
+            {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        )}
+
+        <button
+          onClick={handleApply}
+          disabled={running || (operation === "assign" && userIds.length === 0) || (operation === "apply_checklist_template" && !templateId)}
+          className="inline-flex items-center gap-2 bg-indigo-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {running && <Loader2 className="animate-spin" size={14} />}
+          Apply
+        </button>
+        <button onClick={onClear} className="text-sm text-gray-500 hover:text-gray-700 ml-auto">
+          Clear selection
+        </button>
+      </div>
+
+      {outcome && (
+        <div className="text-sm space-y-1">
+          <p className="text-gray-700">
+            {outcome.succeeded} updated{outcome.failed > 0 && `, ${outcome.failed} failed`}
+            {outcome.warningCount > 0 && `, ${outcome.warningCount} conflict warning(s)`}
+          </p>
+          {failures.map((r: any) => (
+            <p key={`f-${r.taskId}`} className="text-red-700 flex items-center gap-1">
+              <AlertCircle size={14} /> Task #{r.taskId}: {r.message}
+            </p>
+          ))}
+          {warnings.map((w: any, i: number) => (
+            <p key={`w-${i}`} className="text-amber-700 flex items-center gap-1">
+              <AlertCircle size={14} /> Task #{w.taskId}: {w.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // --- Board View Component ---
-function TaskBoardView({ tasks, onEdit }: any) {
-  const columns = ["DRAFT", "PLANNED", "ASSIGNED", "IN_PROGRESS", "APPROVED"];
-  
+// One column per status; ARCHIVED tasks stay off the board
+const BOARD_COLUMNS = [...STATUS_ORDER, "CANCELLED"]
+
+type Swimlane = "none" | "cleaner" | "property"
+
+function getAssignees(task: Task) {
+  const assignees = task.taskAssignments?.map(a => a.user) || []
+  if (task.assignedUser && !assignees.some(u => u.id === task.assignedUser!.id)) assignees.unshift(task.assignedUser)
+  return assignees
+}
+
+// Lane a task sits in; tasks with several cleaners sit in their primary cleaner's lane
+function getLane(task: Task, swimlane: Swimlane): { key: string; label: string } {
+  if (swimlane === "property") return { key: `p${task.property.id}`, label: task.property.address }
+  if (swimlane === "cleaner") {
+    const primary = getAssignees(task)[0]
+    return primary
+      ? { key: `u${primary.id}`, label: [primary.firstName, primary.lastName].filter(Boolean).join(" ") || primary.email }
+      : { key: "unassigned", label: "Unassigned" }
+  }
+  return { key: "all", label: "" }
+}
+
+// Drag-and-drop only changes status; every drop goes through PATCH /api/tasks/[id]/status,
+// and a rejected move snaps the card back with the server's reason
+function TaskBoardView({ tasks, onEdit, onStatusChange, onCancel }: any) {
+  const [swimlane, setSwimlane] = useState<Swimlane>("none")
+  const [dragged, setDragged] = useState<Task | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [moveError, setMoveError] = useState<string | null>(null)
+
+  const lanes: Array<{ key: string; label: string; tasks: Task[] }> = []
+  for (const task of tasks as Task[]) {
+    if (!BOARD_COLUMNS.includes(task.status)) continue
+    const lane = getLane(task, swimlane)
+    let entry = lanes.find(l => l.key === lane.key)
+    if (!entry) {
+      entry = { ...lane, tasks: [] }
+      lanes.push(entry)
+    }
+    entry.tasks.push(task)
+  }
+  lanes.sort((a, b) => (a.key === "unassigned" ? 1 : b.key === "unassigned" ? -1 : a.label.localeCompare(b.label)))
+  if (lanes.length === 0) lanes.push({ key: "all", label: "", tasks: [] })
+
+  const handleDrop = async (e: React.DragEvent, status: string) => {
+    e.preventDefault()
+    setDropTarget(null)
+    const task = dragged
+    setDragged(null)
+    if (!task || task.status === status) return
+    setMoveError(null)
+
+    // Cancelling needs a reason code, so it goes through the cancel dialog instead
+    if (status === "CANCELLED") {
+      if (CANCELLABLE_STATUSES.includes(task.status)) onCancel(task)
+      else setMoveError(`Cannot cancel a task that is ${task.status.replace("_", " ")}`)
+      return
+    }
+
+    const error = await onStatusChange(task.id, status)
+    if (error) setMoveError(`"${task.title}" could not move to ${status.replace("_", " ")}: ${error}`)
+  }
+
   return (
-    <div className="h-full overflow-x-auto pb-4">
-      <div className="flex gap-4 min-w-max h-full">
-        {columns.map(status => {
-           const columnTasks = tasks.filter((t: Task) => t.status === status);
-           return (
-             <div key={status} className="w-72 flex flex-col h-full bg-gray-50/50 rounded-xl border border-gray-200">
-                <div className="p-3 border-b border-gray-100 flex items-center justify-between sticky top-0 bg-gray-50/50 backdrop-blur-sm rounded-t-xl">
-                   <span className="text-xs font-bold text-gray-500 uppercase">{status.replace("_", " ")}</span>
-                   <span className="bg-white px-2 py-0.5 rounded text-xs text-gray-600 border border-gray-200 shadow-sm">{columnTasks.length}</span>
-                </div>
-                <div className="p-2 space-y-2 overflow-y-auto flex-1">
-                   {columnTasks.map((task: Task) => (
-                     <div 
-                        key={task.id} 
-                        onClick={() => onEdit(task)}
-                        className="bg-white p-3 rounded-lg border border-gray-200 shadow-sm hover:shadow-md hover:border-indigo-300 cursor-pointer transition-all"
-                     >
-                        <div className="flex justify-between items-start mb-2">
-                           <span className="text-sm font-medium text-gray-900 line-clamp-2">{task.title}</span>
-                           {task.isRecurring && <Repeat size={12} className="text-blue-500 shrink-0" />}
-                        </div>
-                        <div className="flex items-center gap-1 text-xs text-gray-500 mb-2">
-                           <MapPin size={12} />
-                           <span className="truncate">{task.property.address}</span>
-                        </div>
-                        <div className="flex items-center justify-between pt-2 border-t border-gray-50">
-                           <span className="text-[10px] text-gray-400">
-                             {task.scheduledDate ? new Date(task.scheduledDate).toLocaleDateString() : 'No date'}
-                           </span>
-                           {task.assignedUser && (
-                              <div className="w-5 h-5 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center text-[10px] font-bold">
-                                 {task.assignedUser.firstName?.[0]}
-                              </div>
-                           )}
-                        </div>
-                     </div>
-                   ))}
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex items-center gap-3">
+        <label className="text-sm text-gray-600">Swimlanes</label>
+        <select
+          value={swimlane}
+          onChange={(e) => setSwimlane(e.target.value as Swimlane)}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+        >
+          <option value="none">None</option>
+          <option value="cleaner">By cleaner</option>
+          <option value="property">By property</option>
+        </select>
+        {moveError && (
+          <div className="flex items-center gap-2 text-sm text-red-700 bg-red-50 border border-red-200 px-3 py-1.5 rounded-lg">
+            <AlertCircle size={14} />
+            <span>{moveError}</span>
+            <button onClick={() => setMoveError(null)} className="text-red-400 hover:text-red-600"><X size={14} /></button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto pb-4">
+        <div className="min-w-max space-y-4">
+          {lanes.map(lane => (
+            <div key={lane.key}>
+              {swimlane !== "none" && (
+                <div className="text-sm font-semibold text-gray-700 mb-2">
+                  {lane.label} <span className="text-xs text-gray-400 font-normal">({lane.tasks.length})</span>
                 </div>
-             </div>
-           )
-        })}
+              )}
+              <div className="flex gap-4">
+                {BOARD_COLUMNS.map(status => {
+                  const columnTasks = lane.tasks.filter(t => t.status === status)
+                  const cellKey = `${lane.key}:${status}`
+                  return (
+                    <div
+                      key={status}
+                      onDragOver={(e) => { e.preventDefault(); setDropTarget(cellKey) }}
+                      onDragLeave={() => setDropTarget(prev => (prev === cellKey ? null : prev))}
+                      onDrop={(e) => handleDrop(e, status)}
+                      className={`w-72 flex flex-col rounded-xl border transition-colors ${swimlane === "none" ? "min-h-[60vh]" : "min-h-[8rem]"} ${
+                        dropTarget === cellKey ? "bg-indigo-50 border-indigo-300" : "bg-gray-50/50 border-gray-200"
+                      }`}
+                    >
+                      <div className="p-3 border-b border-gray-100 flex items-center justify-between rounded-t-xl">
+                        <span className="text-xs font-bold text-gray-500 uppercase">{status.replace("_", " ")}</span>
+                        <span className="bg-white px-2 py-0.5 rounded text-xs text-gray-600 border border-gray-200 shadow-sm">{columnTasks.length}</span>
+                      </div>
+                      <div className="p-2 space-y-2 flex-1">
+                        {columnTasks.map(task => (
+                          <BoardCard
+                            key={task.id}
+                            task={task}
+                            onEdit={onEdit}
+                            onDragStart={() => { setMoveError(null); setDragged(task) }}
+                            onDragEnd={() => { setDragged(null); setDropTarget(null) }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function BoardCard({ task, onEdit, onDragStart, onDragEnd }: { task: Task; onEdit: (task: Task) => void; onDragStart: () => void; onDragEnd: () => void }) {
+  const assignees = getAssignees(task)
+  const photoCount = task._count?.photos ?? 0
+  const openIssues = task._count?.notes ?? 0
+
+  return (
+    <div
+      draggable
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onClick={() => onEdit(task)}
+      className="bg-white p-3 rounded-lg border border-gray-200 shadow-sm hover:shadow-md hover:border-indigo-300 cursor-grab active:cursor-grabbing transition-all"
+    >
+      <div className="flex justify-between items-start mb-2">
+        <span className="text-sm font-medium text-gray-900 line-clamp-2">{task.title}</span>
+        {task.isRecurring && <Repeat size={12} className="text-blue-500 shrink-0" />}
+      </div>
+      <div className="flex items-center gap-1 text-xs text-gray-500 mb-2">
+        <MapPin size={12} />
+        <span className="truncate">{task.property.address}</span>
+      </div>
+      <div className="flex items-center gap-3 text-[11px] text-gray-500 mb-2">
+        <span title="Photos">{photoCount} photo{photoCount === 1 ? "" : "s"}</span>
+        {openIssues > 0 && (
+          <span className="inline-flex items-center gap-1 text-red-600" title="Open issues">
+            <AlertCircle size={11} /> {openIssues} open issue{openIssues === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center justify-between pt-2 border-t border-gray-50">
+        <span className="text-[10px] text-gray-400">
+          {task.scheduledDate ? new Date(task.scheduledDate).toLocaleDateString() : 'No date'}
+        </span>
+        <div className="flex -space-x-1">
+          {assignees.map(user => (
+            <div
+              key={user.id}
+              title={[user.firstName, user.lastName].filter(Boolean).join(" ") || user.email}
+              className="w-5 h-5 rounded-full bg-indigo-100 text-indigo-700 border border-white flex items-center justify-center text-[10px] font-bold"
+            >
+              {user.firstName?.[0] || user.email[0]}
+            </div>
+          ))}
+        </div>
       </div>
     </div>
   )
 }
 
 // --- Task Drawer (Slide-over) ---
-function TaskDrawer({ isOpen, onClose, task, properties, users, onSave }: any) {
+function TaskDrawer({ isOpen, onClose, task, tasks, properties, users, onSave }: any) {
   const [formData, setFormData] = useState<any>({})
   const [loading, setLoading] = useState(false)
+  const [dependsOnTaskIds, setDependsOnTaskIds] = useState<number[]>([])
+  const [chain, setChain] = useState<any[]>([])
+  const [jobTemplates, setJobTemplates] = useState<any[]>([])
+
+  // Job templates are only offered when creating a task
+  useEffect(() => {
+    if (task || !isOpen) return
+    const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+    axios.get("/api/job-templates", { headers: { Authorization: `Bearer ${token}` } })
+      .then(res => res.data.success && setJobTemplates(res.data.data.templates))
+      .catch(() => {})
+  }, [task, isOpen])
+
+  const applyJobTemplate = (templateId: string) => {
+    const template = jobTemplates.find(t => t.id === Number(templateId))
+    if (!template) {
+        setFormData({ ...formData, jobTemplateId: undefined })
+        return
+    }
+    setFormData({
+        ...formData,
+        jobTemplateId: template.id,
+        title: template.title,
+        description: template.description || "",
+        estimatedDurationMinutes: template.estimatedDurationMinutes ?? undefined,
+        budget: template.budget ?? undefined,
+    })
+  }
+
+  // Load the task's predecessor stages and the chain it belongs to
+  useEffect(() => {
+    setDependsOnTaskIds([])
+    setChain([])
+    if (!task || !isOpen) return
+    const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+    axios.get(`/api/tasks/${task.id}/dependencies`, { headers: { Authorization: `Bearer ${token}` } })
+      .then(res => {
+        if (!res.data.success) return
+        setDependsOnTaskIds(res.data.data.predecessors.map((p: any) => p.id))
+        setChain(res.data.data.chain)
+      })
+      .catch(() => {})
+  }, [task, isOpen])
 
   useEffect(() => {
     if (task) {
@@ -395,12 +832,14 @@ function TaskDrawer({ isOpen, onClose, task, properties, users, onSave }: any) {
             assignedUserId: task.assignedUser?.id || "",
             status: task.status,
             scheduledDate: task.scheduledDate ? new Date(task.scheduledDate).toISOString().slice(0, 16) : "",
+            dueBy: task.dueBy ? new Date(task.dueBy).toISOString().slice(0, 16) : "",
             isRecurring: task.isRecurring,
-            recurringPattern: task.recurringPattern || "weekly"
+            recurrenceRule: task.recurrenceRule || LEGACY_PATTERN_RULES[task.recurringPattern || ""] || "FREQ=WEEKLY",
+            recurrenceExdates: task.recurrenceExdates ? JSON.parse(task.recurrenceExdates).join(", ") : ""
         })
     } else {
         setFormData({ 
-            title: "", propertyId: "", status: "DRAFT", isRecurring: false, recurringPattern: "weekly" 
+            title: "", propertyId: "", status: "DRAFT", isRecurring: false, recurrenceRule: "FREQ=WEEKLY", recurrenceExdates: ""
         })
     }
   }, [task, isOpen])
@@ -410,21 +849,33 @@ function TaskDrawer({ isOpen, onClose, task, properties, users, onSave }: any) {
     setLoading(true)
     try {
         const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
-        const payload = {
-            ...formData,
+        const { isRecurring, recurrenceRule, recurrenceExdates, ...fields } = formData
+        const payload: any = {
+            ...fields,
             propertyId: parseInt(formData.propertyId),
             assignedUserId: formData.assignedUserId ? parseInt(formData.assignedUserId) : undefined,
             scheduledDate: formData.scheduledDate ? new Date(formData.scheduledDate).toISOString() : undefined,
+            dueBy: formData.dueBy ? new Date(formData.dueBy).toISOString() : task?.dueBy ? null : undefined,
+        }
+
+        // Recurrence is only sent for series parents (new recurring tasks or existing series)
+        if (isRecurring || task?.isRecurring) {
+            payload.isRecurring = !!isRecurring
+            if (isRecurring) {
+                payload.recurrenceRule = recurrenceRule
+                payload.recurrenceExdates = (recurrenceExdates || "").split(",").map((d: string) => d.trim()).filter(Boolean)
+            }
         }
 
         if (task) {
             await axios.patch(`/api/tasks/${task.id}`, payload, { headers: { Authorization: `Bearer ${token}` } })
+            await axios.put(`/api/tasks/${task.id}/dependencies`, { dependsOnTaskIds }, { headers: { Authorization: `Bearer ${token}` } })
         } else {
-            await axios.post("/api/tasks", payload, { headers: { Authorization: `Bearer ${token}` } })
+            await axios.post("/api/tasks", { ...payload, dependsOnTaskIds }, { headers: { Authorization: `Bearer ${token}` } })
         }
         onSave()
-    } catch (e) {
-        alert("Operation failed")
+    } catch (e: any) {
+        alert(e.response?.data?.message || "Operation failed")
     } finally {
         setLoading(false)
     }
@@ -444,6 +895,23 @@ function TaskDrawer({ isOpen, onClose, task, properties, users, onSave }: any) {
 
             {/* Drawer Form */}
             <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-6">
+                {!task && jobTemplates.length > 0 && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Job Template</label>
+                    <select value={formData.jobTemplateId || ""} onChange={e => applyJobTemplate(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none">
+                        <option value="">None</option>
+                        {jobTemplates
+                            .filter((t: any) => {
+                                const propertyType = properties.find((p: any) => p.id === Number(formData.propertyId))?.propertyType
+                                const types: string[] = t.propertyTypes ? JSON.parse(t.propertyTypes) : []
+                                return !propertyType || types.length === 0 || types.includes(propertyType)
+                            })
+                            .map((t: any) => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">Copies the template&apos;s checklist, duration, budget, skills and photo requirement.</p>
+                </div>
+                )}
+
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Task Title *</label>
                     <input type="text" required value={formData.title} onChange={e => setFormData({...formData, title: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:border-indigo-500 transition-colors" placeholder="e.g. End of Tenancy Clean" />
@@ -453,7 +921,7 @@ function TaskDrawer({ isOpen, onClose, task, properties, users, onSave }: any) {
                      <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
                         <select value={formData.status} onChange={e => setFormData({...formData, status: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none">
-                            {STATUS_ORDER.map(s => <option key={s} value={s}>{s}</option>)}
+                            {(task ? STATUS_ORDER : INITIAL_STATUSES).map(s => <option key={s} value={s}>{s}</option>)}
                         </select>
                      </div>
                      <div>
@@ -462,6 +930,21 @@ function TaskDrawer({ isOpen, onClose, task, properties, users, onSave }: any) {
                      </div>
                 </div>
 
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Must Finish By</label>
+                    <input type="datetime-local" value={formData.dueBy || ""} onChange={e => setFormData({...formData, dueBy: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none" />
+                    <p className="text-xs text-gray-500 mt-1">Optional SLA deadline, e.g. the next guest check-in. Managers are alerted when it is at risk.</p>
+                </div>
+
+                {task && formData.status !== task.status && (
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Reason for status change{formData.status === "REJECTED" ? " *" : ""}
+                        </label>
+                        <input type="text" required={formData.status === "REJECTED"} value={formData.reason || ""} onChange={e => setFormData({...formData, reason: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none" placeholder="Recorded in the task's status history" />
+                    </div>
+                )}
+
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Property *</label>
                     <select required value={formData.propertyId} onChange={e => setFormData({...formData, propertyId: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none">
@@ -478,19 +961,75 @@ function TaskDrawer({ isOpen, onClose, task, properties, users, onSave }: any) {
                     </select>
                 </div>
 
+                {formData.propertyId && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Depends on (earlier stages)</label>
+                    <select
+                        multiple
+                        value={dependsOnTaskIds.map(String)}
+                        onChange={e => setDependsOnTaskIds(Array.from(e.target.selectedOptions).map(o => Number(o.value)))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none text-sm h-24"
+                    >
+                        {tasks
+                            .filter((t: Task) => t.property.id === Number(formData.propertyId) && t.id !== task?.id)
+                            .map((t: Task) => (
+                                <option key={t.id} value={t.id}>
+                                    {t.title} {t.scheduledDate ? `(${new Date(t.scheduledDate).toLocaleString()})` : ""}
+                                </option>
+                            ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">This task cannot start until these are submitted.</p>
+                    {chain.length > 0 && (
+                        <ol className="mt-2 space-y-1">
+                            {chain.map((stage: any, index: number) => (
+                                <li key={stage.id} className={`flex items-center gap-2 text-xs ${stage.id === task?.id ? "font-semibold text-indigo-700" : "text-gray-600"}`}>
+                                    <span>{index + 1}.</span>
+                                    <span className="flex-1 truncate">{stage.title}</span>
+                                    <StatusBadge status={stage.status} />
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+                )}
+
+                {!task?.parentTaskId && (
                 <div className="p-4 bg-gray-50 rounded-lg border border-gray-100 space-y-3">
                     <label className="flex items-center gap-2">
                         <input type="checkbox" checked={formData.isRecurring} onChange={e => setFormData({...formData, isRecurring: e.target.checked})} className="w-4 h-4 text-indigo-600 rounded" />
                         <span className="text-sm font-medium text-gray-700">Make this a recurring task</span>
                     </label>
                     {formData.isRecurring && (
-                         <select value={formData.recurringPattern} onChange={e => setFormData({...formData, recurringPattern: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm">
-                             <option value="daily">Daily</option>
-                             <option value="weekly">Weekly</option>
-                             <option value="monthly">Monthly</option>
-                         </select>
+                         <>
+                             <select
+                                 value={RECURRENCE_PRESETS.some(p => p.rule === formData.recurrenceRule) ? formData.recurrenceRule : "custom"}
+                                 onChange={e => setFormData({...formData, recurrenceRule: e.target.value === "custom" ? "" : e.target.value})}
+                                 className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                             >
+                                 {RECURRENCE_PRESETS.map(p => <option key={p.rule} value={p.rule}>{p.label}</option>)}
+                                 <option value="custom">Custom rule...</option>
+                             </select>
+                             <input
+                                 type="text"
+                                 value={formData.recurrenceRule}
+                                 onChange={e => setFormData({...formData, recurrenceRule: e.target.value})}
+                                 className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+                                 placeholder="FREQ=WEEKLY;BYDAY=MO;UNTIL=20261231 or COUNT=10"
+                             />
+                             <div>
+                                 <label className="block text-xs font-medium text-gray-500 mb-1">Skip dates (e.g. bank holidays)</label>
+                                 <input
+                                     type="text"
+                                     value={formData.recurrenceExdates}
+                                     onChange={e => setFormData({...formData, recurrenceExdates: e.target.value})}
+                                     className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                     placeholder="2026-12-25, 2026-12-28"
+                                 />
+                             </div>
+                         </>
                     )}
                 </div>
+                )}
 
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
@@ -514,6 +1053,11 @@ function TaskDrawer({ isOpen, onClose, task, properties, users, onSave }: any) {
   )
 }
 
+function describeRecurrence(task: Task) {
+    const rule = task.recurrenceRule || LEGACY_PATTERN_RULES[task.recurringPattern || ""]
+    return RECURRENCE_PRESETS.find(p => p.rule === rule)?.label || rule || task.recurringPattern
+}
+
 function EmptyState() {
   return (
     <div className="h-full flex flex-col items-center justify-center text-center p-8">
@@ -528,6 +1072,105 @@ function EmptyState() {
   )
 }
 
+// --- Cancel Task Modal ---
+function CancelTaskModal({ task, onClose, onCancelled }: { task: Task; onClose: () => void; onCancelled: () => void }) {
+  const [preview, setPreview] = useState<any>(null)
+  const [reasonCode, setReasonCode] = useState("")
+  const [note, setNote] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+    axios.get(`/api/tasks/${task.id}/cancel`, { headers: { Authorization: `Bearer ${token}` } })
+      .then(res => {
+        if (res.data.success) {
+          setPreview(res.data.data)
+          setReasonCode(res.data.data.reasons[0]?.code || "")
+        }
+      })
+      .catch((e) => setError(e.response?.data?.message || "Failed to load cancellation options"))
+  }, [task.id])
+
+  const selected = preview?.reasons.find((r: any) => r.code === reasonCode)
+
+  const handleSubmit = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+      await axios.post(`/api/tasks/${task.id}/cancel`, { reasonCode, note }, { headers: { Authorization: `Bearer ${token}` } })
+      onCancelled()
+    } catch (e: any) {
+      setError(e.response?.data?.message || "Failed to cancel task")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Cancel task</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+        </div>
+        <p className="text-sm text-gray-600">{task.title} &middot; {task.property.address}</p>
+
+        {!preview && !error && <Loader2 className="animate-spin text-indigo-600" size={20} />}
+
+        {preview && (
+          <>
+            <label className="block text-sm font-medium text-gray-700">
+              Reason
+              <select
+                value={reasonCode}
+                onChange={(e) => setReasonCode(e.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+              >
+                {preview.reasons.map((r: any) => <option key={r.code} value={r.code}>{r.label}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Note
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Optional"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+            {selected && (
+              <div className="text-sm bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-1">
+                <div>
+                  Notice: {selected.charges.noticeHours === null ? "Unscheduled" : `${selected.charges.noticeHours} hours`}
+                </div>
+                <div>Client fee: {selected.charges.fee.toFixed(2)}</div>
+                <div>Cleaner compensation: {selected.charges.compensationMinutes} min per assignee</div>
+              </div>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800">Keep task</button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving || !reasonCode}
+            className="inline-flex items-center gap-2 bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+          >
+            {saving && <Loader2 className="animate-spin" size={14} />}
+            Cancel task
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
 function StatusBadge({ status }: { status: string }) {
     const s = status.toUpperCase()
     let color = "bg-gray-100 text-gray-700 border-gray-200"
@@ -537,6 +1180,7 @@ function StatusBadge({ status }: { status: string }) {
     else if (s === 'IN_PROGRESS') color = "bg-amber-50 text-amber-700 border-amber-200"
     else if (s === 'APPROVED') color = "bg-green-50 text-green-700 border-green-200"
     else if (s === 'REJECTED') color = "bg-red-50 text-red-700 border-red-200"
+    else if (s === 'CANCELLED') color = "bg-gray-50 text-gray-500 border-gray-200 line-through"
 
     return (
         <span className={`px-2.5 py-0.5 rounded-full text-[10px] font-bold border ${color}`}>
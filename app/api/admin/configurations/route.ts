@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';           // keep this for prisma client
 import { requireAuth, requireCompanyScope } from '@/lib/rbac'; // your RBAC helpers
 import { UserRole } from '@prisma/client';  // Prisma enum for user roles
+import { OPEN_SHIFT_CLAIM_MODES } from '@/lib/open-shifts';
+import { DEFAULT_TRAVEL_SPEED_KMH } from '@/lib/travel-time';
+import {
+  DEFAULT_CANCELLATION_REASONS,
+  parseCancellationPolicy,
+  parseCancellationReasons,
+  validateCancellationPolicy,
+  validateCancellationReasons,
+} from '@/lib/task-cancellation';
 
 
 // GET /api/admin/configurations - Get admin configuration
@@ -53,6 +62,15 @@ export async function GET(request: NextRequest) {
           timezone: 'UTC',
           notificationTemplate: null,
           dataRetentionDays: 365,
+          recurrenceHorizonDays: 14,
+          slaStartWarningMinutes: 120,
+          slaFinishWarningMinutes: 30,
+          slaEscalationMinutes: 30,
+          openShiftClaimMode: 'first_come',
+          openShiftWeeklyClaimCap: null,
+          travelSpeedKmh: DEFAULT_TRAVEL_SPEED_KMH,
+          cancellationReasons: DEFAULT_CANCELLATION_REASONS,
+          cancellationPolicy: [],
           currency: 'GBP',
           subscriptionBasePrice: 55.00,
           propertyPricePerUnit: 1.00,
@@ -71,6 +89,15 @@ export async function GET(request: NextRequest) {
         timezone: config.timezone,
         notificationTemplate: config.notificationTemplate,
         dataRetentionDays: config.dataRetentionDays,
+        recurrenceHorizonDays: config.recurrenceHorizonDays,
+        slaStartWarningMinutes: config.slaStartWarningMinutes,
+        slaFinishWarningMinutes: config.slaFinishWarningMinutes,
+        slaEscalationMinutes: config.slaEscalationMinutes,
+        openShiftClaimMode: config.openShiftClaimMode,
+        openShiftWeeklyClaimCap: config.openShiftWeeklyClaimCap,
+        travelSpeedKmh: config.travelSpeedKmh,
+        cancellationReasons: parseCancellationReasons(config.cancellationReasons),
+        cancellationPolicy: parseCancellationPolicy(config.cancellationPolicy),
         currency: config.currency,
         subscriptionBasePrice: Number(config.subscriptionBasePrice),
         propertyPricePerUnit: Number(config.propertyPricePerUnit),
@@ -105,6 +132,15 @@ export async function PATCH(request: NextRequest) {
       timezone,
       notificationTemplate,
       dataRetentionDays,
+      recurrenceHorizonDays,
+      slaStartWarningMinutes,
+      slaFinishWarningMinutes,
+      slaEscalationMinutes,
+      openShiftClaimMode,
+      openShiftWeeklyClaimCap,
+      travelSpeedKmh,
+      cancellationReasons,
+      cancellationPolicy,
       currency,
       subscriptionBasePrice,
       propertyPricePerUnit,
@@ -139,6 +175,61 @@ export async function PATCH(request: NextRequest) {
     if (timezone !== undefined) updateData.timezone = timezone;
     if (notificationTemplate !== undefined) updateData.notificationTemplate = notificationTemplate;
     if (dataRetentionDays !== undefined) updateData.dataRetentionDays = dataRetentionDays;
+    if (recurrenceHorizonDays !== undefined) {
+      const horizon = Number(recurrenceHorizonDays);
+      if (!Number.isInteger(horizon) || horizon < 1 || horizon > 365) {
+        return NextResponse.json({ success: false, message: 'Recurrence horizon must be between 1 and 365 days' }, { status: 400 });
+      }
+      updateData.recurrenceHorizonDays = horizon;
+    }
+    const slaMinutes = { slaStartWarningMinutes, slaFinishWarningMinutes, slaEscalationMinutes };
+    for (const [key, value] of Object.entries(slaMinutes)) {
+      if (value === undefined) continue;
+      const minutes = Number(value);
+      if (!Number.isInteger(minutes) || minutes < 0 || minutes > 24 * 60) {
+        return NextResponse.json({ success: false, message: 'SLA thresholds must be between 0 and 1440 minutes' }, { status: 400 });
+      }
+      updateData[key] = minutes;
+    }
+    if (openShiftClaimMode !== undefined) {
+      if (!OPEN_SHIFT_CLAIM_MODES.includes(openShiftClaimMode)) {
+        return NextResponse.json({ success: false, message: `openShiftClaimMode must be one of ${OPEN_SHIFT_CLAIM_MODES.join(', ')}` }, { status: 400 });
+      }
+      updateData.openShiftClaimMode = openShiftClaimMode;
+    }
+    if (openShiftWeeklyClaimCap !== undefined) {
+      const cap = openShiftWeeklyClaimCap === null || openShiftWeeklyClaimCap === '' ? null : Number(openShiftWeeklyClaimCap);
+      if (cap !== null && (!Number.isInteger(cap) || cap < 1)) {
+        return NextResponse.json({ success: false, message: 'Weekly open shift claim cap must be a positive whole number' }, { status: 400 });
+      }
+      updateData.openShiftWeeklyClaimCap = cap;
+    }
+    if (travelSpeedKmh !== undefined) {
+      const speed = Number(travelSpeedKmh);
+      if (!Number.isInteger(speed) || speed < 1 || speed > 200) {
+        return NextResponse.json({ success: false, message: 'Travel speed must be between 1 and 200 km/h' }, { status: 400 });
+      }
+      updateData.travelSpeedKmh = speed;
+    }
+    // Reason codes and policy tiers are stored as JSON; null restores the defaults
+    if (cancellationReasons !== undefined) {
+      if (cancellationReasons === null) {
+        updateData.cancellationReasons = null;
+      } else {
+        const { reasons, error } = validateCancellationReasons(cancellationReasons);
+        if (error) return NextResponse.json({ success: false, message: error }, { status: 400 });
+        updateData.cancellationReasons = JSON.stringify(reasons);
+      }
+    }
+    if (cancellationPolicy !== undefined) {
+      if (cancellationPolicy === null) {
+        updateData.cancellationPolicy = null;
+      } else {
+        const { policy, error } = validateCancellationPolicy(cancellationPolicy);
+        if (error) return NextResponse.json({ success: false, message: error }, { status: 400 });
+        updateData.cancellationPolicy = JSON.stringify(policy);
+      }
+    }
     if (currency !== undefined) updateData.currency = currency;
     if (subscriptionBasePrice !== undefined) updateData.subscriptionBasePrice = subscriptionBasePrice;
     if (propertyPricePerUnit !== undefined) updateData.propertyPricePerUnit = propertyPricePerUnit;
@@ -155,6 +246,15 @@ export async function PATCH(request: NextRequest) {
           timezone: timezone || 'UTC',
           notificationTemplate: notificationTemplate || null,
           dataRetentionDays: dataRetentionDays || 365,
+          recurrenceHorizonDays: updateData.recurrenceHorizonDays || 14,
+          slaStartWarningMinutes: updateData.slaStartWarningMinutes ?? 120,
+          slaFinishWarningMinutes: updateData.slaFinishWarningMinutes ?? 30,
+          slaEscalationMinutes: updateData.slaEscalationMinutes ?? 30,
+          openShiftClaimMode: updateData.openShiftClaimMode ?? 'first_come',
+          openShiftWeeklyClaimCap: updateData.openShiftWeeklyClaimCap ?? null,
+          travelSpeedKmh: updateData.travelSpeedKmh ?? DEFAULT_TRAVEL_SPEED_KMH,
+          cancellationReasons: updateData.cancellationReasons ?? null,
+          cancellationPolicy: updateData.cancellationPolicy ?? null,
           currency: currency || 'GBP',
           subscriptionBasePrice: subscriptionBasePrice || 55.00,
           propertyPricePerUnit: propertyPricePerUnit || 1.00,
@@ -187,6 +287,15 @@ export async function PATCH(request: NextRequest) {
         timezone: config.timezone,
         notificationTemplate: config.notificationTemplate,
         dataRetentionDays: config.dataRetentionDays,
+        recurrenceHorizonDays: config.recurrenceHorizonDays,
+        slaStartWarningMinutes: config.slaStartWarningMinutes,
+        slaFinishWarningMinutes: config.slaFinishWarningMinutes,
+        slaEscalationMinutes: config.slaEscalationMinutes,
+        openShiftClaimMode: config.openShiftClaimMode,
+        openShiftWeeklyClaimCap: config.openShiftWeeklyClaimCap,
+        travelSpeedKmh: config.travelSpeedKmh,
+        cancellationReasons: parseCancellationReasons(config.cancellationReasons),
+        cancellationPolicy: parseCancellationPolicy(config.cancellationPolicy),
         currency: config.currency,
         subscriptionBasePrice: Number(config.subscriptionBasePrice),
         propertyPricePerUnit: Number(config.propertyPricePerUnit),
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth } from '@/lib/rbac';
+import { summarizeSlaCompliance } from '@/lib/sla';
 
 // GET /api/admin/reporting - Get comprehensive reporting data
 export async function GET(request: NextRequest) {
@@ -74,6 +75,13 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    const cancelledTasks = await prisma.task.count({
+      where: {
+        ...baseWhere,
+        status: 'CANCELLED',
+      },
+    });
+
     const completionRate = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
 
     // Cleaner Performance
@@ -224,6 +232,60 @@ export async function GET(request: NextRequest) {
       _count: true,
     });
 
+    // SLA Compliance (tasks whose deadline falls in the period)
+    const slaWhere: any = {
+      dueBy: { gte: start, lte: end },
+      status: { not: 'CANCELLED' },
+    };
+    if (companyId) {
+      slaWhere.companyId = companyId;
+    }
+    const slaTasks = await prisma.task.findMany({
+      where: slaWhere,
+      select: { dueBy: true, submittedAt: true, completedAt: true },
+    });
+    const slaCompliance = summarizeSlaCompliance(slaTasks);
+
+    const breachWhere: any = {
+      dueBy: { gte: start, lte: end },
+    };
+    if (companyId) {
+      breachWhere.companyId = companyId;
+    }
+    const breachesByKind = await prisma.slaBreach.groupBy({
+      by: ['kind'],
+      where: breachWhere,
+      _count: true,
+    });
+    const escalatedBreaches = await prisma.slaBreach.count({
+      where: {
+        ...breachWhere,
+        escalationLevel: { gte: 2 },
+      },
+    });
+    const openBreaches = await prisma.slaBreach.count({
+      where: {
+        ...breachWhere,
+        resolvedAt: null,
+      },
+    });
+
+    // Cancellations made in the period, with charges from the cancellation policy
+    const cancellationWhere: any = {
+      cancelledAt: { gte: start, lte: end },
+    };
+    if (companyId) {
+      cancellationWhere.companyId = companyId;
+    }
+    const cancellations = await prisma.taskCancellation.findMany({
+      where: cancellationWhere,
+      select: { reasonLabel: true, fee: true, compensationMinutes: true },
+    });
+    const cancellationsByReason = cancellations.reduce(
+      (acc, item) => ({ ...acc, [item.reasonLabel]: (acc[item.reasonLabel] || 0) + 1 }),
+      {} as Record<string, number>
+    );
+
     // Task Trends (daily breakdown)
     const taskTrends = await prisma.task.groupBy({
       by: ['status'],
@@ -239,6 +301,7 @@ export async function GET(request: NextRequest) {
           completed: completedTasks,
           inProgress: inProgressTasks,
           pending: pendingTasks,
+          cancelled: cancelledTasks,
           completionRate: Math.round(completionRate * 10) / 10,
         },
         cleanerPerformance: cleanerStats.sort((a, b) => b.tasksCompleted - a.tasksCompleted),
@@ -254,6 +317,22 @@ export async function GET(request: NextRequest) {
           failedPayments,
           totalTransactions: billingRecords.length,
         },
+        slaCompliance: {
+          ...slaCompliance,
+          breaches: breachesByKind.reduce(
+            (acc, item) => ({ ...acc, [item.kind]: item._count }),
+            {} as Record<string, number>
+          ),
+          escalated: escalatedBreaches,
+          open: openBreaches,
+        },
+        cancellations: {
+          total: cancellations.length,
+          byReason: cancellationsByReason,
+          charged: cancellations.filter((item) => Number(item.fee) > 0 || item.compensationMinutes > 0).length,
+          totalFees: Math.round(cancellations.reduce((sum, item) => sum + Number(item.fee), 0) * 100) / 100,
+          compensationMinutes: cancellations.reduce((sum, item) => sum + item.compensationMinutes, 0),
+        },
         propertyStats: {
           total: totalProperties,
           active: activeProperties,
@@ -1,12 +1,21 @@
 import { type NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requireAuth } from "@/lib/rbac"
-import { UserRole } from "@prisma/client"
-import { validateAssignment } from "@/lib/rota-conflicts"
+import { TaskStatus, UserRole } from "@prisma/client"
+import { getWeekBounds, validateAssignment } from "@/lib/rota-conflicts"
 import { logAudit } from "@/lib/audit"
-import { sendTaskAssignmentNotification, scheduleTaskReminders } from "@/lib/notifications"
-
-// POST /api/admin/rota/assign - Assign task to cleaner (admin-only)
+import { getCompanyTimezone } from "@/lib/timezone"
+import { updateTaskAssignment } from "@/lib/task-lifecycle"
+import { shiftDeadline } from "@/lib/sla"
+
+// Tasks that can go back to the unassigned tray
+const UNASSIGNABLE_STATUSES: TaskStatus[] = [TaskStatus.PLANNED, TaskStatus.ASSIGNED]
+// Tasks that can be assigned, moved or resized; work that has started stays where it was done
+const EDITABLE_STATUSES: TaskStatus[] = [TaskStatus.DRAFT, TaskStatus.PLANNED, TaskStatus.ASSIGNED]
+const CHANGED_MESSAGE = "Task was changed by someone else; reload and try again"
+
+// POST /api/admin/rota/assign - Assign, move or resize a task on the rota (admin-only)
+// Body: { taskId, cleanerId (null unassigns), scheduledDate?, estimatedDurationMinutes? (null clears the estimate) }
 export async function POST(request: NextRequest) {
   const auth = requireAuth(request)
   if (!auth) return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
@@ -21,12 +30,22 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json()
-    const { taskId, cleanerId, scheduledDate, ignoreWarnings } = body
+    const { taskId, cleanerId, scheduledDate, estimatedDurationMinutes } = body
 
-    if (!taskId || !cleanerId) {
+    if (!taskId || cleanerId === undefined) {
       return NextResponse.json({ success: false, message: "taskId and cleanerId are required" }, { status: 400 })
     }
 
+    if (scheduledDate && Number.isNaN(new Date(scheduledDate).getTime())) {
+      return NextResponse.json({ success: false, message: "Invalid scheduledDate" }, { status: 400 })
+    }
+
+    // Undo restores whatever estimate the task had before, including none
+    const duration: number | null | undefined = estimatedDurationMinutes == null ? estimatedDurationMinutes : Number(estimatedDurationMinutes)
+    if (duration != null && (!Number.isInteger(duration) || duration < 1 || duration > 24 * 60)) {
+      return NextResponse.json({ success: false, message: "Duration must be between 1 and 1440 minutes" }, { status: 400 })
+    }
+
     // Get full task details including property for validation
     const task = await prisma.task.findUnique({
       where: { id: Number(taskId) },
@@ -52,6 +71,53 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const previous = {
+      cleanerId: task.assignedUserId,
+      scheduledDate: task.scheduledDate,
+      estimatedDurationMinutes: task.estimatedDurationMinutes,
+    }
+    const taskScheduledDate = scheduledDate ? new Date(scheduledDate) : (task.scheduledDate || new Date())
+
+    // Unassigning puts the task back in the unassigned tray
+    if (cleanerId === null) {
+      if (!UNASSIGNABLE_STATUSES.includes(task.status)) {
+        return NextResponse.json({ success: false, message: `Cannot unassign a task that is ${task.status}` }, { status: 409 })
+      }
+
+      const updateData: any = { assignedUserId: null }
+      if (scheduledDate) {
+      updateData.scheduledDate = taskScheduledDate
+      updateData.dueBy = shiftDeadline(task, taskScheduledDate) // The SLA deadline moves with the job
+    }
+      if (duration !== undefined) updateData.estimatedDurationMinutes = duration
+
+      // ASSIGNED goes back to PLANNED (recorded in the status history)
+      const updatedTask = await prisma.$transaction(async (tx) => {
+        if (!(await updateTaskAssignment(tx, task, false, updateData, tokenUser.userId))) return null
+        await tx.taskAssignment.deleteMany({ where: { taskId: task.id } })
+        return tx.task.findUniqueOrThrow({ where: { id: task.id }, include: { property: true } })
+      })
+      if (!updatedTask) {
+        return NextResponse.json({ success: false, message: CHANGED_MESSAGE }, { status: 409 })
+      }
+
+      await logAudit({
+        companyId: task.companyId,
+        userId: tokenUser.userId,
+        action: 'update',
+        entityType: 'task',
+        entityId: task.id,
+        oldValues: previous,
+        newValues: { cleanerId: null, scheduledDate: updatedTask.scheduledDate, estimatedDurationMinutes: updatedTask.estimatedDurationMinutes },
+      })
+
+      return NextResponse.json({ success: true, data: { task: updatedTask, previous, warnings: [] } })
+    }
+
+    if (!EDITABLE_STATUSES.includes(task.status)) {
+      return NextResponse.json({ success: false, message: `Cannot change a task that is ${task.status}` }, { status: 409 })
+    }
+
     // Verify cleaner belongs to same company
     const cleaner = await prisma.user.findFirst({
       where: {
@@ -65,49 +131,64 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, message: "Cleaner not found or not in company" }, { status: 404 })
     }
 
-    // Validate assignment and detect conflicts
-    const taskScheduledDate = scheduledDate ? new Date(scheduledDate) : (task.scheduledDate || new Date())
-    
-    // Calculate week boundaries for max hours validation
-    const date = new Date(taskScheduledDate)
-    const day = date.getDay()
-    const diff = date.getDate() - day
-    const weekStart = new Date(date.setDate(diff))
-    weekStart.setHours(0, 0, 0, 0)
-    const weekEnd = new Date(weekStart)
-    weekEnd.setDate(weekEnd.getDate() + 6)
-    weekEnd.setHours(23, 59, 59, 999)
+    // Validate assignment and detect conflicts, with weeks and times in the company's timezone
+    const timezone = await getCompanyTimezone(task.companyId)
+    const { weekStart, weekEnd } = getWeekBounds(taskScheduledDate, timezone)
 
     const validation = await validateAssignment(
       cleaner.id,
       task.id,
       taskScheduledDate,
       task.propertyId,
-      task.estimatedDurationMinutes,
+      duration === undefined ? task.estimatedDurationMinutes : duration,
       weekStart,
-      weekEnd
+      weekEnd,
+      timezone
     )
 
-    const oldAssignedUserId = task.assignedUserId
+    // Assigning directly takes the task off the open shift board
+    // DRAFT and PLANNED tasks become ASSIGNED (recorded in the status history)
+    const updateData: any = { assignedUserId: Number(cleanerId), openShiftPublishedAt: null }
+    if (scheduledDate) {
+      updateData.scheduledDate = taskScheduledDate
+      updateData.dueBy = shiftDeadline(task, taskScheduledDate) // The SLA deadline moves with the job
+    }
+    if (duration !== undefined) updateData.estimatedDurationMinutes = duration
 
-    const updateData: any = { assignedUserId: Number(cleanerId), status: "ASSIGNED" }
-    if (scheduledDate) updateData.scheduledDate = taskScheduledDate
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      const assigned = await updateTaskAssignment(tx, task, true, updateData, tokenUser.userId, {
+        assignedUserId: task.assignedUserId,
+      })
+      if (!assigned) return null
 
-    const updatedTask = await prisma.task.update({
-      where: { id: Number(taskId) },
-      data: updateData,
-      include: {
-        property: true,
-        assignedUser: { 
-          select: { 
-            id: true, 
-            firstName: true, 
-            lastName: true,
-            email: true,
+      // The previous cleaner's assignment row goes with the task; co-cleaners keep theirs
+      if (task.assignedUserId && task.assignedUserId !== cleaner.id) {
+        await tx.taskAssignment.deleteMany({ where: { taskId: task.id, userId: task.assignedUserId } })
+      }
+      await tx.taskAssignment.upsert({
+        where: { taskId_userId: { taskId: task.id, userId: cleaner.id } },
+        create: { taskId: task.id, userId: cleaner.id },
+        update: {},
+      })
+
+      return tx.task.findUniqueOrThrow({
+        where: { id: task.id },
+        include: {
+          property: true,
+          assignedUser: { 
+            select: { 
+              id: true, 
+              firstName: true, 
+              lastName: true,
+              email: true,
+            },
           },
         },
-      },
+      })
     })
+    if (!updatedTask) {
+      return NextResponse.json({ success: false, message: CHANGED_MESSAGE }, { status: 409 })
+    }
 
     // Log audit
     await logAudit({
@@ -116,18 +197,17 @@ export async function POST(request: NextRequest) {
       action: 'update',
       entityType: 'task',
       entityId: task.id,
-      oldValues: { assignedUserId: oldAssignedUserId },
-      newValues: { assignedUserId: cleaner.id },
+      oldValues: previous,
+      newValues: { cleanerId: cleaner.id, scheduledDate: updatedTask.scheduledDate, estimatedDurationMinutes: updatedTask.estimatedDurationMinutes },
     })
 
-    // Send notifications
-    await sendTaskAssignmentNotification(task.id, cleaner.id)
-    await scheduleTaskReminders(task.id)
+    // Rota edits are drafts: cleaners hear about them when the week is published (lib/rota-publish.ts)
 
     return NextResponse.json({ 
       success: true, 
       data: { 
         task: updatedTask,
+        previous, // Lets the rota editor undo the change
         warnings: validation.warnings, // Include warnings in response
       },
     })
@@ -0,0 +1,58 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/rbac"
+import { UserRole } from "@prisma/client"
+import { proposeRota } from "@/lib/rota-builder"
+import { getCompanyTimezone, getZonedDayRange, parseLocalDate } from "@/lib/timezone"
+
+const ADMIN_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER, UserRole.COMPANY_ADMIN, UserRole.MANAGER]
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER]
+const MAX_RANGE_DAYS = 31
+
+// POST /api/admin/rota/auto-assign - Propose cleaners for unassigned tasks (admin-only)
+// Body: { from, to, taskIds?, companyId? }. Nothing is saved; apply rows via /api/admin/rota/assign.
+export async function POST(request: NextRequest) {
+  const auth = requireAuth(request)
+  if (!auth) return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
+
+  const { tokenUser } = auth
+  const role = tokenUser.role as UserRole
+
+  if (!ADMIN_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: "Not authorized" }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    // COMPANY_ADMIN and MANAGER can only build their own company's rota
+    const companyId = PLATFORM_ROLES.includes(role) && body.companyId ? Number(body.companyId) : tokenUser.companyId
+    if (!companyId) {
+      return NextResponse.json({ success: false, message: "Company ID required" }, { status: 400 })
+    }
+
+    // Date-only values are whole days in the company's timezone
+    const timezone = await getCompanyTimezone(companyId)
+    const fromDay = typeof body.from === "string" ? parseLocalDate(body.from) : null
+    const toDay = typeof body.to === "string" ? parseLocalDate(body.to) : null
+    const from = fromDay ? getZonedDayRange(fromDay, timezone).start : new Date(body.from)
+    const to = toDay ? getZonedDayRange(toDay, timezone).end : new Date(body.to)
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to < from) {
+      return NextResponse.json({ success: false, message: "A valid from/to range is required" }, { status: 400 })
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json({ success: false, message: `Range cannot exceed ${MAX_RANGE_DAYS} days` }, { status: 400 })
+    }
+
+    if (body.taskIds !== undefined && (!Array.isArray(body.taskIds) || body.taskIds.some((id: any) => !Number.isInteger(id)))) {
+      return NextResponse.json({ success: false, message: "taskIds must be an array of task IDs" }, { status: 400 })
+    }
+
+    const proposal = await proposeRota(companyId, from, to, body.taskIds)
+
+    return NextResponse.json({ success: true, data: proposal })
+  } catch (error) {
+    console.error("Admin Rota Auto-assign POST error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
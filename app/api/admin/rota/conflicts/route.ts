@@ -2,6 +2,7 @@ import { type NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requireAuth } from "@/lib/rbac"
 import { UserRole } from "@prisma/client"
+import { DEFAULT_TIMEZONE, getCompanyTimezone, getZonedDayRange, getZonedPeriod, parseLocalDate, toLocalDateKey } from "@/lib/timezone"
 
 // GET /api/admin/rota/conflicts - Get conflicts for admin panel (admin-only)
 export async function GET(request: NextRequest) {
@@ -34,11 +35,17 @@ export async function GET(request: NextRequest) {
       companyId = tokenUser.companyId || null
     }
 
+    // Days are calendar days in the company's timezone
+    const timezone = companyId ? await getCompanyTimezone(companyId) : DEFAULT_TIMEZONE
+
     // If weekStart and weekEnd are provided, get all conflicts for the week
     if (weekStart && weekEnd) {
-      const weekStartDate = new Date(weekStart)
-      const weekEndDate = new Date(weekEnd)
-      weekEndDate.setHours(23, 59, 59, 999)
+      const period = getZonedPeriod(weekStart, weekEnd, timezone)
+      if (!period) {
+        return NextResponse.json({ success: false, message: "weekStart and weekEnd must be YYYY-MM-DD" }, { status: 400 })
+      }
+      const weekStartDate = period.periodStart
+      const weekEndDate = period.periodEnd
 
       // Get all tasks in the week that might have conflicts
       const tasks = await prisma.task.findMany({
@@ -77,7 +84,7 @@ export async function GET(request: NextRequest) {
       tasks.forEach((task) => {
         if (task.assignedUserId) {
           const taskDate = new Date(task.scheduledDate || new Date())
-          const dayKey = `${task.assignedUserId}-${taskDate.toISOString().split("T")[0]}`
+          const dayKey = `${task.assignedUserId}|${toLocalDateKey(taskDate, timezone)}`
           
           if (!cleanerDayMap.has(dayKey)) {
             cleanerDayMap.set(dayKey, [])
@@ -89,7 +96,7 @@ export async function GET(request: NextRequest) {
       // Find days with multiple tasks (conflicts)
       cleanerDayMap.forEach((taskIds, key) => {
         if (taskIds.length > 1) {
-          const [cleanerId, dateStr] = key.split("-")
+          const [cleanerId, dateStr] = key.split("|")
           taskIds.forEach((taskId) => {
             conflicts.push({
               taskId,
@@ -113,11 +120,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ success: false, message: "cleanerId and date are required, or weekStart and weekEnd" }, { status: 400 })
     }
 
-    const targetDate = new Date(date)
-    const dayStart = new Date(targetDate)
-    dayStart.setHours(0, 0, 0, 0)
-    const dayEnd = new Date(targetDate)
-    dayEnd.setHours(23, 59, 59, 999)
+    const targetDay = parseLocalDate(date.slice(0, 10))
+    if (!targetDay) {
+      return NextResponse.json({ success: false, message: "date must be YYYY-MM-DD" }, { status: 400 })
+    }
+    const { start: dayStart, end: dayEnd } = getZonedDayRange(targetDay, timezone)
 
     const existingTasks = await prisma.task.findMany({
       where: {
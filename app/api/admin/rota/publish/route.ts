@@ -0,0 +1,93 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/rbac"
+import { UserRole } from "@prisma/client"
+import { JWTPayload } from "@/lib/auth"
+import { logAudit } from "@/lib/audit"
+import { getRotaWeekState, parseRotaWeek, publishRotaWeek } from "@/lib/rota-publish"
+
+const ADMIN_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER, UserRole.COMPANY_ADMIN, UserRole.MANAGER]
+const CROSS_COMPANY_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER]
+
+function resolveCompanyId(tokenUser: JWTPayload, requested: unknown): number | null {
+  // SUPER_ADMIN, OWNER, DEVELOPER can work on any company; others only their own
+  if (CROSS_COMPANY_ROLES.includes(tokenUser.role as UserRole) && requested) return Number(requested)
+  return tokenUser.companyId || null
+}
+
+// GET /api/admin/rota/publish?weekStart=YYYY-MM-DD - Publish state of a rota week and its unpublished changes (admin-only)
+export async function GET(request: NextRequest) {
+  const auth = requireAuth(request)
+  if (!auth) return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
+
+  const { tokenUser } = auth
+  if (!ADMIN_ROLES.includes(tokenUser.role as UserRole)) {
+    return NextResponse.json({ success: false, message: "Not authorized" }, { status: 403 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const weekStart = parseRotaWeek(searchParams.get("weekStart"))
+  if (!weekStart) {
+    return NextResponse.json({ success: false, message: "weekStart must be YYYY-MM-DD" }, { status: 400 })
+  }
+
+  const companyId = resolveCompanyId(tokenUser, searchParams.get("companyId"))
+  if (!companyId) {
+    return NextResponse.json({ success: false, message: "Company ID required" }, { status: 400 })
+  }
+
+  try {
+    const state = await getRotaWeekState(companyId, weekStart)
+    return NextResponse.json({ success: true, data: state })
+  } catch (error) {
+    console.error("Admin Rota Publish GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/admin/rota/publish - Publish a rota week and notify cleaners of their changes (admin-only)
+// Body: { weekStart: "YYYY-MM-DD", companyId? }
+export async function POST(request: NextRequest) {
+  const auth = requireAuth(request)
+  if (!auth) return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
+
+  const { tokenUser } = auth
+  if (!ADMIN_ROLES.includes(tokenUser.role as UserRole)) {
+    return NextResponse.json({ success: false, message: "Not authorized" }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const weekStart = parseRotaWeek(body.weekStart)
+    if (!weekStart) {
+      return NextResponse.json({ success: false, message: "weekStart must be YYYY-MM-DD" }, { status: 400 })
+    }
+
+    const companyId = resolveCompanyId(tokenUser, body.companyId)
+    if (!companyId) {
+      return NextResponse.json({ success: false, message: "Company ID required" }, { status: 400 })
+    }
+
+    const result = await publishRotaWeek(companyId, weekStart, tokenUser.userId)
+    if (result.error) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 400 })
+    }
+
+    await logAudit({
+      companyId,
+      userId: tokenUser.userId,
+      action: "create",
+      entityType: "rota_publication",
+      entityId: result.publicationId!,
+      newValues: { weekStart: result.state!.weekStart, version: result.state!.version, cleanersNotified: result.notified },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `Rota published. ${result.notified} cleaner${result.notified === 1 ? "" : "s"} notified.`,
+      data: result.state,
+    })
+  } catch (error) {
+    console.error("Admin Rota Publish POST error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
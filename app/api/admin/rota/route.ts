@@ -1,7 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requireAuth } from "@/lib/rbac"
-import { UserRole } from "@prisma/client"
+import { TaskStatus, UserRole } from "@prisma/client"
+import { getCompanyTimezone, getZonedPeriod } from "@/lib/timezone"
 
 // GET /api/admin/rota - Get rota for admin panel (admin-only)
 export async function GET(request: NextRequest) {
@@ -36,11 +37,16 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ success: false, message: "Company ID required" }, { status: 400 })
     }
 
-    const where: any = { companyId }
-    if (weekStart && weekEnd) {
+    // The week runs from the start of weekStart to the end of weekEnd in the company's timezone
+    const timezone = await getCompanyTimezone(companyId)
+    const period = weekStart && weekEnd ? getZonedPeriod(weekStart, weekEnd, timezone) : null
+
+    // Cancelled tasks no longer need covering
+    const where: any = { companyId, status: { not: TaskStatus.CANCELLED } }
+    if (period) {
       where.scheduledDate = {
-        gte: new Date(weekStart),
-        lte: new Date(weekEnd),
+        gte: period.periodStart,
+        lte: period.periodEnd,
       }
     }
 
@@ -93,8 +99,11 @@ export async function GET(request: NextRequest) {
     })
 
     // Calculate workload for each cleaner
-    const weekStartDate = weekStart ? new Date(weekStart) : undefined
-    const weekEndDate = weekEnd ? new Date(weekEnd) : undefined
+    const weekStartDate = period?.periodStart
+    const weekEndDate = period?.periodEnd
+    // Override and leave dates are calendar dates (UTC midnight), not instants
+    const overrideFrom = period ? new Date(`${weekStart!.slice(0, 10)}T00:00:00.000Z`) : undefined
+    const overrideTo = period ? new Date(`${weekEnd!.slice(0, 10)}T00:00:00.000Z`) : undefined
 
     const cleanerWorkloads = await Promise.all(
       cleaners.map(async (cleaner) => {
@@ -126,6 +135,15 @@ export async function GET(request: NextRequest) {
           where: { userId: cleaner.id },
         })
 
+        // Dated overrides to the weekly pattern within the week
+        const availabilityOverrides = await prisma.availabilityOverride.findMany({
+          where: {
+            userId: cleaner.id,
+            date: overrideFrom && overrideTo ? { gte: overrideFrom, lte: overrideTo } : undefined,
+          },
+          orderBy: [{ date: "asc" }, { startTime: "asc" }],
+        })
+
         // Check for leave requests
         const leaveRequests = await prisma.leaveRequest.findMany({
           where: {
@@ -142,6 +160,7 @@ export async function GET(request: NextRequest) {
           hoursWorked: parseFloat(hoursWorked.toFixed(2)),
           workload: taskCount, // For backward compatibility
           availability,
+          availabilityOverrides,
           onLeave: leaveRequests.length > 0,
         }
       })
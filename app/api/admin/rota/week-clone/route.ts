@@ -1,9 +1,62 @@
 import { type NextRequest, NextResponse } from "next/server"
-import prisma from "@/lib/prisma"
 import { requireAuth } from "@/lib/rbac"
 import { UserRole } from "@prisma/client"
+import { addLocalDays, LocalDate, parseLocalDate } from "@/lib/timezone"
+import { cloneWeek, consecutiveWeeks, localDaysBetween, MAX_CLONE_TARGET_WEEKS } from "@/lib/week-clone"
+
+// Source week and target weeks from the body. The original form ({ weekStart/fromDate }) copies
+// the previous week into the given one.
+function parseCloneWeeks(body: any): { source?: LocalDate; targets?: LocalDate[]; error?: string } {
+  const legacyTarget = body.fromDate || body.weekStart
+  if (!body.sourceWeekStart) {
+    const target = typeof legacyTarget === "string" ? parseLocalDate(legacyTarget.slice(0, 10)) : null
+    if (!target) return { error: "sourceWeekStart (or weekStart) must be YYYY-MM-DD" }
+    return { source: addLocalDays(target, -7), targets: [target] }
+  }
+
+  const source = typeof body.sourceWeekStart === "string" ? parseLocalDate(body.sourceWeekStart.slice(0, 10)) : null
+  if (!source) return { error: "sourceWeekStart must be YYYY-MM-DD" }
+
+  let targets: LocalDate[] = []
+  if (Array.isArray(body.targetWeekStarts)) {
+    for (const value of body.targetWeekStarts) {
+      const target = typeof value === "string" ? parseLocalDate(value.slice(0, 10)) : null
+      if (!target) return { error: "targetWeekStarts must be YYYY-MM-DD dates" }
+      targets.push(target)
+    }
+  } else {
+    // One target week, or several consecutive ones
+    const first = typeof body.targetWeekStart === "string"
+      ? parseLocalDate(body.targetWeekStart.slice(0, 10))
+      : addLocalDays(source, 7)
+    const count = body.weeks === undefined ? 1 : Number(body.weeks)
+    if (!first) return { error: "targetWeekStart must be YYYY-MM-DD" }
+    if (!Number.isInteger(count) || count < 1) return { error: "weeks must be a positive whole number" }
+    if (count > MAX_CLONE_TARGET_WEEKS) return { error: `Can clone into at most ${MAX_CLONE_TARGET_WEEKS} weeks at once` }
+    targets = consecutiveWeeks(first, count)
+  }
+
+  if (targets.length === 0) return { error: "At least one target week is required" }
+  if (targets.length > MAX_CLONE_TARGET_WEEKS) {
+    return { error: `Can clone into at most ${MAX_CLONE_TARGET_WEEKS} weeks at once` }
+  }
+  if (targets.some((target) => localDaysBetween(source, target) === 0)) {
+    return { error: "Target weeks must differ from the source week" }
+  }
+  return { source, targets }
+}
 
-// POST /api/admin/rota/week-clone - Clone week assignments (admin-only)
+// Optional list of ids; null when malformed
+function parseIds(value: unknown): number[] | undefined | null {
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value)) return null
+  const ids = value.map(Number)
+  return ids.every(Number.isInteger) ? ids : null
+}
+
+// POST /api/admin/rota/week-clone - Clone a week's jobs into one or more weeks (admin-only)
+// Body: { sourceWeekStart, targetWeekStarts? | targetWeekStart?, weeks?, propertyIds?, cleanerIds?, dryRun?, companyId? }
+// dryRun returns the tasks that would be created, with conflict warnings, without creating them
 export async function POST(request: NextRequest) {
   const auth = requireAuth(request)
   if (!auth) return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
@@ -18,15 +71,8 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json()
-    // Support both naming conventions: fromDate/toDate and weekStart/weekEnd
-    const fromDate = body.fromDate || body.weekStart
-    const toDate = body.toDate || body.weekEnd
     const bodyCompanyId = body.companyId
 
-    if (!fromDate || !toDate) {
-      return NextResponse.json({ success: false, message: "fromDate/weekStart and toDate/weekEnd are required" }, { status: 400 })
-    }
-
     let companyId: number | null = null
     // SUPER_ADMIN, OWNER, DEVELOPER can specify companyId
     if (role === UserRole.SUPER_ADMIN || role === UserRole.OWNER || role === UserRole.DEVELOPER) {
@@ -40,64 +86,37 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, message: "Company ID is required" }, { status: 400 })
     }
 
-    // Get tasks from previous week
-    const previousWeekStart = new Date(fromDate)
-    previousWeekStart.setDate(previousWeekStart.getDate() - 7)
-    const previousWeekEnd = new Date(toDate)
-    previousWeekEnd.setDate(previousWeekEnd.getDate() - 7)
-
-    const tasksToClone = await prisma.task.findMany({
-      where: {
-        companyId,
-        scheduledDate: {
-          gte: previousWeekStart,
-          lte: previousWeekEnd,
-        },
-      },
-      include: { checklists: true },
-    })
-
-    // Clone tasks to current week
-    const clonedTasks = []
-    const daysOffset = Math.round((new Date(fromDate).getTime() - previousWeekStart.getTime()) / (1000 * 60 * 60 * 24))
-
-    for (const task of tasksToClone) {
-      const newScheduledDate = new Date(task.scheduledDate!)
-      newScheduledDate.setDate(newScheduledDate.getDate() + daysOffset)
-
-      const clonedTask = await prisma.task.create({
-        data: {
-          title: task.title,
-          description: task.description,
-          companyId: task.companyId,
-          propertyId: task.propertyId,
-          assignedUserId: task.assignedUserId,
-          scheduledDate: newScheduledDate,
-          status: "PLANNED",
-        },
-      })
-
-      // Clone checklists
-      for (const checklist of task.checklists) {
-        await prisma.checklistItem.create({
-          data: {
-            taskId: clonedTask.id,
-            title: checklist.title,
-            order: checklist.order,
-          },
-        })
-      }
+    const weeks = parseCloneWeeks(body)
+    if (weeks.error) {
+      return NextResponse.json({ success: false, message: weeks.error }, { status: 400 })
+    }
 
-      clonedTasks.push(clonedTask)
+    const propertyIds = parseIds(body.propertyIds)
+    const cleanerIds = parseIds(body.cleanerIds)
+    if (propertyIds === null || cleanerIds === null) {
+      return NextResponse.json({ success: false, message: "propertyIds and cleanerIds must be arrays of ids" }, { status: 400 })
     }
 
+    const plan = await cloneWeek({
+      companyId,
+      sourceWeekStart: weeks.source!,
+      targetWeekStarts: weeks.targets!,
+      propertyIds,
+      cleanerIds,
+      dryRun: body.dryRun === true,
+      createdById: tokenUser.userId,
+    })
+
+    const warningCount = plan.items.reduce((sum, item) => sum + item.warnings.length, 0)
     return NextResponse.json({
       success: true,
-      data: { clonedTasksCount: clonedTasks.length, tasks: clonedTasks },
+      message: plan.dryRun
+        ? `${plan.items.length} tasks would be created (${warningCount} warnings, ${plan.skipped.length} skipped)`
+        : `${plan.items.length} tasks created (${warningCount} warnings, ${plan.skipped.length} skipped)`,
+      data: { ...plan, clonedTasksCount: plan.dryRun ? 0 : plan.items.length },
     })
   } catch (error) {
     console.error("Admin Week clone error:", error)
     return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
   }
 }
-
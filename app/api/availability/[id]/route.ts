@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth } from '@/lib/rbac';
+import { checkAvailabilityAccess, parseWeeklyAvailabilityInput } from '@/lib/availability';
+
+// PATCH /api/availability/:id - Update a weekly window
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+
+  try {
+    const existing = await prisma.cleanerAvailability.findUnique({ where: { id: Number(params.id) } });
+    if (!existing) {
+      return NextResponse.json({ success: false, message: 'Availability not found' }, { status: 404 });
+    }
+
+    const access = await checkAvailabilityAccess(tokenUser, existing.userId);
+    if (access.error) {
+      return NextResponse.json({ success: false, message: access.error }, { status: access.httpStatus });
+    }
+
+    const { data, error } = parseWeeklyAvailabilityInput(await request.json(), true);
+    if (error || !data) {
+      return NextResponse.json({ success: false, message: error }, { status: 400 });
+    }
+    if ((data.startTime ?? existing.startTime) >= (data.endTime ?? existing.endTime)) {
+      return NextResponse.json({ success: false, message: 'startTime must be before endTime' }, { status: 400 });
+    }
+
+    const availability = await prisma.cleanerAvailability.update({
+      where: { id: existing.id },
+      data,
+    });
+
+    return NextResponse.json({ success: true, data: availability });
+  } catch (error) {
+    console.error('Availability PATCH error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/availability/:id - Remove a weekly window
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+
+  try {
+    const existing = await prisma.cleanerAvailability.findUnique({ where: { id: Number(params.id) } });
+    if (!existing) {
+      return NextResponse.json({ success: false, message: 'Availability not found' }, { status: 404 });
+    }
+
+    const access = await checkAvailabilityAccess(tokenUser, existing.userId);
+    if (access.error) {
+      return NextResponse.json({ success: false, message: access.error }, { status: access.httpStatus });
+    }
+
+    await prisma.cleanerAvailability.delete({ where: { id: existing.id } });
+
+    return NextResponse.json({ success: true, message: 'Availability deleted' });
+  } catch (error) {
+    console.error('Availability DELETE error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth } from '@/lib/rbac';
+import { checkAvailabilityAccess, parseOverrideInput } from '@/lib/availability';
+
+// PATCH /api/availability/overrides/:id - Update a dated override
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+
+  try {
+    const existing = await prisma.availabilityOverride.findUnique({ where: { id: Number(params.id) } });
+    if (!existing) {
+      return NextResponse.json({ success: false, message: 'Override not found' }, { status: 404 });
+    }
+
+    const access = await checkAvailabilityAccess(tokenUser, existing.userId);
+    if (access.error) {
+      return NextResponse.json({ success: false, message: access.error }, { status: access.httpStatus });
+    }
+
+    const { data, error } = parseOverrideInput(await request.json(), true);
+    if (error || !data) {
+      return NextResponse.json({ success: false, message: error }, { status: 400 });
+    }
+
+    const override = await prisma.availabilityOverride.update({
+      where: { id: existing.id },
+      data,
+    });
+
+    return NextResponse.json({ success: true, data: override });
+  } catch (error) {
+    console.error('Availability override PATCH error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/availability/overrides/:id - Remove a dated override
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+
+  try {
+    const existing = await prisma.availabilityOverride.findUnique({ where: { id: Number(params.id) } });
+    if (!existing) {
+      return NextResponse.json({ success: false, message: 'Override not found' }, { status: 404 });
+    }
+
+    const access = await checkAvailabilityAccess(tokenUser, existing.userId);
+    if (access.error) {
+      return NextResponse.json({ success: false, message: access.error }, { status: access.httpStatus });
+    }
+
+    await prisma.availabilityOverride.delete({ where: { id: existing.id } });
+
+    return NextResponse.json({ success: true, message: 'Override deleted' });
+  } catch (error) {
+    console.error('Availability override DELETE error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth } from '@/lib/rbac';
+import { checkAvailabilityAccess, parseOverrideInput } from '@/lib/availability';
+
+// GET /api/availability/overrides?userId=&from=YYYY-MM-DD&to=YYYY-MM-DD - Dated overrides (defaults to your own)
+export async function GET(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+  const { searchParams } = new URL(request.url);
+  const userId = searchParams.get('userId');
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+
+  try {
+    const targetUserId = userId ? Number(userId) : tokenUser.userId;
+
+    const access = await checkAvailabilityAccess(tokenUser, targetUserId);
+    if (access.error) {
+      return NextResponse.json({ success: false, message: access.error }, { status: access.httpStatus });
+    }
+
+    const where: any = { userId: targetUserId };
+    if (from || to) {
+      where.date = {};
+      if (from) where.date.gte = new Date(`${from}T00:00:00.000Z`);
+      if (to) where.date.lte = new Date(`${to}T00:00:00.000Z`);
+    }
+
+    const overrides = await prisma.availabilityOverride.findMany({
+      where,
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+    });
+
+    return NextResponse.json({ success: true, data: overrides });
+  } catch (error) {
+    console.error('Availability overrides GET error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/availability/overrides - { date, isAvailable, startTime?, endTime?, reason?, userId? }
+// Omit the times to cover the whole day. Managers may pass userId.
+export async function POST(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+
+  try {
+    const body = await request.json();
+    const targetUserId = body.userId ? Number(body.userId) : tokenUser.userId;
+
+    const access = await checkAvailabilityAccess(tokenUser, targetUserId);
+    if (access.error) {
+      return NextResponse.json({ success: false, message: access.error }, { status: access.httpStatus });
+    }
+
+    const { data, error } = parseOverrideInput(body);
+    if (error || !data) {
+      return NextResponse.json({ success: false, message: error }, { status: 400 });
+    }
+
+    const override = await prisma.availabilityOverride.create({
+      data: {
+        userId: targetUserId,
+        date: data.date!,
+        startTime: data.startTime ?? null,
+        endTime: data.endTime ?? null,
+        isAvailable: data.isAvailable!,
+        reason: data.reason ?? null,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: override }, { status: 201 });
+  } catch (error) {
+    console.error('Availability overrides POST error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
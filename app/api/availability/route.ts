@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { requireAuth, requireCompanyScope } from '@/lib/rbac';
-import { UserRole } from '@prisma/client';
+import { requireAuth } from '@/lib/rbac';
+import { checkAvailabilityAccess, parseWeeklyAvailabilityInput } from '@/lib/availability';
 
+// GET /api/availability?userId= - Weekly availability pattern (defaults to your own)
 export async function GET(request: NextRequest) {
   const auth = requireAuth(request);
   if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
@@ -14,9 +15,14 @@ export async function GET(request: NextRequest) {
   try {
     const targetUserId = userId ? Number(userId) : tokenUser.userId;
 
+    const access = await checkAvailabilityAccess(tokenUser, targetUserId);
+    if (access.error) {
+      return NextResponse.json({ success: false, message: access.error }, { status: access.httpStatus });
+    }
+
     const availability = await prisma.cleanerAvailability.findMany({
       where: { userId: targetUserId },
-      orderBy: { dayOfWeek: 'asc' },
+      orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
     });
 
     return NextResponse.json({ success: true, data: availability });
@@ -26,6 +32,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// POST /api/availability - Add a weekly window { dayOfWeek, startTime, endTime, isAvailable?, userId? }
+// Managers may pass userId to edit a cleaner's pattern
 export async function POST(request: NextRequest) {
   const auth = requireAuth(request);
   if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
@@ -34,15 +42,25 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { dayOfWeek, startTime, endTime, isAvailable } = body;
+    const targetUserId = body.userId ? Number(body.userId) : tokenUser.userId;
+
+    const access = await checkAvailabilityAccess(tokenUser, targetUserId);
+    if (access.error) {
+      return NextResponse.json({ success: false, message: access.error }, { status: access.httpStatus });
+    }
+
+    const { data, error } = parseWeeklyAvailabilityInput(body);
+    if (error || !data) {
+      return NextResponse.json({ success: false, message: error }, { status: 400 });
+    }
 
     const availability = await prisma.cleanerAvailability.create({
       data: {
-        userId: tokenUser.userId,
-        dayOfWeek,
-        startTime,
-        endTime,
-        isAvailable: isAvailable ?? true,
+        userId: targetUserId,
+        dayOfWeek: data.dayOfWeek!,
+        startTime: data.startTime!,
+        endTime: data.endTime!,
+        isAvailable: data.isAvailable ?? true,
       },
     });
 
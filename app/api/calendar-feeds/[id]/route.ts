@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth } from '@/lib/rbac';
+import { canManageFeed } from '@/lib/calendar-feeds';
+
+// DELETE /api/calendar-feeds/:id - Revoke a feed; its URL stops working straight away
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+
+  try {
+    const feed = await prisma.calendarFeed.findUnique({ where: { id: Number(params.id) } });
+    if (!feed || feed.revokedAt) {
+      return NextResponse.json({ success: false, message: 'Feed not found' }, { status: 404 });
+    }
+
+    if (!canManageFeed(tokenUser, feed)) {
+      return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+    }
+
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { revokedAt: new Date() },
+    });
+
+    return NextResponse.json({ success: true, message: 'Feed revoked' });
+  } catch (error) {
+    console.error('Calendar feed DELETE error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
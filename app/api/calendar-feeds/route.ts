@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth } from '@/lib/rbac';
+import { UserRole } from '@prisma/client';
+import {
+  CALENDAR_FEED_SCOPES,
+  CalendarFeedScope,
+  calendarFeedUrl,
+  checkFeedCreateAccess,
+  generateFeedToken,
+} from '@/lib/calendar-feeds';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+
+const FEED_INCLUDE = {
+  user: { select: { id: true, firstName: true, lastName: true } },
+  property: { select: { id: true, address: true } },
+};
+
+// GET /api/calendar-feeds - Active calendar feeds (cleaners see their own, managers their company's)
+export async function GET(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const where: any = { revokedAt: null };
+    if (role === UserRole.CLEANER) {
+      where.OR = [{ userId: tokenUser.userId }, { createdById: tokenUser.userId }];
+    } else if (PLATFORM_ROLES.includes(role) && searchParams.get('companyId')) {
+      where.companyId = Number(searchParams.get('companyId'));
+    } else if (tokenUser.companyId) {
+      where.companyId = tokenUser.companyId;
+    } else {
+      where.createdById = tokenUser.userId;
+    }
+
+    const feeds = await prisma.calendarFeed.findMany({
+      where,
+      include: FEED_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: feeds.map(feed => ({ ...feed, url: calendarFeedUrl(feed.token) })),
+    });
+  } catch (error) {
+    console.error('Calendar feeds GET error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/calendar-feeds - Create a feed URL
+// Body: { scope: 'cleaner' | 'property' | 'company', userId?, propertyId?, companyId? }
+// A cleaner feed without userId is the caller's own.
+export async function POST(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+
+  try {
+    const body = await request.json();
+    const scope = body.scope as CalendarFeedScope;
+    if (!CALENDAR_FEED_SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { success: false, message: `scope must be one of: ${CALENDAR_FEED_SCOPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const rawTarget = scope === 'cleaner' ? body.userId : scope === 'property' ? body.propertyId : body.companyId;
+    const targetId = rawTarget ? Number(rawTarget) : null;
+    if (targetId !== null && !Number.isInteger(targetId)) {
+      return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+    }
+
+    const access = await checkFeedCreateAccess(tokenUser, scope, targetId);
+    if (access.error) {
+      return NextResponse.json({ success: false, message: access.error }, { status: access.httpStatus });
+    }
+
+    const feed = await prisma.calendarFeed.create({
+      data: {
+        token: generateFeedToken(),
+        scope,
+        companyId: access.companyId!,
+        userId: scope === 'cleaner' ? targetId ?? tokenUser.userId : null,
+        propertyId: scope === 'property' ? targetId : null,
+        createdById: tokenUser.userId,
+      },
+      include: FEED_INCLUDE,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...feed, url: calendarFeedUrl(feed.token) },
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Calendar feeds POST error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth } from '@/lib/rbac';
+import { pushChecklistVersionToTasks } from '@/lib/checklist-templates';
+import { logAudit } from '@/lib/audit';
+import { UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+const EDITOR_ROLES: UserRole[] = [...PLATFORM_ROLES, UserRole.COMPANY_ADMIN, UserRole.MANAGER];
+
+// POST /api/checklist-templates/[id]/apply
+// Push a version (default: current) to upcoming tasks that use an older version of this
+// template and have not been started. Body: { version?, from? (ISO date, default now) }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+  const { id } = await params;
+
+  if (!EDITOR_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const template = await prisma.checklistTemplate.findUnique({
+      where: { id: Number(id) },
+      select: { id: true, companyId: true, currentVersion: true },
+    });
+
+    if (!template) {
+      return NextResponse.json({ success: false, message: 'Template not found' }, { status: 404 });
+    }
+
+    // Check access
+    if (!PLATFORM_ROLES.includes(role) && template.companyId !== tokenUser.companyId) {
+      return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const from = body.from ? new Date(body.from) : new Date();
+    if (Number.isNaN(from.getTime())) {
+      return NextResponse.json({ success: false, message: 'Invalid from date' }, { status: 400 });
+    }
+
+    const version = await prisma.checklistTemplateVersion.findUnique({
+      where: { templateId_version: { templateId: template.id, version: Number(body.version ?? template.currentVersion) } },
+      select: { id: true },
+    });
+    if (!version) {
+      return NextResponse.json({ success: false, message: 'Version not found' }, { status: 404 });
+    }
+
+    const result = await pushChecklistVersionToTasks(version.id, from);
+
+    if (result && result.updatedTaskIds.length > 0) {
+      await logAudit({
+        companyId: template.companyId,
+        userId: tokenUser.userId,
+        action: 'update',
+        entityType: 'task',
+        entityId: 'checklist-version',
+        newValues: {
+          checklistTemplateId: template.id,
+          version: result.version,
+          taskIds: result.updatedTaskIds,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Checklist template apply error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth } from '@/lib/rbac';
+import { validateChecklistDefinitions } from '@/lib/checklist-items';
+import { createChecklistTemplateVersion } from '@/lib/checklist-templates';
 import { UserRole } from '@prisma/client';
 
 export async function GET(
@@ -68,12 +70,21 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const { name, description, items, isDefault } = body;
+    const { name, description, items, isDefault, changeNote } = body;
+
+    // Item changes become a new immutable version; existing tasks keep the version they were created with
+    let version = null;
+    if (items !== undefined) {
+      const { items: definitions, error } = validateChecklistDefinitions(items);
+      if (!definitions) {
+        return NextResponse.json({ success: false, message: error }, { status: 400 });
+      }
+      version = await createChecklistTemplateVersion(template, definitions, changeNote, tokenUser.userId);
+    }
 
     const updateData: any = {};
     if (name !== undefined) updateData.name = name;
     if (description !== undefined) updateData.description = description;
-    if (items !== undefined) updateData.items = typeof items === 'string' ? items : JSON.stringify(items);
     if (isDefault !== undefined) {
       updateData.isDefault = isDefault;
       // If setting as default, unset other defaults for the company
@@ -93,7 +104,7 @@ export async function PATCH(
       data: updateData,
     });
 
-    return NextResponse.json({ success: true, data: updated });
+    return NextResponse.json({ success: true, data: { ...updated, newVersion: version } });
   } catch (error) {
     console.error('Checklist template PATCH error:', error);
     return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
@@ -131,6 +142,18 @@ export async function DELETE(
       }
     }
 
+    // Keep versions that tasks were created from so their procedure can still be proven
+    const referencingTasks = await prisma.task.count({
+      where: { checklistTemplateVersion: { templateId: template.id } },
+    });
+    if (referencingTasks > 0) {
+      await prisma.checklistTemplate.update({
+        where: { id: template.id },
+        data: { archivedAt: new Date(), isDefault: false },
+      });
+      return NextResponse.json({ success: true, message: 'Template archived (used by existing tasks)' });
+    }
+
     await prisma.checklistTemplate.delete({
       where: { id: Number(id) },
     });
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth } from '@/lib/rbac';
+import { parseChecklistDefinitions } from '@/lib/checklist-items';
+import { diffChecklistItems, getChecklistVersionAt } from '@/lib/checklist-templates';
+import { UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+
+// GET /api/checklist-templates/[id]/versions
+// Changelog of a template, newest first, with the items and changes of each version.
+// ?at=<ISO date> returns only the version that was in effect at that time (for audits).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+  const { id } = await params;
+
+  try {
+    const template = await prisma.checklistTemplate.findUnique({
+      where: { id: Number(id) },
+      select: { id: true, companyId: true, name: true, currentVersion: true, archivedAt: true },
+    });
+
+    if (!template) {
+      return NextResponse.json({ success: false, message: 'Template not found' }, { status: 404 });
+    }
+
+    // Check access
+    if (!PLATFORM_ROLES.includes(tokenUser.role as UserRole) && template.companyId !== tokenUser.companyId) {
+      return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const at = searchParams.get('at');
+    if (at) {
+      const date = new Date(at);
+      if (Number.isNaN(date.getTime())) {
+        return NextResponse.json({ success: false, message: 'Invalid date' }, { status: 400 });
+      }
+      const version = await getChecklistVersionAt(template.id, date);
+      if (!version) {
+        return NextResponse.json({ success: false, message: 'Template had no version at that date' }, { status: 404 });
+      }
+      return NextResponse.json({
+        success: true,
+        data: { template, version: { ...version, items: parseChecklistDefinitions(version.items) } },
+      });
+    }
+
+    const versions = await prisma.checklistTemplateVersion.findMany({
+      where: { templateId: template.id },
+      include: {
+        createdBy: { select: { id: true, firstName: true, lastName: true, email: true } },
+        _count: { select: { tasks: true } },
+      },
+      orderBy: { version: 'asc' },
+    });
+
+    const changelog = versions.map((version, index) => {
+      const items = parseChecklistDefinitions(version.items);
+      return {
+        ...version,
+        items,
+        changes: index > 0 ? diffChecklistItems(parseChecklistDefinitions(versions[index - 1].items), items) : null,
+      };
+    });
+
+    return NextResponse.json({ success: true, data: { template, versions: changelog.reverse() } });
+  } catch (error) {
+    console.error('Checklist template versions GET error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth } from '@/lib/rbac';
+import { validateChecklistDefinitions } from '@/lib/checklist-items';
+import { createChecklistTemplate } from '@/lib/checklist-templates';
 import { UserRole } from '@prisma/client';
 
 export async function GET(request: NextRequest) {
@@ -10,7 +12,7 @@ export async function GET(request: NextRequest) {
   const { tokenUser } = auth;
 
   try {
-    const where: any = {};
+    const where: any = { archivedAt: null };
     
     if (![UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER].includes(tokenUser.role as UserRole)) {
       where.companyId = tokenUser.companyId;
@@ -47,6 +49,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, message: 'Name and items are required' }, { status: 400 });
     }
 
+    const { items: definitions, error } = validateChecklistDefinitions(items);
+    if (!definitions) {
+      return NextResponse.json({ success: false, message: error }, { status: 400 });
+    }
+
     const companyId = tokenUser.companyId!;
     
     // If setting as default, unset other defaults for the company
@@ -57,15 +64,16 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const template = await prisma.checklistTemplate.create({
-      data: {
+    const template = await createChecklistTemplate(
+      {
         companyId,
         name,
         description: description || undefined,
-        items: typeof items === 'string' ? items : JSON.stringify(items),
         isDefault: isDefault || false,
       },
-    });
+      definitions,
+      tokenUser.userId
+    );
 
     return NextResponse.json({ success: true, data: template }, { status: 201 });
   } catch (error) {
@@ -0,0 +1,99 @@
+import { type NextRequest, NextResponse } from "next/server"
+import prisma from "@/lib/prisma"
+import {
+  DEFAULT_RECURRENCE_HORIZON_DAYS,
+  generateRecurringInstances,
+  getTaskRecurrenceSeries,
+  isSeriesLive,
+} from "@/lib/recurrence"
+
+// GET /api/cron/recurring-tasks
+// Cron job that keeps every recurring series materialised up to its company's horizon
+// (AdminConfiguration.recurrenceHorizonDays). Safe to re-run: existing instances are skipped.
+// Should be called daily via Vercel Cron or similar
+export async function GET(request: NextRequest) {
+  // Verify cron secret for security
+  const authHeader = request.headers.get("authorization")
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const now = new Date()
+
+    // Series parents only. The parent is also the first occurrence, so its status (approved,
+    // archived, cancelled) says nothing about the series: a series ends with its rule
+    // (UNTIL/COUNT, set when the following occurrences are deleted) or when it is deleted.
+    const seriesTasks = await prisma.task.findMany({
+      where: { isRecurring: true, parentTaskId: null },
+      select: {
+        id: true,
+        companyId: true,
+        title: true,
+        occurrenceDate: true,
+        scheduledDate: true,
+        createdAt: true,
+        recurrenceRule: true,
+        recurringPattern: true,
+        recurrenceExdates: true,
+        recurrenceOverrides: true,
+      },
+      orderBy: [{ companyId: "asc" }, { id: "asc" }],
+    })
+
+    const companyIds = Array.from(new Set(seriesTasks.map((task) => task.companyId)))
+    const configs = await prisma.adminConfiguration.findMany({
+      where: { companyId: { in: companyIds } },
+      select: { companyId: true, recurrenceHorizonDays: true },
+    })
+    const horizonByCompany = new Map(configs.map((config) => [config.companyId, config.recurrenceHorizonDays]))
+
+    const results = {
+      series: [] as any[],
+      errors: [] as string[],
+    }
+
+    for (const task of seriesTasks) {
+      const horizonDays = horizonByCompany.get(task.companyId) ?? DEFAULT_RECURRENCE_HORIZON_DAYS
+      const until = new Date(now.getTime() + horizonDays * 24 * 60 * 60 * 1000)
+
+      try {
+        const series = await getTaskRecurrenceSeries(task)
+        if (!series || !isSeriesLive(series, now)) continue
+
+        const generated = await generateRecurringInstances(task.id, { from: now, to: until })
+        if (!generated) continue
+
+        results.series.push({
+          taskId: task.id,
+          companyId: task.companyId,
+          title: task.title,
+          horizonDays,
+          created: generated.created,
+          skipped: generated.skipped,
+          conflicts: generated.conflicts.length,
+          conflictDetails: generated.conflicts,
+        })
+      } catch (error) {
+        results.errors.push(`Failed to generate instances for series ${task.id}: ${error}`)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...results,
+        summary: {
+          seriesCount: results.series.length,
+          createdCount: results.series.reduce((sum, s) => sum + s.created, 0),
+          skippedCount: results.series.reduce((sum, s) => sum + s.skipped, 0),
+          conflictCount: results.series.reduce((sum, s) => sum + s.conflicts, 0),
+          errorCount: results.errors.length,
+        },
+      },
+    })
+  } catch (error) {
+    console.error("Recurring tasks cron error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { runSlaCheck } from "@/lib/sla"
+
+// GET /api/cron/sla-check
+// Cron job that flags tasks at risk of missing their dueBy deadline, records breaches
+// and escalates open breaches (cleaner, then manager, then company admin).
+// Should be called every 10 minutes via Vercel Cron or similar
+export async function GET(request: NextRequest) {
+  // Verify cron secret for security
+  const authHeader = request.headers.get("authorization")
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const result = await runSlaCheck()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        summary: {
+          breachesOpened: result.breachesOpened,
+          breachesResolved: result.breachesResolved,
+          escalationCount: result.escalations.length,
+        },
+      },
+    })
+  } catch (error) {
+    console.error("SLA check cron error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,10 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
-import { sendTaskReminderNotification } from "@/lib/notifications"
+import { isReminderDue, sendTaskReminderNotification } from "@/lib/notifications"
+import { formatZonedDateTime, getCompanyTimezone } from "@/lib/timezone"
 import { sendEmail } from "@/lib/email"
 
 // GET /api/cron/task-reminders
-// Cron job to send 24h and 1h reminders before tasks
+// Cron job to send 24h and 1h reminders before tasks, in each company's timezone
 // Should be called every hour via Vercel Cron or similar
 export async function GET(request: NextRequest) {
   // Verify cron secret for security
@@ -15,33 +16,14 @@ export async function GET(request: NextRequest) {
 
   try {
     const now = new Date()
-    const oneHourLater = new Date(now.getTime() + 60 * 60 * 1000)
-    const twentyFourHoursLater = new Date(now.getTime() + 24 * 60 * 60 * 1000)
+    // 24h reminders keep local wall time, so look a little past 24h to cover a DST change
+    const lookahead = new Date(now.getTime() + 26 * 60 * 60 * 1000)
 
-    // Find tasks scheduled in 1 hour
-    const oneHourTasks = await prisma.task.findMany({
+    const tasks = await prisma.task.findMany({
       where: {
         scheduledDate: {
           gte: now,
-          lte: oneHourLater,
-        },
-        status: {
-          in: ["ASSIGNED", "PLANNED"],
-        },
-        assignedUserId: { not: null },
-      },
-      include: {
-        assignedUser: true,
-        property: true,
-      },
-    })
-
-    // Find tasks scheduled in 24 hours
-    const twentyFourHourTasks = await prisma.task.findMany({
-      where: {
-        scheduledDate: {
-          gte: now,
-          lte: twentyFourHoursLater,
+          lte: lookahead,
         },
         status: {
           in: ["ASSIGNED", "PLANNED"],
@@ -60,14 +42,20 @@ export async function GET(request: NextRequest) {
       errors: [] as string[],
     }
 
-    // Send 1-hour reminders
-    for (const task of oneHourTasks) {
+    // Reminder windows and times are in each company's timezone
+    const timezones = new Map<number, string>()
+    const companyTimezone = async (companyId: number) => {
+      if (!timezones.has(companyId)) timezones.set(companyId, await getCompanyTimezone(companyId))
+      return timezones.get(companyId)!
+    }
+
+    for (const task of tasks) {
       if (!task.assignedUser || !task.scheduledDate) continue
+      const timezone = await companyTimezone(task.companyId)
+      const scheduled = formatZonedDateTime(task.scheduledDate, timezone)
 
-      const hoursUntil = Math.round((task.scheduledDate.getTime() - now.getTime()) / (1000 * 60 * 60))
-      
-      // Only send if within 1-2 hour window (to avoid duplicates)
-      if (hoursUntil >= 0.5 && hoursUntil <= 1.5) {
+      // Send 1-hour reminders
+      if (isReminderDue(task.scheduledDate, 1, now, timezone)) {
         try {
           await sendTaskReminderNotification(task.id, 1)
           
@@ -82,7 +70,7 @@ export async function GET(request: NextRequest) {
                 <ul>
                   <li><strong>Task:</strong> ${task.title}</li>
                   <li><strong>Property:</strong> ${task.property?.address || "N/A"}</li>
-                  <li><strong>Scheduled:</strong> ${task.scheduledDate.toLocaleString()}</li>
+                  <li><strong>Scheduled:</strong> ${scheduled}</li>
                 </ul>
               `,
             })
@@ -93,16 +81,9 @@ export async function GET(request: NextRequest) {
           results.errors.push(`Failed to send 1h reminder for task ${task.id}: ${error}`)
         }
       }
-    }
-
-    // Send 24-hour reminders
-    for (const task of twentyFourHourTasks) {
-      if (!task.assignedUser || !task.scheduledDate) continue
 
-      const hoursUntil = Math.round((task.scheduledDate.getTime() - now.getTime()) / (1000 * 60 * 60))
-      
-      // Only send if within 23-25 hour window (to avoid duplicates)
-      if (hoursUntil >= 23 && hoursUntil <= 25) {
+      // Send 24-hour reminders (same local time the day before)
+      if (isReminderDue(task.scheduledDate, 24, now, timezone)) {
         try {
           await sendTaskReminderNotification(task.id, 24)
           
@@ -117,7 +98,7 @@ export async function GET(request: NextRequest) {
                 <ul>
                   <li><strong>Task:</strong> ${task.title}</li>
                   <li><strong>Property:</strong> ${task.property?.address || "N/A"}</li>
-                  <li><strong>Scheduled:</strong> ${task.scheduledDate.toLocaleString()}</li>
+                  <li><strong>Scheduled:</strong> ${scheduled}</li>
                 </ul>
               `,
             })
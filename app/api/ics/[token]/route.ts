@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderCalendarFeed } from '@/lib/calendar-feeds';
+
+// GET /api/ics/:token.ics - Public calendar feed (the token is the credential)
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const token = params.token.replace(/\.ics$/i, '');
+    const result = await renderCalendarFeed(token);
+    if (result.error) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 404 });
+    }
+
+    return new NextResponse(result.ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    console.error('Calendar feed GET error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth } from '@/lib/rbac';
+import { parseJobTemplateInput } from '@/lib/job-templates';
+import { UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+const EDITOR_ROLES: UserRole[] = [...PLATFORM_ROLES, UserRole.COMPANY_ADMIN, UserRole.MANAGER];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+  const { id } = await params;
+
+  try {
+    const template = await prisma.jobTemplate.findUnique({
+      where: { id: Number(id) },
+      include: {
+        checklistTemplate: true,
+        _count: { select: { tasks: true } },
+      },
+    });
+
+    if (!template) {
+      return NextResponse.json({ success: false, message: 'Template not found' }, { status: 404 });
+    }
+
+    // Check access
+    if (!PLATFORM_ROLES.includes(tokenUser.role as UserRole) && template.companyId !== tokenUser.companyId) {
+      return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+    }
+
+    return NextResponse.json({ success: true, data: template });
+  } catch (error) {
+    console.error('Job template GET error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/job-templates/[id]
+// Only affects tasks created from now on; existing tasks keep the values they were created with.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+  const { id } = await params;
+
+  if (!EDITOR_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const template = await prisma.jobTemplate.findUnique({
+      where: { id: Number(id) },
+    });
+
+    if (!template) {
+      return NextResponse.json({ success: false, message: 'Template not found' }, { status: 404 });
+    }
+
+    // Check access
+    if (!PLATFORM_ROLES.includes(role) && template.companyId !== tokenUser.companyId) {
+      return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { data, error } = parseJobTemplateInput(body, true);
+    if (!data) {
+      return NextResponse.json({ success: false, message: error }, { status: 400 });
+    }
+
+    if (data.checklistTemplateId) {
+      const checklistTemplate = await prisma.checklistTemplate.findFirst({
+        where: { id: data.checklistTemplateId, companyId: template.companyId },
+      });
+      if (!checklistTemplate) {
+        return NextResponse.json({ success: false, message: 'Checklist template not found' }, { status: 404 });
+      }
+    }
+
+    const updated = await prisma.jobTemplate.update({
+      where: { id: Number(id) },
+      data,
+    });
+
+    return NextResponse.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Job template PATCH error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/job-templates/[id]
+// Tasks created from the template keep their copied values (jobTemplateId is cleared).
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+  const { id } = await params;
+
+  if (!EDITOR_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const template = await prisma.jobTemplate.findUnique({
+      where: { id: Number(id) },
+    });
+
+    if (!template) {
+      return NextResponse.json({ success: false, message: 'Template not found' }, { status: 404 });
+    }
+
+    // Check access
+    if (!PLATFORM_ROLES.includes(role) && template.companyId !== tokenUser.companyId) {
+      return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+    }
+
+    await prisma.jobTemplate.delete({
+      where: { id: Number(id) },
+    });
+
+    return NextResponse.json({ success: true, message: 'Template deleted' });
+  } catch (error) {
+    console.error('Job template DELETE error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { appliesToPropertyType, parseJobTemplateInput } from '@/lib/job-templates';
+import { Prisma, UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+const EDITOR_ROLES: UserRole[] = [...PLATFORM_ROLES, UserRole.COMPANY_ADMIN, UserRole.MANAGER];
+
+// GET /api/job-templates
+// Optional filters: ?propertyType=apartment (templates that apply to it), ?includeInactive=true
+export async function GET(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const propertyType = searchParams.get('propertyType');
+    const where: any = {};
+
+    if (!PLATFORM_ROLES.includes(tokenUser.role as UserRole)) {
+      where.companyId = tokenUser.companyId;
+    }
+    if (searchParams.get('includeInactive') !== 'true') {
+      where.isActive = true;
+    }
+
+    const templates = await prisma.jobTemplate.findMany({
+      where,
+      include: { checklistTemplate: { select: { id: true, name: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        templates: propertyType ? templates.filter(t => appliesToPropertyType(t, propertyType)) : templates,
+      },
+    });
+  } catch (error) {
+    console.error('Job templates GET error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/job-templates
+// Platform roles must give companyId in the body; everyone else creates in their own company.
+export async function POST(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  if (!EDITOR_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const { data, error } = parseJobTemplateInput(body);
+    if (!data) {
+      return NextResponse.json({ success: false, message: error }, { status: 400 });
+    }
+
+    let companyId: number | null;
+    if (PLATFORM_ROLES.includes(role)) {
+      companyId = Number.isInteger(Number(body.companyId)) ? Number(body.companyId) : null;
+      if (!companyId) return NextResponse.json({ success: false, message: 'companyId is required' }, { status: 400 });
+    } else {
+      companyId = requireCompanyScope(tokenUser);
+      if (!companyId) return NextResponse.json({ success: false, message: 'No company scope' }, { status: 403 });
+    }
+
+    if (data.checklistTemplateId) {
+      const checklistTemplate = await prisma.checklistTemplate.findFirst({
+        where: { id: data.checklistTemplateId, companyId },
+      });
+      if (!checklistTemplate) {
+        return NextResponse.json({ success: false, message: 'Checklist template not found' }, { status: 404 });
+      }
+    }
+
+    // name and title are always present when parsing a full (non-partial) body
+    const input: Prisma.JobTemplateUncheckedCreateInput = { ...data, name: data.name!, title: data.title!, companyId };
+    const template = await prisma.jobTemplate.create({ data: input });
+
+    return NextResponse.json({ success: true, data: template }, { status: 201 });
+  } catch (error) {
+    console.error('Job templates POST error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
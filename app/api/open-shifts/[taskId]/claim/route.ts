@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/rbac';
+import { logAudit } from '@/lib/audit';
+import { claimOpenShift, withdrawOpenShiftClaim } from '@/lib/open-shifts';
+
+// POST /api/open-shifts/[taskId]/claim
+// Claim an open shift. Assigns it immediately in first_come mode, otherwise waits for a manager.
+export async function POST(request: NextRequest, { params }: { params: { taskId: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+
+  const taskId = Number(params.taskId);
+  if (Number.isNaN(taskId)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const result = await claimOpenShift(taskId, tokenUser.userId);
+    if (result.error || !result.claim) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 400 });
+    }
+
+    await logAudit({
+      companyId: result.claim.companyId,
+      userId: tokenUser.userId,
+      action: 'create',
+      entityType: 'open_shift',
+      entityId: taskId,
+      newValues: { claimId: result.claim.id, status: result.claim.status },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.claim,
+      message: result.assigned ? 'Shift assigned to you' : 'Claim sent for manager approval',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Open shift claim error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/open-shifts/[taskId]/claim
+// Withdraw your pending claim
+export async function DELETE(request: NextRequest, { params }: { params: { taskId: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+
+  const taskId = Number(params.taskId);
+  if (Number.isNaN(taskId)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const result = await withdrawOpenShiftClaim(taskId, tokenUser.userId);
+    if (result.error || !result.claim) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 400 });
+    }
+
+    await logAudit({
+      companyId: result.claim.companyId,
+      userId: tokenUser.userId,
+      action: 'update',
+      entityType: 'open_shift',
+      entityId: taskId,
+      newValues: { claimId: result.claim.id, status: 'withdrawn' },
+    });
+
+    return NextResponse.json({ success: true, data: result.claim });
+  } catch (error) {
+    console.error('Open shift claim withdraw error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
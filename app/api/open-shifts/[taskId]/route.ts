@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { logAudit } from '@/lib/audit';
+import { unpublishOpenShift } from '@/lib/open-shifts';
+import { UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+const MANAGER_ROLES: UserRole[] = [...PLATFORM_ROLES, UserRole.COMPANY_ADMIN, UserRole.MANAGER];
+
+// DELETE /api/open-shifts/[taskId]
+// Withdraw an open shift. Pending claims are rejected and their cleaners notified.
+export async function DELETE(request: NextRequest, { params }: { params: { taskId: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  if (!MANAGER_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+  }
+
+  const taskId = Number(params.taskId);
+  if (Number.isNaN(taskId)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: { id: true, companyId: true, openShiftPublishedAt: true },
+    });
+    if (!task || !task.openShiftPublishedAt) {
+      return NextResponse.json({ success: false, message: 'Open shift not found' }, { status: 404 });
+    }
+
+    if (!PLATFORM_ROLES.includes(role)) {
+      const companyId = requireCompanyScope(tokenUser);
+      if (!companyId || task.companyId !== companyId) {
+        return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    await unpublishOpenShift(taskId, tokenUser.userId);
+
+    await logAudit({
+      companyId: task.companyId,
+      userId: tokenUser.userId,
+      action: 'update',
+      entityType: 'open_shift',
+      entityId: taskId,
+      oldValues: { openShiftPublishedAt: task.openShiftPublishedAt },
+      newValues: { openShiftPublishedAt: null },
+    });
+
+    return NextResponse.json({ success: true, message: 'Open shift withdrawn' });
+  } catch (error) {
+    console.error('Open shift DELETE error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { logAudit } from '@/lib/audit';
+import { decideOpenShiftClaim } from '@/lib/open-shifts';
+import { UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+const APPROVER_ROLES: UserRole[] = [...PLATFORM_ROLES, UserRole.COMPANY_ADMIN, UserRole.MANAGER];
+
+// POST /api/open-shifts/claims/[id]/approve
+// Manager decision on a pending claim (approval mode). Body: { approved: boolean }
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  if (!APPROVER_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+  }
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const claim = await prisma.openShiftClaim.findUnique({ where: { id }, select: { companyId: true, taskId: true, userId: true } });
+    if (!claim) return NextResponse.json({ success: false, message: 'Claim not found' }, { status: 404 });
+
+    if (!PLATFORM_ROLES.includes(role)) {
+      const companyId = requireCompanyScope(tokenUser);
+      if (!companyId || claim.companyId !== companyId) {
+        return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const body = await request.json();
+    const approved = Boolean(body.approved);
+
+    const result = await decideOpenShiftClaim(id, tokenUser.userId, approved);
+    if (result.error || !result.claim) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 400 });
+    }
+
+    await logAudit({
+      companyId: claim.companyId,
+      userId: tokenUser.userId,
+      action: 'update',
+      entityType: 'open_shift',
+      entityId: claim.taskId,
+      newValues: { claimId: id, status: result.claim.status, ...(approved ? { assignedUserId: claim.userId } : {}) },
+    });
+
+    return NextResponse.json({ success: true, data: result.claim });
+  } catch (error) {
+    console.error('Open shift claim approval error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
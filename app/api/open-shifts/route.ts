@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { JWTPayload } from '@/lib/auth';
+import { logAudit } from '@/lib/audit';
+import { getOpenShiftSettings, getOpenShiftsForCleaner, publishOpenShifts } from '@/lib/open-shifts';
+import { UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+const MANAGER_ROLES: UserRole[] = [...PLATFORM_ROLES, UserRole.COMPANY_ADMIN, UserRole.MANAGER];
+
+function resolveCompanyId(tokenUser: JWTPayload, role: UserRole, requested: unknown): number | null {
+  if (PLATFORM_ROLES.includes(role)) {
+    return requested ? Number(requested) : (tokenUser.companyId || null);
+  }
+  return requireCompanyScope(tokenUser);
+}
+
+// GET /api/open-shifts?companyId=
+// Cleaners get the open shifts they are eligible for (with their own claim, if any).
+// Managers get every published open shift with its claims.
+export async function GET(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  try {
+    const companyId = resolveCompanyId(tokenUser, role, request.nextUrl.searchParams.get('companyId'));
+    if (!companyId) return NextResponse.json({ success: false, message: 'Company ID required' }, { status: 400 });
+
+    if (role === UserRole.CLEANER) {
+      const data = await getOpenShiftsForCleaner(tokenUser.userId, companyId);
+      return NextResponse.json({ success: true, data });
+    }
+
+    if (!MANAGER_ROLES.includes(role)) {
+      return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+    }
+
+    const [shifts, settings] = await Promise.all([
+      prisma.task.findMany({
+        where: { companyId, openShiftPublishedAt: { not: null } },
+        include: {
+          property: { select: { id: true, address: true, postcode: true } },
+          openShiftClaims: {
+            where: { status: { in: ['pending', 'approved'] } },
+            include: { user: { select: { id: true, firstName: true, lastName: true, email: true } } },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: { scheduledDate: 'asc' },
+      }),
+      getOpenShiftSettings(companyId),
+    ]);
+
+    return NextResponse.json({ success: true, data: { ...settings, shifts } });
+  } catch (error) {
+    console.error('Open shifts GET error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/open-shifts
+// Publish unassigned PLANNED tasks as open shifts. Body: { taskIds: number[], companyId? }
+export async function POST(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  if (!MANAGER_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const companyId = resolveCompanyId(tokenUser, role, body.companyId);
+    if (!companyId) return NextResponse.json({ success: false, message: 'Company ID required' }, { status: 400 });
+
+    if (!Array.isArray(body.taskIds) || body.taskIds.length === 0) {
+      return NextResponse.json({ success: false, message: 'taskIds must be a non-empty array' }, { status: 400 });
+    }
+    const taskIds = Array.from(new Set<number>(body.taskIds.map(Number).filter(Number.isInteger)));
+
+    const result = await publishOpenShifts(companyId, taskIds);
+
+    if (result.published.length > 0) {
+      await logAudit({
+        companyId,
+        userId: tokenUser.userId,
+        action: 'update',
+        entityType: 'open_shift',
+        entityId: 'publish',
+        newValues: { taskIds: result.published },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Open shifts POST error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
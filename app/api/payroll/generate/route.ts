@@ -2,10 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth, requireCompanyScope } from '@/lib/rbac';
 import { UserRole } from '@prisma/client';
+import { getPayableTimeByTask } from '@/lib/time-entries';
+import { getCompanyTimezone, getZonedPeriod } from '@/lib/timezone';
 
 /**
  * POST /api/payroll/generate
- * Auto-generate payroll records for cleaners and managers based on completed tasks or fixed salary
+ * Auto-generate payroll records for cleaners and managers based on completed tasks or fixed salary.
+ * Hourly pay uses clocked time entries; completed tasks without entries fall back to their estimate.
+ * Entries that were never clocked out are not paid; they are listed in openTimeEntries for a manager to correct.
  */
 export async function POST(request: NextRequest) {
   const auth = requireAuth(request);
@@ -29,9 +33,12 @@ export async function POST(request: NextRequest) {
     const companyId = requireCompanyScope(tokenUser);
     if (!companyId) return NextResponse.json({ success: false, message: 'No company scope' }, { status: 403 });
 
-    const periodStart = new Date(startDate);
-    const periodEnd = new Date(endDate);
-    periodEnd.setHours(23, 59, 59, 999);
+    // Periods are whole days in the company's timezone
+    const period = getZonedPeriod(startDate, endDate, await getCompanyTimezone(companyId));
+    if (!period) {
+      return NextResponse.json({ success: false, message: 'startDate and endDate must be YYYY-MM-DD' }, { status: 400 });
+    }
+    const { periodStart, periodEnd } = period;
 
     // Get all cleaners and optionally managers
     const rolesToInclude = includeManagers 
@@ -55,6 +62,7 @@ export async function POST(request: NextRequest) {
 
     const payrollRecordsToCreate = [];
     const errors = [];
+    const openTimeEntries = [];
 
     for (const employee of employees) {
       try {
@@ -96,7 +104,7 @@ export async function POST(request: NextRequest) {
             status: 'pending',
           });
         } else {
-          // Hourly employee - calculate from completed tasks
+          // Hourly employee - calculate from clocked time, plus estimates for completed tasks without entries
           const tasks = await prisma.task.findMany({
             where: {
               OR: [
@@ -126,13 +134,39 @@ export async function POST(request: NextRequest) {
             },
           });
 
-          // Calculate total hours worked
-          let totalHours = 0;
+          // Calculate total hours worked (open entries are flagged rather than paid up to now)
+          const payable = await getPayableTimeByTask(employee.id, periodStart, periodEnd);
+          const openTaskIds = new Set(payable.openEntries.map(entry => entry.taskId));
+          openTimeEntries.push(...payable.openEntries.map(entry => ({
+            ...entry,
+            userId: employee.id,
+            name: `${employee.firstName} ${employee.lastName}`,
+          })));
+          let totalMinutes = Array.from(payable.minutesByTask.values()).reduce((sum, minutes) => sum + minutes, 0);
           for (const task of tasks) {
-            const hours = (task.estimatedDurationMinutes || 120) / 60;
-            totalHours += hours;
+            if (!payable.minutesByTask.has(task.id) && !openTaskIds.has(task.id)) {
+              totalMinutes += task.estimatedDurationMinutes || 120;
+            }
           }
 
+          // Late cancellations pay each assignee the compensation set by the cancellation policy
+          const cancellations = await prisma.taskCancellation.findMany({
+            where: {
+              companyId,
+              compensationMinutes: { gt: 0 },
+              task: {
+                OR: [
+                  { assignedUserId: employee.id },
+                  { taskAssignments: { some: { userId: employee.id } } },
+                ],
+                scheduledDate: { gte: periodStart, lte: periodEnd },
+              },
+            },
+            select: { compensationMinutes: true },
+          });
+          totalMinutes += cancellations.reduce((sum, cancellation) => sum + cancellation.compensationMinutes, 0);
+          const totalHours = totalMinutes / 60;
+
           if (totalHours === 0) {
             continue; // Skip if no hours worked
           }
@@ -194,6 +228,7 @@ export async function POST(request: NextRequest) {
       data: {
         created: payrollRecordsToCreate.length,
         errors: errors.length > 0 ? errors : undefined,
+        openTimeEntries: openTimeEntries.length > 0 ? openTimeEntries : undefined,
       },
     });
   } catch (error) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth, requireCompanyScope } from '@/lib/rbac';
 import { UserRole } from '@prisma/client';
+import { DEFAULT_TIMEZONE, getCompanyTimezone, getZonedMonthRange, getZonedParts, getZonedPeriod } from '@/lib/timezone';
 
 export async function GET(request: NextRequest) {
   const auth = requireAuth(request);
@@ -23,32 +24,19 @@ export async function GET(request: NextRequest) {
       where.companyId = tokenUser.companyId;
     }
 
-    // Filter by current month if no specific month/year provided
-    if (!month && !year) {
-      const now = new Date();
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
-      
-      where.periodStart = {
-        lte: endOfMonth,
-      };
-      where.periodEnd = {
-        gte: startOfMonth,
-      };
-    } else {
-      // Filter by specific month/year
-      const yearNum = year ? parseInt(year) : new Date().getFullYear();
-      const monthNum = month ? parseInt(month.split('-')[1]) - 1 : new Date().getMonth();
-      const startOfMonth = new Date(yearNum, monthNum, 1);
-      const endOfMonth = new Date(yearNum, monthNum + 1, 0, 23, 59, 59, 999);
-      
-      where.periodStart = {
-        lte: endOfMonth,
-      };
-      where.periodEnd = {
-        gte: startOfMonth,
-      };
-    }
+    // Filter by month (default: the current month), in the company's timezone
+    const timezone = tokenUser.companyId ? await getCompanyTimezone(tokenUser.companyId) : DEFAULT_TIMEZONE;
+    const today = getZonedParts(new Date(), timezone);
+    const yearNum = year ? parseInt(year) : today.year;
+    const monthNum = month ? parseInt(month.split('-')[1]) : today.month;
+    const { start: startOfMonth, end: endOfMonth } = getZonedMonthRange(yearNum, monthNum, timezone);
+
+    where.periodStart = {
+      lte: endOfMonth,
+    };
+    where.periodEnd = {
+      gte: startOfMonth,
+    };
 
     const payrollRecords = await prisma.payrollRecord.findMany({
       where,
@@ -123,12 +111,18 @@ export async function POST(request: NextRequest) {
       totalAmount = Number(hoursWorked) * Number(hourlyRate);
     }
 
+    // Periods are whole days in the company's timezone
+    const period = getZonedPeriod(periodStart, periodEnd, await getCompanyTimezone(user.companyId!));
+    if (!period) {
+      return NextResponse.json({ success: false, message: 'periodStart and periodEnd must be YYYY-MM-DD' }, { status: 400 });
+    }
+
     const payrollRecord = await prisma.payrollRecord.create({
       data: {
         userId: Number(userId),
         companyId: user.companyId!,
-        periodStart: new Date(periodStart),
-        periodEnd: new Date(periodEnd),
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
         payrollType,
         hoursWorked: payrollType === 'hourly' ? Number(hoursWorked) : null,
         hourlyRate: payrollType === 'hourly' ? Number(hourlyRate) : null,
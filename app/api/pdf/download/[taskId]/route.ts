@@ -20,7 +20,18 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         },
         checklists: {
           orderBy: { order: "asc" },
-          select: { title: true, isCompleted: true },
+          select: {
+            id: true,
+            title: true,
+            itemType: true,
+            unit: true,
+            isCompleted: true,
+            answerBoolean: true,
+            answerNumber: true,
+            answerText: true,
+            comment: true,
+            photos: { select: { id: true, url: true } },
+          },
         },
         notes: {
           select: { content: true, severity: true },
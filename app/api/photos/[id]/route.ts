@@ -22,6 +22,17 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
       where: { id: Number(id) },
     })
 
+    // A photo checklist item without evidence is no longer complete
+    if (photo.checklistItemId) {
+      const remaining = await prisma.photo.count({ where: { checklistItemId: photo.checklistItemId } })
+      if (remaining === 0) {
+        await prisma.checklistItem.updateMany({
+          where: { id: photo.checklistItemId, itemType: "photo" },
+          data: { isCompleted: false, completedAt: null },
+        })
+      }
+    }
+
     return NextResponse.json({ success: true, message: "Photo deleted successfully" })
   } catch (error) {
     console.error("Photo DELETE error:", error)
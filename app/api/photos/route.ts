@@ -27,6 +27,7 @@ export async function GET(request: NextRequest) {
         url: true,
         photoType: true,
         caption: true,
+        checklistItemId: true,
         takenAt: true,
         createdAt: true,
         user: { select: { firstName: true, lastName: true } },
@@ -53,6 +54,7 @@ export async function POST(request: NextRequest) {
     const photoType = formData.get("photoType") as string
     const caption = formData.get("caption") as string
     const file = formData.get("file") as File
+    const checklistItemId = formData.get("checklistItemId") ? Number(formData.get("checklistItemId")) : null
 
     if (!taskId || !photoType || !file) {
       return NextResponse.json({ success: false, message: "taskId, photoType, and file are required" }, { status: 400 })
@@ -68,6 +70,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, message: "Task not found" }, { status: 404 })
     }
 
+    // Photo evidence for a checklist item must be on the same task
+    if (checklistItemId) {
+      const item = await prisma.checklistItem.findFirst({ where: { id: checklistItemId, taskId: task.id } })
+      if (!item) {
+        return NextResponse.json({ success: false, message: "Checklist item not found for this task" }, { status: 404 })
+      }
+    }
+
     const buffer = Buffer.from(await file.arrayBuffer())
     const timestamp = new Date()
     
@@ -100,9 +110,18 @@ export async function POST(request: NextRequest) {
         caption: caption || undefined,
         takenAt: exifTimestamp || timestamp,
         exifTimestamp: exifTimestamp,
+        checklistItemId,
       },
     })
 
+    // A photo item is complete once it has evidence
+    if (checklistItemId) {
+      await prisma.checklistItem.updateMany({
+        where: { id: checklistItemId, itemType: "photo", isCompleted: false },
+        data: { isCompleted: true, completedAt: new Date() },
+      })
+    }
+
     return NextResponse.json({ success: true, data: { photo } }, { status: 201 })
   } catch (error) {
     console.error("Photo POST error:", error)
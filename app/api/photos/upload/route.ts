@@ -15,6 +15,7 @@ export async function POST(request: NextRequest) {
     const photoType = formData.get('photoType') as 'before' | 'after';
     const caption = formData.get('caption') as string | null;
     const file = formData.get('file') as File;
+    const checklistItemId = formData.get('checklistItemId') ? Number(formData.get('checklistItemId')) : null;
 
     if (!taskId || !photoType || !file) {
       return NextResponse.json(
@@ -32,6 +33,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, message: 'Task not found' }, { status: 404 });
     }
 
+    // Photo evidence for a checklist item must be on the same task
+    if (checklistItemId) {
+      const item = await prisma.checklistItem.findFirst({ where: { id: checklistItemId, taskId } });
+      if (!item) {
+        return NextResponse.json({ success: false, message: 'Checklist item not found for this task' }, { status: 404 });
+      }
+    }
+
     const buffer = Buffer.from(await file.arrayBuffer());
     const timestamp = new Date();
     
@@ -65,9 +74,18 @@ export async function POST(request: NextRequest) {
         photoType,
         takenAt: exifTimestamp || timestamp,
         exifTimestamp: exifTimestamp,
+        checklistItemId,
       },
     });
 
+    // A photo item is complete once it has evidence
+    if (checklistItemId) {
+      await prisma.checklistItem.updateMany({
+        where: { id: checklistItemId, itemType: 'photo', isCompleted: false },
+        data: { isCompleted: true, completedAt: new Date() },
+      });
+    }
+
     return NextResponse.json({ success: true, data: { photo } }, { status: 201 });
   } catch (error) {
     console.error('Photo upload error:', error);
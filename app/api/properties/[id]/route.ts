@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { serializePropertyTags } from '@/lib/checklist-items';
 import { UserRole } from '@prisma/client';
 
 // GET /api/properties/[id]
@@ -53,7 +54,7 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
     }
 
     const body = await request.json();
-    const { address, postcode, latitude, longitude, propertyType, notes, isActive } = body;
+    const { address, postcode, latitude, longitude, propertyType, notes, tags, isActive } = body;
 
     const data: any = {};
     if (address !== undefined) data.address = address;
@@ -62,6 +63,7 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
     if (longitude !== undefined) data.longitude = longitude !== null ? Number(longitude) : null;
     if (propertyType !== undefined) data.propertyType = propertyType;
     if (notes !== undefined) data.notes = notes;
+    if (tags !== undefined) data.tags = serializePropertyTags(tags);
     if (isActive !== undefined) data.isActive = !!isActive;
 
     const updated = await prisma.property.update({ where: { id }, data });
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth, requireCompanyScope } from '@/lib/rbac';
 import { requireActiveSubscription } from '@/lib/subscription';
+import { serializePropertyTags } from '@/lib/checklist-items';
 import { UserRole } from '@prisma/client';
 
 // GET /api/properties
@@ -96,7 +97,8 @@ export async function POST(request: NextRequest) {
       notes, 
       companyId: bodyCompanyId,
       unitCount,
-      pricePerUnit
+      pricePerUnit,
+      tags
     } = body;
 
     if (!address || !propertyType) {
@@ -145,6 +147,7 @@ export async function POST(request: NextRequest) {
         // @ts-ignore
         totalPrice,
         notes,
+        tags: serializePropertyTags(tags),
       },
     });
 
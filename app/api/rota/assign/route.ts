@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth, requireCompanyScope } from '@/lib/rbac';
 import { UserRole } from '@prisma/client';
-import { sendTaskAssignmentNotification, scheduleTaskReminders } from '@/lib/notifications';
+import { scheduleTaskReminders } from '@/lib/notifications';
 import { logAudit } from '@/lib/audit';
-import { validateAssignment } from '@/lib/rota-conflicts';
+import { getWeekBounds, validateAssignment } from '@/lib/rota-conflicts';
+import { getCompanyTimezone } from '@/lib/timezone';
 
 export async function POST(request: NextRequest) {
   const auth = requireAuth(request);
@@ -64,15 +65,9 @@ export async function POST(request: NextRequest) {
     // Enhanced: Validate assignment and detect conflicts (non-blocking warnings)
     const taskScheduledDate = task.scheduledDate || new Date();
     
-    // Calculate week boundaries for max hours validation
-    const date = new Date(taskScheduledDate);
-    const day = date.getDay();
-    const diff = date.getDate() - day;
-    const weekStart = new Date(date.setDate(diff));
-    weekStart.setHours(0, 0, 0, 0);
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-    weekEnd.setHours(23, 59, 59, 999);
+    // Calculate week boundaries for max hours validation, in the company's timezone
+    const timezone = await getCompanyTimezone(task.companyId);
+    const { weekStart, weekEnd } = getWeekBounds(taskScheduledDate, timezone);
 
     const validation = await validateAssignment(
       cleaner.id,
@@ -81,7 +76,8 @@ export async function POST(request: NextRequest) {
       task.propertyId,
       task.estimatedDurationMinutes,
       weekStart,
-      weekEnd
+      weekEnd,
+      timezone
     );
 
     const oldAssignedUserId = task.assignedUserId;
@@ -114,7 +110,7 @@ export async function POST(request: NextRequest) {
       newValues: { assignedUserId: cleaner.id },
     });
 
-    await sendTaskAssignmentNotification(task.id, cleaner.id);
+    // Rota edits are drafts: cleaners hear about them when the week is published (lib/rota-publish.ts)
     await scheduleTaskReminders(task.id);
 
     return NextResponse.json({ 
@@ -2,6 +2,7 @@ import { type NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requireAuth, requireCompanyScope } from "@/lib/rbac"
 import { UserRole } from "@prisma/client"
+import { getUserTimezone, getZonedDayRange, parseLocalDate } from "@/lib/timezone"
 
 // GET /api/rota/conflicts
 export async function GET(request: NextRequest) {
@@ -27,11 +28,13 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ success: false, message: "cleanerId and date are required" }, { status: 400 })
     }
 
-    const targetDate = new Date(date)
-    const dayStart = new Date(targetDate)
-    dayStart.setHours(0, 0, 0, 0)
-    const dayEnd = new Date(targetDate)
-    dayEnd.setHours(23, 59, 59, 999)
+    const targetDay = parseLocalDate(date.slice(0, 10))
+    if (!targetDay) {
+      return NextResponse.json({ success: false, message: "date must be YYYY-MM-DD" }, { status: 400 })
+    }
+    // The cleaner's day in their company's timezone
+    const timezone = await getUserTimezone(Number(cleanerId))
+    const { start: dayStart, end: dayEnd } = getZonedDayRange(targetDay, timezone)
 
     const existingTasks = await prisma.task.findMany({
       where: {
@@ -2,7 +2,9 @@ import { type NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requireAuth, requireCompanyScope } from "@/lib/rbac"
 import { UserRole } from "@prisma/client"
-import { validateAssignment, getCleanerWorkload } from "@/lib/rota-conflicts"
+import { validateAssignment, getCleanerWorkload, getWeekBounds } from "@/lib/rota-conflicts"
+import { getCompanyTimezone } from "@/lib/timezone"
+import { updateTaskAssignment } from "@/lib/task-lifecycle"
 
 // GET /api/rota - Get rota for a week
 export async function GET(request: NextRequest) {
@@ -239,15 +241,9 @@ export async function POST(request: NextRequest) {
     // Enhanced: Validate assignment and detect conflicts
     const taskScheduledDate = scheduledDate ? new Date(scheduledDate) : (task.scheduledDate || new Date());
     
-    // Calculate week boundaries for max hours validation
-    const date = new Date(taskScheduledDate);
-    const day = date.getDay();
-    const diff = date.getDate() - day;
-    const weekStart = new Date(date.setDate(diff));
-    weekStart.setHours(0, 0, 0, 0);
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-    weekEnd.setHours(23, 59, 59, 999);
+    // Calculate week boundaries for max hours validation, in the company's timezone
+    const timezone = await getCompanyTimezone(task.companyId);
+    const { weekStart, weekEnd } = getWeekBounds(taskScheduledDate, timezone);
 
     const validation = await validateAssignment(
       cleaner.id,
@@ -256,32 +252,39 @@ export async function POST(request: NextRequest) {
       task.propertyId,
       task.estimatedDurationMinutes,
       weekStart,
-      weekEnd
+      weekEnd,
+      timezone
     );
 
     // Return warnings even if assignment proceeds (non-blocking)
     // This allows the frontend to show warnings to the manager
 
-    const updateData: any = { assignedUserId: Number(assignedUserId), status: "ASSIGNED" }
+    // DRAFT and PLANNED tasks become ASSIGNED (recorded in the status history)
+    const updateData: any = { assignedUserId: Number(assignedUserId) }
     if (scheduledDate) updateData.scheduledDate = taskScheduledDate
 
-    const updatedTask = await prisma.task.update({
-      where: { id: Number(taskId) },
-      data: updateData,
-      include: {
-        property: true,
-        assignedUser: { 
-          select: { 
-            id: true, 
-            firstName: true, 
-            lastName: true,
-            cleanerSkills: {
-              include: { skill: true },
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      if (!(await updateTaskAssignment(tx, task, true, updateData, tokenUser.userId))) return null
+      return tx.task.findUniqueOrThrow({
+        where: { id: task.id },
+        include: {
+          property: true,
+          assignedUser: { 
+            select: { 
+              id: true, 
+              firstName: true, 
+              lastName: true,
+              cleanerSkills: {
+                include: { skill: true },
+              },
             },
           },
         },
-      },
+      })
     })
+    if (!updatedTask) {
+      return NextResponse.json({ success: false, message: "Task was changed by someone else; reload and try again" }, { status: 409 })
+    }
 
     return NextResponse.json({ 
       success: true, 
@@ -1,7 +1,10 @@
 import { type NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requireAuth, requireCompanyScope } from "@/lib/rbac"
-import { UserRole } from "@prisma/client"
+import { TaskStatus, UserRole } from "@prisma/client"
+import { copyChecklistForProperty } from "@/lib/checklist-templates"
+import { shiftDeadline } from "@/lib/sla"
+import { initialStatusHistory } from "@/lib/task-lifecycle"
 
 // POST /api/rota/week-clone
 export async function POST(request: NextRequest) {
@@ -73,18 +76,21 @@ export async function POST(request: NextRequest) {
           propertyId: task.propertyId,
           assignedUserId: task.assignedUserId,
           scheduledDate: newScheduledDate,
-          status: "PLANNED",
+          dueBy: shiftDeadline(task, newScheduledDate),
+          status: TaskStatus.PLANNED,
+          statusHistory: initialStatusHistory(TaskStatus.PLANNED, tokenUser.userId),
+          jobTemplateId: task.jobTemplateId,
+          requiredSkillIds: task.requiredSkillIds,
+          photoCountRequirement: task.photoCountRequirement,
+          checklistTemplateVersionId: task.checklistTemplateVersionId,
         },
       })
 
-      // Clone checklists
-      for (const checklist of task.checklists) {
-        await prisma.checklistItem.create({
-          data: {
-            taskId: clonedTask.id,
-            title: checklist.title,
-            order: checklist.order,
-          },
+      // Clone checklists (template checklists are rebuilt for the property's current attributes)
+      const checklist = await copyChecklistForProperty(task, task.propertyId)
+      if (checklist.length > 0) {
+        await prisma.checklistItem.createMany({
+          data: checklist.map((item) => ({ taskId: clonedTask.id, ...item })),
         })
       }
 
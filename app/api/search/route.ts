@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, canAccessCompany } from '@/lib/rbac';
+import { clampSearchLimit, parseSearchTypes, searchAll } from '@/lib/search';
+import { UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+
+// GET /api/search?q=baker boiler&types=task,issue&limit=20&companyId=
+// Full-text search across tasks, properties, notes, issues, users and your chat messages
+export async function GET(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  if (role === UserRole.CLEANER) {
+    return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const q = (searchParams.get('q') || '').trim();
+  if (q.length < 2) {
+    return NextResponse.json({ success: true, data: { query: q, results: [] } });
+  }
+
+  // Platform roles search every company unless one is selected
+  const companyIdParam = searchParams.get('companyId');
+  let companyId: number | null = PLATFORM_ROLES.includes(role) ? null : tokenUser.companyId ?? null;
+  if (companyIdParam) {
+    companyId = Number(companyIdParam);
+    if (Number.isNaN(companyId)) {
+      return NextResponse.json({ success: false, message: 'Invalid companyId' }, { status: 400 });
+    }
+  }
+  if (companyId === null && !PLATFORM_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: 'No company scope' }, { status: 403 });
+  }
+  if (companyId !== null && !canAccessCompany(tokenUser, companyId)) {
+    return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const results = await searchAll(q, {
+      companyId,
+      viewerId: tokenUser.userId,
+      types: parseSearchTypes(searchParams.get('types')),
+      limit: clampSearchLimit(searchParams.get('limit')),
+    });
+
+    return NextResponse.json({ success: true, data: { query: q, results } });
+  } catch (error) {
+    console.error('Search error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,9 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requireAuth, requireCompanyScope } from "@/lib/rbac"
-import { UserRole } from "@prisma/client"
+import { TaskStatus, UserRole } from "@prisma/client"
 import { fetchSheetData, fetchSheetHeaders, parsePropertyRows, appendValidationReport, ColumnMapping } from "@/lib/sheets"
 import { geocodeAddress } from "@/lib/geocoding"
+import { appliesToPropertyType, getJobTemplateDefaults, JobTemplateDefaults, templateTaskData } from "@/lib/job-templates"
+import { getPropertyChecklistAttributes } from "@/lib/checklist-templates"
+import { initialStatusHistory } from "@/lib/task-lifecycle"
 
 // POST /api/sheets/sync/headers - Get sheet headers for mapping
 export async function PUT(request: NextRequest) {
@@ -56,7 +59,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json()
-    const { spreadsheetId, range, companyId: bodyCompanyId, columnMapping } = body
+    const { spreadsheetId, range, companyId: bodyCompanyId, columnMapping, jobTemplateId } = body
 
     if (!spreadsheetId || !range) {
       return NextResponse.json({ success: false, message: "spreadsheetId and range are required" }, { status: 400 })
@@ -80,6 +83,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, message: "Invalid company" }, { status: 400 })
     }
 
+    // Optional job template for the imported cleaning tasks
+    let templateDefaults: JobTemplateDefaults | null = null
+    let templatePropertyTypes: string | null = null
+    if (jobTemplateId) {
+      templateDefaults = await getJobTemplateDefaults(Number(jobTemplateId), companyId)
+      if (!templateDefaults) {
+        return NextResponse.json({ success: false, message: "Job template not found" }, { status: 404 })
+      }
+      templatePropertyTypes = (await prisma.jobTemplate.findUnique({ where: { id: Number(jobTemplateId) }, select: { propertyTypes: true } }))?.propertyTypes ?? null
+    }
+
     // Fetch data from Google Sheets
     const sheetRows = await fetchSheetData(spreadsheetId, range)
 
@@ -106,6 +120,7 @@ export async function POST(request: NextRequest) {
     let createdCount = 0
     let updatedCount = 0
     let geocodedCount = 0
+    let tasksCreated = 0
 
     for (const property of properties) {
       try {
@@ -168,6 +183,8 @@ export async function POST(request: NextRequest) {
           })
 
           if (propertyRecord) {
+            // Use the template only for the property types it applies to
+            const useTemplate = templateDefaults && appliesToPropertyType({ propertyTypes: templatePropertyTypes }, propertyRecord.propertyType)
             await prisma.task.create({
               data: {
                 companyId,
@@ -175,9 +192,18 @@ export async function POST(request: NextRequest) {
                 title: `Cleaning: ${property.address}`,
                 description: property.notes || null,
                 scheduledDate: new Date(property.cleaningDate),
-                status: "PLANNED",
+                status: TaskStatus.PLANNED,
+                statusHistory: initialStatusHistory(TaskStatus.PLANNED, tokenUser.userId),
+                ...(useTemplate
+                  ? templateTaskData(
+                      templateDefaults!,
+                      { title: `Cleaning: ${property.address}`, description: property.notes || null },
+                      await getPropertyChecklistAttributes(propertyRecord.id)
+                    )
+                  : {}),
               },
             })
+            tasksCreated++
           }
         }
       } catch (error) {
@@ -198,6 +224,7 @@ export async function POST(request: NextRequest) {
         createdProperties: createdCount,
         updatedProperties: updatedCount,
         geocodedAddresses: geocodedCount,
+        tasksCreated,
         errors: errors.length,
         totalProcessed: properties.length,
       },
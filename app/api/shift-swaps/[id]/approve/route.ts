@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { logAudit } from '@/lib/audit';
+import { decideSwapRequest } from '@/lib/shift-swaps';
+import { UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+const APPROVER_ROLES: UserRole[] = [...PLATFORM_ROLES, UserRole.COMPANY_ADMIN, UserRole.MANAGER];
+
+// POST /api/shift-swaps/[id]/approve
+// Manager decision on an accepted swap. Body: { approved: boolean, note? }
+// Approval moves the assignment; validateAssignment warnings are returned but do not block.
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  if (!APPROVER_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+  }
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const swap = await prisma.shiftSwapRequest.findUnique({ where: { id }, select: { companyId: true } });
+    if (!swap) return NextResponse.json({ success: false, message: 'Swap request not found' }, { status: 404 });
+
+    if (!PLATFORM_ROLES.includes(role)) {
+      const companyId = requireCompanyScope(tokenUser);
+      if (!companyId || swap.companyId !== companyId) {
+        return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const body = await request.json();
+    const approved = Boolean(body.approved);
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null;
+
+    const result = await decideSwapRequest(id, tokenUser.userId, approved, note);
+    if (result.error || !result.swap) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 400 });
+    }
+
+    await logAudit({
+      companyId: swap.companyId,
+      userId: tokenUser.userId,
+      action: 'update',
+      entityType: 'shift_swap',
+      entityId: id,
+      oldValues: approved ? { taskId: result.swap.taskId, assignedUserId: result.swap.requesterId } : undefined,
+      newValues: {
+        status: result.swap.status,
+        note,
+        ...(approved ? { assignedUserId: result.swap.acceptedById, warnings: result.warnings?.length || 0 } : {}),
+      },
+    });
+
+    return NextResponse.json({ success: true, data: { swap: result.swap, warnings: result.warnings || [] } });
+  } catch (error) {
+    console.error('Shift swap approval error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
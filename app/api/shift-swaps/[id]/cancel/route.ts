@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/rbac';
+import { logAudit } from '@/lib/audit';
+import { cancelSwapRequest } from '@/lib/shift-swaps';
+
+// POST /api/shift-swaps/[id]/cancel
+// The requester withdraws a request that has not been decided yet
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const result = await cancelSwapRequest(id, tokenUser.userId);
+    if (result.error || !result.swap) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 400 });
+    }
+
+    await logAudit({
+      companyId: result.swap.companyId,
+      userId: tokenUser.userId,
+      action: 'update',
+      entityType: 'shift_swap',
+      entityId: id,
+      newValues: { status: 'cancelled' },
+    });
+
+    return NextResponse.json({ success: true, data: result.swap });
+  } catch (error) {
+    console.error('Shift swap cancel error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/rbac';
+import { logAudit } from '@/lib/audit';
+import { respondToSwapRequest } from '@/lib/shift-swaps';
+
+// POST /api/shift-swaps/[id]/respond
+// The colleague accepts or declines an offer. Body: { accepted: boolean }
+// Accepting returns the assignment warnings the manager will see.
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const body = await request.json();
+    const accepted = body.accepted !== false;
+
+    const result = await respondToSwapRequest(id, tokenUser.userId, accepted);
+    if (result.error || !result.swap) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 400 });
+    }
+
+    await logAudit({
+      companyId: result.swap.companyId,
+      userId: tokenUser.userId,
+      action: 'update',
+      entityType: 'shift_swap',
+      entityId: id,
+      newValues: { response: accepted ? 'accepted' : 'declined', status: result.swap.status },
+    });
+
+    return NextResponse.json({ success: true, data: { swap: result.swap, warnings: result.warnings || [] } });
+  } catch (error) {
+    console.error('Shift swap respond error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { logAudit } from '@/lib/audit';
+import { createSwapRequest, getSwapWarnings } from '@/lib/shift-swaps';
+import { UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+
+const userSelect = { select: { id: true, firstName: true, lastName: true, email: true } };
+
+// GET /api/shift-swaps?status=
+// Cleaners see their own requests, offers made to them and open offers they could take.
+// Managers see the company's requests; accepted ones include validateAssignment warnings.
+export async function GET(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    const where: any = status ? { status } : {};
+
+    if (!PLATFORM_ROLES.includes(role)) {
+      const companyId = requireCompanyScope(tokenUser);
+      if (!companyId) return NextResponse.json({ success: false, message: 'No company scope' }, { status: 403 });
+      where.companyId = companyId;
+    }
+
+    if (role === UserRole.CLEANER) {
+      where.OR = [
+        { requesterId: tokenUser.userId },
+        { targetUserId: tokenUser.userId },
+        { acceptedById: tokenUser.userId },
+        {
+          targetUserId: null,
+          status: 'pending',
+          task: {
+            assignedUserId: { not: tokenUser.userId },
+            taskAssignments: { none: { userId: tokenUser.userId } },
+          },
+        },
+      ];
+    }
+
+    const swaps = await prisma.shiftSwapRequest.findMany({
+      where,
+      include: {
+        task: {
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            scheduledDate: true,
+            estimatedDurationMinutes: true,
+            property: { select: { id: true, address: true } },
+          },
+        },
+        requester: userSelect,
+        targetUser: userSelect,
+        acceptedBy: userSelect,
+        decidedBy: userSelect,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const data = await Promise.all(swaps.map(async swap => ({
+      ...swap,
+      warnings: role !== UserRole.CLEANER && swap.status === 'accepted' && swap.acceptedById
+        ? await getSwapWarnings(swap.taskId, swap.acceptedById)
+        : undefined,
+    })));
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Shift swaps GET error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/shift-swaps
+// Offer one of your tasks. Body: { taskId, targetUserId? (omit to offer to anyone eligible), note? }
+export async function POST(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+
+  try {
+    const body = await request.json();
+    const taskId = Number(body.taskId);
+    if (!Number.isInteger(taskId)) {
+      return NextResponse.json({ success: false, message: 'taskId is required' }, { status: 400 });
+    }
+    const targetUserId = body.targetUserId ? Number(body.targetUserId) : null;
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null;
+
+    const result = await createSwapRequest(taskId, tokenUser.userId, targetUserId, note);
+    if (result.error || !result.swap) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 400 });
+    }
+
+    await logAudit({
+      companyId: result.swap.companyId,
+      userId: tokenUser.userId,
+      action: 'create',
+      entityType: 'shift_swap',
+      entityId: result.swap.id,
+      newValues: { taskId, requesterId: tokenUser.userId, targetUserId, note },
+    });
+
+    return NextResponse.json({ success: true, data: result.swap }, { status: 201 });
+  } catch (error) {
+    console.error('Shift swaps POST error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
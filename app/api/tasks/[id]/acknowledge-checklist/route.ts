@@ -3,6 +3,7 @@ import prisma from "@/lib/prisma"
 import { requireAuth, requireCompanyScope } from "@/lib/rbac"
 import { UserRole, TaskStatus } from "@prisma/client"
 import { logAudit } from "@/lib/audit"
+import { transitionTaskStatus } from "@/lib/task-lifecycle"
 
 // POST /api/tasks/[id]/acknowledge-checklist
 // Cleaner must acknowledge checklist before starting task
@@ -59,12 +60,24 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
     }
 
     // Acknowledge checklist and allow task to start
-    const updatedTask = await prisma.task.update({
+    await prisma.task.update({
+      where: { id: taskId },
+      data: { checklistAcknowledgedAt: new Date() },
+    })
+
+    // Start the task through the lifecycle state machine so the move is recorded in its history
+    // (it stays ASSIGNED while earlier stages of a dependency chain are unfinished)
+    let startBlockedReason: string | undefined
+    if (task.status === TaskStatus.ASSIGNED) {
+      const transition = await transitionTaskStatus(taskId, TaskStatus.IN_PROGRESS, {
+        userId: tokenUser.userId,
+        role: tokenUser.role as UserRole,
+      }, "Checklist acknowledged")
+      if (!transition.allowed) startBlockedReason = transition.reason
+    }
+
+    const updatedTask = await prisma.task.findUnique({
       where: { id: taskId },
-      data: {
-        checklistAcknowledgedAt: new Date(),
-        status: task.status === TaskStatus.ASSIGNED ? TaskStatus.IN_PROGRESS : task.status,
-      },
       include: {
         checklists: true,
         assignedUser: { select: { id: true, firstName: true, lastName: true } },
@@ -79,14 +92,16 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
       entityType: "task",
       entityId: taskId.toString(),
       oldValues: { checklistAcknowledgedAt: null },
-      newValues: { checklistAcknowledgedAt: updatedTask.checklistAcknowledgedAt },
+      newValues: { checklistAcknowledgedAt: updatedTask?.checklistAcknowledgedAt },
     })
 
     return NextResponse.json({ 
       success: true, 
       data: { 
         task: updatedTask,
-        message: "Checklist acknowledged successfully. Task can now be started."
+        message: startBlockedReason
+          ? `Checklist acknowledged. ${startBlockedReason}`
+          : "Checklist acknowledged successfully. Task can now be started."
       } 
     })
   } catch (error) {
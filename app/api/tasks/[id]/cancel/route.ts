@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth, canAccessCompany } from '@/lib/rbac';
+import { logAudit } from '@/lib/audit';
+import { cancelTask, getCancellationPreview } from '@/lib/task-cancellation';
+import { UserRole } from '@prisma/client';
+
+// GET /api/tasks/[id]/cancel
+// Reason codes and the fee/compensation each would apply if the task were cancelled now
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  if (tokenUser.role === UserRole.CLEANER) {
+    return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+  }
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const preview = await getCancellationPreview(id);
+    if (!preview) return NextResponse.json({ success: false, message: 'Task not found' }, { status: 404 });
+    if (!canAccessCompany(tokenUser, preview.task.companyId)) {
+      return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+    }
+
+    return NextResponse.json({ success: true, data: preview });
+  } catch (error) {
+    console.error('Task cancel preview error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/tasks/[id]/cancel
+// Cancel a task with a reason code: { reasonCode, note? }
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const task = await prisma.task.findUnique({ where: { id }, select: { companyId: true, status: true } });
+    if (!task) return NextResponse.json({ success: false, message: 'Task not found' }, { status: 404 });
+    if (!canAccessCompany(tokenUser, task.companyId)) {
+      return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { reasonCode, note } = body as { reasonCode?: string; note?: string };
+    if (!reasonCode) {
+      return NextResponse.json({ success: false, message: 'reasonCode is required' }, { status: 400 });
+    }
+
+    const result = await cancelTask(
+      id,
+      { userId: tokenUser.userId, role: tokenUser.role as UserRole },
+      reasonCode,
+      note?.trim() || null
+    );
+    if (result.error || !result.cancellation) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 400 });
+    }
+
+    await logAudit({
+      companyId: task.companyId,
+      userId: tokenUser.userId,
+      action: 'update',
+      entityType: 'task_cancellation',
+      entityId: id,
+      oldValues: { status: task.status },
+      newValues: {
+        status: 'CANCELLED',
+        reasonCode: result.cancellation.reasonCode,
+        noticeHours: result.cancellation.noticeHours,
+        fee: Number(result.cancellation.fee),
+        compensationMinutes: result.cancellation.compensationMinutes,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: result.cancellation, message: 'Task cancelled' });
+  } catch (error) {
+    console.error('Task cancel error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
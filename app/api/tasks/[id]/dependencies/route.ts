@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { checkDependencies, getDependencyChain, setTaskDependencies } from '@/lib/task-dependencies';
+import { resolveTaskDuration, validateDependencies } from '@/lib/rota-conflicts';
+import { UserRole } from '@prisma/client';
+
+// GET /api/tasks/[id]/dependencies
+// The dependency chain (predecessors, successors and every connected stage in order)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const task = await prisma.task.findUnique({ where: { id }, select: { id: true, companyId: true } });
+    if (!task) return NextResponse.json({ success: false, message: 'Task not found' }, { status: 404 });
+
+    if (!(role === UserRole.OWNER || role === UserRole.DEVELOPER)) {
+      const companyId = requireCompanyScope(tokenUser);
+      if (!companyId || task.companyId !== companyId) {
+        return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const dependencies = await getDependencyChain(id);
+    return NextResponse.json({ success: true, data: dependencies });
+  } catch (error) {
+    console.error('Task dependencies GET error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/tasks/[id]/dependencies
+// Replace the task's predecessors. Body: { dependsOnTaskIds: number[] }
+// Returns the updated chain plus any scheduling-order warnings.
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const task = await prisma.task.findUnique({ where: { id } });
+    if (!task) return NextResponse.json({ success: false, message: 'Task not found' }, { status: 404 });
+
+    if (!(role === UserRole.OWNER || role === UserRole.DEVELOPER)) {
+      const companyId = requireCompanyScope(tokenUser);
+      if (!companyId || task.companyId !== companyId) {
+        return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+      }
+      if (role === UserRole.CLEANER) {
+        return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 });
+      }
+    }
+
+    const body = await request.json();
+    if (!Array.isArray(body.dependsOnTaskIds)) {
+      return NextResponse.json({ success: false, message: 'dependsOnTaskIds must be an array' }, { status: 400 });
+    }
+    const dependsOnTaskIds = Array.from(new Set<number>(body.dependsOnTaskIds.map(Number).filter(Number.isInteger)));
+
+    const error = await checkDependencies(id, task.companyId, dependsOnTaskIds);
+    if (error) return NextResponse.json({ success: false, message: error }, { status: 400 });
+
+    await setTaskDependencies(id, dependsOnTaskIds);
+
+    const [dependencies, warnings] = await Promise.all([
+      getDependencyChain(id),
+      task.scheduledDate
+        ? validateDependencies(id, task.scheduledDate, await resolveTaskDuration(task.propertyId, task.estimatedDurationMinutes))
+        : [],
+    ]);
+
+    return NextResponse.json({ success: true, data: { ...dependencies, warnings } });
+  } catch (error) {
+    console.error('Task dependencies PUT error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
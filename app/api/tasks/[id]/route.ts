@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth, requireCompanyScope } from '@/lib/rbac';
-import { TaskStatus, UserRole } from '@prisma/client';
+import { transitionTaskStatus, updateTaskAssignment } from '@/lib/task-lifecycle';
+import { buildRecurrenceData, getTaskRRule } from '@/lib/recurrence';
+import { getCompanyTimezone } from '@/lib/timezone';
+import { shiftDeadline } from '@/lib/sla';
+import { deleteSeries, isOccurrenceEditable, parseSeriesScope, SeriesChangeResult, updateSeries } from '@/lib/recurring-series';
+import { logAudit } from '@/lib/audit';
+import { getDependencyChain } from '@/lib/task-dependencies';
+import { Prisma, TaskStatus, UserRole } from '@prisma/client';
 
 // GET /api/tasks/[id]
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
@@ -25,11 +32,17 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
         propertyId: true,
         assignedUserId: true,
         scheduledDate: true,
+        dueBy: true,
         startedAt: true,
+        submittedAt: true,
         completedAt: true,
         createdAt: true,
         updatedAt: true,
         budget: true,
+        slaBreaches: {
+          where: { resolvedAt: null },
+          select: { kind: true, detectedAt: true, escalationLevel: true },
+        },
         taskAssignments: {
           select: {
             user: {
@@ -75,11 +88,49 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
           select: {
             id: true,
             title: true,
+            itemType: true,
+            isRequired: true,
+            unit: true,
             isCompleted: true,
+            answerBoolean: true,
+            answerNumber: true,
+            answerText: true,
+            comment: true,
+            completedAt: true,
             order: true,
+            photos: { select: { id: true, url: true, caption: true } },
           },
           orderBy: { order: 'asc' },
         },
+        // Which procedure (template version) the checklist came from
+        checklistTemplateVersion: {
+          select: {
+            id: true,
+            version: true,
+            changeNote: true,
+            createdAt: true,
+            template: { select: { id: true, name: true } },
+          },
+        },
+        statusHistory: {
+          select: {
+            id: true,
+            fromStatus: true,
+            toStatus: true,
+            reason: true,
+            createdAt: true,
+            changedBy: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+                role: true,
+              },
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+        },
       },
     });
     if (!task) return NextResponse.json({ success: false, message: 'Task not found' }, { status: 404 });
@@ -99,14 +150,82 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
       }
     }
 
-    return NextResponse.json({ success: true, data: { task } });
+    const dependencies = await getDependencyChain(id);
+
+    return NextResponse.json({ success: true, data: { task: { ...task, dependencies } } });
   } catch (error) {
     console.error('Task GET error:', error);
     return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
   }
 }
 
+// Fields returned after an update
+const updatedTaskSelect = {
+  id: true,
+  title: true,
+  description: true,
+  status: true,
+  companyId: true,
+  propertyId: true,
+  assignedUserId: true,
+  scheduledDate: true,
+  dueBy: true,
+  createdAt: true,
+  updatedAt: true,
+  taskAssignments: {
+    select: {
+      user: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+        },
+      },
+    },
+  },
+  photos: {
+    select: {
+      id: true,
+      url: true,
+      photoType: true,
+      caption: true,
+      takenAt: true,
+      createdAt: true,
+    },
+    orderBy: { takenAt: 'asc' },
+  },
+  property: {
+    select: {
+      id: true,
+      address: true,
+      postcode: true,
+      latitude: true,
+      longitude: true,
+      propertyType: true,
+    },
+  },
+  assignedUser: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+  checklists: {
+    select: {
+      id: true,
+      title: true,
+      isCompleted: true,
+      order: true,
+    },
+    orderBy: { order: 'asc' },
+  },
+} satisfies Prisma.TaskSelect;
+
 // PATCH /api/tasks/[id]
+// Optional body.scope ("this" | "following" | "all") applies field changes across a recurring series
 export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
   const auth = requireAuth(request);
   if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
@@ -132,24 +251,32 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
     }
 
     const body = await request.json();
-    const data: any = {};
-    const { title, description, assignedUserId, assignedUserIds, scheduledDate, status } = body;
+    const data: Prisma.TaskUncheckedUpdateManyInput = {};
+    const { title, description, assignedUserId, assignedUserIds, scheduledDate, status, reason } = body;
+
+    // Recurring series scope: "this" (default), "following" or "all" occurrences
+    const scope = parseSeriesScope(body.scope);
+    if (!scope) {
+      return NextResponse.json({ success: false, message: 'scope must be one of this, following, all' }, { status: 400 });
+    }
+    if (scope !== 'this' && !task.parentTaskId && !task.isRecurring) {
+      return NextResponse.json({ success: false, message: 'Task is not part of a recurring series' }, { status: 400 });
+    }
+
     if (title !== undefined) data.title = title;
     if (description !== undefined) data.description = description;
 
-    // Handle cleaner assignment (support both single and multiple)
-    let cleanerIdsToNotify: number[] = [];
+    // Handle cleaner assignment (support both single and multiple); the first cleaner is the
+    // primary assignedUserId (for backward compatibility)
+    let assigneeIds: number[] | undefined;
     if (assignedUserIds !== undefined && Array.isArray(assignedUserIds)) {
-      // Multiple cleaner assignments
-      cleanerIdsToNotify = assignedUserIds.map(id => Number(id));
-      // Use first cleaner as primary assignedUserId (for backward compatibility)
-      data.assignedUserId = cleanerIdsToNotify.length > 0 ? cleanerIdsToNotify[0] : null;
+      assigneeIds = assignedUserIds.map(id => Number(id));
 
       // Validate assigned cleaners if provided
       const companyId = task.companyId;
       const users = await prisma.user.findMany({
         where: {
-          id: { in: cleanerIdsToNotify },
+          id: { in: assigneeIds },
           OR: [
             { companyId },
             { role: { in: [UserRole.OWNER, UserRole.DEVELOPER] } },
@@ -158,114 +285,185 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
         select: { id: true, role: true },
       });
 
-      if (users.length !== cleanerIdsToNotify.length) {
+      if (users.length !== assigneeIds.length) {
         return NextResponse.json({ success: false, message: 'One or more assigned cleaners not found or not in company' }, { status: 400 });
       }
-
-      // Update TaskAssignment records - delete all existing and create new ones
-      data.taskAssignments = {
-        deleteMany: {}, // Delete all existing assignments
-        create: cleanerIdsToNotify.map(userId => ({
-          userId,
-        })),
-      };
     } else if (assignedUserId !== undefined) {
       // Single cleaner assignment (backward compatibility)
-      data.assignedUserId = assignedUserId ? Number(assignedUserId) : null;
-      cleanerIdsToNotify = assignedUserId ? [Number(assignedUserId)] : [];
-
-      // Update TaskAssignment records
-      if (assignedUserId) {
-        data.taskAssignments = {
-          deleteMany: {},
-          create: [{ userId: Number(assignedUserId) }],
-        };
-      } else {
-        data.taskAssignments = {
-          deleteMany: {},
-        };
-      }
+      assigneeIds = assignedUserId ? [Number(assignedUserId)] : [];
     }
 
     if (scheduledDate !== undefined) data.scheduledDate = scheduledDate ? new Date(scheduledDate) : null;
-    if (status !== undefined && Object.values(TaskStatus).includes(status)) data.status = status;
 
-    const updated = await prisma.task.update({
-      where: { id },
-      data,
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        status: true,
-        companyId: true,
-        propertyId: true,
-        assignedUserId: true,
-        scheduledDate: true,
-        createdAt: true,
-        updatedAt: true,
-        taskAssignments: {
-          select: {
-            user: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                email: true,
-              },
-            },
-          },
-        },
-        photos: {
-          select: {
-            id: true,
-            url: true,
-            photoType: true,
-            caption: true,
-            takenAt: true,
-            createdAt: true,
-          },
-          orderBy: { takenAt: 'asc' },
-        },
-        property: {
-          select: {
-            id: true,
-            address: true,
-            postcode: true,
-            latitude: true,
-            longitude: true,
-            propertyType: true,
-          },
-        },
-        assignedUser: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-        checklists: {
-          select: {
-            id: true,
-            title: true,
-            isCompleted: true,
-            order: true,
+    // SLA deadline is per occurrence and moves with the start unless a new one is given (series moves shift it too)
+    if (body.dueBy !== undefined) {
+      if (scope !== 'this') {
+        return NextResponse.json({ success: false, message: 'dueBy can only be set on a single occurrence' }, { status: 400 });
+      }
+      const dueBy = body.dueBy ? new Date(body.dueBy) : null;
+      if (dueBy && Number.isNaN(dueBy.getTime())) {
+        return NextResponse.json({ success: false, message: 'dueBy must be a valid date' }, { status: 400 });
+      }
+      data.dueBy = dueBy;
+    } else if (scope === 'this' && data.scheduledDate instanceof Date) {
+      data.dueBy = shiftDeadline(task, data.scheduledDate);
+    }
+
+    // Recurring series settings (only applied to fields present in the body)
+    const { isRecurring, recurrenceRule, recurringPattern, recurrenceExdates, recurrenceOverrides } = body;
+    if ([isRecurring, recurrenceRule, recurringPattern, recurrenceExdates, recurrenceOverrides].some(v => v !== undefined)) {
+      if (scope !== 'this') {
+        return NextResponse.json({ success: false, message: 'Recurrence settings cannot be combined with a series scope' }, { status: 400 });
+      }
+      if (task.parentTaskId) {
+        return NextResponse.json({ success: false, message: 'Recurrence can only be changed on the series parent task' }, { status: 400 });
+      }
+      // Keep the existing rule when re-enabling recurrence without sending a new one
+      const keepRule = isRecurring && recurrenceRule === undefined && recurringPattern === undefined;
+      try {
+        Object.assign(data, buildRecurrenceData(
+          {
+            isRecurring,
+            recurrenceRule: keepRule ? getTaskRRule(task) : recurrenceRule,
+            recurringPattern,
+            recurrenceExdates,
+            recurrenceOverrides,
           },
-          orderBy: { order: 'asc' },
-        },
-      },
-    });
+          await getCompanyTimezone(task.companyId)
+        ));
+      } catch (error: any) {
+        return NextResponse.json({ success: false, message: error.message }, { status: 400 });
+      }
+    }
+
+    // Status changes go through the lifecycle state machine (guards + history), one occurrence at a time
+    const statusChange = status !== undefined && Object.values(TaskStatus).includes(status) && status !== task.status;
+    if (statusChange && scope !== 'this') {
+      return NextResponse.json({ success: false, message: 'status can only be changed on a single occurrence' }, { status: 400 });
+    }
+
+    // Series edits rewrite the parent and later/all editable occurrences; start moves shift every occurrence
+    let series: SeriesChangeResult | null = null;
+    if (scope !== 'this') {
+      const { scheduledDate: _moved, ...seriesData } = data;
+      const shiftMs = scheduledDate && task.scheduledDate
+        ? new Date(scheduledDate).getTime() - task.scheduledDate.getTime()
+        : 0;
+      series = await updateSeries(task, scope, seriesData, shiftMs, tokenUser.userId, assigneeIds);
+    }
+
+    // The status change, assignment and field changes apply together or not at all
+    const outcome = scope !== 'this'
+      ? { task: await prisma.task.findUniqueOrThrow({ where: { id }, select: updatedTaskSelect }) }
+      : await prisma.$transaction(async tx => {
+        let currentStatus = task.status;
+        if (statusChange) {
+          const transition = await transitionTaskStatus(id, status, { userId: tokenUser.userId, role }, reason, tx);
+          if (!transition.allowed || !transition.task) {
+            return { error: transition.reason, httpStatus: transition.httpStatus || 400 };
+          }
+          currentStatus = transition.task.status;
+        }
+
+        if (assigneeIds) {
+          const assigned = await updateTaskAssignment(
+            tx,
+            { id, status: currentStatus },
+            assigneeIds.length > 0,
+            { ...data, assignedUserId: assigneeIds[0] ?? null },
+            tokenUser.userId
+          );
+          if (!assigned) {
+            return { error: 'Task was changed by someone else; reload and try again', httpStatus: 409 };
+          }
+          await tx.taskAssignment.deleteMany({ where: { taskId: id } });
+          if (assigneeIds.length > 0) {
+            await tx.taskAssignment.createMany({ data: assigneeIds.map(userId => ({ taskId: id, userId })) });
+          }
+        } else if (Object.keys(data).length > 0) {
+          await tx.task.update({ where: { id }, data });
+        }
+
+        return { task: await tx.task.findUniqueOrThrow({ where: { id }, select: updatedTaskSelect }) };
+      });
+
+    if ('error' in outcome) {
+      return NextResponse.json({ success: false, message: outcome.error }, { status: outcome.httpStatus });
+    }
+    const updated = outcome.task;
 
     // Send notifications if cleaner assignment changed
-    if (cleanerIdsToNotify.length > 0 && (assignedUserId !== undefined || assignedUserIds !== undefined)) {
+    if (assigneeIds && assigneeIds.length > 0) {
       const { sendTaskUpdatedNotification } = await import('@/lib/notifications');
-      await sendTaskUpdatedNotification(updated.id, cleanerIdsToNotify, 'assignment');
+      await sendTaskUpdatedNotification(updated.id, assigneeIds, 'assignment');
     }
 
-    return NextResponse.json({ success: true, data: { task: updated } });
+    return NextResponse.json({ success: true, data: { task: updated, series } });
   } catch (error) {
     console.error('Task PATCH error:', error);
     return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
   }
 }
+
+// DELETE /api/tasks/[id]?scope=this|following|all
+// Delete a task or part of its recurring series. Series parents default to "all".
+// Tasks that have started or finished are never deleted (archive them instead).
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const task = await prisma.task.findUnique({ where: { id } });
+    if (!task) return NextResponse.json({ success: false, message: 'Task not found' }, { status: 404 });
+
+    if (!(role === UserRole.OWNER || role === UserRole.DEVELOPER)) {
+      const companyId = requireCompanyScope(tokenUser);
+      if (!companyId || task.companyId !== companyId) {
+        return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+      }
+      if (role === UserRole.CLEANER) {
+        return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 });
+      }
+    }
+
+    const isSeriesParent = task.isRecurring && !task.parentTaskId;
+    const scope = parseSeriesScope(new URL(request.url).searchParams.get('scope'), isSeriesParent ? 'all' : 'this');
+    if (!scope) {
+      return NextResponse.json({ success: false, message: 'scope must be one of this, following, all' }, { status: 400 });
+    }
+    if (scope === 'this' && isSeriesParent) {
+      return NextResponse.json({ success: false, message: 'Use scope=all to delete a whole series' }, { status: 400 });
+    }
+    if (scope !== 'this' && !task.parentTaskId && !isSeriesParent) {
+      return NextResponse.json({ success: false, message: 'Task is not part of a recurring series' }, { status: 400 });
+    }
+    if (scope === 'this' && !isOccurrenceEditable(task.status)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Tasks that have started or finished cannot be deleted; archive them instead',
+      }, { status: 409 });
+    }
+
+    const result = await deleteSeries(task, scope);
+
+    await logAudit({
+      companyId: task.companyId,
+      userId: tokenUser.userId,
+      action: 'delete',
+      entityType: 'task',
+      entityId: task.id,
+      oldValues: { title: task.title, status: task.status, parentTaskId: task.parentTaskId },
+      newValues: { scope, deletedTaskIds: result.deletedTaskIds, protectedTaskIds: result.protectedTaskIds },
+    });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Task DELETE error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { getAllowedTransitions, transitionTaskStatus } from '@/lib/task-lifecycle';
 import { TaskStatus, UserRole } from '@prisma/client';
 
 // PATCH /api/tasks/[id]/status
@@ -47,45 +48,22 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
     }
 
     const body = await request.json();
-    const { status } = body as { status?: TaskStatus };
+    const { status, reason } = body as { status?: TaskStatus; reason?: string };
     if (!status || !Object.values(TaskStatus).includes(status)) {
       return NextResponse.json({ success: false, message: 'Invalid status' }, { status: 400 });
     }
 
-    // Cleaners allowed transitions: ASSIGNED->IN_PROGRESS->SUBMITTED
-    if (role === UserRole.CLEANER) {
-      const allowed = new Set<TaskStatus>([TaskStatus.IN_PROGRESS, TaskStatus.SUBMITTED]);
-      if (!allowed.has(status)) {
-        return NextResponse.json({ success: false, message: 'Insufficient permissions for this transition' }, { status: 403 });
-      }
-      
-      // Require checklist acknowledgment before starting task
-      if (status === TaskStatus.IN_PROGRESS && !task.checklistAcknowledgedAt) {
-        return NextResponse.json({ 
-          success: false, 
-          message: 'Checklist must be acknowledged before starting task. Please acknowledge the checklist first.' 
-        }, { status: 400 });
-      }
+    // Transition table, role rules and guards live in lib/task-lifecycle
+    const result = await transitionTaskStatus(id, status, { userId: tokenUser.userId, role }, reason);
+    if (!result.allowed) {
+      return NextResponse.json({
+        success: false,
+        message: result.reason,
+        data: { allowedTransitions: getAllowedTransitions(task.status, role) },
+      }, { status: result.httpStatus || 400 });
     }
 
-    const data: any = { status };
-    if (status === TaskStatus.IN_PROGRESS && !task.startedAt) data.startedAt = new Date();
-    if ((status === TaskStatus.APPROVED || status === TaskStatus.ARCHIVED) && !task.completedAt) data.completedAt = new Date();
-
-    const updated = await prisma.task.update({
-      where: { id },
-      data,
-      select: {
-        id: true,
-        title: true,
-        status: true,
-        startedAt: true,
-        completedAt: true,
-        updatedAt: true,
-      },
-    });
-
-    return NextResponse.json({ success: true, data: { task: updated } });
+    return NextResponse.json({ success: true, data: { task: result.task } });
   } catch (error) {
     console.error('Task status PATCH error:', error);
     return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { CLOCK_ACTIONS, ClockAction, recordClockAction, workedMinutes } from '@/lib/time-entries';
+import { UserRole } from '@prisma/client';
+
+// GET /api/tasks/[id]/time-entries
+// Time entries on a task with worked minutes. Cleaners only see their own entries.
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const task = await prisma.task.findUnique({ where: { id }, select: { id: true, companyId: true } });
+    if (!task) return NextResponse.json({ success: false, message: 'Task not found' }, { status: 404 });
+
+    if (!(role === UserRole.OWNER || role === UserRole.DEVELOPER)) {
+      const companyId = requireCompanyScope(tokenUser);
+      if (!companyId || task.companyId !== companyId) {
+        return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const entries = await prisma.timeEntry.findMany({
+      where: { taskId: id, ...(role === UserRole.CLEANER ? { userId: tokenUser.userId } : {}) },
+      include: {
+        user: { select: { id: true, firstName: true, lastName: true } },
+        correctedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { clockInAt: 'asc' },
+    });
+
+    const now = new Date();
+    return NextResponse.json({
+      success: true,
+      data: entries.map(entry => ({ ...entry, workedMinutes: workedMinutes(entry, now) })),
+    });
+  } catch (error) {
+    console.error('Task time entries GET error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/tasks/[id]/time-entries
+// Clock the current user in or out of the task, or start/end a break.
+// Body: { action: 'clock_in' | 'clock_out' | 'start_break' | 'end_break', latitude?, longitude? }
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const body = await request.json();
+    if (!CLOCK_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { success: false, message: `action must be one of ${CLOCK_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordClockAction(id, tokenUser.userId, body.action as ClockAction, {
+      latitude: body.latitude ?? undefined,
+      longitude: body.longitude ?? undefined,
+    });
+    if (result.error) {
+      return NextResponse.json({ success: false, message: result.error }, { status: result.httpStatus || 400 });
+    }
+
+    const entry = result.entry!;
+    const withinGeofence = body.action === 'clock_out' ? entry.clockOutWithinGeofence : entry.clockInWithinGeofence;
+    return NextResponse.json({
+      success: true,
+      data: { ...entry, workedMinutes: workedMinutes(entry) },
+      message: withinGeofence === false ? 'Recorded outside the property geofence' : undefined,
+    });
+  } catch (error) {
+    console.error('Task time entries POST error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
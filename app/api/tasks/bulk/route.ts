@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { MAX_BULK_TASKS, parseBulkOperation, runBulkOperation } from '@/lib/task-bulk';
+import { logAudit } from '@/lib/audit';
+import { UserRole } from '@prisma/client';
+
+// POST /api/tasks/bulk
+// Apply one operation to many tasks. Body: { taskIds, operation, ...operation params }
+//   assign:                   { userIds, replace? (default true) }
+//   unassign:                 { userIds? } (omit to remove everyone)
+//   shift_date:               { days?, minutes? }
+//   change_status:            { status, reason? }
+//   apply_checklist_template: { templateId, replace? }
+// Returns per-task results with rota conflict warnings.
+export async function POST(request: NextRequest) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  const allowedRoles: UserRole[] = [UserRole.OWNER, UserRole.DEVELOPER, UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.MANAGER];
+  if (!allowedRoles.includes(role)) {
+    return NextResponse.json({ success: false, message: 'Not authorized' }, { status: 403 });
+  }
+
+  let companyId: number | null = null;
+  if (!(role === UserRole.OWNER || role === UserRole.DEVELOPER || role === UserRole.SUPER_ADMIN)) {
+    companyId = requireCompanyScope(tokenUser);
+    if (!companyId) return NextResponse.json({ success: false, message: 'No company scope' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const taskIds: number[] = Array.isArray(body.taskIds)
+      ? Array.from(new Set<number>(body.taskIds.map(Number).filter(Number.isInteger)))
+      : [];
+
+    if (taskIds.length === 0) {
+      return NextResponse.json({ success: false, message: 'taskIds are required' }, { status: 400 });
+    }
+    if (taskIds.length > MAX_BULK_TASKS) {
+      return NextResponse.json({ success: false, message: `At most ${MAX_BULK_TASKS} tasks can be updated at once` }, { status: 400 });
+    }
+
+    const { operation, error } = parseBulkOperation(body);
+    if (!operation) {
+      return NextResponse.json({ success: false, message: error }, { status: 400 });
+    }
+
+    const result = await runBulkOperation(taskIds, operation, { userId: tokenUser.userId, role, companyId });
+
+    const auditCompanyId = companyId ?? tokenUser.companyId;
+    if (result.succeeded > 0 && auditCompanyId) {
+      await logAudit({
+        companyId: auditCompanyId,
+        userId: tokenUser.userId,
+        action: 'update',
+        entityType: 'task',
+        entityId: 'bulk',
+        newValues: {
+          operation,
+          taskIds: result.results.filter(r => r.success).map(r => r.taskId),
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Tasks bulk POST error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
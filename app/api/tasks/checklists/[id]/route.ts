@@ -1,8 +1,15 @@
 import { type NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requireAuth } from "@/lib/rbac"
+import { evaluateChecklistAnswer } from "@/lib/checklist-items"
 
-// PATCH /api/tasks/checklists/[id] - Mark checklist as complete
+// PATCH /api/tasks/checklists/[id] - Answer a checklist item
+// Body depends on the item type:
+//   tick:    { isCompleted }
+//   photo:   { photoIds } links photos of the same task as evidence
+//   yes_no:  { answerBoolean, comment } (comment required for "no")
+//   numeric: { answerNumber }
+//   text:    { answerText }
 export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const auth = requireAuth(request)
   if (!auth) return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
@@ -10,11 +17,36 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
   try {
     const { id } = await params
     const body = await request.json()
-    const { isCompleted } = body
 
-    const checklist = await prisma.checklistItem.update({
+    const item = await prisma.checklistItem.findUnique({
       where: { id: Number(id) },
-      data: { isCompleted: Boolean(isCompleted) },
+      select: { id: true, taskId: true, itemType: true },
+    })
+
+    if (!item) {
+      return NextResponse.json({ success: false, message: "Checklist item not found" }, { status: 404 })
+    }
+
+    // Link evidence photos (only photos uploaded to the same task)
+    if (Array.isArray(body.photoIds)) {
+      const photoIds = body.photoIds.map(Number).filter(Number.isInteger)
+      const photos = await prisma.photo.count({ where: { id: { in: photoIds }, taskId: item.taskId } })
+      if (photos !== photoIds.length) {
+        return NextResponse.json({ success: false, message: "Photos must belong to the same task" }, { status: 400 })
+      }
+      await prisma.photo.updateMany({ where: { id: { in: photoIds } }, data: { checklistItemId: item.id } })
+    }
+
+    const photoCount = await prisma.photo.count({ where: { checklistItemId: item.id } })
+    const { data, error } = evaluateChecklistAnswer(item.itemType, body, photoCount)
+    if (!data) {
+      return NextResponse.json({ success: false, message: error }, { status: 400 })
+    }
+
+    const checklist = await prisma.checklistItem.update({
+      where: { id: item.id },
+      data,
+      include: { photos: { select: { id: true, url: true, caption: true } } },
     })
 
     return NextResponse.json({ success: true, data: { checklist } })
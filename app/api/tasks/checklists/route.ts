@@ -1,24 +1,33 @@
 import { type NextRequest, NextResponse } from "next/server"
 import prisma from "@/lib/prisma"
 import { requireAuth } from "@/lib/rbac"
+import { CHECKLIST_ITEM_TYPES, isChecklistItemType } from "@/lib/checklist-items"
 
 // POST /api/tasks/checklists - Add checklist item
+// Body: { taskId, title, order?, itemType? ("tick" | "photo" | "yes_no" | "numeric" | "text"), unit?, isRequired? }
 export async function POST(request: NextRequest) {
   const auth = requireAuth(request)
   if (!auth) return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
 
   try {
     const body = await request.json()
-    const { taskId, title, order = 0 } = body
+    const { taskId, title, order = 0, itemType = "tick", unit, isRequired } = body
 
     if (!taskId || !title) {
       return NextResponse.json({ success: false, message: "taskId and title are required" }, { status: 400 })
     }
 
+    if (!isChecklistItemType(itemType)) {
+      return NextResponse.json({ success: false, message: `itemType must be one of ${CHECKLIST_ITEM_TYPES.join(", ")}` }, { status: 400 })
+    }
+
     const checklist = await prisma.checklistItem.create({
       data: {
         taskId: Number(taskId),
         title,
+        itemType,
+        unit: itemType === "numeric" && unit ? String(unit) : null,
+        isRequired: isRequired !== false,
         order: Number(order),
       },
     })
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requireAuth, requireCompanyScope } from '@/lib/rbac';
 import { requireActiveSubscription } from '@/lib/subscription';
+import { buildRecurrenceData } from '@/lib/recurrence';
+import { getCompanyTimezone } from '@/lib/timezone';
+import { checkDependencies, setTaskDependencies } from '@/lib/task-dependencies';
+import { getJobTemplateDefaults, JobTemplateDefaults, templateTaskData } from '@/lib/job-templates';
+import { getPropertyChecklistAttributes } from '@/lib/checklist-templates';
+import { initialStatusHistory, INITIAL_TASK_STATUSES } from '@/lib/task-lifecycle';
 import { TaskStatus, UserRole } from '@prisma/client';
 
 // GET /api/tasks
@@ -27,6 +33,7 @@ export async function GET(request: NextRequest) {
   const from = searchParams.get('from');
   const to = searchParams.get('to');
   const companyIdParam = searchParams.get('companyId');
+  const recurringOnly = searchParams.get('isRecurring') === 'true';
 
   const where: any = {};
   if (status && Object.values(TaskStatus).includes(status)) where.status = status;
@@ -35,6 +42,11 @@ export async function GET(request: NextRequest) {
     if (from) where.scheduledDate.gte = new Date(from);
     if (to) where.scheduledDate.lte = new Date(to);
   }
+  // Recurring series parents, with their generated occurrences
+  if (recurringOnly) {
+    where.isRecurring = true;
+    where.parentTaskId = null;
+  }
 
   try {
     if (role === UserRole.OWNER || role === UserRole.DEVELOPER || role === UserRole.SUPER_ADMIN) {
@@ -107,6 +119,25 @@ export async function GET(request: NextRequest) {
           },
           orderBy: { order: 'asc' },
         },
+        // Photo and open-issue counts for board cards
+        _count: {
+          select: {
+            photos: true,
+            notes: { where: { noteType: 'issue', status: { not: 'RESOLVED' } } },
+          },
+        },
+        ...(recurringOnly && {
+          childTasks: {
+            select: {
+              id: true,
+              title: true,
+              scheduledDate: true,
+              occurrenceDate: true,
+              status: true,
+            },
+            orderBy: { scheduledDate: 'asc' as const },
+          },
+        }),
       },
     });
 
@@ -128,9 +159,15 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { title, description, companyId: bodyCompanyId, propertyId, assignedUserId, assignedUserIds, scheduledDate, status, budget } = body;
+    const { isRecurring, recurrenceRule, recurringPattern, recurrenceExdates, recurrenceOverrides } = body;
+    const dependsOnTaskIds: number[] = Array.isArray(body.dependsOnTaskIds)
+      ? Array.from(new Set<number>(body.dependsOnTaskIds.map(Number).filter(Number.isInteger)))
+      : [];
+
+    const jobTemplateId = body.jobTemplateId ? Number(body.jobTemplateId) : null;
 
-    if (!title || !propertyId) {
-      return NextResponse.json({ success: false, message: 'Title and propertyId are required' }, { status: 400 });
+    if ((!title && !jobTemplateId) || !propertyId) {
+      return NextResponse.json({ success: false, message: 'Title (or jobTemplateId) and propertyId are required' }, { status: 400 });
     }
 
     // Support both single assignedUserId and array of assignedUserIds for multiple cleaner assignments
@@ -191,6 +228,33 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Predecessor stages (e.g. strip linen before clean) must be tasks in the same company
+    const dependencyError = await checkDependencies(null, companyId!, dependsOnTaskIds);
+    if (dependencyError) {
+      return NextResponse.json({ success: false, message: dependencyError }, { status: 400 });
+    }
+
+    // Job template defaults (checklist, duration, budget, skills, photo requirement) are copied onto the task
+    let templateDefaults: JobTemplateDefaults | null = null;
+    if (jobTemplateId) {
+      templateDefaults = await getJobTemplateDefaults(jobTemplateId, companyId!);
+      if (!templateDefaults) {
+        return NextResponse.json({ success: false, message: 'Job template not found' }, { status: 404 });
+      }
+    }
+
+    // New tasks start before the work does; later statuses go through the lifecycle
+    const initialStatus: TaskStatus = status || TaskStatus.DRAFT;
+    if (!INITIAL_TASK_STATUSES.includes(initialStatus)) {
+      return NextResponse.json(
+        { success: false, message: `Tasks can only be created as ${INITIAL_TASK_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (initialStatus === TaskStatus.ASSIGNED && cleanerIds.length === 0) {
+      return NextResponse.json({ success: false, message: 'ASSIGNED tasks need at least one cleaner' }, { status: 400 });
+    }
+
     // Use first cleaner ID for assignedUserId (for backward compatibility)
     const primaryAssignedUserId = cleanerIds.length > 0 ? Number(cleanerIds[0]) : undefined;
 
@@ -201,7 +265,8 @@ export async function POST(request: NextRequest) {
       propertyId: Number(propertyId),
       assignedUserId: primaryAssignedUserId,
       scheduledDate: scheduledDate ? new Date(scheduledDate) : undefined,
-      status: status && Object.values(TaskStatus).includes(status) ? status : TaskStatus.DRAFT,
+      status: initialStatus,
+      statusHistory: initialStatusHistory(initialStatus, tokenUser.userId),
     };
 
     // Add budget if provided
@@ -209,6 +274,40 @@ export async function POST(request: NextRequest) {
       taskData.budget = Number(budget);
     }
 
+    if (body.estimatedDurationMinutes) {
+      taskData.estimatedDurationMinutes = Number(body.estimatedDurationMinutes);
+    }
+
+    // SLA deadline (must be submitted by), e.g. the next guest check-in
+    if (body.dueBy) {
+      const dueBy = new Date(body.dueBy);
+      if (Number.isNaN(dueBy.getTime())) {
+        return NextResponse.json({ success: false, message: 'dueBy must be a valid date' }, { status: 400 });
+      }
+      if (taskData.scheduledDate && dueBy <= taskData.scheduledDate) {
+        return NextResponse.json({ success: false, message: 'dueBy must be after the scheduled start' }, { status: 400 });
+      }
+      taskData.dueBy = dueBy;
+    }
+
+    if (templateDefaults) {
+      // Conditional checklist items are filtered for the property
+      const propertyAttributes = await getPropertyChecklistAttributes(Number(propertyId));
+      Object.assign(taskData, templateTaskData(templateDefaults, taskData, propertyAttributes));
+    }
+
+    // Recurring series: RRULE (or legacy pattern), EXDATE skips and per-occurrence overrides
+    if (isRecurring) {
+      try {
+        Object.assign(taskData, buildRecurrenceData(
+          { isRecurring, recurrenceRule, recurringPattern, recurrenceExdates, recurrenceOverrides },
+          await getCompanyTimezone(companyId!)
+        ));
+      } catch (error: any) {
+        return NextResponse.json({ success: false, message: error.message }, { status: 400 });
+      }
+    }
+
     // Create TaskAssignment records for all assigned cleaners
     if (cleanerIds.length > 0) {
       taskData.taskAssignments = {
@@ -222,6 +321,10 @@ export async function POST(request: NextRequest) {
       data: taskData,
     });
 
+    if (dependsOnTaskIds.length > 0) {
+      await setTaskDependencies(task.id, dependsOnTaskIds);
+    }
+
     // Send notifications to all assigned cleaners
     if (cleanerIds.length > 0) {
       const { sendTaskAssignmentNotifications } = await import('@/lib/notifications');
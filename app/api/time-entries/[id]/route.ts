@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireAuth, requireCompanyScope } from '@/lib/rbac';
+import { logAudit } from '@/lib/audit';
+import { parseTimeEntryCorrection, workedMinutes } from '@/lib/time-entries';
+import { UserRole } from '@prisma/client';
+
+const PLATFORM_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, UserRole.OWNER, UserRole.DEVELOPER];
+const CORRECTOR_ROLES: UserRole[] = [...PLATFORM_ROLES, UserRole.COMPANY_ADMIN, UserRole.MANAGER];
+
+// PATCH /api/time-entries/[id]
+// Manager correction of a time entry. Body: { clockInAt?, clockOutAt?, breakMinutes?, reason }
+// The entry is stamped with who corrected it and why, and the change is audited.
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = requireAuth(request);
+  if (!auth) return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
+  const { tokenUser } = auth;
+  const role = tokenUser.role as UserRole;
+
+  if (!CORRECTOR_ROLES.includes(role)) {
+    return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const id = Number(params.id);
+  if (Number.isNaN(id)) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 });
+
+  try {
+    const entry = await prisma.timeEntry.findUnique({ where: { id } });
+    if (!entry) return NextResponse.json({ success: false, message: 'Time entry not found' }, { status: 404 });
+
+    if (!PLATFORM_ROLES.includes(role)) {
+      const companyId = requireCompanyScope(tokenUser);
+      if (!companyId || entry.companyId !== companyId) {
+        return NextResponse.json({ success: false, message: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const { correction, error } = parseTimeEntryCorrection(await request.json(), entry);
+    if (error || !correction) return NextResponse.json({ success: false, message: error }, { status: 400 });
+
+    // Reopening an entry must not leave the user clocked in twice, as clock-in guards against
+    if (correction.clockOutAt === null && entry.clockOutAt) {
+      const open = await prisma.timeEntry.findFirst({
+        where: { userId: entry.userId, clockOutAt: null, id: { not: entry.id } },
+        select: { taskId: true },
+      });
+      if (open) {
+        return NextResponse.json(
+          { success: false, message: `User is still clocked in to task #${open.taskId}; close that entry first` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { reason, ...changes } = correction;
+    const updated = await prisma.timeEntry.update({
+      where: { id },
+      data: {
+        ...changes,
+        // Closing an entry ends any break in progress
+        ...(changes.clockOutAt ? { breakStartedAt: null } : {}),
+        correctedById: tokenUser.userId,
+        correctedAt: new Date(),
+        correctionReason: reason,
+      },
+    });
+
+    await logAudit({
+      companyId: entry.companyId,
+      userId: tokenUser.userId,
+      action: 'update',
+      entityType: 'time_entry',
+      entityId: entry.id,
+      oldValues: {
+        clockInAt: entry.clockInAt,
+        clockOutAt: entry.clockOutAt,
+        breakMinutes: entry.breakMinutes,
+        workedMinutes: workedMinutes(entry),
+      },
+      newValues: {
+        clockInAt: updated.clockInAt,
+        clockOutAt: updated.clockOutAt,
+        breakMinutes: updated.breakMinutes,
+        workedMinutes: workedMinutes(updated),
+        reason,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: { ...updated, workedMinutes: workedMinutes(updated) } });
+  } catch (error) {
+    console.error('Time entry PATCH error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -10,6 +10,7 @@ import {
   ClipboardList, 
   CalendarDays, 
   RefreshCcw, 
+  LayoutTemplate,
   AlertCircle, 
   Database, 
   Users, 
@@ -34,6 +35,24 @@ interface User {
   companyId?: number
 }
 
+interface SearchResult {
+  type: string
+  id: number
+  title: string
+  subtitle: string | null
+  snippet: string
+  href: string
+}
+
+const SEARCH_TYPE_LABELS: Record<string, string> = {
+  task: "Task",
+  property: "Property",
+  note: "Note",
+  issue: "Issue",
+  user: "User",
+  message: "Message",
+}
+
 interface AdminLayoutProps {
   children: React.ReactNode
 }
@@ -46,6 +65,8 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
   const [loading, setLoading] = useState(true)
   const [userDropdownOpen, setUserDropdownOpen] = useState(false)
   const [searchTerm, setSearchTerm] = useState("")
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([])
+  const [searching, setSearching] = useState(false)
   const [selectedCompanyId, setSelectedCompanyId] = useState<number | null>(() => {
     if (typeof window !== 'undefined') {
       const stored = localStorage.getItem('selectedCompanyId')
@@ -101,6 +122,39 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
     router.push("/login")
   }
 
+  // --- Global Search (debounced) ---
+  useEffect(() => {
+    const q = searchTerm.trim()
+    if (q.length < 2) {
+      setSearchResults([])
+      return
+    }
+    const timer = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const token = localStorage.getItem("authToken") || sessionStorage.getItem("authToken")
+        const params: Record<string, string> = { q, limit: "10" }
+        if (selectedCompanyId) params.companyId = selectedCompanyId.toString()
+        const response = await axios.get("/api/search", {
+          headers: { Authorization: `Bearer ${token}` },
+          params,
+        })
+        if (response.data.success) setSearchResults(response.data.data.results)
+      } catch (error) {
+        setSearchResults([])
+      } finally {
+        setSearching(false)
+      }
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchTerm, selectedCompanyId])
+
+  const clearSearch = () => {
+    setSearchTerm("")
+    setSearchResults([])
+    setSidebarOpen(false)
+  }
+
   // --- Navigation Config ---
   const baseNavigation = [
     { name: "Dashboard", href: "/admin/dashboard", icon: LayoutDashboard },
@@ -108,6 +162,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
     { name: "Tasks", href: "/admin/tasks", icon: ClipboardList },
     { name: "Rota Builder", href: "/admin/rota", icon: CalendarDays },
     { name: "Recurring Jobs", href: "/admin/recurring-jobs", icon: RefreshCcw },
+    { name: "Job Templates", href: "/admin/job-templates", icon: LayoutTemplate },
     { name: "Issues", href: "/admin/issues", icon: AlertCircle },
     { name: "Sheets Sync", href: "/admin/sheets-sync", icon: Database },
     { name: "User Management", href: "/admin/users", icon: Users },
@@ -132,16 +187,16 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
       )
     : navigation
 
-  // Handle search navigation
+  // Handle search navigation: a matching page first, otherwise the best search result
   const handleSearchKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter" && searchTerm) {
       const matched = navigation.find((item) =>
         item.name.toLowerCase().includes(searchTerm.toLowerCase())
       )
-      if (matched) {
-        router.push(matched.href)
-        setSearchTerm("")
-        setSidebarOpen(false)
+      const href = matched?.href || searchResults[0]?.href
+      if (href) {
+        router.push(href)
+        clearSearch()
       }
     }
   }
@@ -261,28 +316,47 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
               <input 
                 type="text" 
-                placeholder="Search pages..." 
+                placeholder="Search tasks, properties, issues..." 
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 onKeyPress={handleSearchKeyPress}
                 className="pl-10 pr-4 py-1.5 w-64 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
               />
-              {searchTerm && filteredNavigation.length > 0 && (
-                <div className="absolute top-full left-0 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-50 max-h-64 overflow-y-auto">
+              {searchTerm && (filteredNavigation.length > 0 || searchResults.length > 0 || searching) && (
+                <div className="absolute top-full left-0 mt-1 w-96 bg-white border border-gray-200 rounded-lg shadow-lg z-50 max-h-96 overflow-y-auto">
                   {filteredNavigation.map((item) => (
                     <Link
                       key={item.href}
                       href={item.href}
-                      onClick={() => {
-                        setSearchTerm("")
-                        setSidebarOpen(false)
-                      }}
+                      onClick={clearSearch}
                       className="flex items-center gap-3 px-4 py-2 hover:bg-gray-50 transition-colors"
                     >
                       <item.icon size={16} className="text-gray-400" />
                       <span className="text-sm text-gray-700">{item.name}</span>
                     </Link>
                   ))}
+                  {searching && searchResults.length === 0 && (
+                    <p className="px-4 py-2 text-xs text-gray-400">Searching...</p>
+                  )}
+                  {searchResults.map((result) => (
+                    <Link
+                      key={`${result.type}-${result.id}`}
+                      href={result.href}
+                      onClick={clearSearch}
+                      className="block px-4 py-2 border-t border-gray-100 hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-[10px] font-semibold uppercase tracking-wide text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">
+                          {SEARCH_TYPE_LABELS[result.type] || result.type}
+                        </span>
+                        <span className="text-sm font-medium text-gray-900 truncate">{result.title}</span>
+                      </div>
+                      {result.subtitle && <p className="text-xs text-gray-500 truncate mt-0.5">{result.subtitle}</p>}
+                      <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">
+                        <HighlightedSnippet snippet={result.snippet} />
+                      </p>
+                    </Link>
+                  ))}
                 </div>
               )}
             </div>
@@ -369,4 +443,22 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Render <mark> highlights from the search API as React nodes (never as raw HTML)
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/(<mark>.*?<\/mark>)/g)
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.startsWith("<mark>") ? (
+          <mark key={i} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  )
+}
@@ -0,0 +1,458 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+
+// --- Types ---
+export interface RotaCalendarTask {
+  id: number
+  title: string
+  scheduledDate: string
+  estimatedDurationMinutes?: number | null
+  status: string
+  property: { id: number; address: string }
+  assignedUser?: { id: number }
+}
+
+export interface RotaAvailabilityOverride {
+  id: number
+  date: string
+  startTime: string | null
+  endTime: string | null
+  isAvailable: boolean
+  reason?: string | null
+}
+
+export interface RotaCalendarCleaner {
+  id: number
+  name: string
+  availabilityOverrides?: RotaAvailabilityOverride[]
+}
+
+export interface RotaWarning {
+  type: string
+  message: string
+  severity: string
+}
+
+export interface RotaChange {
+  cleanerId: number | null
+  scheduledDate?: string
+  estimatedDurationMinutes?: number | null // null clears the estimate
+}
+
+interface RotaCalendarProps {
+  tasks: RotaCalendarTask[]
+  cleaners: RotaCalendarCleaner[]
+  weekDates: Date[]
+  conflicts: Array<{ taskId: number; reason: string }>
+  warnings: Record<number, RotaWarning[]>
+  onChange: (task: RotaCalendarTask, change: RotaChange) => void
+}
+
+// --- Constants ---
+const DAY_START_HOUR = 6
+const DAY_END_HOUR = 22
+const PX_PER_MINUTE = 1
+const SNAP_MINUTES = 15
+const DEFAULT_DURATION = 120
+const DAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
+
+const sameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+
+const snap = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES
+
+const durationOf = (task: RotaCalendarTask) => task.estimatedDurationMinutes || DEFAULT_DURATION
+
+const formatTime = (date: Date) => date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })
+
+const localDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+
+// Overrides are date-only, so compare on the calendar date
+export const overridesOn = (overrides: RotaAvailabilityOverride[] | undefined, date: Date) =>
+  (overrides || []).filter(o => o.date.slice(0, 10) === localDateKey(date))
+
+const minutesOf = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5))
+
+/**
+ * Chip for a dated availability override: red when unavailable, green for extra availability
+ */
+export function AvailabilityOverrideBadge({ override }: { override: RotaAvailabilityOverride }) {
+  const when = override.startTime ? `${override.startTime}–${override.endTime}` : "All day"
+  return (
+    <div
+      title={override.reason || undefined}
+      className={`px-1.5 py-0.5 rounded text-[10px] font-medium truncate ${
+        override.isAvailable ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+      }`}
+    >
+      {override.isAvailable ? "Extra" : "Unavailable"} {when}
+    </div>
+  )
+}
+
+// Same time of day on another date
+function moveToDate(scheduledDate: string, target: Date): string {
+  const current = new Date(scheduledDate)
+  const next = new Date(target)
+  next.setHours(current.getHours(), current.getMinutes(), 0, 0)
+  return next.toISOString()
+}
+
+// Place overlapping tasks side by side: each task gets the first lane that is free at its start
+function layoutLanes(tasks: RotaCalendarTask[]): { lane: Map<number, number>; laneCount: number } {
+  const lane = new Map<number, number>()
+  const laneEnds: number[] = []
+  const sorted = [...tasks].sort((a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime())
+  for (const task of sorted) {
+    const start = new Date(task.scheduledDate).getTime()
+    const end = start + durationOf(task) * 60000
+    let index = laneEnds.findIndex(laneEnd => laneEnd <= start)
+    if (index === -1) {
+      index = laneEnds.length
+      laneEnds.push(end)
+    } else {
+      laneEnds[index] = end
+    }
+    lane.set(task.id, index)
+  }
+  return { lane, laneCount: Math.max(1, laneEnds.length) }
+}
+
+/**
+ * Week/day rota calendar with one column per cleaner. Tasks are dragged between cleaners,
+ * days and times, resized from their bottom edge, and dropped on the tray to unassign.
+ * Every change is handed to onChange; the page applies it and owns undo.
+ */
+export default function RotaCalendar({ tasks, cleaners, weekDates, conflicts, warnings, onChange }: RotaCalendarProps) {
+  const [mode, setMode] = useState<"week" | "day">("week")
+  const [dayIndex, setDayIndex] = useState(() => {
+    const today = weekDates.findIndex(date => sameDay(date, new Date()))
+    return today === -1 ? 0 : today
+  })
+  const [dragged, setDragged] = useState<{ task: RotaCalendarTask; grabOffsetMinutes: number } | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [resizing, setResizing] = useState<{ task: RotaCalendarTask; startY: number; minutes: number } | null>(null)
+  const resizeRef = useRef(resizing)
+  resizeRef.current = resizing
+  // The listeners below outlive a render, so they read the latest props through a ref
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+  const isResizing = resizing !== null
+
+  // Track the mouse while resizing; the change is applied once on release
+  useEffect(() => {
+    if (!isResizing) return
+    const handleMove = (e: MouseEvent) => {
+      const current = resizeRef.current
+      if (!current) return
+      const delta = (e.clientY - current.startY) / PX_PER_MINUTE
+      setResizing({ ...current, minutes: Math.max(SNAP_MINUTES, snap(durationOf(current.task) + delta)) })
+    }
+    const handleUp = () => {
+      const current = resizeRef.current
+      setResizing(null)
+      if (current && current.minutes !== durationOf(current.task)) {
+        onChangeRef.current(current.task, {
+          cleanerId: current.task.assignedUser?.id ?? null,
+          estimatedDurationMinutes: current.minutes,
+        })
+      }
+    }
+    window.addEventListener("mousemove", handleMove)
+    window.addEventListener("mouseup", handleUp)
+    return () => {
+      window.removeEventListener("mousemove", handleMove)
+      window.removeEventListener("mouseup", handleUp)
+    }
+  }, [isResizing])
+
+  const visibleDates = mode === "week" ? weekDates : [weekDates[dayIndex]]
+  const inView = (task: RotaCalendarTask) =>
+    task.scheduledDate && visibleDates.some(date => sameDay(new Date(task.scheduledDate), date))
+  const unassigned = tasks.filter(task => !task.assignedUser && inView(task))
+
+  const badgesFor = (taskId: number) => {
+    const badges = [
+      ...conflicts.filter(c => c.taskId === taskId).map(c => ({ label: "Conflict", message: c.reason, severity: "error" })),
+      ...(warnings[taskId] || []).map(w => ({ label: w.type.replace(/_/g, " "), message: w.message, severity: w.severity })),
+    ]
+    return badges.filter((badge, i) => badges.findIndex(b => b.message === badge.message) === i)
+  }
+
+  const startDrag = (e: React.DragEvent, task: RotaCalendarTask) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
+    setDragged({ task, grabOffsetMinutes: (e.clientY - rect.top) / PX_PER_MINUTE })
+  }
+
+  const endDrag = () => {
+    setDragged(null)
+    setDropTarget(null)
+  }
+
+  const allowDrop = (e: React.DragEvent, key: string) => {
+    e.preventDefault()
+    setDropTarget(key)
+  }
+
+  // Week view: move to another cleaner and/or day, keeping the time of day
+  const dropOnDay = (e: React.DragEvent, cleanerId: number, date: Date) => {
+    e.preventDefault()
+    const drag = dragged
+    endDrag()
+    if (!drag) return
+    const scheduledDate = moveToDate(drag.task.scheduledDate, date)
+    if (drag.task.assignedUser?.id === cleanerId && scheduledDate === new Date(drag.task.scheduledDate).toISOString()) return
+    onChange(drag.task, { cleanerId, scheduledDate })
+  }
+
+  // Day view: the drop position sets the start time
+  const dropOnTimeline = (e: React.DragEvent, cleanerId: number) => {
+    e.preventDefault()
+    const drag = dragged
+    endDrag()
+    if (!drag) return
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
+    const minutes = snap((e.clientY - rect.top) / PX_PER_MINUTE - drag.grabOffsetMinutes)
+    const startMinutes = Math.min(Math.max(0, minutes), (DAY_END_HOUR - DAY_START_HOUR) * 60 - SNAP_MINUTES)
+    const start = new Date(weekDates[dayIndex])
+    start.setHours(DAY_START_HOUR, startMinutes, 0, 0)
+    onChange(drag.task, { cleanerId, scheduledDate: start.toISOString() })
+  }
+
+  const dropOnTray = (e: React.DragEvent) => {
+    e.preventDefault()
+    const drag = dragged
+    endDrag()
+    if (drag?.task.assignedUser) onChange(drag.task, { cleanerId: null })
+  }
+
+  const renderBadges = (taskId: number) => {
+    const badges = badgesFor(taskId)
+    if (badges.length === 0) return null
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        {badges.map((badge, i) => (
+          <span
+            key={i}
+            title={badge.message}
+            className={`px-1.5 py-0.5 rounded text-[10px] font-medium capitalize ${
+              badge.severity === "error" ? "bg-red-100 text-red-800" : "bg-amber-100 text-amber-800"
+            }`}
+          >
+            {badge.label}
+          </span>
+        ))}
+      </div>
+    )
+  }
+
+  const renderCard = (task: RotaCalendarTask, style?: React.CSSProperties, resizable = false) => {
+    const start = new Date(task.scheduledDate)
+    const minutes = resizing?.task.id === task.id ? resizing.minutes : durationOf(task)
+    const end = new Date(start.getTime() + minutes * 60000)
+    return (
+      <div
+        key={task.id}
+        draggable={!resizing}
+        onDragStart={(e) => startDrag(e, task)}
+        onDragEnd={endDrag}
+        style={resizable ? { ...style, height: minutes * PX_PER_MINUTE } : style}
+        className={`${resizable ? "absolute" : "relative"} overflow-hidden rounded border p-1.5 text-xs cursor-move ${
+          task.assignedUser ? "bg-cyan-100 border-cyan-300 hover:bg-cyan-200" : "bg-yellow-100 border-yellow-300 hover:bg-yellow-200"
+        } ${dragged?.task.id === task.id ? "opacity-50" : ""}`}
+      >
+        <div className="font-medium text-gray-900 truncate">{task.property.address}</div>
+        <div className="text-gray-600 truncate">{task.title}</div>
+        <div className="text-gray-500">
+          {formatTime(start)}–{formatTime(end)}
+        </div>
+        {renderBadges(task.id)}
+        {resizable && (
+          <div
+            onMouseDown={(e) => {
+              e.preventDefault()
+              e.stopPropagation()
+              setResizing({ task, startY: e.clientY, minutes: durationOf(task) })
+            }}
+            className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize bg-cyan-300/50 hover:bg-cyan-400"
+            title="Drag to change duration"
+          />
+        )}
+      </div>
+    )
+  }
+
+  const hours = Array.from({ length: DAY_END_HOUR - DAY_START_HOUR }, (_, i) => DAY_START_HOUR + i)
+
+  return (
+    <div className="flex gap-4">
+      <div className="flex-1 min-w-0 bg-white rounded-lg shadow overflow-hidden">
+        {/* Toolbar */}
+        <div className="flex items-center gap-3 p-3 border-b border-gray-200">
+          <div className="flex bg-gray-100 p-1 rounded-lg">
+            {(["week", "day"] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 rounded-md text-sm capitalize ${mode === m ? "bg-white shadow text-cyan-700" : "text-gray-600"}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          {mode === "day" && (
+            <div className="flex gap-1">
+              {weekDates.map((date, i) => (
+                <button
+                  key={i}
+                  onClick={() => setDayIndex(i)}
+                  className={`px-2 py-1 rounded text-xs ${i === dayIndex ? "bg-cyan-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"}`}
+                >
+                  {DAY_NAMES[i]} {date.getDate()}
+                </button>
+              ))}
+            </div>
+          )}
+          <span className="ml-auto text-xs text-gray-500">
+            {mode === "day" ? "Drag to move, drag the bottom edge to resize" : "Drag tasks between cleaners and days"}
+          </span>
+        </div>
+
+        <div className="overflow-auto max-h-[75vh]">
+          {mode === "week" ? (
+            <table className="w-full border-collapse">
+              <thead className="sticky top-0 bg-gray-50 z-10">
+                <tr className="border-b border-gray-200">
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-gray-900 w-28">Day</th>
+                  {cleaners.map(cleaner => (
+                    <th key={cleaner.id} className="px-3 py-2 text-left text-sm font-semibold text-gray-900 border-l border-gray-200 min-w-[180px]">
+                      {cleaner.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {weekDates.map((date, dayIdx) => (
+                  <tr key={dayIdx} className="border-b border-gray-200">
+                    <td className="px-3 py-2 align-top text-sm text-gray-700">
+                      <div className="font-medium">{DAY_NAMES[dayIdx]}</div>
+                      <div className="text-xs text-gray-500">
+                        {date.toLocaleDateString("en-GB", { day: "numeric", month: "short" })}
+                      </div>
+                    </td>
+                    {cleaners.map(cleaner => {
+                      const key = `${cleaner.id}:${dayIdx}`
+                      const cellTasks = tasks
+                        .filter(task => task.assignedUser?.id === cleaner.id && task.scheduledDate && sameDay(new Date(task.scheduledDate), date))
+                        .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate))
+                      return (
+                        <td
+                          key={cleaner.id}
+                          onDragOver={(e) => allowDrop(e, key)}
+                          onDrop={(e) => dropOnDay(e, cleaner.id, date)}
+                          className={`px-2 py-2 border-l border-gray-200 align-top ${dropTarget === key ? "bg-cyan-50" : ""}`}
+                        >
+                          <div className="space-y-1 min-h-[60px]">
+                            {overridesOn(cleaner.availabilityOverrides, date).map(override => (
+                              <AvailabilityOverrideBadge key={override.id} override={override} />
+                            ))}
+                            {cellTasks.map(task => renderCard(task))}
+                          </div>
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="flex min-w-max">
+              {/* Hour gutter */}
+              <div className="w-14 shrink-0 border-r border-gray-200">
+                <div className="h-9 border-b border-gray-200" />
+                {hours.map(hour => (
+                  <div key={hour} className="text-[10px] text-gray-500 text-right pr-1" style={{ height: 60 * PX_PER_MINUTE }}>
+                    {String(hour).padStart(2, "0")}:00
+                  </div>
+                ))}
+              </div>
+              {cleaners.map(cleaner => {
+                const key = `${cleaner.id}:day`
+                const columnTasks = tasks.filter(
+                  task => task.assignedUser?.id === cleaner.id && task.scheduledDate && sameDay(new Date(task.scheduledDate), weekDates[dayIndex])
+                )
+                const { lane, laneCount } = layoutLanes(columnTasks)
+                return (
+                  <div key={cleaner.id} className="w-48 shrink-0 border-r border-gray-200">
+                    <div className="h-9 px-2 flex items-center text-sm font-semibold text-gray-900 border-b border-gray-200 bg-gray-50 truncate">
+                      {cleaner.name}
+                    </div>
+                    <div
+                      onDragOver={(e) => allowDrop(e, key)}
+                      onDrop={(e) => dropOnTimeline(e, cleaner.id)}
+                      className={`relative ${dropTarget === key ? "bg-cyan-50" : ""}`}
+                      style={{ height: hours.length * 60 * PX_PER_MINUTE }}
+                    >
+                      {hours.map(hour => (
+                        <div key={hour} className="border-b border-gray-100" style={{ height: 60 * PX_PER_MINUTE }} />
+                      ))}
+                      {/* Dated availability overrides shaded behind the tasks */}
+                      {overridesOn(cleaner.availabilityOverrides, weekDates[dayIndex]).map(override => {
+                        const dayMinutes = (DAY_END_HOUR - DAY_START_HOUR) * 60
+                        const start = override.startTime ? Math.max(0, minutesOf(override.startTime) - DAY_START_HOUR * 60) : 0
+                        const end = override.endTime ? Math.min(dayMinutes, minutesOf(override.endTime) - DAY_START_HOUR * 60) : dayMinutes
+                        if (end <= start) return null
+                        return (
+                          <div
+                            key={override.id}
+                            title={override.reason || undefined}
+                            className={`absolute left-0 right-0 pointer-events-none ${override.isAvailable ? "bg-green-50" : "bg-red-50"}`}
+                            style={{ top: start * PX_PER_MINUTE, height: (end - start) * PX_PER_MINUTE }}
+                          >
+                            <div className="absolute right-1 top-0.5">
+                              <AvailabilityOverrideBadge override={override} />
+                            </div>
+                          </div>
+                        )
+                      })}
+                      {columnTasks.map(task => {
+                        const start = new Date(task.scheduledDate)
+                        const top = ((start.getHours() - DAY_START_HOUR) * 60 + start.getMinutes()) * PX_PER_MINUTE
+                        const width = 100 / laneCount
+                        return renderCard(task, { top: Math.max(0, top), left: `${(lane.get(task.id) || 0) * width}%`, width: `${width}%` }, true)
+                      })}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Unassigned tray */}
+      <div
+        onDragOver={(e) => allowDrop(e, "tray")}
+        onDrop={dropOnTray}
+        className={`w-64 shrink-0 bg-white rounded-lg shadow p-3 self-start ${dropTarget === "tray" ? "ring-2 ring-yellow-300" : ""}`}
+      >
+        <h3 className="text-sm font-semibold text-gray-900 mb-1">Unassigned ({unassigned.length})</h3>
+        <p className="text-xs text-gray-500 mb-3">Drag onto a cleaner to assign, or drop here to unassign</p>
+        <div className="space-y-2 max-h-[70vh] overflow-y-auto">
+          {unassigned
+            .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate))
+            .map(task => (
+              <div key={task.id}>
+                <div className="text-[10px] text-gray-500 mb-0.5">
+                  {new Date(task.scheduledDate).toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short" })}
+                </div>
+                {renderCard(task)}
+              </div>
+            ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,7 +4,7 @@ export interface AuditLogEntry {
   companyId: number;
   userId: number;
   action: 'create' | 'update' | 'delete' | 'login' | 'logout' | 'export' | 'sync';
-  entityType: 'user' | 'task' | 'property' | 'company' | 'photo' | 'note' | 'billing';
+  entityType: 'user' | 'task' | 'property' | 'company' | 'photo' | 'note' | 'billing' | 'time_entry' | 'shift_swap' | 'open_shift' | 'task_cancellation' | 'rota_publication';
   entityId: number | string;
   oldValues?: Record<string, any>;
   newValues?: Record<string, any>;
@@ -0,0 +1,263 @@
+/**
+ * Cleaner Availability
+ *
+ * Availability is a repeating weekly pattern (CleanerAvailability, by dayOfWeek) plus
+ * dated overrides (AvailabilityOverride) for one-off changes such as "unavailable next
+ * Thursday afternoon" or "can work extra this Saturday". An override without times covers
+ * the whole day.
+ *
+ * On a date with overrides, an unavailable override covering the time wins, then an
+ * available one; otherwise the weekly pattern applies. A task is checked over its whole
+ * duration: any unavailable override overlapping it counts, and the rest of the task must
+ * fall within available overrides or weekly windows. Formal leave (LeaveRequest) is
+ * separate and still checked by validateAvailability in lib/rota-conflicts.ts.
+ *
+ * Days and times are wall-clock values in the company's timezone (lib/timezone.ts), so a
+ * 09:00 start means 09:00 in the UK in both GMT and BST whatever the server runs in.
+ */
+
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { JWTPayload } from "@/lib/auth";
+import { canAccessCompany } from "@/lib/rbac";
+import { DEFAULT_TIMEZONE, formatZonedTime, getZonedParts, toLocalDateKey } from "@/lib/timezone";
+
+export interface WeeklyWindow {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  isAvailable: boolean;
+}
+
+export interface DateOverride {
+  date: Date; // Date only (UTC midnight, as stored by @db.Date)
+  startTime: string | null;
+  endTime: string | null;
+  isAvailable: boolean;
+  reason?: string | null;
+}
+
+export interface WeeklyAvailabilityInput {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  isAvailable: boolean;
+}
+
+export interface OverrideInput {
+  date: Date;
+  startTime: string | null;
+  endTime: string | null;
+  isAvailable: boolean;
+  reason: string | null;
+}
+
+export interface LocalWindow {
+  dateKey: string; // YYYY-MM-DD in the company timezone
+  weekday: number; // 0 = Sunday
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM, or 24:00 when the task runs past midnight
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * HH:MM, 24-hour
+ */
+export function isValidTime(value: unknown): value is string {
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+}
+
+/**
+ * Validate a weekly pattern entry. With partial set (PATCH), missing fields are left out.
+ */
+export function parseWeeklyAvailabilityInput(
+  body: any,
+  partial = false
+): { data?: Partial<WeeklyAvailabilityInput>; error?: string } {
+  const data: Partial<WeeklyAvailabilityInput> = {};
+
+  if (body.dayOfWeek !== undefined || !partial) {
+    if (!Number.isInteger(body.dayOfWeek) || body.dayOfWeek < 0 || body.dayOfWeek > 6) {
+      return { error: 'dayOfWeek must be 0 (Sunday) to 6 (Saturday)' };
+    }
+    data.dayOfWeek = body.dayOfWeek;
+  }
+  for (const field of ['startTime', 'endTime'] as const) {
+    if (body[field] !== undefined || !partial) {
+      if (!isValidTime(body[field])) return { error: `${field} must be HH:MM` };
+      data[field] = body[field];
+    }
+  }
+  if (data.startTime && data.endTime && data.startTime >= data.endTime) {
+    return { error: 'startTime must be before endTime' };
+  }
+  if (body.isAvailable !== undefined) {
+    if (typeof body.isAvailable !== 'boolean') return { error: 'isAvailable must be true or false' };
+    data.isAvailable = body.isAvailable;
+  } else if (!partial) {
+    data.isAvailable = true;
+  }
+
+  return { data };
+}
+
+/**
+ * Validate a dated override. Both times or neither (whole day).
+ */
+export function parseOverrideInput(body: any, partial = false): { data?: Partial<OverrideInput>; error?: string } {
+  const data: Partial<OverrideInput> = {};
+
+  if (body.date !== undefined || !partial) {
+    if (typeof body.date !== 'string' || !DATE_PATTERN.test(body.date) || Number.isNaN(new Date(body.date).getTime())) {
+      return { error: 'date must be YYYY-MM-DD' };
+    }
+    data.date = new Date(`${body.date}T00:00:00.000Z`);
+  }
+
+  if (body.startTime !== undefined || body.endTime !== undefined || !partial) {
+    const startTime = body.startTime ?? null;
+    const endTime = body.endTime ?? null;
+    if ((startTime === null) !== (endTime === null)) {
+      return { error: 'Give both startTime and endTime, or neither for the whole day' };
+    }
+    if (startTime !== null && (!isValidTime(startTime) || !isValidTime(endTime))) {
+      return { error: 'startTime and endTime must be HH:MM' };
+    }
+    if (startTime !== null && startTime >= endTime) {
+      return { error: 'startTime must be before endTime' };
+    }
+    data.startTime = startTime;
+    data.endTime = endTime;
+  }
+
+  if (body.isAvailable !== undefined || !partial) {
+    if (typeof body.isAvailable !== 'boolean') return { error: 'isAvailable must be true or false' };
+    data.isAvailable = body.isAvailable;
+  }
+
+  if (body.reason !== undefined) {
+    data.reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null;
+  }
+
+  return { data };
+}
+
+/**
+ * Whether an override applies at a given time of day. Partial-day overrides include
+ * their start and exclude their end.
+ */
+export function overrideCovers(override: DateOverride, time: string): boolean {
+  if (!override.startTime || !override.endTime) return true;
+  return time >= override.startTime && time < override.endTime;
+}
+
+/**
+ * Whether an override overlaps part of a local window (a moment when the window is empty)
+ */
+export function overrideOverlaps(override: DateOverride, window: LocalWindow): boolean {
+  if (window.startTime === window.endTime) return overrideCovers(override, window.startTime);
+  if (!override.startTime || !override.endTime) return true;
+  return window.startTime < override.endTime && window.endTime > override.startTime;
+}
+
+/**
+ * The local day and times a task starting at `start` occupies. A task running past
+ * midnight is checked up to 24:00 on the day it starts.
+ */
+export function toLocalWindow(start: Date, durationMinutes: number = 0, timezone: string = DEFAULT_TIMEZONE): LocalWindow {
+  const dateKey = toLocalDateKey(start, timezone);
+  const startTime = formatZonedTime(start, timezone);
+  const end = new Date(start.getTime() + Math.max(durationMinutes, 0) * 60000);
+  const endTime = end.getTime() === start.getTime()
+    ? startTime
+    : toLocalDateKey(end, timezone) === dateKey ? formatZonedTime(end, timezone) : '24:00';
+  return { dateKey, weekday: getZonedParts(start, timezone).weekday, startTime, endTime };
+}
+
+/**
+ * Whether time ranges together cover a window without gaps
+ */
+function coversWindow(ranges: Array<{ startTime: string; endTime: string }>, window: LocalWindow): boolean {
+  if (window.startTime === window.endTime) {
+    return ranges.some(r => r.startTime <= window.startTime && window.startTime <= r.endTime);
+  }
+  let coveredUntil = window.startTime;
+  for (const range of [...ranges].sort((a, b) => a.startTime.localeCompare(b.startTime))) {
+    if (range.startTime > coveredUntil) break;
+    if (range.endTime > coveredUntil) coveredUntil = range.endTime;
+    if (coveredUntil >= window.endTime) return true;
+  }
+  return false;
+}
+
+/**
+ * The override that decides availability for a task, or null when the weekly pattern
+ * applies. An unavailable override overlapping any part of the task wins; an available
+ * one decides only when it covers the whole task.
+ */
+export function findDecidingOverride(
+  overrides: DateOverride[],
+  when: Date,
+  timezone: string = DEFAULT_TIMEZONE,
+  durationMinutes: number = 0
+): DateOverride | null {
+  const window = toLocalWindow(when, durationMinutes, timezone);
+  const onDay = overrides.filter(o => o.date.toISOString().slice(0, 10) === window.dateKey);
+  return onDay.find(o => !o.isAvailable && overrideOverlaps(o, window))
+    || onDay.find(o => o.isAvailable && coversWindow([{ startTime: o.startTime ?? '00:00', endTime: o.endTime ?? '24:00' }], window))
+    || null;
+}
+
+/**
+ * Whether a cleaner is available for a task (a moment when durationMinutes is 0), from the
+ * weekly pattern and overrides
+ */
+export function isAvailableAt(
+  weekly: WeeklyWindow[],
+  overrides: DateOverride[],
+  when: Date,
+  timezone: string = DEFAULT_TIMEZONE,
+  durationMinutes: number = 0
+): boolean {
+  const override = findDecidingOverride(overrides, when, timezone, durationMinutes);
+  if (override) return override.isAvailable;
+  const window = toLocalWindow(when, durationMinutes, timezone);
+  const available = [
+    ...weekly.filter(w => w.isAvailable && w.dayOfWeek === window.weekday),
+    ...overrides
+      .filter(o => o.isAvailable && o.date.toISOString().slice(0, 10) === window.dateKey)
+      .map(o => ({ startTime: o.startTime ?? '00:00', endTime: o.endTime ?? '24:00' })),
+  ];
+  return coversWindow(available, window);
+}
+
+/**
+ * Describe an override for messages ("all day" or "13:00–17:00")
+ */
+export function describeOverride(override: DateOverride): string {
+  const when = override.startTime ? `${override.startTime}–${override.endTime}` : 'all day';
+  return `${override.date.toISOString().slice(0, 10)} ${when}${override.reason ? ` (${override.reason})` : ''}`;
+}
+
+/**
+ * Check that the token user may view or change a cleaner's availability: cleaners manage
+ * their own; managers and admins manage cleaners in companies they can access.
+ */
+export async function checkAvailabilityAccess(
+  tokenUser: JWTPayload,
+  targetUserId: number
+): Promise<{ error?: string; httpStatus?: number }> {
+  if (targetUserId === tokenUser.userId) return {};
+  if ((tokenUser.role as UserRole) === UserRole.CLEANER) {
+    return { error: 'Forbidden', httpStatus: 403 };
+  }
+
+  const target = await prisma.user.findUnique({ where: { id: targetUserId }, select: { companyId: true } });
+  if (!target) return { error: 'User not found', httpStatus: 404 };
+  if (!target.companyId || !canAccessCompany(tokenUser, target.companyId)) {
+    return { error: 'Forbidden', httpStatus: 403 };
+  }
+  return {};
+}
@@ -0,0 +1,404 @@
+/**
+ * iCalendar Feeds
+ *
+ * Tokenised, revocable ICS feed URLs that calendar apps subscribe to:
+ * - cleaner: the tasks assigned to one cleaner, leaving out drafts
+ * - property: the upcoming cleans at one property (for clients)
+ * - company: every task in the company (for managers)
+ *
+ * Only company feeds link to the task in the admin app; cleaner feeds write the checklist
+ * into the event instead, as cleaners can't open admin pages.
+ *
+ * Feeds are rendered on request, so they follow task changes at the calendar app's next
+ * refresh. Each task keeps the same UID in every feed, so an update replaces the event rather
+ * than adding a new one; cancelled tasks are sent as cancelled events. Times are given in the
+ * company's timezone (AdminConfiguration.timezone) with a matching VTIMEZONE.
+ *
+ * Anyone with the URL can read the feed, so revoking a feed (revokedAt) is the way to cut
+ * access off; a new feed gets a new token.
+ */
+
+import crypto from "crypto";
+import prisma from "@/lib/prisma";
+import { TaskStatus, UserRole } from "@prisma/client";
+import { JWTPayload } from "@/lib/auth";
+import { canAccessCompany } from "@/lib/rbac";
+import { getPropertyAverageDuration } from "@/lib/rota-conflicts";
+import { getCompanyTimezone, getTimezoneOffsetMs, getZonedParts } from "@/lib/timezone";
+
+export const CALENDAR_FEED_SCOPES = ['cleaner', 'property', 'company'] as const;
+export type CalendarFeedScope = typeof CALENDAR_FEED_SCOPES[number];
+
+// Tasks from this far back to this far ahead are listed
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://app.mayaops.com';
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  location?: string | null;
+  description?: string | null;
+  url?: string | null;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  lastModified: Date;
+}
+
+/**
+ * A new random feed token (URL-safe)
+ */
+export function generateFeedToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+/**
+ * Subscription URL for a feed token
+ */
+export function calendarFeedUrl(token: string): string {
+  return `${APP_URL}/api/ics/${token}.ics`;
+}
+
+/**
+ * Stable event UID for a task, the same in every feed
+ */
+export function taskEventUid(taskId: number): string {
+  return `task-${taskId}@mayaops`;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 3.1), without splitting characters
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards their 75
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const pad = (n: number, width = 2) => String(Math.abs(n)).padStart(width, '0');
+
+function formatUtcDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function formatLocalDateTime(date: Date, timezone: string): string {
+  const p = getZonedParts(date, timezone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+function formatOffset(offsetMs: number): string {
+  const minutes = Math.round(offsetMs / 60000);
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+}
+
+/**
+ * VTIMEZONE for a timezone, with an observance for each UTC offset change between two
+ * instants (found by scanning day by day, then narrowing to the minute)
+ */
+export function buildVTimezone(timezone: string, from: Date, to: Date): string[] {
+  // Offsets change on whole minutes, so scan on a minute grid
+  const start = Math.floor(from.getTime() / 60000) * 60000;
+  const initialOffset = getTimezoneOffsetMs(new Date(start), timezone);
+  const transitions: Array<{ at: Date; offsetFrom: number; offsetTo: number }> = [];
+
+  let previous = start;
+  let previousOffset = initialOffset;
+  for (let t = start + DAY_MS; t <= to.getTime() + DAY_MS; t += DAY_MS) {
+    const offset = getTimezoneOffsetMs(new Date(t), timezone);
+    if (offset !== previousOffset) {
+      // The change happened somewhere in (previous, t]: narrow it down to the minute
+      let low = previous;
+      let high = t;
+      while (high - low > 60000) {
+        const mid = low + Math.floor((high - low) / 120000) * 60000;
+        if (getTimezoneOffsetMs(new Date(mid), timezone) === previousOffset) low = mid;
+        else high = mid;
+      }
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+      previousOffset = offset;
+    }
+    previous = t;
+  }
+
+  const standardOffset = Math.min(initialOffset, ...transitions.map(t => t.offsetTo));
+  const observance = (offsetFrom: number, offsetTo: number, localStart: string) => {
+    const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${localStart}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+  // Observances start at the local time on the clock before the change
+  const localBefore = (at: Date, offset: number) => formatUtcDateTime(new Date(at.getTime() + offset)).slice(0, -1);
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    ...observance(initialOffset, initialOffset, '19700101T000000'),
+    ...transitions.flatMap(t => observance(t.offsetFrom, t.offsetTo, localBefore(t.at, t.offsetFrom))),
+    'END:VTIMEZONE',
+  ];
+}
+
+/**
+ * Render a calendar with its events as ICS text (CRLF line endings, folded lines)
+ */
+export function buildIcsCalendar(name: string, timezone: string, events: IcsEvent[], now: Date = new Date()): string {
+  const starts = events.map(e => e.start.getTime());
+  const ends = events.map(e => e.end.getTime());
+  const rangeFrom = new Date(Math.min(now.getTime(), ...starts) - DAY_MS);
+  const rangeTo = new Date(Math.max(now.getTime(), ...ends) + DAY_MS);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MayaOps//Task Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    `X-WR-TIMEZONE:${timezone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...buildVTimezone(timezone, rangeFrom, rangeTo),
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtcDateTime(now)}`,
+      `LAST-MODIFIED:${formatUtcDateTime(event.lastModified)}`,
+      `DTSTART;TZID=${timezone}:${formatLocalDateTime(event.start, timezone)}`,
+      `DTEND;TZID=${timezone}:${formatLocalDateTime(event.end, timezone)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+      `STATUS:${event.status}`
+    );
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h${rest > 0 ? ` ${rest}m` : ''}` : `${rest}m`;
+}
+
+/**
+ * Calendar event for a task
+ */
+export function taskToIcsEvent(
+  task: {
+    id: number;
+    title: string;
+    description: string | null;
+    status: TaskStatus;
+    scheduledDate: Date;
+    updatedAt: Date;
+    property: { address: string } | null;
+    assignedUser?: { firstName: string | null; lastName: string | null } | null;
+    checklist: string[]; // Item titles, in order
+  },
+  durationMinutes: number,
+  scope: CalendarFeedScope
+): IcsEvent {
+  const url = scope === 'company' ? `${APP_URL}/admin/tasks?taskId=${task.id}` : null;
+  const cleaner = task.assignedUser
+    ? [task.assignedUser.firstName, task.assignedUser.lastName].filter(Boolean).join(' ')
+    : null;
+  let checklist: string | null = null;
+  if (scope === 'cleaner' && task.checklist.length > 0) {
+    checklist = ['Checklist:', ...task.checklist.map(item => `- ${item}`)].join('\n');
+  } else if (url) {
+    checklist = task.checklist.length > 0 ? `Checklist (${task.checklist.length} items): ${url}` : `Details: ${url}`;
+  }
+  const description = [
+    `Duration: ${formatDuration(durationMinutes)}`,
+    scope === 'company' ? `Cleaner: ${cleaner || 'Unassigned'}` : null,
+    checklist,
+    task.description,
+  ].filter(Boolean).join('\n');
+
+  return {
+    uid: taskEventUid(task.id),
+    start: task.scheduledDate,
+    end: new Date(task.scheduledDate.getTime() + durationMinutes * 60 * 1000),
+    summary: task.status === TaskStatus.CANCELLED ? `Cancelled: ${task.title}` : task.title,
+    location: task.property?.address,
+    description,
+    url,
+    status: task.status === TaskStatus.CANCELLED ? 'CANCELLED' : task.assignedUser ? 'CONFIRMED' : 'TENTATIVE',
+    lastModified: task.updatedAt,
+  };
+}
+
+/**
+ * Check that the token user may create a feed, and work out the company it belongs to.
+ * Anyone can have a feed of their own jobs; managers can create feeds for cleaners,
+ * properties and the company they manage.
+ */
+export async function checkFeedCreateAccess(
+  tokenUser: JWTPayload,
+  scope: CalendarFeedScope,
+  targetId: number | null
+): Promise<{ companyId?: number; error?: string; httpStatus?: number }> {
+  const isCleaner = (tokenUser.role as UserRole) === UserRole.CLEANER;
+
+  if (scope === 'cleaner') {
+    const userId = targetId ?? tokenUser.userId;
+    if (userId !== tokenUser.userId && isCleaner) return { error: 'Forbidden', httpStatus: 403 };
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { companyId: true } });
+    if (!user) return { error: 'User not found', httpStatus: 404 };
+    if (!user.companyId) return { error: 'User has no company', httpStatus: 400 };
+    if (userId !== tokenUser.userId && !canAccessCompany(tokenUser, user.companyId)) {
+      return { error: 'Forbidden', httpStatus: 403 };
+    }
+    return { companyId: user.companyId };
+  }
+
+  if (isCleaner) return { error: 'Forbidden', httpStatus: 403 };
+
+  if (scope === 'property') {
+    if (!targetId) return { error: 'propertyId is required', httpStatus: 400 };
+    const property = await prisma.property.findUnique({ where: { id: targetId }, select: { companyId: true } });
+    if (!property) return { error: 'Property not found', httpStatus: 404 };
+    if (!canAccessCompany(tokenUser, property.companyId)) return { error: 'Forbidden', httpStatus: 403 };
+    return { companyId: property.companyId };
+  }
+
+  const companyId = targetId ?? tokenUser.companyId;
+  if (!companyId) return { error: 'companyId is required', httpStatus: 400 };
+  if (!canAccessCompany(tokenUser, companyId)) return { error: 'Forbidden', httpStatus: 403 };
+  return { companyId };
+}
+
+/**
+ * Render the feed behind a token, or an error when it's unknown or revoked
+ */
+export async function renderCalendarFeed(token: string, now: Date = new Date()): Promise<{ ics?: string; error?: string; httpStatus?: number }> {
+  const feed = await prisma.calendarFeed.findUnique({
+    where: { token },
+    include: {
+      user: { select: { firstName: true, lastName: true, email: true, isActive: true } },
+      property: { select: { address: true } },
+    },
+  });
+  // Unknown and revoked feeds look the same to the caller
+  if (!feed || feed.revokedAt || (feed.scope === 'cleaner' && !feed.user?.isActive)) {
+    return { error: 'Feed not found', httpStatus: 404 };
+  }
+
+  const where: any = {
+    companyId: feed.companyId,
+    status: { not: TaskStatus.ARCHIVED },
+    scheduledDate: {
+      gte: new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS),
+      lte: new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS),
+    },
+  };
+  let name: string;
+  if (feed.scope === 'cleaner') {
+    // Drafts can still change before they're planned, so cleaners don't see them yet
+    where.status = { notIn: [TaskStatus.ARCHIVED, TaskStatus.DRAFT] };
+    where.OR = [{ assignedUserId: feed.userId }, { taskAssignments: { some: { userId: feed.userId } } }];
+    const cleanerName = [feed.user?.firstName, feed.user?.lastName].filter(Boolean).join(' ') || feed.user?.email;
+    name = `MayaOps: ${cleanerName}`;
+  } else if (feed.scope === 'property') {
+    where.propertyId = feed.propertyId;
+    name = `MayaOps: ${feed.property?.address || 'Property'}`;
+  } else {
+    const company = await prisma.company.findUnique({ where: { id: feed.companyId }, select: { name: true } });
+    name = `MayaOps: ${company?.name || 'Company'}`;
+  }
+
+  const [timezone, tasks] = await Promise.all([
+    getCompanyTimezone(feed.companyId),
+    prisma.task.findMany({
+      where,
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        status: true,
+        scheduledDate: true,
+        updatedAt: true,
+        propertyId: true,
+        estimatedDurationMinutes: true,
+        property: { select: { address: true } },
+        assignedUser: { select: { firstName: true, lastName: true } },
+        checklists: { select: { title: true }, orderBy: { order: 'asc' } },
+      },
+      orderBy: { scheduledDate: 'asc' },
+    }),
+  ]);
+
+  // Tasks without an estimate use their property's typical duration
+  const averages = new Map<number, number>();
+  const events: IcsEvent[] = [];
+  for (const task of tasks) {
+    let duration = task.estimatedDurationMinutes;
+    if (!duration) {
+      if (!averages.has(task.propertyId)) averages.set(task.propertyId, await getPropertyAverageDuration(task.propertyId));
+      duration = averages.get(task.propertyId)!;
+    }
+    events.push(
+      taskToIcsEvent(
+        { ...task, scheduledDate: task.scheduledDate!, checklist: task.checklists.map(item => item.title) },
+        duration,
+        feed.scope as CalendarFeedScope
+      )
+    );
+  }
+
+  await prisma.calendarFeed.update({ where: { id: feed.id }, data: { lastAccessedAt: now } });
+
+  return { ics: buildIcsCalendar(name, timezone, events, now) };
+}
+
+/**
+ * Whether the token user may see or revoke a feed: its creator, the cleaner it belongs to,
+ * or a manager of its company
+ */
+export function canManageFeed(
+  tokenUser: JWTPayload,
+  feed: { companyId: number; userId: number | null; createdById: number }
+): boolean {
+  if (feed.createdById === tokenUser.userId || feed.userId === tokenUser.userId) return true;
+  return (tokenUser.role as UserRole) !== UserRole.CLEANER && canAccessCompany(tokenUser, feed.companyId);
+}
@@ -0,0 +1,310 @@
+/**
+ * Checklist Item Types
+ *
+ * Checklist items are typed, and each type decides what counts as an answer:
+ * - tick:    a simple checkbox
+ * - photo:   completed once at least one Photo is linked to the item
+ * - yes_no:  a yes/no answer; "no" requires a comment
+ * - numeric: a reading such as a meter value or temperature (optional unit)
+ * - text:    a free-text answer
+ *
+ * ChecklistTemplate.items stores a JSON array of definitions. Plain strings from
+ * templates created before item types existed are read as tick items.
+ *
+ * Definitions may carry conditions on the property (type, unit count, tags, required
+ * skills). They are evaluated when a checklist is instantiated for a task, so one
+ * template yields a different list for a studio flat than for a 6-bed HMO.
+ */
+
+export const CHECKLIST_ITEM_TYPES = ['tick', 'photo', 'yes_no', 'numeric', 'text'] as const;
+
+export type ChecklistItemType = (typeof CHECKLIST_ITEM_TYPES)[number];
+
+// Every condition present must hold; list conditions match when the property has any of the values
+export interface ChecklistItemConditions {
+  propertyTypes?: string[];
+  minUnits?: number;
+  maxUnits?: number;
+  tags?: string[];
+  skillIds?: number[];
+}
+
+export interface ChecklistItemDefinition {
+  title: string;
+  type: ChecklistItemType;
+  unit?: string | null;
+  required: boolean;
+  conditions?: ChecklistItemConditions;
+}
+
+// The property attributes item conditions are evaluated against
+export interface PropertyChecklistAttributes {
+  propertyType: string;
+  unitCount: number;
+  tags: string[];
+  skillIds: number[]; // Skills the property requires
+}
+
+// The copied columns of an existing ChecklistItem
+export interface ChecklistItemCopy {
+  title: string;
+  itemType: string;
+  unit: string | null;
+  isRequired: boolean;
+}
+
+// The answer columns of a ChecklistItem
+export interface ChecklistItemAnswer {
+  itemType: string;
+  isCompleted: boolean;
+  answerBoolean: boolean | null;
+  answerNumber: number | null;
+  answerText: string | null;
+  comment: string | null;
+  unit?: string | null;
+}
+
+/**
+ * Parse a property's tags column (JSON array) into normalised tags
+ */
+export function parsePropertyTags(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return Array.from(new Set<string>(
+      parsed.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '').map(tag => tag.trim().toLowerCase())
+    ));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Normalise tags from a request body (array or comma-separated string) for Property.tags
+ */
+export function serializePropertyTags(value: unknown): string | null {
+  const raw = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  const tags = parsePropertyTags(JSON.stringify(raw));
+  return tags.length > 0 ? JSON.stringify(tags) : null;
+}
+
+export function isChecklistItemType(value: unknown): value is ChecklistItemType {
+  return typeof value === 'string' && (CHECKLIST_ITEM_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Read the conditions of a template entry; absent or empty conditions yield undefined
+ */
+function toConditions(raw: any): { conditions?: ChecklistItemConditions; error?: string } {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { error: 'Checklist item conditions must be an object' };
+
+  const conditions: ChecklistItemConditions = {};
+  for (const key of ['propertyTypes', 'tags'] as const) {
+    if (raw[key] === undefined || raw[key] === null) continue;
+    if (!Array.isArray(raw[key])) return { error: `conditions.${key} must be an array` };
+    const values = Array.from(new Set<string>(
+      raw[key].filter((v: any) => typeof v === 'string' && v.trim()).map((v: string) => v.trim().toLowerCase())
+    ));
+    if (values.length > 0) conditions[key] = values;
+  }
+  if (raw.skillIds !== undefined && raw.skillIds !== null) {
+    if (!Array.isArray(raw.skillIds)) return { error: 'conditions.skillIds must be an array' };
+    const ids = Array.from(new Set<number>(raw.skillIds.map(Number).filter(Number.isInteger)));
+    if (ids.length > 0) conditions.skillIds = ids;
+  }
+  for (const key of ['minUnits', 'maxUnits'] as const) {
+    if (raw[key] === undefined || raw[key] === null || raw[key] === '') continue;
+    const value = Number(raw[key]);
+    if (!Number.isInteger(value) || value < 0) return { error: `conditions.${key} must be a whole number` };
+    conditions[key] = value;
+  }
+  if (conditions.minUnits !== undefined && conditions.maxUnits !== undefined && conditions.minUnits > conditions.maxUnits) {
+    return { error: 'conditions.minUnits cannot be greater than conditions.maxUnits' };
+  }
+
+  return Object.keys(conditions).length > 0 ? { conditions } : {};
+}
+
+/**
+ * Read one template entry; returns an error message for invalid entries
+ */
+function toDefinition(raw: any): { definition?: ChecklistItemDefinition; error?: string } {
+  if (typeof raw === 'string') {
+    return raw.trim() ? { definition: { title: raw.trim(), type: 'tick', required: true } } : { error: 'Checklist items need a title' };
+  }
+  const title = typeof raw?.title === 'string' ? raw.title.trim() : '';
+  if (!title) return { error: 'Checklist items need a title' };
+  const type = raw.type ?? 'tick';
+  if (!isChecklistItemType(type)) {
+    return { error: `Unknown checklist item type "${type}" (expected ${CHECKLIST_ITEM_TYPES.join(', ')})` };
+  }
+  const { conditions, error } = toConditions(raw.conditions);
+  if (error) return { error: `${title}: ${error}` };
+  return {
+    definition: {
+      title,
+      type,
+      unit: type === 'numeric' && typeof raw.unit === 'string' && raw.unit.trim() ? raw.unit.trim() : null,
+      required: raw.required !== false,
+      ...(conditions && { conditions }),
+    },
+  };
+}
+
+/**
+ * Parse stored template items, skipping entries that are not valid
+ */
+export function parseChecklistDefinitions(items: string): ChecklistItemDefinition[] {
+  try {
+    const parsed = JSON.parse(items);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(raw => toDefinition(raw).definition).filter((d): d is ChecklistItemDefinition => !!d);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Validate template items from a request body (array or JSON string)
+ */
+export function validateChecklistDefinitions(items: unknown): { items?: ChecklistItemDefinition[]; error?: string } {
+  let raw = items;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return { error: 'items must be a JSON array' };
+    }
+  }
+  if (!Array.isArray(raw) || raw.length === 0) return { error: 'At least one checklist item is required' };
+
+  const definitions: ChecklistItemDefinition[] = [];
+  for (const entry of raw) {
+    const { definition, error } = toDefinition(entry);
+    if (!definition) return { error };
+    definitions.push(definition);
+  }
+  return { items: definitions };
+}
+
+/**
+ * ChecklistItem create data for a definition (taskId is supplied by the caller or nested create)
+ */
+export function checklistItemData(definition: ChecklistItemDefinition, order: number) {
+  return {
+    title: definition.title,
+    itemType: definition.type,
+    unit: definition.unit ?? null,
+    isRequired: definition.required,
+    order,
+  };
+}
+
+/**
+ * Whether an item applies to a property (items without conditions always apply)
+ */
+export function itemAppliesToProperty(
+  definition: ChecklistItemDefinition,
+  property: PropertyChecklistAttributes
+): boolean {
+  const conditions = definition.conditions;
+  if (!conditions) return true;
+  const tags = property.tags.map(tag => tag.toLowerCase());
+
+  if (conditions.propertyTypes && !conditions.propertyTypes.includes(property.propertyType.toLowerCase())) return false;
+  if (conditions.minUnits !== undefined && property.unitCount < conditions.minUnits) return false;
+  if (conditions.maxUnits !== undefined && property.unitCount > conditions.maxUnits) return false;
+  if (conditions.tags && !conditions.tags.some(tag => tags.includes(tag))) return false;
+  if (conditions.skillIds && !conditions.skillIds.some(id => property.skillIds.includes(id))) return false;
+  return true;
+}
+
+/**
+ * ChecklistItem create data for a property: the template items that apply, in template
+ * order, followed by `extraItems` (items added by hand to a source task) that are not
+ * part of the template. Without a property every template item is used.
+ */
+export function checklistDataForProperty(
+  definitions: ChecklistItemDefinition[],
+  property: PropertyChecklistAttributes | null,
+  extraItems: ChecklistItemCopy[] = []
+) {
+  const applicable = property ? definitions.filter(item => itemAppliesToProperty(item, property)) : definitions;
+  const templateTitles = new Set(definitions.map(item => item.title));
+  const extras = extraItems.filter(item => !templateTitles.has(item.title));
+
+  return [
+    ...applicable.map((item, order) => checklistItemData(item, order)),
+    ...extras.map((item, index) => ({
+      title: item.title,
+      itemType: item.itemType,
+      unit: item.unit,
+      isRequired: item.isRequired,
+      order: applicable.length + index,
+    })),
+  ];
+}
+
+/**
+ * Validate an answer for an item and build the column update.
+ * `photoCount` is the number of photos linked to the item after this update.
+ */
+export function evaluateChecklistAnswer(
+  itemType: string,
+  body: any,
+  photoCount: number
+): { data?: Partial<ChecklistItemAnswer> & { completedAt: Date | null }; error?: string } {
+  const done = (isCompleted: boolean, fields: Partial<ChecklistItemAnswer> = {}) => ({
+    data: { ...fields, isCompleted, completedAt: isCompleted ? new Date() : null },
+  });
+
+  switch (itemType) {
+    case 'photo':
+      if (body.isCompleted && photoCount === 0) return { error: 'Attach at least one photo to complete this item' };
+      return done(photoCount > 0);
+
+    case 'yes_no': {
+      if (body.answerBoolean === null) return done(false, { answerBoolean: null, comment: null });
+      if (typeof body.answerBoolean !== 'boolean') return { error: 'answerBoolean must be true or false' };
+      const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+      if (body.answerBoolean === false && !comment) return { error: 'A comment is required when answering "no"' };
+      return done(true, { answerBoolean: body.answerBoolean, comment: comment || null });
+    }
+
+    case 'numeric': {
+      if (body.answerNumber === null || body.answerNumber === '') return done(false, { answerNumber: null });
+      const value = Number(body.answerNumber);
+      if (!Number.isFinite(value)) return { error: 'answerNumber must be a number' };
+      return done(true, { answerNumber: value });
+    }
+
+    case 'text': {
+      const text = typeof body.answerText === 'string' ? body.answerText.trim() : '';
+      return done(!!text, { answerText: text || null });
+    }
+
+    default:
+      return done(Boolean(body.isCompleted));
+  }
+}
+
+/**
+ * Human-readable answer for reports
+ */
+export function formatChecklistAnswer(item: ChecklistItemAnswer, photoCount = 0): string {
+  switch (item.itemType) {
+    case 'photo':
+      return photoCount > 0 ? `${photoCount} photo${photoCount === 1 ? '' : 's'}` : 'No photo';
+    case 'yes_no':
+      if (item.answerBoolean === null) return 'Not answered';
+      return item.answerBoolean ? 'Yes' : `No - ${item.comment || ''}`.trim();
+    case 'numeric':
+      return item.answerNumber === null ? 'Not recorded' : `${item.answerNumber}${item.unit ? ` ${item.unit}` : ''}`;
+    case 'text':
+      return item.answerText || 'Not answered';
+    default:
+      return item.isCompleted ? 'Done' : 'Not done';
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Checklist Template Versions
+ *
+ * Checklist templates are versioned: every change to a template's items creates an
+ * immutable ChecklistTemplateVersion with a change note, and tasks record the
+ * version their checklist was copied from (Task.checklistTemplateVersionId).
+ * - Editing a template never changes existing tasks
+ * - Managers can push a version to upcoming tasks that have not been started
+ * - Auditors can look up the version that was in effect on any date
+ * Conditional items are filtered against the task's property whenever a version is
+ * instantiated (new tasks, pushed versions, recurring instances and week clones).
+ */
+
+import prisma from "@/lib/prisma";
+import { TaskStatus } from "@prisma/client";
+import {
+  ChecklistItemCopy,
+  ChecklistItemDefinition,
+  checklistDataForProperty,
+  parseChecklistDefinitions,
+  parsePropertyTags,
+  PropertyChecklistAttributes,
+} from "@/lib/checklist-items";
+
+// Tasks in these statuses (and not yet acknowledged or started) can take a newer version
+export const VERSION_UPDATABLE_STATUSES: TaskStatus[] = [TaskStatus.DRAFT, TaskStatus.PLANNED, TaskStatus.ASSIGNED];
+
+export interface ChecklistChangeSummary {
+  added: string[];
+  removed: string[];
+  changed: string[]; // Same title, different type/unit/required/conditions
+}
+
+export interface PushVersionResult {
+  version: number;
+  updatedTaskIds: number[];
+  skippedTaskIds: number[]; // Candidates that already had answers recorded
+}
+
+/**
+ * Compare two sets of item definitions by title
+ */
+export function diffChecklistItems(
+  before: ChecklistItemDefinition[],
+  after: ChecklistItemDefinition[]
+): ChecklistChangeSummary {
+  const beforeByTitle = new Map(before.map(item => [item.title, item]));
+  const afterTitles = new Set(after.map(item => item.title));
+
+  return {
+    added: after.filter(item => !beforeByTitle.has(item.title)).map(item => item.title),
+    removed: before.filter(item => !afterTitles.has(item.title)).map(item => item.title),
+    changed: after
+      .filter(item => {
+        const previous = beforeByTitle.get(item.title);
+        return previous && (
+          previous.type !== item.type ||
+          (previous.unit ?? null) !== (item.unit ?? null) ||
+          previous.required !== item.required ||
+          JSON.stringify(previous.conditions ?? null) !== JSON.stringify(item.conditions ?? null)
+        );
+      })
+      .map(item => item.title),
+  };
+}
+
+/**
+ * One-line description of a change, used when no change note is given
+ */
+export function summarizeChecklistChanges(summary: ChecklistChangeSummary): string {
+  const parts = [
+    summary.added.length > 0 ? `Added: ${summary.added.join(', ')}` : null,
+    summary.removed.length > 0 ? `Removed: ${summary.removed.join(', ')}` : null,
+    summary.changed.length > 0 ? `Changed: ${summary.changed.join(', ')}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('; ') : 'Reordered items';
+}
+
+/**
+ * Create a template together with its first version
+ */
+export async function createChecklistTemplate(
+  data: { companyId: number; name: string; description?: string; isDefault: boolean },
+  items: ChecklistItemDefinition[],
+  userId: number
+) {
+  return prisma.checklistTemplate.create({
+    data: {
+      ...data,
+      items: JSON.stringify(items),
+      currentVersion: 1,
+      versions: {
+        create: { version: 1, items: JSON.stringify(items), changeNote: 'Initial version', createdById: userId },
+      },
+    },
+  });
+}
+
+/**
+ * Record new items for a template as the next version.
+ * Returns null when the items are identical to the current version.
+ */
+export async function createChecklistTemplateVersion(
+  template: { id: number; items: string; currentVersion: number },
+  items: ChecklistItemDefinition[],
+  changeNote: string | null | undefined,
+  userId: number
+) {
+  const serialized = JSON.stringify(items);
+  if (serialized === JSON.stringify(parseChecklistDefinitions(template.items))) return null;
+
+  const nextVersion = template.currentVersion + 1;
+  const note = changeNote?.trim() || summarizeChecklistChanges(
+    diffChecklistItems(parseChecklistDefinitions(template.items), items)
+  );
+
+  const [version] = await prisma.$transaction([
+    prisma.checklistTemplateVersion.create({
+      data: { templateId: template.id, version: nextVersion, items: serialized, changeNote: note, createdById: userId },
+    }),
+    prisma.checklistTemplate.update({
+      where: { id: template.id },
+      data: { items: serialized, currentVersion: nextVersion },
+    }),
+  ]);
+  return version;
+}
+
+/**
+ * Get the current version row of a template
+ */
+export async function getCurrentChecklistVersion(templateId: number) {
+  const template = await prisma.checklistTemplate.findUnique({
+    where: { id: templateId },
+    select: { currentVersion: true },
+  });
+  if (!template) return null;
+  return prisma.checklistTemplateVersion.findUnique({
+    where: { templateId_version: { templateId, version: template.currentVersion } },
+  });
+}
+
+/**
+ * Get the version that was in effect at a point in time
+ */
+export async function getChecklistVersionAt(templateId: number, at: Date) {
+  return prisma.checklistTemplateVersion.findFirst({
+    where: { templateId, createdAt: { lte: at } },
+    orderBy: { version: 'desc' },
+  });
+}
+
+/**
+ * Load the property attributes that checklist item conditions are evaluated against
+ */
+export async function getPropertyChecklistAttributes(propertyId: number): Promise<PropertyChecklistAttributes | null> {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    select: {
+      propertyType: true,
+      unitCount: true,
+      tags: true,
+      requiredSkills: { select: { skillId: true } },
+    },
+  });
+  if (!property) return null;
+  return {
+    propertyType: property.propertyType,
+    unitCount: property.unitCount,
+    tags: parsePropertyTags(property.tags),
+    skillIds: property.requiredSkills.map(skill => skill.skillId),
+  };
+}
+
+/**
+ * Checklist create data for a task copied from `source` (recurring instances, week clones).
+ * A checklist that came from a template version is rebuilt for the property's current
+ * attributes, keeping items added by hand; any other checklist is copied as-is.
+ */
+export async function copyChecklistForProperty(
+  source: { checklistTemplateVersionId: number | null; checklists: (ChecklistItemCopy & { order: number })[] },
+  propertyId: number
+) {
+  const existing = [...source.checklists].sort((a, b) => a.order - b.order);
+  const version = source.checklistTemplateVersionId
+    ? await prisma.checklistTemplateVersion.findUnique({ where: { id: source.checklistTemplateVersionId } })
+    : null;
+
+  if (!version) {
+    return checklistDataForProperty([], null, existing);
+  }
+  return checklistDataForProperty(
+    parseChecklistDefinitions(version.items),
+    await getPropertyChecklistAttributes(propertyId),
+    existing
+  );
+}
+
+/**
+ * Replace the checklist of upcoming, not-started tasks that use an older version of the
+ * same template. Tasks with any answered item are skipped so recorded work is never lost.
+ */
+export async function pushChecklistVersionToTasks(
+  versionId: number,
+  from: Date = new Date()
+): Promise<PushVersionResult | null> {
+  const version = await prisma.checklistTemplateVersion.findUnique({
+    where: { id: versionId },
+    include: { template: { select: { companyId: true } } },
+  });
+  if (!version) return null;
+
+  const candidates = await prisma.task.findMany({
+    where: {
+      companyId: version.template.companyId,
+      checklistTemplateVersion: { templateId: version.templateId },
+      checklistTemplateVersionId: { not: version.id },
+      status: { in: VERSION_UPDATABLE_STATUSES },
+      startedAt: null,
+      checklistAcknowledgedAt: null,
+      scheduledDate: { gte: from },
+    },
+    select: {
+      id: true,
+      propertyId: true,
+      checklists: { where: { isCompleted: true }, select: { id: true }, take: 1 },
+    },
+  });
+
+  const items = parseChecklistDefinitions(version.items);
+  const result: PushVersionResult = { version: version.version, updatedTaskIds: [], skippedTaskIds: [] };
+  const properties = new Map<number, PropertyChecklistAttributes | null>();
+
+  for (const task of candidates) {
+    if (task.checklists.length > 0) {
+      result.skippedTaskIds.push(task.id);
+      continue;
+    }
+    if (!properties.has(task.propertyId)) {
+      properties.set(task.propertyId, await getPropertyChecklistAttributes(task.propertyId));
+    }
+    const data = checklistDataForProperty(items, properties.get(task.propertyId)!);
+    await prisma.$transaction([
+      prisma.checklistItem.deleteMany({ where: { taskId: task.id } }),
+      prisma.checklistItem.createMany({
+        data: data.map(item => ({ taskId: task.id, ...item })),
+      }),
+      prisma.task.update({ where: { id: task.id }, data: { checklistTemplateVersionId: version.id } }),
+    ]);
+    result.updatedTaskIds.push(task.id);
+  }
+
+  return result;
+}
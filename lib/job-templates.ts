@@ -0,0 +1,200 @@
+/**
+ * Job Templates (task presets)
+ *
+ * A job template bundles the defaults needed to create a task: title, description,
+ * checklist template, estimated duration, budget, required skills, photo requirement
+ * and the property types it applies to.
+ *
+ * Templates are copied into tasks at creation time (jobTemplateId is kept only as a
+ * reference), so editing or deleting a template never rewrites existing tasks.
+ * Used by manual task creation, recurring series and Google Sheets imports.
+ */
+
+import prisma from "@/lib/prisma";
+import { ChecklistTemplateVersion, JobTemplate } from "@prisma/client";
+import {
+  ChecklistItemDefinition,
+  checklistDataForProperty,
+  parseChecklistDefinitions,
+  PropertyChecklistAttributes,
+} from "@/lib/checklist-items";
+import { getCurrentChecklistVersion } from "@/lib/checklist-templates";
+
+export const PROPERTY_TYPES = ['block', 'apartment', 'hmo'];
+
+export interface JobTemplateDefaults {
+  jobTemplateId: number;
+  title: string;
+  description: string | null;
+  estimatedDurationMinutes: number | null;
+  budget: number | null;
+  requiredSkillIds: string | null; // JSON array, stored on the task as-is
+  photoCountRequirement: number | null;
+  checklistItems: ChecklistItemDefinition[];
+  checklistTemplateVersionId: number | null; // Version the checklist items were copied from
+}
+
+// Job template columns a request can set (companyId comes from the caller's scope)
+export interface JobTemplateInput {
+  name: string;
+  title: string;
+  description?: string | null;
+  isActive?: boolean;
+  checklistTemplateId?: number | null;
+  estimatedDurationMinutes?: number | null;
+  photoCountRequirement?: number | null;
+  budget?: number | null;
+  requiredSkillIds?: string | null; // JSON array
+  propertyTypes?: string | null; // JSON array
+}
+
+/**
+ * Parse a JSON array column into numbers (invalid JSON yields an empty list)
+ */
+export function parseIdList(value: string | null | undefined): number[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(Number).filter(Number.isInteger) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse a JSON array column into strings (invalid JSON yields an empty list)
+ */
+export function parseStringList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether a template applies to a property type (no property types means every type)
+ */
+export function appliesToPropertyType(template: Pick<JobTemplate, 'propertyTypes'>, propertyType: string): boolean {
+  const types = parseStringList(template.propertyTypes);
+  return types.length === 0 || types.includes(propertyType);
+}
+
+/**
+ * Validate a create/update request body into job template columns.
+ * With `partial`, only the fields present in the body are returned.
+ */
+export function parseJobTemplateInput(
+  body: any,
+  partial = false
+): { data?: Partial<JobTemplateInput>; error?: string } {
+  const data: Partial<JobTemplateInput> = {};
+  const has = (key: string) => body?.[key] !== undefined;
+
+  for (const key of ['name', 'title'] as const) {
+    if (has(key) || !partial) {
+      if (typeof body?.[key] !== 'string' || body[key].trim() === '') return { error: `${key} is required` };
+      data[key] = body[key].trim();
+    }
+  }
+
+  if (has('description')) data.description = body.description || null;
+  if (has('isActive')) data.isActive = body.isActive !== false;
+
+  if (has('checklistTemplateId')) {
+    const id = body.checklistTemplateId === null || body.checklistTemplateId === '' ? null : Number(body.checklistTemplateId);
+    if (id !== null && !Number.isInteger(id)) return { error: 'checklistTemplateId must be an id' };
+    data.checklistTemplateId = id;
+  }
+
+  for (const key of ['estimatedDurationMinutes', 'photoCountRequirement'] as const) {
+    if (!has(key)) continue;
+    const value = body[key] === null || body[key] === '' ? null : Number(body[key]);
+    if (value !== null && (!Number.isInteger(value) || value < 0)) return { error: `${key} must be a whole number` };
+    data[key] = value;
+  }
+
+  if (has('budget')) {
+    const budget = body.budget === null || body.budget === '' ? null : Number(body.budget);
+    if (budget !== null && (!Number.isFinite(budget) || budget < 0)) return { error: 'budget must be a positive number' };
+    data.budget = budget;
+  }
+
+  if (has('requiredSkillIds')) {
+    if (!Array.isArray(body.requiredSkillIds)) return { error: 'requiredSkillIds must be an array' };
+    const ids = Array.from(new Set<number>(body.requiredSkillIds.map(Number).filter(Number.isInteger)));
+    data.requiredSkillIds = ids.length > 0 ? JSON.stringify(ids) : null;
+  }
+
+  if (has('propertyTypes')) {
+    if (!Array.isArray(body.propertyTypes)) return { error: 'propertyTypes must be an array' };
+    const invalid = body.propertyTypes.filter((type: any) => !PROPERTY_TYPES.includes(type));
+    if (invalid.length > 0) return { error: `Unknown property types: ${invalid.join(', ')}` };
+    data.propertyTypes = body.propertyTypes.length > 0 ? JSON.stringify(Array.from(new Set(body.propertyTypes))) : null;
+  }
+
+  return { data };
+}
+
+/**
+ * Snapshot a template (and the current version of its checklist) into task defaults
+ */
+export function buildTaskDefaults(
+  template: JobTemplate,
+  checklistVersion: ChecklistTemplateVersion | null
+): JobTemplateDefaults {
+  return {
+    jobTemplateId: template.id,
+    title: template.title,
+    description: template.description,
+    estimatedDurationMinutes: template.estimatedDurationMinutes,
+    budget: template.budget !== null ? Number(template.budget) : null,
+    requiredSkillIds: parseIdList(template.requiredSkillIds).length > 0 ? template.requiredSkillIds : null,
+    photoCountRequirement: template.photoCountRequirement,
+    checklistItems: checklistVersion ? parseChecklistDefinitions(checklistVersion.items) : [],
+    checklistTemplateVersionId: checklistVersion?.id ?? null,
+  };
+}
+
+/**
+ * Load an active template for a company and snapshot it into task defaults
+ */
+export async function getJobTemplateDefaults(
+  templateId: number,
+  companyId: number
+): Promise<JobTemplateDefaults | null> {
+  const template = await prisma.jobTemplate.findFirst({
+    where: { id: templateId, companyId, isActive: true },
+  });
+  if (!template) return null;
+  const checklistVersion = template.checklistTemplateId
+    ? await getCurrentChecklistVersion(template.checklistTemplateId)
+    : null;
+  return buildTaskDefaults(template, checklistVersion);
+}
+
+/**
+ * Build prisma task create data from template defaults.
+ * Values explicitly supplied in `overrides` win over the template; conditional checklist
+ * items are filtered for `property` when it is given.
+ */
+export function templateTaskData(
+  defaults: JobTemplateDefaults,
+  overrides: { title?: string | null; description?: string | null; estimatedDurationMinutes?: number | null; budget?: number | null } = {},
+  property: PropertyChecklistAttributes | null = null
+) {
+  const checklist = checklistDataForProperty(defaults.checklistItems, property);
+  return {
+    jobTemplateId: defaults.jobTemplateId,
+    title: overrides.title || defaults.title,
+    description: overrides.description ?? defaults.description,
+    estimatedDurationMinutes: overrides.estimatedDurationMinutes ?? defaults.estimatedDurationMinutes,
+    budget: overrides.budget ?? defaults.budget,
+    requiredSkillIds: defaults.requiredSkillIds,
+    photoCountRequirement: defaults.photoCountRequirement,
+    checklistTemplateVersionId: defaults.checklistTemplateVersionId,
+    checklists: checklist.length > 0 ? { create: checklist } : undefined,
+  };
+}
@@ -1,11 +1,13 @@
 import prisma from './prisma';
 import { UserRole } from '@prisma/client';
+import { addZonedDays, DEFAULT_TIMEZONE, formatZonedDateTime, getCompanyTimezone } from './timezone';
+import { CleanerRotaChanges, RotaSnapshotEntry } from './rota-publish';
 
 export interface NotificationPayload {
   userId: number;
   title: string;
   message: string;
-  type: 'task_assigned' | 'task_reminder' | 'missing_photos' | 'qa_result' | 'payment_alert' | 'high_severity_issue' | 'task_updated' | 'task_created';
+  type: 'task_assigned' | 'task_reminder' | 'missing_photos' | 'qa_result' | 'payment_alert' | 'high_severity_issue' | 'task_updated' | 'task_created' | 'sla_breach' | 'shift_swap' | 'open_shift' | 'task_cancelled' | 'rota_published';
   metadata?: Record<string, any>;
   screenRoute?: string; // e.g., 'TaskDetail', 'IssueDetail', etc.
   screenParams?: Record<string, any>; // e.g., { taskId: 123 }
@@ -24,6 +26,10 @@ function getScreenRoute(type: string, metadata?: Record<string, any>): { route?:
     case 'qa_result':
     case 'task_updated':
     case 'task_created':
+    case 'sla_breach':
+    case 'shift_swap':
+    case 'open_shift':
+    case 'task_cancelled':
       if (metadata.taskId) {
         return { route: 'TaskDetail', params: { taskId: metadata.taskId } };
       }
@@ -37,7 +43,8 @@ function getScreenRoute(type: string, metadata?: Record<string, any>): { route?:
       }
       break;
     case 'payment_alert':
-      // Payment alerts might not have a specific screen
+    case 'rota_published':
+      // Payment alerts and rota summaries might not have a specific screen
       break;
   }
 
@@ -155,7 +162,7 @@ function generateEmailTemplate(payload: NotificationPayload, user: { firstName:
           </div>
           <div class="content">
             <p>Hi ${userName},</p>
-            <p>${payload.message}</p>
+            <p>${payload.message.replace(/\n/g, '<br>')}</p>
             <p style="text-align: center; margin-top: 30px;">
               <a href="${process.env.NEXT_PUBLIC_APP_URL || 'https://app.mayaops.com'}" class="button">View Details</a>
             </p>
@@ -228,6 +235,30 @@ export async function sendTaskAssignmentNotifications(taskId: number, userIds: n
   }
 }
 
+/**
+ * When a reminder `hoursBefore` a task is due. Whole-day reminders keep the local wall-clock
+ * time, so the 24h reminder for a 09:00 task goes out at 09:00 the day before even across a
+ * DST change (23 or 25 hours earlier).
+ */
+export function getReminderTime(scheduledDate: Date, hoursBefore: number, timezone: string = DEFAULT_TIMEZONE): Date {
+  if (hoursBefore % 24 === 0) return addZonedDays(scheduledDate, -hoursBefore / 24, timezone);
+  return new Date(scheduledDate.getTime() - hoursBefore * 60 * 60 * 1000);
+}
+
+/**
+ * Whether an hourly reminder run at `now` should send the reminder: due within half an hour
+ * either side, so each reminder falls into exactly one run
+ */
+export function isReminderDue(
+  scheduledDate: Date,
+  hoursBefore: number,
+  now: Date,
+  timezone: string = DEFAULT_TIMEZONE
+): boolean {
+  const offset = getReminderTime(scheduledDate, hoursBefore, timezone).getTime() - now.getTime();
+  return offset >= -30 * 60 * 1000 && offset < 30 * 60 * 1000;
+}
+
 export async function sendTaskReminderNotification(taskId: number, hoursBeforeTask: number) {
   try {
     const task = await prisma.task.findUnique({
@@ -240,10 +271,11 @@ export async function sendTaskReminderNotification(taskId: number, hoursBeforeTa
 
     if (!task || !task.assignedUser) return;
 
+    const timezone = await getCompanyTimezone(task.companyId);
     await createNotification({
       userId: task.assignedUser.id,
       title: `Task Reminder - ${hoursBeforeTask}h`,
-      message: `Reminder: ${task.title}${task.property?.address ? ` at ${task.property.address}` : ''}${task.scheduledDate ? ` scheduled for ${task.scheduledDate.toLocaleString()}` : ''}`,
+      message: `Reminder: ${task.title}${task.property?.address ? ` at ${task.property.address}` : ''}${task.scheduledDate ? ` scheduled for ${formatZonedDateTime(task.scheduledDate, timezone)}` : ''}`,
       type: 'task_reminder',
       metadata: { taskId, hoursBeforeTask },
       screenRoute: 'TaskDetail',
@@ -319,6 +351,233 @@ export async function sendHighSeverityIssueNotification(companyId: number, taskI
   }
 }
 
+/**
+ * Send an SLA breach alert for a task to one escalation level (cleaners, managers or company admins)
+ */
+export async function sendSlaBreachNotification(
+  taskId: number,
+  userIds: number[],
+  kind: 'not_started' | 'at_risk' | 'missed',
+  dueBy: Date,
+  escalationLevel: number
+) {
+  try {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: { title: true, companyId: true, property: { select: { address: true } } },
+    });
+    if (!task) return;
+
+    const where = task.property?.address ? ` at ${task.property.address}` : '';
+    const deadline = formatZonedDateTime(dueBy, await getCompanyTimezone(task.companyId));
+    const messages = {
+      not_started: `${task.title}${where} has not started and must be finished by ${deadline}`,
+      at_risk: `${task.title}${where} is still in progress and must be finished by ${deadline}`,
+      missed: `${task.title}${where} missed its deadline of ${deadline}`,
+    };
+
+    for (const userId of userIds) {
+      await createNotification({
+        userId,
+        title: kind === 'missed' ? 'SLA Missed' : 'SLA At Risk',
+        message: messages[kind],
+        type: 'sla_breach',
+        metadata: { taskId, kind, dueBy: dueBy.toISOString(), escalationLevel },
+        screenRoute: 'TaskDetail',
+        screenParams: { taskId },
+      });
+    }
+  } catch (error) {
+    console.error('Error sending SLA breach notifications:', error);
+  }
+}
+
+/**
+ * Notify users about a step in a shift swap request
+ */
+export async function sendShiftSwapNotification(
+  swap: { id: number; taskId: number; requesterId: number; acceptedById: number | null },
+  userIds: number[],
+  event: 'offered' | 'accepted' | 'declined' | 'cancelled' | 'awaiting_approval' | 'approved' | 'rejected'
+) {
+  try {
+    const [task, requester, acceptedBy] = await Promise.all([
+      prisma.task.findUnique({
+        where: { id: swap.taskId },
+        select: { title: true, companyId: true, scheduledDate: true, property: { select: { address: true } } },
+      }),
+      prisma.user.findUnique({ where: { id: swap.requesterId }, select: { firstName: true, lastName: true } }),
+      swap.acceptedById
+        ? prisma.user.findUnique({ where: { id: swap.acceptedById }, select: { firstName: true, lastName: true } })
+        : null,
+    ]);
+    if (!task) return;
+
+    const name = (user: { firstName: string | null; lastName: string | null } | null) =>
+      user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || 'A colleague' : 'A colleague';
+    const when = task.scheduledDate
+      ? ` on ${formatZonedDateTime(task.scheduledDate, await getCompanyTimezone(task.companyId))}`
+      : '';
+    const job = `${task.title}${task.property?.address ? ` at ${task.property.address}` : ''}${when}`;
+    const messages = {
+      offered: { title: 'Shift Swap Offered', message: `${name(requester)} is offering ${job}` },
+      accepted: { title: 'Shift Swap Accepted', message: `${name(acceptedBy)} accepted ${job}. Waiting for manager approval.` },
+      declined: { title: 'Shift Swap Declined', message: `Your offer of ${job} was declined` },
+      cancelled: { title: 'Shift Swap Cancelled', message: `${name(requester)} withdrew the offer of ${job}` },
+      awaiting_approval: {
+        title: 'Shift Swap Needs Approval',
+        message: `${name(acceptedBy)} wants to take ${job} from ${name(requester)}`,
+      },
+      approved: { title: 'Shift Swap Approved', message: `${job} has moved from ${name(requester)} to ${name(acceptedBy)}` },
+      rejected: { title: 'Shift Swap Rejected', message: `The swap of ${job} was not approved` },
+    };
+
+    for (const userId of userIds) {
+      await createNotification({
+        userId,
+        title: messages[event].title,
+        message: messages[event].message,
+        type: 'shift_swap',
+        metadata: { taskId: swap.taskId, swapRequestId: swap.id, event },
+        screenRoute: 'TaskDetail',
+        screenParams: { taskId: swap.taskId },
+      });
+    }
+  } catch (error) {
+    console.error('Error sending shift swap notifications:', error);
+  }
+}
+
+/**
+ * Notify users about an open shift: published to eligible cleaners, a claim waiting for
+ * managers, or the outcome of a claim
+ */
+export async function sendOpenShiftNotification(
+  taskId: number,
+  userIds: number[],
+  event: 'published' | 'claim_pending' | 'approved' | 'rejected' | 'withdrawn',
+  claimantId?: number
+) {
+  try {
+    const [task, claimant] = await Promise.all([
+      prisma.task.findUnique({
+        where: { id: taskId },
+        select: { title: true, companyId: true, scheduledDate: true, property: { select: { address: true } } },
+      }),
+      claimantId
+        ? prisma.user.findUnique({ where: { id: claimantId }, select: { firstName: true, lastName: true, email: true } })
+        : null,
+    ]);
+    if (!task) return;
+
+    const when = task.scheduledDate
+      ? ` on ${formatZonedDateTime(task.scheduledDate, await getCompanyTimezone(task.companyId))}`
+      : '';
+    const job = `${task.title}${task.property?.address ? ` at ${task.property.address}` : ''}${when}`;
+    const claimantName = claimant
+      ? [claimant.firstName, claimant.lastName].filter(Boolean).join(' ') || claimant.email
+      : 'A cleaner';
+    const messages = {
+      published: { title: 'Open Shift Available', message: `${job} is open. Claim it in the app.` },
+      claim_pending: { title: 'Open Shift Claimed', message: `${claimantName} has claimed ${job} and needs approval` },
+      approved: { title: 'Open Shift Confirmed', message: `${job} is now assigned to you` },
+      rejected: { title: 'Open Shift Not Confirmed', message: `Your claim for ${job} was not approved` },
+      withdrawn: { title: 'Open Shift Withdrawn', message: `${job} is no longer available` },
+    };
+
+    for (const userId of userIds) {
+      await createNotification({
+        userId,
+        title: messages[event].title,
+        message: messages[event].message,
+        type: 'open_shift',
+        metadata: { taskId, event, claimantId },
+        screenRoute: 'TaskDetail',
+        screenParams: { taskId },
+      });
+    }
+  } catch (error) {
+    console.error('Error sending open shift notifications:', error);
+  }
+}
+
+/**
+ * Tell a cleaner, in one notification, which of their jobs were added, removed or moved when
+ * a week's rota was published
+ */
+export async function sendRotaPublishedNotification(
+  changes: CleanerRotaChanges,
+  weekStart: Date,
+  timezone: string = DEFAULT_TIMEZONE
+) {
+  try {
+    const when = (entry: RotaSnapshotEntry) =>
+      entry.scheduledDate ? formatZonedDateTime(new Date(entry.scheduledDate), timezone) : 'unscheduled';
+    const job = (entry: RotaSnapshotEntry) =>
+      `${entry.title}${entry.address ? ` at ${entry.address}` : ''}, ${when(entry)}`;
+    const lines = [
+      ...changes.added.map(entry => `Added: ${job(entry)}`),
+      ...changes.removed.map(entry => `Removed: ${job(entry)}`),
+      ...changes.moved.map(({ before, after }) =>
+        before.scheduledDate !== after.scheduledDate
+          ? `Moved: ${job(after)} (was ${when(before)})`
+          : `Changed: ${job(after)} (now ${after.durationMinutes ?? '?'} min)`
+      ),
+    ];
+    const week = weekStart.toLocaleDateString('en-GB', { timeZone: 'UTC', day: 'numeric', month: 'short', year: 'numeric' });
+
+    await createNotification({
+      userId: changes.cleanerId,
+      title: 'Rota Updated',
+      message: `Your rota for the week of ${week} has changed:\n${lines.join('\n')}`,
+      type: 'rota_published',
+      metadata: {
+        weekStart: weekStart.toISOString().slice(0, 10),
+        addedTaskIds: changes.added.map(entry => entry.taskId),
+        removedTaskIds: changes.removed.map(entry => entry.taskId),
+        movedTaskIds: changes.moved.map(({ after }) => after.taskId),
+      },
+    });
+    for (const entry of [...changes.added, ...changes.moved.map(({ after }) => after)]) {
+      await scheduleTaskReminders(entry.taskId);
+    }
+  } catch (error) {
+    console.error('Error sending rota published notification:', error);
+  }
+}
+
+/**
+ * Notify assignees that a task has been cancelled
+ */
+export async function sendTaskCancelledNotification(taskId: number, userIds: number[], reasonLabel: string) {
+  try {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: { title: true, companyId: true, scheduledDate: true, property: { select: { address: true } } },
+    });
+    if (!task) return;
+
+    const when = task.scheduledDate
+      ? ` on ${formatZonedDateTime(task.scheduledDate, await getCompanyTimezone(task.companyId))}`
+      : '';
+    const job = `${task.title}${task.property?.address ? ` at ${task.property.address}` : ''}${when}`;
+
+    for (const userId of userIds) {
+      await createNotification({
+        userId,
+        title: 'Task Cancelled',
+        message: `${job} has been cancelled (${reasonLabel})`,
+        type: 'task_cancelled',
+        metadata: { taskId, reason: reasonLabel },
+        screenRoute: 'TaskDetail',
+        screenParams: { taskId },
+      });
+    }
+  } catch (error) {
+    console.error('Error sending task cancelled notifications:', error);
+  }
+}
+
 export async function sendPaymentAlertNotification(companyId: number, adminUserIds: number[], reason: string) {
   try {
     for (const adminId of adminUserIds) {
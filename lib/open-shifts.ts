@@ -0,0 +1,369 @@
+/**
+ * Open Shifts
+ *
+ * Managers publish unassigned PLANNED tasks as open shifts (Task.openShiftPublishedAt).
+ * Cleaners only see and claim the shifts they are eligible for, using the rota checks
+ * from lib/rota-conflicts.ts: skills, availability, approved leave, max working hours and
+ * overlapping shifts. Any such warning makes the cleaner ineligible.
+ *
+ * The company chooses how claims are handled (AdminConfiguration.openShiftClaimMode):
+ * - first_come: the first eligible claim assigns the task straight away
+ * - approval:   claims queue up for a manager; approving one rejects the rest
+ * openShiftWeeklyClaimCap limits pending + approved claims per cleaner per week.
+ */
+
+import prisma from "@/lib/prisma";
+import { OpenShiftClaim, TaskStatus, UserRole } from "@prisma/client";
+import {
+  ConflictWarning,
+  getWeekBounds,
+  resolveTaskDuration,
+  validateAvailability,
+  validateMaxWorkingHours,
+  validateNoOverlap,
+  validateSkillCompatibility,
+} from "@/lib/rota-conflicts";
+import { getCompanyTimezone, getUserTimezone } from "@/lib/timezone";
+import { sendOpenShiftNotification, sendTaskAssignmentNotification, scheduleTaskReminders } from "@/lib/notifications";
+import { updateTaskAssignment } from "@/lib/task-lifecycle";
+
+export type OpenShiftClaimMode = 'first_come' | 'approval';
+
+export const OPEN_SHIFT_CLAIM_MODES: OpenShiftClaimMode[] = ['first_come', 'approval'];
+
+// Claims that count towards the weekly cap
+export const ACTIVE_CLAIM_STATUSES = ['pending', 'approved'];
+
+export interface OpenShiftSettings {
+  claimMode: OpenShiftClaimMode;
+  weeklyClaimCap: number | null;
+}
+
+export interface OpenShiftEligibility {
+  eligible: boolean;
+  reasons: string[];
+}
+
+export interface ClaimResult {
+  claim?: OpenShiftClaim;
+  assigned?: boolean; // The claim assigned the task (first_come mode)
+  error?: string;
+  httpStatus?: number;
+}
+
+interface OpenShiftTask {
+  id: number;
+  companyId: number;
+  status: TaskStatus;
+  scheduledDate: Date | null;
+  propertyId: number;
+  estimatedDurationMinutes: number | null;
+  assignedUserId: number | null;
+  openShiftPublishedAt: Date | null;
+  taskAssignments: { userId: number }[];
+}
+
+const openShiftTaskSelect = {
+  id: true,
+  companyId: true,
+  status: true,
+  scheduledDate: true,
+  propertyId: true,
+  estimatedDurationMinutes: true,
+  assignedUserId: true,
+  openShiftPublishedAt: true,
+  taskAssignments: { select: { userId: true } },
+} as const;
+
+/**
+ * Whether a task can be published (or stay published) as an open shift
+ */
+export function isOpenShiftCandidate(
+  task: Pick<OpenShiftTask, 'status' | 'scheduledDate' | 'assignedUserId' | 'taskAssignments'>,
+  now: Date = new Date()
+): boolean {
+  return task.status === TaskStatus.PLANNED &&
+    !task.assignedUserId &&
+    task.taskAssignments.length === 0 &&
+    !!task.scheduledDate &&
+    task.scheduledDate > now;
+}
+
+/**
+ * Turn rota warnings into an eligibility decision
+ */
+export function eligibilityFromWarnings(warnings: ConflictWarning[]): OpenShiftEligibility {
+  return { eligible: warnings.length === 0, reasons: warnings.map(w => w.message) };
+}
+
+/**
+ * Whether another claim would go over the weekly cap
+ */
+export function claimCapReached(claimsThisWeek: number, weeklyClaimCap: number | null): boolean {
+  return weeklyClaimCap !== null && claimsThisWeek >= weeklyClaimCap;
+}
+
+/**
+ * Load a company's open shift settings (defaults when it has no configuration)
+ */
+export async function getOpenShiftSettings(companyId: number): Promise<OpenShiftSettings> {
+  const config = await prisma.adminConfiguration.findUnique({
+    where: { companyId },
+    select: { openShiftClaimMode: true, openShiftWeeklyClaimCap: true },
+  });
+  return {
+    claimMode: config?.openShiftClaimMode === 'approval' ? 'approval' : 'first_come',
+    weeklyClaimCap: config?.openShiftWeeklyClaimCap ?? null,
+  };
+}
+
+/**
+ * Check whether a cleaner is eligible to take an open shift
+ */
+export async function checkOpenShiftEligibility(
+  cleanerId: number,
+  task: Pick<OpenShiftTask, 'id' | 'scheduledDate' | 'propertyId' | 'estimatedDurationMinutes'>,
+  timezone?: string
+): Promise<OpenShiftEligibility> {
+  if (!task.scheduledDate) return { eligible: false, reasons: ['Task is not scheduled'] };
+  const tz = timezone || await getUserTimezone(cleanerId);
+  const { weekStart, weekEnd } = getWeekBounds(task.scheduledDate, tz);
+  const duration = await resolveTaskDuration(task.propertyId, task.estimatedDurationMinutes);
+  const warnings = (await Promise.all([
+    validateSkillCompatibility(cleanerId, task.propertyId, task.id),
+    validateAvailability(cleanerId, task.scheduledDate, duration, tz),
+    validateMaxWorkingHours(cleanerId, task.id, task.scheduledDate, duration, weekStart, weekEnd, tz),
+    validateNoOverlap(cleanerId, task.id, task.scheduledDate, duration),
+  ])).flat();
+  return eligibilityFromWarnings(warnings);
+}
+
+/**
+ * Claims a cleaner has made for open shifts in the week containing `date`
+ */
+async function countWeeklyClaims(userId: number, date: Date, timezone: string): Promise<number> {
+  const { weekStart, weekEnd } = getWeekBounds(date, timezone);
+  return prisma.openShiftClaim.count({
+    where: {
+      userId,
+      status: { in: ACTIVE_CLAIM_STATUSES },
+      task: { scheduledDate: { gte: weekStart, lte: weekEnd } },
+    },
+  });
+}
+
+/**
+ * Publish tasks as open shifts. Tasks that are assigned, not PLANNED or in the past are skipped.
+ * Eligible cleaners are notified.
+ */
+export async function publishOpenShifts(
+  companyId: number,
+  taskIds: number[],
+  now: Date = new Date()
+): Promise<{ published: number[]; skipped: number[] }> {
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: taskIds }, companyId },
+    select: openShiftTaskSelect,
+  });
+  const candidates = tasks.filter(task => isOpenShiftCandidate(task, now));
+  const published = candidates.map(task => task.id);
+
+  if (published.length > 0) {
+    await prisma.task.updateMany({
+      where: { id: { in: published }, openShiftPublishedAt: null },
+      data: { openShiftPublishedAt: now },
+    });
+
+    const cleaners = await prisma.user.findMany({
+      where: { companyId, role: UserRole.CLEANER, isActive: true },
+      select: { id: true },
+    });
+    const timezone = await getCompanyTimezone(companyId);
+    for (const task of candidates) {
+      const eligibleIds: number[] = [];
+      for (const cleaner of cleaners) {
+        if ((await checkOpenShiftEligibility(cleaner.id, task, timezone)).eligible) eligibleIds.push(cleaner.id);
+      }
+      await sendOpenShiftNotification(task.id, eligibleIds, 'published');
+    }
+  }
+
+  return { published, skipped: taskIds.filter(id => !published.includes(id)) };
+}
+
+/**
+ * Withdraw an open shift; pending claims on it are rejected
+ */
+export async function unpublishOpenShift(taskId: number, managerId: number): Promise<void> {
+  const pending = await prisma.openShiftClaim.findMany({ where: { taskId, status: 'pending' }, select: { userId: true } });
+  await prisma.$transaction([
+    prisma.task.update({ where: { id: taskId }, data: { openShiftPublishedAt: null } }),
+    prisma.openShiftClaim.updateMany({
+      where: { taskId, status: 'pending' },
+      data: { status: 'rejected', decidedById: managerId, decidedAt: new Date() },
+    }),
+  ]);
+  if (pending.length > 0) await sendOpenShiftNotification(taskId, pending.map(c => c.userId), 'withdrawn');
+}
+
+/**
+ * Open shifts a cleaner is eligible for, with their own claim (if any) and weekly claim count
+ */
+export async function getOpenShiftsForCleaner(userId: number, companyId: number, now: Date = new Date()) {
+  const [tasks, settings] = await Promise.all([
+    prisma.task.findMany({
+      where: {
+        companyId,
+        openShiftPublishedAt: { not: null },
+        status: TaskStatus.PLANNED,
+        assignedUserId: null,
+        scheduledDate: { gt: now },
+      },
+      include: {
+        property: { select: { id: true, address: true, postcode: true } },
+        openShiftClaims: { where: { userId }, select: { id: true, status: true } },
+      },
+      orderBy: { scheduledDate: 'asc' },
+    }),
+    getOpenShiftSettings(companyId),
+  ]);
+  const timezone = await getCompanyTimezone(companyId);
+
+  const shifts = [];
+  for (const task of tasks) {
+    const eligibility = await checkOpenShiftEligibility(userId, task, timezone);
+    if (!eligibility.eligible) continue;
+    const claimsThisWeek = await countWeeklyClaims(userId, task.scheduledDate!, timezone);
+    const { openShiftClaims, ...rest } = task;
+    shifts.push({
+      ...rest,
+      myClaim: openShiftClaims[0] ?? null,
+      canClaim: !openShiftClaims[0] && !claimCapReached(claimsThisWeek, settings.weeklyClaimCap),
+    });
+  }
+
+  return { claimMode: settings.claimMode, weeklyClaimCap: settings.weeklyClaimCap, shifts };
+}
+
+/**
+ * Assign a claimed task to the cleaner. Only succeeds while the task is still an open shift,
+ * so two claims can never both assign it.
+ */
+async function assignClaimedShift(claimId: number, taskId: number, userId: number, decidedById: number | null) {
+  return prisma.$transaction(async (tx) => {
+    const status = await updateTaskAssignment(
+      tx,
+      { id: taskId, status: TaskStatus.PLANNED },
+      true,
+      { assignedUserId: userId, openShiftPublishedAt: null },
+      decidedById ?? userId,
+      { assignedUserId: null, openShiftPublishedAt: { not: null } }
+    );
+    if (!status) return null;
+
+    const decidedAt = new Date();
+    await tx.openShiftClaim.updateMany({
+      where: { taskId, status: 'pending', id: { not: claimId } },
+      data: { status: 'rejected', decidedById, decidedAt },
+    });
+    return tx.openShiftClaim.update({
+      where: { id: claimId },
+      data: { status: 'approved', decidedById, decidedAt },
+    });
+  });
+}
+
+/**
+ * Claim an open shift. In first_come mode the task is assigned immediately; in approval
+ * mode the claim waits for a manager.
+ */
+export async function claimOpenShift(taskId: number, userId: number, now: Date = new Date()): Promise<ClaimResult> {
+  const task = await prisma.task.findUnique({ where: { id: taskId }, select: openShiftTaskSelect });
+  if (!task || !task.openShiftPublishedAt) return { error: 'Open shift not found', httpStatus: 404 };
+  if (!isOpenShiftCandidate(task, now)) return { error: 'This shift has already been filled', httpStatus: 409 };
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { companyId: true, role: true, isActive: true } });
+  if (!user || user.companyId !== task.companyId || user.role !== UserRole.CLEANER || !user.isActive) {
+    return { error: 'Only cleaners in this company can claim this shift', httpStatus: 403 };
+  }
+
+  const existing = await prisma.openShiftClaim.findUnique({ where: { taskId_userId: { taskId, userId } } });
+  if (existing && existing.status !== 'withdrawn') {
+    return { error: `You have already claimed this shift (${existing.status})`, httpStatus: 409 };
+  }
+
+  const timezone = await getCompanyTimezone(task.companyId);
+  const eligibility = await checkOpenShiftEligibility(userId, task, timezone);
+  if (!eligibility.eligible) {
+    return { error: `You are not eligible for this shift: ${eligibility.reasons.join('; ')}`, httpStatus: 409 };
+  }
+
+  const settings = await getOpenShiftSettings(task.companyId);
+  if (claimCapReached(await countWeeklyClaims(userId, task.scheduledDate!, timezone), settings.weeklyClaimCap)) {
+    return { error: `You have reached the limit of ${settings.weeklyClaimCap} open shift claims this week`, httpStatus: 409 };
+  }
+
+  const claim = existing
+    ? await prisma.openShiftClaim.update({ where: { id: existing.id }, data: { status: 'pending', decidedById: null, decidedAt: null } })
+    : await prisma.openShiftClaim.create({ data: { taskId, userId, companyId: task.companyId } });
+
+  if (settings.claimMode === 'approval') {
+    const managers = await prisma.user.findMany({
+      where: { companyId: task.companyId, role: { in: [UserRole.MANAGER, UserRole.COMPANY_ADMIN] }, isActive: true },
+      select: { id: true },
+    });
+    await sendOpenShiftNotification(taskId, managers.map(m => m.id), 'claim_pending', userId);
+    return { claim, assigned: false };
+  }
+
+  const approved = await assignClaimedShift(claim.id, taskId, userId, null);
+  if (!approved) {
+    await prisma.openShiftClaim.update({ where: { id: claim.id }, data: { status: 'rejected', decidedAt: new Date() } });
+    return { error: 'This shift has already been filled', httpStatus: 409 };
+  }
+  await sendTaskAssignmentNotification(taskId, userId);
+  await scheduleTaskReminders(taskId);
+  return { claim: approved, assigned: true };
+}
+
+/**
+ * Withdraw a pending claim
+ */
+export async function withdrawOpenShiftClaim(taskId: number, userId: number): Promise<ClaimResult> {
+  const claim = await prisma.openShiftClaim.findUnique({ where: { taskId_userId: { taskId, userId } } });
+  if (!claim) return { error: 'Claim not found', httpStatus: 404 };
+  if (claim.status !== 'pending') return { error: `This claim is already ${claim.status}`, httpStatus: 409 };
+  return { claim: await prisma.openShiftClaim.update({ where: { id: claim.id }, data: { status: 'withdrawn' } }) };
+}
+
+/**
+ * Manager decision on a pending claim (approval mode). Approving assigns the task and
+ * rejects the other pending claims; their cleaners are notified.
+ */
+export async function decideOpenShiftClaim(claimId: number, managerId: number, approved: boolean): Promise<ClaimResult> {
+  const claim = await prisma.openShiftClaim.findUnique({ where: { id: claimId } });
+  if (!claim) return { error: 'Claim not found', httpStatus: 404 };
+  if (claim.status !== 'pending') return { error: `This claim is already ${claim.status}`, httpStatus: 409 };
+
+  if (!approved) {
+    const rejected = await prisma.openShiftClaim.update({
+      where: { id: claimId },
+      data: { status: 'rejected', decidedById: managerId, decidedAt: new Date() },
+    });
+    await sendOpenShiftNotification(claim.taskId, [claim.userId], 'rejected');
+    return { claim: rejected };
+  }
+
+  const others = await prisma.openShiftClaim.findMany({
+    where: { taskId: claim.taskId, status: 'pending', id: { not: claimId } },
+    select: { userId: true },
+  });
+  const result = await assignClaimedShift(claimId, claim.taskId, claim.userId, managerId);
+  if (!result) return { error: 'This shift is no longer open', httpStatus: 409 };
+
+  await sendOpenShiftNotification(claim.taskId, [claim.userId], 'approved');
+  if (others.length > 0) await sendOpenShiftNotification(claim.taskId, others.map(c => c.userId), 'rejected');
+  await sendTaskAssignmentNotification(claim.taskId, claim.userId);
+  await scheduleTaskReminders(claim.taskId);
+  return { claim: result, assigned: true };
+}
@@ -2,6 +2,7 @@ import { Task, Photo, Note, ChecklistItem, Property, User } from '@prisma/client
 import PDFDocument from 'pdfkit';
 import path from 'path';
 import fs from 'fs';
+import { formatChecklistAnswer } from '@/lib/checklist-items';
 
 export interface PDFTaskData extends Task {
   property: Property | null;
@@ -234,7 +235,14 @@ export async function generateTaskPDF(task: PDFTaskData): Promise<PDFGenerationR
         doc.text(`Completion: ${completedCount}/${task.checklists.length} (${Math.round((completedCount / task.checklists.length) * 100)}%)`);
         doc.moveDown(0.5);
         task.checklists.forEach((item) => {
-          doc.text(`${item.isCompleted ? '✓' : '☐'} ${item.title}`);
+          // Ticks show only the mark; other types show their answer (reading, yes/no, text, photo count)
+          const line = `${item.isCompleted ? '✓' : '☐'} ${item.title}`;
+          if (item.itemType === 'tick') {
+            doc.text(line);
+          } else {
+            const photoCount = task.photos.filter(p => p.checklistItemId === item.id).length;
+            doc.text(`${line}: ${formatChecklistAnswer(item, photoCount)}`);
+          }
         });
         doc.moveDown();
       }
@@ -279,6 +287,12 @@ export async function generateTaskPDF(task: PDFTaskData): Promise<PDFGenerationR
             doc.fontSize(10).font('Helvetica-Bold').text(`Photo ${i + 1}`);
             doc.moveDown(0.3);
           }
+
+          const evidenceFor = task.checklists.find(c => c.id === photo.checklistItemId);
+          if (evidenceFor) {
+            doc.fontSize(8).font('Helvetica').text(`Checklist evidence: ${evidenceFor.title}`);
+            doc.moveDown(0.3);
+          }
           
           if (photo.takenAt) {
             doc.fontSize(8).font('Helvetica').text(`Taken: ${new Date(photo.takenAt).toLocaleString()}`);
@@ -337,6 +351,12 @@ export async function generateTaskPDF(task: PDFTaskData): Promise<PDFGenerationR
             doc.fontSize(10).font('Helvetica-Bold').text(`Photo ${i + 1}`);
             doc.moveDown(0.3);
           }
+
+          const evidenceFor = task.checklists.find(c => c.id === photo.checklistItemId);
+          if (evidenceFor) {
+            doc.fontSize(8).font('Helvetica').text(`Checklist evidence: ${evidenceFor.title}`);
+            doc.moveDown(0.3);
+          }
           
           if (photo.takenAt) {
             doc.fontSize(8).font('Helvetica').text(`Taken: ${new Date(photo.takenAt).toLocaleString()}`);
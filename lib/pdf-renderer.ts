@@ -1,5 +1,6 @@
 import PDFDocument from 'pdfkit';
 import { Readable } from 'stream';
+import { ChecklistItemAnswer, formatChecklistAnswer } from '@/lib/checklist-items';
 
 interface PDFOptions {
   taskId: number;
@@ -8,7 +9,7 @@ interface PDFOptions {
   cleanerName: string;
   completedAt: string;
   photos: { url: string; photoType: string; caption?: string }[];
-  checklists: { title: string; isCompleted: boolean }[];
+  checklists: ({ title: string; isCompleted: boolean } & Partial<ChecklistItemAnswer> & { photoCount?: number })[];
   notes: { content: string; noteType: string }[];
   issues: { content: string; severity: string; category: string }[];
 }
@@ -40,7 +41,18 @@ export async function generatePDFBuffer(options: PDFOptions): Promise<Buffer> {
       doc.fontSize(14).font('Helvetica-Bold').text('Checklist Acknowledgment');
       doc.fontSize(10).font('Helvetica');
       options.checklists.forEach((item) => {
-        doc.text(`${item.isCompleted ? '✓' : '☐'} ${item.title}`);
+        const line = `${item.isCompleted ? '✓' : '☐'} ${item.title}`;
+        doc.text(item.itemType && item.itemType !== 'tick'
+          ? `${line}: ${formatChecklistAnswer({
+              itemType: item.itemType,
+              isCompleted: item.isCompleted,
+              answerBoolean: item.answerBoolean ?? null,
+              answerNumber: item.answerNumber ?? null,
+              answerText: item.answerText ?? null,
+              comment: item.comment ?? null,
+              unit: item.unit,
+            }, item.photoCount)}`
+          : line);
       });
       doc.moveDown();
     }
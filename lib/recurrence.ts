@@ -0,0 +1,722 @@
+/**
+ * Recurrence Engine (iCalendar RRULE)
+ *
+ * Expands recurring task series defined with an RFC 5545 RRULE subset:
+ * - FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with INTERVAL
+ * - BYDAY (e.g. MO,WE,FR or 1TU / -1FR for monthly/yearly rules)
+ * - BYMONTHDAY, BYMONTH
+ * - COUNT or UNTIL to end the series
+ *
+ * Series also carry EXDATE skips (local YYYY-MM-DD dates) and per-occurrence
+ * overrides keyed by the original occurrence date. Expansion happens in the
+ * company's timezone so "every Monday at 09:00" stays at 09:00 across DST.
+ */
+
+import prisma from "@/lib/prisma";
+import { Task, TaskStatus } from "@prisma/client";
+import {
+  LocalDate,
+  addLocalDays,
+  formatLocalDate,
+  getCompanyTimezone,
+  getLocalWeekday,
+  getZonedParts,
+  parseLocalDate,
+  toLocalDateKey,
+  zonedTimeToUtc,
+} from "@/lib/timezone";
+import { ConflictWarning, validateAssignment } from "@/lib/rota-conflicts";
+import { copyChecklistForProperty } from "@/lib/checklist-templates";
+import { shiftDeadline } from "@/lib/sla";
+import { assignmentStatus, initialStatusHistory } from "@/lib/task-lifecycle";
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface ByDayRule {
+  weekday: number; // 0 = Sunday, 6 = Saturday
+  ordinal?: number; // 1 = first, -1 = last (monthly/yearly only)
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: ByDayRule[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  count?: number;
+  until?: Date;
+}
+
+export interface OccurrenceOverride {
+  date?: string; // Move the occurrence to another local date (YYYY-MM-DD)
+  time?: string; // Move the occurrence to another local time (HH:MM)
+  title?: string;
+  description?: string;
+  assignedUserIds?: number[];
+  estimatedDurationMinutes?: number;
+}
+
+export interface RecurrenceSeries {
+  rule: RecurrenceRule;
+  start: Date; // DTSTART - first occurrence and time of day
+  timezone: string;
+  exdates?: string[]; // Local dates (YYYY-MM-DD) to skip
+  overrides?: Record<string, OccurrenceOverride>; // Keyed by original local date (YYYY-MM-DD)
+}
+
+export interface Occurrence {
+  occurrenceDate: Date; // Original start generated by the rule (series identity)
+  localDate: string; // Original local date (YYYY-MM-DD)
+  scheduledDate: Date; // Start after applying any override
+  override?: OccurrenceOverride;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Legacy Task.recurringPattern values mapped onto equivalent rules
+const LEGACY_PATTERN_RULES: Record<string, string> = {
+  daily: 'FREQ=DAILY',
+  weekly: 'FREQ=WEEKLY',
+  biweekly: 'FREQ=WEEKLY;INTERVAL=2',
+  monthly: 'FREQ=MONTHLY',
+};
+
+// Hard stop so a bad rule can never spin forever
+const MAX_ITERATIONS = 10000;
+
+// Days ahead the rolling generator materialises when a company has no configuration
+export const DEFAULT_RECURRENCE_HORIZON_DAYS = 14;
+
+/**
+ * Parse an RRULE string ("FREQ=WEEKLY;BYDAY=MO,WE,FR", optional "RRULE:" prefix)
+ * Throws an Error with a user-facing message when the rule is invalid or unsupported.
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const source = value.trim().replace(/^RRULE:/i, '');
+  if (!source) throw new Error('Recurrence rule is empty');
+
+  const parts: Record<string, string> = {};
+  for (const segment of source.split(';')) {
+    if (!segment) continue;
+    const [key, val] = segment.split('=');
+    if (!key || val === undefined) throw new Error(`Invalid recurrence rule segment "${segment}"`);
+    parts[key.toUpperCase()] = val.toUpperCase();
+  }
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new Error(`Unsupported recurrence frequency "${parts.FREQ || ''}"`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  if (parts.INTERVAL !== undefined) {
+    rule.interval = Number(parts.INTERVAL);
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) throw new Error('INTERVAL must be a positive integer');
+  }
+
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.split(',').map(code => {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code);
+      if (!match) throw new Error(`Invalid BYDAY value "${code}"`);
+      const ordinal = match[1] ? Number(match[1]) : undefined;
+      if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+        throw new Error(`Invalid BYDAY ordinal "${code}"`);
+      }
+      if (ordinal !== undefined && (freq === 'DAILY' || freq === 'WEEKLY')) {
+        throw new Error('BYDAY ordinals are only supported for MONTHLY and YEARLY rules');
+      }
+      return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+    });
+  }
+
+  if (parts.BYMONTHDAY) {
+    rule.byMonthDay = parts.BYMONTHDAY.split(',').map(Number);
+    if (rule.byMonthDay.some(d => !Number.isInteger(d) || d === 0 || d < -31 || d > 31)) {
+      throw new Error('BYMONTHDAY values must be between 1 and 31 (or -1 to -31)');
+    }
+  }
+
+  if (parts.BYMONTH) {
+    rule.byMonth = parts.BYMONTH.split(',').map(Number);
+    if (rule.byMonth.some(m => !Number.isInteger(m) || m < 1 || m > 12)) {
+      throw new Error('BYMONTH values must be between 1 and 12');
+    }
+  }
+
+  if (parts.COUNT !== undefined && parts.UNTIL !== undefined) {
+    throw new Error('COUNT and UNTIL cannot both be set');
+  }
+
+  if (parts.COUNT !== undefined) {
+    rule.count = Number(parts.COUNT);
+    if (!Number.isInteger(rule.count) || rule.count < 1) throw new Error('COUNT must be a positive integer');
+  }
+
+  if (parts.UNTIL !== undefined) {
+    rule.until = parseICalDate(parts.UNTIL);
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a rule back to RRULE form (without the "RRULE:" prefix)
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const segments = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) segments.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    segments.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) segments.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) segments.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.count) segments.push(`COUNT=${rule.count}`);
+  if (rule.until) segments.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  return segments.join(';');
+}
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME (20250131, 20250131T090000Z) or an ISO string
+ */
+function parseICalDate(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (match) {
+    const [, y, m, d, hh, mm, ss] = match;
+    // A bare date means the series ends after that whole day
+    return hh === undefined
+      ? new Date(Date.UTC(Number(y), Number(m) - 1, Number(d), 23, 59, 59))
+      : new Date(Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)));
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid UNTIL value "${value}"`);
+  return date;
+}
+
+/**
+ * Convert a legacy recurringPattern ("daily", "weekly", "biweekly", "monthly") to an RRULE string
+ */
+export function legacyPatternToRRule(pattern: string | null | undefined): string | null {
+  if (!pattern) return null;
+  return LEGACY_PATTERN_RULES[pattern.toLowerCase()] || null;
+}
+
+/**
+ * Resolve the effective RRULE string for a task (new rule column first, then legacy pattern)
+ */
+export function getTaskRRule(task: Pick<Task, 'recurrenceRule' | 'recurringPattern'>): string | null {
+  return task.recurrenceRule || legacyPatternToRRule(task.recurringPattern);
+}
+
+/**
+ * Parse the JSON EXDATE list stored on a task
+ */
+export function parseExdates(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter(d => typeof d === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse the JSON per-occurrence override map stored on a task
+ */
+export function parseOverrides(value: string | null | undefined): Record<string, OccurrenceOverride> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Validate EXDATE input from a request body; returns normalized YYYY-MM-DD strings
+ */
+export function normalizeExdates(input: unknown, timezone: string): string[] {
+  if (!Array.isArray(input)) throw new Error('exdates must be an array of dates');
+  return Array.from(new Set(input.map(value => {
+    if (typeof value !== 'string') throw new Error('exdates must be an array of dates');
+    if (parseLocalDate(value)) return value.trim();
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) throw new Error(`Invalid exdate "${value}"`);
+    return toLocalDateKey(date, timezone);
+  }))).sort();
+}
+
+/**
+ * Validate per-occurrence override input from a request body
+ */
+export function normalizeOverrides(input: unknown): Record<string, OccurrenceOverride> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('overrides must be an object keyed by occurrence date (YYYY-MM-DD)');
+  }
+
+  const result: Record<string, OccurrenceOverride> = {};
+  for (const [key, raw] of Object.entries(input as Record<string, any>)) {
+    if (!parseLocalDate(key)) throw new Error(`Invalid override date "${key}"`);
+    if (!raw || typeof raw !== 'object') throw new Error(`Invalid override for ${key}`);
+
+    const override: OccurrenceOverride = {};
+    if (raw.date !== undefined) {
+      if (!parseLocalDate(String(raw.date))) throw new Error(`Invalid override date for ${key}`);
+      override.date = String(raw.date);
+    }
+    if (raw.time !== undefined) {
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(String(raw.time))) throw new Error(`Invalid override time for ${key}`);
+      override.time = String(raw.time);
+    }
+    if (raw.title !== undefined) override.title = String(raw.title);
+    if (raw.description !== undefined) override.description = String(raw.description);
+    if (raw.assignedUserIds !== undefined) {
+      if (!Array.isArray(raw.assignedUserIds)) throw new Error(`assignedUserIds override for ${key} must be an array`);
+      override.assignedUserIds = raw.assignedUserIds.map(Number);
+    }
+    if (raw.estimatedDurationMinutes !== undefined) {
+      override.estimatedDurationMinutes = Number(raw.estimatedDurationMinutes);
+    }
+    result[key] = override;
+  }
+  return result;
+}
+
+export interface RecurrenceInput {
+  isRecurring?: boolean;
+  recurrenceRule?: string | null;
+  recurringPattern?: string | null;
+  recurrenceExdates?: unknown;
+  recurrenceOverrides?: unknown;
+}
+
+/**
+ * Validate recurrence fields from a task request body and map them to Task columns.
+ * Only fields present in the input are returned. Throws an Error with a user-facing message.
+ */
+export function buildRecurrenceData(input: RecurrenceInput, timezone: string): Record<string, any> {
+  const data: Record<string, any> = {};
+
+  if (input.isRecurring === false) {
+    return { isRecurring: false, recurrenceRule: null, recurringPattern: null };
+  }
+
+  if (input.recurrenceRule !== undefined || input.recurringPattern !== undefined) {
+    const rrule = input.recurrenceRule || legacyPatternToRRule(input.recurringPattern);
+    if (!rrule) throw new Error('A valid recurrence rule is required for recurring tasks');
+    data.recurrenceRule = formatRRule(parseRRule(rrule));
+    data.recurringPattern = input.recurrenceRule ? null : input.recurringPattern;
+  }
+
+  if (input.recurrenceExdates !== undefined) {
+    data.recurrenceExdates = input.recurrenceExdates === null
+      ? null
+      : JSON.stringify(normalizeExdates(input.recurrenceExdates, timezone));
+  }
+
+  if (input.recurrenceOverrides !== undefined) {
+    data.recurrenceOverrides = input.recurrenceOverrides === null
+      ? null
+      : JSON.stringify(normalizeOverrides(input.recurrenceOverrides));
+  }
+
+  if (input.isRecurring) {
+    if (!data.recurrenceRule) throw new Error('A valid recurrence rule is required for recurring tasks');
+    data.isRecurring = true;
+  }
+
+  return data;
+}
+
+/**
+ * Candidate local dates produced by a single period of the rule
+ */
+function getPeriodCandidates(rule: RecurrenceRule, periodStart: LocalDate, dtstart: LocalDate): LocalDate[] {
+  switch (rule.freq) {
+    case 'DAILY': {
+      return [periodStart];
+    }
+    case 'WEEKLY': {
+      const weekdays = rule.byDay?.length ? rule.byDay.map(d => d.weekday) : [getLocalWeekday(dtstart)];
+      // Weeks start on Monday (RRULE default WKST=MO)
+      const offsetToMonday = (getLocalWeekday(periodStart) + 6) % 7;
+      const monday = addLocalDays(periodStart, -offsetToMonday);
+      return weekdays
+        .map(weekday => addLocalDays(monday, (weekday + 6) % 7))
+        .sort(compareLocalDates);
+    }
+    case 'MONTHLY':
+    case 'YEARLY': {
+      return getMonthCandidates(rule, periodStart.year, periodStart.month, dtstart);
+    }
+  }
+}
+
+/**
+ * Candidate local dates within one calendar month for MONTHLY / YEARLY rules
+ */
+function getMonthCandidates(rule: RecurrenceRule, year: number, month: number, dtstart: LocalDate): LocalDate[] {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const days = new Set<number>();
+
+  if (rule.byMonthDay?.length) {
+    for (const d of rule.byMonthDay) {
+      const day = d > 0 ? d : daysInMonth + d + 1;
+      if (day >= 1 && day <= daysInMonth) days.add(day);
+    }
+  }
+
+  if (rule.byDay?.length) {
+    const firstWeekday = getLocalWeekday({ year, month, day: 1 });
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1 + ((weekday - firstWeekday + 7) % 7); day <= daysInMonth; day += 7) {
+        matching.push(day);
+      }
+      if (ordinal === undefined) {
+        matching.forEach(day => days.add(day));
+      } else {
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day !== undefined) days.add(day);
+      }
+    }
+  }
+
+  if (!rule.byMonthDay?.length && !rule.byDay?.length && dtstart.day <= daysInMonth) {
+    // Default to the DTSTART day of month; months without that day are skipped (RFC 5545)
+    days.add(dtstart.day);
+  }
+
+  return Array.from(days).sort((a, b) => a - b).map(day => ({ year, month, day }));
+}
+
+function compareLocalDates(a: LocalDate, b: LocalDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+/**
+ * Advance the period start by INTERVAL units of the rule's frequency
+ */
+function advancePeriod(rule: RecurrenceRule, periodStart: LocalDate): LocalDate {
+  switch (rule.freq) {
+    case 'DAILY':
+      return addLocalDays(periodStart, rule.interval);
+    case 'WEEKLY':
+      return addLocalDays(periodStart, 7 * rule.interval);
+    case 'MONTHLY': {
+      const monthIndex = periodStart.month - 1 + rule.interval;
+      return { year: periodStart.year + Math.floor(monthIndex / 12), month: (monthIndex % 12) + 1, day: 1 };
+    }
+    case 'YEARLY':
+      return { year: periodStart.year + rule.interval, month: 1, day: 1 };
+  }
+}
+
+/**
+ * Expand a series into occurrences whose scheduled start falls within [from, to].
+ * EXDATEs are removed after COUNT is applied, as in RFC 5545.
+ */
+export function expandRecurrence(series: RecurrenceSeries, from: Date, to: Date): Occurrence[] {
+  const { rule, timezone } = series;
+  const startParts = getZonedParts(series.start, timezone);
+  const dtstart: LocalDate = { year: startParts.year, month: startParts.month, day: startParts.day };
+  const exdates = new Set(series.exdates || []);
+  const overrides = series.overrides || {};
+
+  const toOccurrenceStart = (date: LocalDate) =>
+    zonedTimeToUtc({ ...date, hour: startParts.hour, minute: startParts.minute }, timezone);
+
+  // Overrides can move an occurrence, so look a little beyond the window for moved-in dates
+  const searchEnd = new Date(to.getTime() + 31 * 24 * 60 * 60 * 1000);
+  const occurrences: Occurrence[] = [];
+  let generated = 0;
+  let periodStart: LocalDate = rule.freq === 'YEARLY'
+    ? { year: dtstart.year, month: 1, day: 1 }
+    : rule.freq === 'MONTHLY' ? { ...dtstart, day: 1 } : dtstart;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const candidates: LocalDate[] = rule.freq === 'YEARLY'
+      ? (rule.byMonth?.length ? rule.byMonth : [dtstart.month])
+          .slice()
+          .sort((a, b) => a - b)
+          .flatMap(month => getMonthCandidates(rule, periodStart.year, month, dtstart))
+      : getPeriodCandidates(rule, periodStart, dtstart);
+
+    for (const candidate of candidates) {
+      if (compareLocalDates(candidate, dtstart) < 0) continue;
+      if (rule.byMonth?.length && rule.freq !== 'YEARLY' && !rule.byMonth.includes(candidate.month)) continue;
+      if (rule.freq === 'DAILY' && rule.byDay?.length && !rule.byDay.some(d => d.weekday === getLocalWeekday(candidate))) continue;
+      if (rule.freq === 'DAILY' && rule.byMonthDay?.length && !rule.byMonthDay.includes(candidate.day)) continue;
+
+      const occurrenceDate = toOccurrenceStart(candidate);
+      if (rule.until && occurrenceDate > rule.until) return occurrences;
+      if (rule.count && generated >= rule.count) return occurrences;
+      if (occurrenceDate > searchEnd) return occurrences;
+      generated++;
+
+      const localDate = formatLocalDate(candidate);
+      if (exdates.has(localDate)) continue;
+
+      const override = overrides[localDate];
+      const scheduledDate = override ? applyOverride(candidate, startParts, override, timezone) : occurrenceDate;
+      if (scheduledDate < from || scheduledDate > to) continue;
+
+      occurrences.push({ occurrenceDate, localDate, scheduledDate, override });
+    }
+
+    periodStart = advancePeriod(rule, periodStart);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Compute the scheduled start of an overridden occurrence
+ */
+function applyOverride(
+  date: LocalDate,
+  startParts: { hour: number; minute: number },
+  override: OccurrenceOverride,
+  timezone: string
+): Date {
+  const targetDate = (override.date && parseLocalDate(override.date)) || date;
+  const [hour, minute] = override.time
+    ? override.time.split(':').map(Number)
+    : [startParts.hour, startParts.minute];
+  return zonedTimeToUtc({ ...targetDate, hour, minute }, timezone);
+}
+
+/**
+ * Build the expansion input for a recurring parent task
+ */
+export async function getTaskRecurrenceSeries(
+  task: Pick<Task, 'companyId' | 'occurrenceDate' | 'scheduledDate' | 'createdAt' | 'recurrenceRule' | 'recurringPattern' | 'recurrenceExdates' | 'recurrenceOverrides'>
+): Promise<RecurrenceSeries | null> {
+  const rrule = getTaskRRule(task);
+  if (!rrule) return null;
+
+  return {
+    rule: parseRRule(rrule),
+    // A parent promoted from an occurrence keeps its original slot even if that occurrence was moved
+    start: task.occurrenceDate || task.scheduledDate || task.createdAt,
+    timezone: await getCompanyTimezone(task.companyId),
+    exdates: parseExdates(task.recurrenceExdates),
+    overrides: parseOverrides(task.recurrenceOverrides),
+  };
+}
+
+/**
+ * Start of the first occurrence after `after` as generated by the rule (ignoring EXDATEs and
+ * overrides), or null when the series has ended
+ */
+export function nextOccurrenceStart(series: RecurrenceSeries, after: Date): Date | null {
+  // Long enough for one period of any rule, plus a month for skipped dates
+  const to = new Date(after.getTime() + (366 * series.rule.interval + 31) * 24 * 60 * 60 * 1000);
+  const [next] = expandRecurrence({ ...series, exdates: [], overrides: {} }, new Date(after.getTime() + 1), to);
+  return next ? next.occurrenceDate : null;
+}
+
+/**
+ * Whether a series still has occurrences to generate after `now`. Decided by the rule's
+ * UNTIL/COUNT alone: the parent's own status is that of the first occurrence, not the series.
+ */
+export function isSeriesLive(series: RecurrenceSeries, now: Date): boolean {
+  return nextOccurrenceStart(series, now) !== null;
+}
+
+export interface SeriesSplit {
+  before: { rule: RecurrenceRule; exdates: string[]; overrides: Record<string, OccurrenceOverride> };
+  after: { rule: RecurrenceRule | null; exdates: string[]; overrides: Record<string, OccurrenceOverride> };
+}
+
+/**
+ * Split a series at an occurrence start ("this and following").
+ * The original series ends just before `at`; the remainder keeps the same cadence and
+ * any COUNT left over (null when nothing remains). EXDATEs and overrides go with their half.
+ */
+export function splitSeriesAt(series: RecurrenceSeries, at: Date): SeriesSplit {
+  const { rule, timezone } = series;
+  const splitKey = toLocalDateKey(at, timezone);
+
+  // COUNT includes skipped dates, so count raw occurrences before the split
+  const consumed = expandRecurrence({ ...series, exdates: [], overrides: {} }, series.start, new Date(at.getTime() - 1)).length;
+  const remaining = rule.count ? rule.count - consumed : undefined;
+
+  const cutoff = new Date(at.getTime() - 1000);
+  const before: RecurrenceRule = { ...rule, count: undefined, until: rule.until && rule.until < cutoff ? rule.until : cutoff };
+  const after: RecurrenceRule | null = remaining !== undefined && remaining < 1 ? null : { ...rule, count: remaining };
+
+  const exdates = series.exdates || [];
+  const overrides = Object.entries(series.overrides || {});
+  return {
+    before: {
+      rule: before,
+      exdates: exdates.filter(date => date < splitKey),
+      overrides: Object.fromEntries(overrides.filter(([date]) => date < splitKey)),
+    },
+    after: {
+      rule: after,
+      exdates: exdates.filter(date => date >= splitKey),
+      overrides: Object.fromEntries(overrides.filter(([date]) => date >= splitKey)),
+    },
+  };
+}
+
+export interface GenerateInstancesOptions {
+  from: Date;
+  to: Date;
+  limit?: number; // Only materialise the next N occurrences in the window
+}
+
+export interface InstanceConflict {
+  taskId: number;
+  userId: number;
+  occurrenceDate: Date;
+  warnings: ConflictWarning[];
+}
+
+export interface GenerateInstancesResult {
+  instances: Task[]; // Every instance in the window, existing or newly created
+  created: number;
+  skipped: number; // Occurrences that already had an instance
+  conflicts: InstanceConflict[];
+}
+
+/**
+ * Materialise the child tasks of a recurring series within a window.
+ * The parent task stands for the DTSTART occurrence and is returned in its place.
+ * Existing instances (matched on parentTaskId + occurrenceDate, which is unique) are returned
+ * unchanged, so repeated or overlapping runs over the same window are idempotent.
+ * New instances copy assignments, checklist, duration, budget and job template settings from the parent and are
+ * checked with validateAssignment; conflicts are reported but do not block generation. Instances with
+ * assignees start ASSIGNED (so the cleaner can start them), the rest DRAFT.
+ */
+export async function generateRecurringInstances(
+  parentTaskId: number,
+  options: GenerateInstancesOptions
+): Promise<GenerateInstancesResult | null> {
+  const task = await prisma.task.findUnique({
+    where: { id: parentTaskId },
+    include: {
+      checklists: { orderBy: { order: 'asc' } },
+      taskAssignments: { select: { userId: true } },
+    },
+  });
+
+  if (!task || !task.isRecurring) {
+    return null;
+  }
+
+  const series = await getTaskRecurrenceSeries(task);
+  if (!series) {
+    return null;
+  }
+
+  let occurrences = expandRecurrence(series, options.from, options.to);
+  if (options.limit) occurrences = occurrences.slice(0, options.limit);
+
+  const result: GenerateInstancesResult = { instances: [], created: 0, skipped: 0, conflicts: [] };
+  // The parent is itself the first occurrence (DTSTART), so it never gets a child
+  const parentStart = series.start.getTime();
+  occurrences = occurrences.filter(occurrence => {
+    if (occurrence.occurrenceDate.getTime() !== parentStart) return true;
+    result.instances.push(task);
+    result.skipped++;
+    return false;
+  });
+  // Template checklists are rebuilt once per run against the property's current attributes
+  const checklist = occurrences.length > 0 ? await copyChecklistForProperty(task, task.propertyId) : [];
+  for (const occurrence of occurrences) {
+    // Check if instance already exists for this occurrence
+    const existingInstance = await prisma.task.findFirst({
+      where: {
+        parentTaskId: task.id,
+        OR: [
+          { occurrenceDate: occurrence.occurrenceDate },
+          // Instances generated before occurrenceDate existed only matched on scheduledDate
+          { occurrenceDate: null, scheduledDate: occurrence.scheduledDate },
+        ],
+      },
+    });
+
+    if (existingInstance) {
+      result.instances.push(existingInstance);
+      result.skipped++;
+      continue;
+    }
+
+    const override = occurrence.override;
+    const assigneeIds = override?.assignedUserIds
+      ?? (task.taskAssignments.length > 0
+        ? task.taskAssignments.map(ta => ta.userId)
+        : task.assignedUserId ? [task.assignedUserId] : []);
+    const durationMinutes = override?.estimatedDurationMinutes ?? task.estimatedDurationMinutes;
+    const status = assignmentStatus(TaskStatus.DRAFT, assigneeIds.length > 0);
+
+    let instance: Task;
+    try {
+      instance = await prisma.task.create({
+        data: {
+          title: override?.title ?? task.title, // Keep original title, date is in scheduledDate
+          description: override?.description ?? task.description,
+          companyId: task.companyId,
+          propertyId: task.propertyId,
+          assignedUserId: assigneeIds[0] ?? null,
+          scheduledDate: occurrence.scheduledDate,
+          occurrenceDate: occurrence.occurrenceDate,
+          dueBy: shiftDeadline(task, occurrence.scheduledDate),
+          estimatedDurationMinutes: durationMinutes,
+          budget: task.budget,
+          jobTemplateId: task.jobTemplateId,
+          requiredSkillIds: task.requiredSkillIds,
+          photoCountRequirement: task.photoCountRequirement,
+          checklistTemplateVersionId: task.checklistTemplateVersionId,
+          status,
+          statusHistory: initialStatusHistory(status, null), // Generated, not changed by anyone
+          isRecurring: false,
+          parentTaskId: task.id, // Link to parent recurring task
+          // Copy task assignments to the new instance
+          taskAssignments: assigneeIds.length > 0 ? {
+            create: assigneeIds.map(userId => ({ userId })),
+          } : undefined,
+          // Copy checklist from parent (completion state is per instance)
+          checklists: checklist.length > 0 ? { create: checklist } : undefined,
+        },
+      });
+    } catch (error: any) {
+      // Another run created this occurrence since the check above
+      if (error?.code !== 'P2002') throw error;
+      const existing = await prisma.task.findFirst({
+        where: { parentTaskId: task.id, occurrenceDate: occurrence.occurrenceDate },
+      });
+      if (existing) result.instances.push(existing);
+      result.skipped++;
+      continue;
+    }
+
+    for (const userId of assigneeIds) {
+      const validation = await validateAssignment(
+        userId,
+        instance.id,
+        occurrence.scheduledDate,
+        task.propertyId,
+        durationMinutes
+      );
+      if (validation.warnings.length > 0) {
+        result.conflicts.push({
+          taskId: instance.id,
+          userId,
+          occurrenceDate: occurrence.occurrenceDate,
+          warnings: validation.warnings,
+        });
+      }
+    }
+
+    result.instances.push(instance);
+    result.created++;
+  }
+
+  return result;
+}
@@ -0,0 +1,411 @@
+/**
+ * Recurring Series Edits
+ *
+ * Series-aware update and delete for recurring tasks, mirroring calendar apps:
+ * - "this": only the selected occurrence
+ * - "following": the selected occurrence and every later one (the series is split)
+ * - "all": the whole series
+ *
+ * Occurrences that have already started or finished are protected: they are never
+ * rewritten or deleted by a series operation, only re-linked where needed. That includes the
+ * series parent, which is the first occurrence: once it has started it leaves the series as a
+ * standalone task and the next occurrence carries the series on.
+ */
+
+import prisma from "@/lib/prisma";
+import { Prisma, Task, TaskStatus } from "@prisma/client";
+import { assignmentStatus, initialStatusHistory, updateTaskAssignment } from "@/lib/task-lifecycle";
+import {
+  formatRRule,
+  getTaskRecurrenceSeries,
+  nextOccurrenceStart,
+  parseExdates,
+  splitSeriesAt,
+} from "@/lib/recurrence";
+import { toLocalDateKey } from "@/lib/timezone";
+import { shiftDeadline } from "@/lib/sla";
+
+export type SeriesScope = 'this' | 'following' | 'all';
+
+export const SERIES_SCOPES: SeriesScope[] = ['this', 'following', 'all'];
+
+// Occurrences in these statuses have not started and may be changed by series edits
+export const EDITABLE_OCCURRENCE_STATUSES: TaskStatus[] = [
+  TaskStatus.DRAFT,
+  TaskStatus.PLANNED,
+  TaskStatus.ASSIGNED,
+];
+
+export interface SeriesChangeResult {
+  seriesTaskId: number | null; // Parent the changes were applied to (new parent after a split)
+  updatedTaskIds: number[];
+  deletedTaskIds: number[];
+  protectedTaskIds: number[]; // Started/completed occurrences left untouched
+}
+
+type Tx = Prisma.TransactionClient;
+
+// Clears the series settings from a task that leaves its series
+const STANDALONE_TASK_DATA = {
+  isRecurring: false,
+  recurrenceRule: null,
+  recurringPattern: null,
+  recurrenceExdates: null,
+  recurrenceOverrides: null,
+};
+
+/**
+ * Parse a scope value from a request; undefined/empty falls back to the default
+ */
+export function parseSeriesScope(value: unknown, fallback: SeriesScope = 'this'): SeriesScope | null {
+  if (value === undefined || value === null || value === '') return fallback;
+  return SERIES_SCOPES.includes(value as SeriesScope) ? (value as SeriesScope) : null;
+}
+
+/**
+ * Whether an occurrence can still be changed or removed by a series operation
+ */
+export function isOccurrenceEditable(status: TaskStatus): boolean {
+  return EDITABLE_OCCURRENCE_STATUSES.includes(status);
+}
+
+/**
+ * Original occurrence start of a series child (legacy children only have scheduledDate)
+ */
+function getOccurrenceStart(task: Pick<Task, 'occurrenceDate' | 'scheduledDate' | 'createdAt'>): Date {
+  return task.occurrenceDate || task.scheduledDate || task.createdAt;
+}
+
+function shiftDate(date: Date | null, shiftMs: number): Date | null {
+  return date && shiftMs ? new Date(date.getTime() + shiftMs) : date;
+}
+
+/**
+ * The generated child for an occurrence start, if there is one
+ */
+function findOccurrence(tx: Tx, parentId: number, at: Date): Promise<Task | null> {
+  return tx.task.findFirst({
+    where: {
+      parentTaskId: parentId,
+      // Legacy children only matched on scheduledDate
+      OR: [{ occurrenceDate: at }, { occurrenceDate: null, scheduledDate: at }],
+    },
+  });
+}
+
+/**
+ * Split the parent's series at an occurrence: the parent ends before it and a new parent
+ * continues from it. The occurrence's own child is promoted to be the new parent, so the slot
+ * keeps a single task; when none has been generated yet, a new parent is created (copying
+ * fields, assignments and checklist). An occurrence that has already started stays with the
+ * old series and the split moves on to the next one. Children from the split onwards are
+ * moved to the new parent.
+ */
+async function splitSeries(tx: Tx, parent: Task, at: Date, changedById: number | null): Promise<Task | null> {
+  const series = await getTaskRecurrenceSeries(parent);
+  if (!series) return null;
+
+  let splitAt: Date | null = at;
+  let occurrence = await findOccurrence(tx, parent.id, at);
+  while (splitAt && occurrence && !isOccurrenceEditable(occurrence.status)) {
+    splitAt = nextOccurrenceStart(series, splitAt);
+    occurrence = splitAt ? await findOccurrence(tx, parent.id, splitAt) : null;
+  }
+  // Nothing editable follows, so the series is left as it is
+  if (!splitAt) return null;
+
+  const { before, after } = splitSeriesAt(series, splitAt);
+
+  await tx.task.update({
+    where: { id: parent.id },
+    data: {
+      recurrenceRule: formatRRule(before.rule),
+      recurringPattern: null,
+      recurrenceExdates: before.exdates.length > 0 ? JSON.stringify(before.exdates) : null,
+      recurrenceOverrides: Object.keys(before.overrides).length > 0 ? JSON.stringify(before.overrides) : null,
+    },
+  });
+
+  if (!after.rule) return null;
+
+  const seriesData = {
+    isRecurring: true,
+    recurrenceRule: formatRRule(after.rule),
+    recurrenceExdates: after.exdates.length > 0 ? JSON.stringify(after.exdates) : null,
+    recurrenceOverrides: Object.keys(after.overrides).length > 0 ? JSON.stringify(after.overrides) : null,
+  };
+
+  let nextParent: Task;
+  if (occurrence) {
+    nextParent = await tx.task.update({
+      where: { id: occurrence.id },
+      data: { ...seriesData, parentTaskId: null, occurrenceDate: splitAt },
+    });
+  } else {
+    const [assignments, checklist] = await Promise.all([
+      tx.taskAssignment.findMany({ where: { taskId: parent.id }, select: { userId: true } }),
+      tx.checklistItem.findMany({ where: { taskId: parent.id }, orderBy: { order: 'asc' } }),
+    ]);
+
+    // The old parent may be a started first occurrence; the new one has not started
+    const status = assignmentStatus(
+      isOccurrenceEditable(parent.status) ? parent.status : TaskStatus.PLANNED,
+      assignments.length > 0 || parent.assignedUserId !== null
+    );
+    nextParent = await tx.task.create({
+      data: {
+        ...seriesData,
+        title: parent.title,
+        description: parent.description,
+        companyId: parent.companyId,
+        propertyId: parent.propertyId,
+        assignedUserId: parent.assignedUserId,
+        scheduledDate: splitAt,
+        dueBy: shiftDeadline(parent, splitAt),
+        status,
+        statusHistory: initialStatusHistory(status, changedById),
+        estimatedDurationMinutes: parent.estimatedDurationMinutes,
+        budget: parent.budget,
+        jobTemplateId: parent.jobTemplateId,
+        requiredSkillIds: parent.requiredSkillIds,
+        photoCountRequirement: parent.photoCountRequirement,
+        checklistTemplateVersionId: parent.checklistTemplateVersionId,
+        taskAssignments: assignments.length > 0 ? {
+          create: assignments.map(a => ({ userId: a.userId })),
+        } : undefined,
+        checklists: checklist.length > 0 ? {
+          create: checklist.map(item => ({ title: item.title, itemType: item.itemType, unit: item.unit, isRequired: item.isRequired, order: item.order })),
+        } : undefined,
+      },
+    });
+  }
+
+  await tx.task.updateMany({
+    where: { parentTaskId: parent.id, occurrenceDate: { gte: splitAt } },
+    data: { parentTaskId: nextParent.id },
+  });
+
+  return nextParent;
+}
+
+/**
+ * Take a started or finished series parent out of its series, leaving it as a standalone
+ * task. The series continues from the next occurrence under a new parent (null when nothing
+ * follows); children left before that point become standalone too.
+ */
+async function detachParent(tx: Tx, parent: Task, changedById: number | null): Promise<Task | null> {
+  const series = await getTaskRecurrenceSeries(parent);
+  const next = series ? nextOccurrenceStart(series, series.start) : null;
+  const nextParent = next ? await splitSeries(tx, parent, next, changedById) : null;
+  await tx.task.updateMany({ where: { parentTaskId: parent.id }, data: { parentTaskId: null } });
+  await tx.task.update({ where: { id: parent.id }, data: STANDALONE_TASK_DATA });
+  return nextParent;
+}
+
+/**
+ * Write an edit to one editable occurrence. New assignees go through updateTaskAssignment, so the
+ * occurrence moves between PLANNED and ASSIGNED with a history entry like any other assignment.
+ */
+async function updateOccurrence(
+  tx: Tx,
+  occurrence: Task,
+  data: Prisma.TaskUncheckedUpdateManyInput,
+  assigneeIds: number[] | undefined,
+  changedById: number | null
+) {
+  if (!assigneeIds) {
+    await tx.task.update({ where: { id: occurrence.id }, data });
+    return;
+  }
+  const status = await updateTaskAssignment(
+    tx,
+    occurrence,
+    assigneeIds.length > 0,
+    { ...data, assignedUserId: assigneeIds[0] ?? null },
+    changedById
+  );
+  if (!status) throw new Error(`Task ${occurrence.id} changed during a series edit`);
+  await tx.taskAssignment.deleteMany({ where: { taskId: occurrence.id } });
+  if (assigneeIds.length > 0) {
+    await tx.taskAssignment.createMany({ data: assigneeIds.map(userId => ({ taskId: occurrence.id, userId })) });
+  }
+}
+
+/**
+ * Apply an update to "this and following" or "all" occurrences of the series `task` belongs to.
+ * `data` holds the changed task fields and is applied to the series parent and every editable
+ * child, along with `assigneeIds` when the assignees change. `shiftMs` moves scheduled starts by
+ * the same offset; occurrence identities move with it so the generator does not re-create shifted
+ * occurrences. `changedById` is recorded against status changes and any parent a split creates.
+ */
+export async function updateSeries(
+  task: Task,
+  scope: Exclude<SeriesScope, 'this'>,
+  data: Prisma.TaskUncheckedUpdateManyInput,
+  shiftMs: number = 0,
+  changedById: number | null = null,
+  assigneeIds?: number[]
+): Promise<SeriesChangeResult> {
+  const parentId = task.parentTaskId ?? task.id;
+  const from = task.parentTaskId && scope === 'following' ? getOccurrenceStart(task) : null;
+
+  return prisma.$transaction(async (tx) => {
+    const parent = await tx.task.findUniqueOrThrow({ where: { id: parentId } });
+    const protectedTaskIds: number[] = [];
+    let seriesTask: Task | null = parent;
+    let childWhere: Prisma.TaskWhereInput = { parentTaskId: parent.id };
+    if (from) {
+      seriesTask = await splitSeries(tx, parent, from, changedById);
+      // Nothing continues after the split, so only the existing later children remain to update
+      childWhere = seriesTask
+        ? { parentTaskId: seriesTask.id }
+        : { parentTaskId: parent.id, occurrenceDate: { gte: from } };
+    } else if (!isOccurrenceEditable(parent.status)) {
+      // The first occurrence has started: leave it as it is and edit the rest of the series
+      seriesTask = await detachParent(tx, parent, changedById);
+      protectedTaskIds.push(parent.id);
+      childWhere = seriesTask ? { parentTaskId: seriesTask.id } : { id: { in: [] } };
+    }
+
+    const result: SeriesChangeResult = {
+      seriesTaskId: seriesTask?.id ?? null,
+      updatedTaskIds: [],
+      deletedTaskIds: [],
+      protectedTaskIds,
+    };
+
+    if (seriesTask) {
+      await updateOccurrence(tx, seriesTask, {
+        ...data,
+        occurrenceDate: shiftDate(seriesTask.occurrenceDate, shiftMs),
+        scheduledDate: shiftDate(seriesTask.scheduledDate, shiftMs),
+        dueBy: shiftDate(seriesTask.dueBy, shiftMs),
+      }, assigneeIds, changedById);
+      result.updatedTaskIds.push(seriesTask.id);
+    }
+
+    // Occurrence dates are unique per series: when shifting, move the occurrence furthest along
+    // first so no child lands on a date another child still holds
+    const children = await tx.task.findMany({
+      where: childWhere,
+      orderBy: { occurrenceDate: shiftMs > 0 ? 'desc' : 'asc' },
+    });
+
+    for (const child of children) {
+      const occurrenceDate = shiftDate(getOccurrenceStart(child), shiftMs);
+      if (!isOccurrenceEditable(child.status)) {
+        if (shiftMs) await tx.task.update({ where: { id: child.id }, data: { occurrenceDate } });
+        result.protectedTaskIds.push(child.id);
+        continue;
+      }
+
+      await updateOccurrence(tx, child, {
+        ...data,
+        occurrenceDate,
+        scheduledDate: shiftDate(child.scheduledDate, shiftMs),
+        dueBy: shiftDate(child.dueBy, shiftMs),
+      }, assigneeIds, changedById);
+      result.updatedTaskIds.push(child.id);
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Delete tasks along with rows that do not cascade (checklist items, photos)
+ */
+async function deleteTasks(tx: Tx, taskIds: number[]) {
+  if (taskIds.length === 0) return;
+  await tx.checklistItem.deleteMany({ where: { taskId: { in: taskIds } } });
+  await tx.photo.deleteMany({ where: { taskId: { in: taskIds } } });
+  await tx.task.deleteMany({ where: { id: { in: taskIds } } });
+}
+
+/**
+ * Delete an occurrence, the occurrence and all following ones, or a whole series.
+ * - "this" on a child removes it and records an EXDATE so it is not generated again
+ * - "following" ends the series before the occurrence and removes later editable children
+ * - "all" removes the parent and editable children; protected children, and a parent whose
+ *   occurrence has started, are kept as standalone tasks
+ * Callers must check that a "this" target is editable and is not a series parent.
+ */
+export async function deleteSeries(task: Task, scope: SeriesScope): Promise<SeriesChangeResult> {
+  const parentId = task.parentTaskId ?? (task.isRecurring ? task.id : null);
+
+  return prisma.$transaction(async (tx) => {
+    const result: SeriesChangeResult = {
+      seriesTaskId: parentId,
+      updatedTaskIds: [],
+      deletedTaskIds: [],
+      protectedTaskIds: [],
+    };
+
+    if (scope === 'this' || !parentId) {
+      if (task.parentTaskId) {
+        const parent = await tx.task.findUniqueOrThrow({ where: { id: task.parentTaskId } });
+        const series = await getTaskRecurrenceSeries(parent);
+        if (series) {
+          const exdate = toLocalDateKey(getOccurrenceStart(task), series.timezone);
+          const exdates = Array.from(new Set([...parseExdates(parent.recurrenceExdates), exdate])).sort();
+          await tx.task.update({ where: { id: parent.id }, data: { recurrenceExdates: JSON.stringify(exdates) } });
+          result.updatedTaskIds.push(parent.id);
+        }
+      }
+      await deleteTasks(tx, [task.id]);
+      result.deletedTaskIds.push(task.id);
+      return result;
+    }
+
+    const parent = await tx.task.findUniqueOrThrow({ where: { id: parentId } });
+    const from = task.parentTaskId && scope === 'following' ? getOccurrenceStart(task) : null;
+
+    const children = await tx.task.findMany({
+      where: { parentTaskId: parent.id, ...(from ? { occurrenceDate: { gte: from } } : {}) },
+      select: { id: true, status: true },
+    });
+    const removable = children.filter(child => isOccurrenceEditable(child.status)).map(child => child.id);
+    result.protectedTaskIds = children.filter(child => !isOccurrenceEditable(child.status)).map(child => child.id);
+
+    if (from) {
+      // End the series before this occurrence; nothing continues after it
+      const series = await getTaskRecurrenceSeries(parent);
+      if (series) {
+        const { before } = splitSeriesAt(series, from);
+        await tx.task.update({
+          where: { id: parent.id },
+          data: {
+            recurrenceRule: formatRRule(before.rule),
+            recurringPattern: null,
+            recurrenceExdates: before.exdates.length > 0 ? JSON.stringify(before.exdates) : null,
+            recurrenceOverrides: Object.keys(before.overrides).length > 0 ? JSON.stringify(before.overrides) : null,
+          },
+        });
+        result.updatedTaskIds.push(parent.id);
+      }
+      await deleteTasks(tx, removable);
+      result.deletedTaskIds.push(...removable);
+      return result;
+    }
+
+    // Whole series: keep started/completed work as standalone tasks
+    if (result.protectedTaskIds.length > 0) {
+      await tx.task.updateMany({
+        where: { id: { in: result.protectedTaskIds } },
+        data: { parentTaskId: null },
+      });
+    }
+    if (isOccurrenceEditable(parent.status)) {
+      await deleteTasks(tx, [...removable, parent.id]);
+      result.deletedTaskIds.push(...removable, parent.id);
+    } else {
+      // The first occurrence has started: it stays, but no longer starts a series
+      await tx.task.update({ where: { id: parent.id }, data: STANDALONE_TASK_DATA });
+      await deleteTasks(tx, removable);
+      result.updatedTaskIds.push(parent.id);
+      result.protectedTaskIds.push(parent.id);
+      result.deletedTaskIds.push(...removable);
+    }
+    return result;
+  });
+}
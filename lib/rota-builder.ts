@@ -0,0 +1,434 @@
+/**
+ * Automatic Rota Builder
+ *
+ * Proposes cleaners for the unassigned tasks in a date range. Nothing is saved: managers
+ * review the proposal in the rota UI and apply the rows they accept through the rota editor's
+ * assign endpoint (/api/admin/rota/assign), which validates and audits each row. Like any rota
+ * edit this doesn't notify anyone: cleaners hear about their jobs when the week is published
+ * (see lib/rota-publish.ts).
+ *
+ * Hard constraints (a cleaner is never proposed when one fails):
+ * - required skills, from the property and the task's job template
+ * - no overlap with the cleaner's existing or already proposed shifts, and enough time to
+ *   travel from the job before and to the job after (straight-line estimate at the company's
+ *   travel speed, see lib/travel-time.ts)
+ * - approved leave covering the task
+ *
+ * Soft goals are scored, lowest score wins:
+ * - balanced hours: projected hours that week, plus a penalty over maxWorkingHours
+ * - minimal travel: distance from the cleaner's previous and next job that day
+ * - familiar properties: a bonus for properties the cleaner has cleaned recently
+ * - availability: a penalty for starting outside the cleaner's available hours
+ *
+ * Days, times and weeks are taken in the company's timezone. Tasks without an estimate use
+ * their property's average duration (getPropertyAverageDuration in lib/rota-conflicts.ts).
+ *
+ * Tasks are placed greedily, tightest first (fewest skilled cleaners, then earliest), and
+ * every proposal carries the reasons it was chosen. Tasks nobody can take are listed with
+ * why each cleaner was ruled out.
+ */
+
+import prisma from "@/lib/prisma";
+import { TaskStatus, UserRole } from "@prisma/client";
+import { calculateDistance, Coordinates } from "@/lib/geolocation";
+import { parseIdList } from "@/lib/job-templates";
+import { getAssigneeIds } from "@/lib/shift-swaps";
+import { getPropertyAverageDuration, getWeekBounds } from "@/lib/rota-conflicts";
+import { DEFAULT_TRAVEL_SPEED_KMH, estimateTravelMinutes, getTravelSpeed, travelShortfallMinutes } from "@/lib/travel-time";
+import { DateOverride, isAvailableAt, WeeklyWindow } from "@/lib/availability";
+import { DEFAULT_TIMEZONE, formatZonedTime, getCompanyTimezone, toLocalDateKey } from "@/lib/timezone";
+
+export interface BuilderTask {
+  id: number;
+  title: string;
+  propertyId: number;
+  address: string;
+  location: Coordinates | null;
+  start: Date;
+  durationMinutes: number;
+  requiredSkills: Array<{ id: number; name: string }>;
+}
+
+export interface BuilderBooking {
+  taskId: number;
+  propertyId: number;
+  location: Coordinates | null;
+  start: Date;
+  end: Date;
+}
+
+export interface BuilderCleaner {
+  id: number;
+  name: string;
+  skillIds: number[];
+  maxWorkingHours: number | null;
+  availability: WeeklyWindow[];
+  dateOverrides: DateOverride[];
+  leave: Array<{ startDate: Date; endDate: Date }>;
+  bookings: BuilderBooking[];
+  propertyVisits: Record<number, number>; // Recent completed tasks per property
+}
+
+export interface ProposedAssignment {
+  taskId: number;
+  taskTitle: string;
+  address: string;
+  scheduledDate: Date;
+  cleanerId: number;
+  cleanerName: string;
+  score: number;
+  reasons: string[];
+  warnings: string[];
+}
+
+export interface UnplacedTask {
+  taskId: number;
+  taskTitle: string;
+  address: string;
+  scheduledDate: Date;
+  reasons: string[];
+}
+
+export interface RotaProposal {
+  assignments: ProposedAssignment[];
+  unplaced: UnplacedTask[];
+}
+
+const FAMILIARITY_LOOKBACK_DAYS = 90;
+const FAMILIARITY_VISIT_CAP = 5;
+
+// Score weights, in "hours" so the terms are comparable
+const TRAVEL_WEIGHT_PER_KM = 0.25;
+const FAMILIARITY_BONUS_PER_VISIT = 0.5;
+const OUTSIDE_AVAILABILITY_PENALTY = 8;
+const OVER_MAX_HOURS_PENALTY = 20;
+
+const BOOKED_STATUSES: TaskStatus[] = [TaskStatus.ASSIGNED, TaskStatus.IN_PROGRESS, TaskStatus.SUBMITTED, TaskStatus.PLANNED];
+const FAMILIAR_STATUSES: TaskStatus[] = [TaskStatus.SUBMITTED, TaskStatus.QA_REVIEW, TaskStatus.APPROVED, TaskStatus.ARCHIVED];
+
+const taskEnd = (task: BuilderTask) => new Date(task.start.getTime() + task.durationMinutes * 60000);
+
+/**
+ * Reasons a cleaner cannot take a task at all (empty when they can)
+ */
+export function hardConstraintFailures(
+  task: BuilderTask,
+  cleaner: BuilderCleaner,
+  timezone: string = DEFAULT_TIMEZONE,
+  travelSpeedKmh: number = DEFAULT_TRAVEL_SPEED_KMH
+): string[] {
+  const failures: string[] = [];
+  const missing = task.requiredSkills.filter(skill => !cleaner.skillIds.includes(skill.id));
+  if (missing.length > 0) {
+    failures.push(`missing required skills: ${missing.map(skill => skill.name).join(', ')}`);
+  }
+
+  const end = taskEnd(task);
+  const overlap = cleaner.bookings.find(b => task.start < b.end && end > b.start);
+  if (overlap) {
+    failures.push(`already booked ${formatZonedTime(overlap.start, timezone)}–${formatZonedTime(overlap.end, timezone)}`);
+  } else if (task.location) {
+    // Travel from the job before and to the job after, at other properties
+    const previous = cleaner.bookings
+      .filter(b => b.end <= task.start)
+      .sort((a, b) => b.end.getTime() - a.end.getTime())[0];
+    const next = cleaner.bookings
+      .filter(b => b.start >= end)
+      .sort((a, b) => a.start.getTime() - b.start.getTime())[0];
+    if (previous?.location && previous.propertyId !== task.propertyId) {
+      const minutes = estimateTravelMinutes(previous.location, task.location, travelSpeedKmh);
+      if (travelShortfallMinutes(previous.end, task.start, minutes) > 0) {
+        failures.push(`needs about ${minutes} min to travel from the job ending ${formatZonedTime(previous.end, timezone)}`);
+      }
+    }
+    if (next?.location && next.propertyId !== task.propertyId) {
+      const minutes = estimateTravelMinutes(task.location, next.location, travelSpeedKmh);
+      if (travelShortfallMinutes(end, next.start, minutes) > 0) {
+        failures.push(`needs about ${minutes} min to travel to the job starting ${formatZonedTime(next.start, timezone)}`);
+      }
+    }
+  }
+
+  // Leave is booked in whole calendar days
+  const day = toLocalDateKey(task.start, timezone);
+  if (cleaner.leave.some(l => l.startDate.toISOString().slice(0, 10) <= day && l.endDate.toISOString().slice(0, 10) >= day)) {
+    failures.push('on approved leave');
+  }
+  return failures;
+}
+
+/**
+ * Score a cleaner who passes the hard constraints. Lower is better.
+ */
+export function scoreCandidate(
+  task: BuilderTask,
+  cleaner: BuilderCleaner,
+  timezone: string = DEFAULT_TIMEZONE
+): { score: number; reasons: string[]; warnings: string[] } {
+  const reasons: string[] = [];
+  const warnings: string[] = [];
+
+  // Balanced hours: projected hours in the task's week
+  const { weekStart, weekEnd } = getWeekBounds(task.start, timezone);
+  const weekMinutes = cleaner.bookings
+    .filter(b => b.start >= weekStart && b.start <= weekEnd)
+    .reduce((sum, b) => sum + (b.end.getTime() - b.start.getTime()) / 60000, 0);
+  const projectedHours = (weekMinutes + task.durationMinutes) / 60;
+  let score = projectedHours;
+  reasons.push(`${projectedHours.toFixed(1)}h booked that week including this task`);
+  if (cleaner.maxWorkingHours && projectedHours > cleaner.maxWorkingHours) {
+    score += OVER_MAX_HOURS_PENALTY;
+    warnings.push(`Exceeds maximum working hours (${projectedHours.toFixed(1)}/${cleaner.maxWorkingHours}h)`);
+  }
+
+  // Minimal travel: distance from the jobs either side on the same day
+  if (task.location) {
+    const end = taskEnd(task);
+    const day = toLocalDateKey(task.start, timezone);
+    const sameDayBookings = cleaner.bookings.filter(b => b.location && toLocalDateKey(b.start, timezone) === day);
+    const previous = sameDayBookings.filter(b => b.end <= task.start).sort((a, b) => b.end.getTime() - a.end.getTime())[0];
+    const next = sameDayBookings.filter(b => b.start >= end).sort((a, b) => a.start.getTime() - b.start.getTime())[0];
+    let km = 0;
+    if (previous) km += calculateDistance(previous.location!, task.location) / 1000;
+    if (next) km += calculateDistance(task.location, next.location!) / 1000;
+    if (previous || next) {
+      score += km * TRAVEL_WEIGHT_PER_KM;
+      reasons.push(`${km.toFixed(1)} km travel to and from other jobs that day`);
+    }
+  }
+
+  // Familiar properties
+  const visits = Math.min(cleaner.propertyVisits[task.propertyId] || 0, FAMILIARITY_VISIT_CAP);
+  if (visits > 0) {
+    score -= visits * FAMILIARITY_BONUS_PER_VISIT;
+    reasons.push(`Has cleaned this property ${cleaner.propertyVisits[task.propertyId]} times recently`);
+  }
+
+  // Availability, including dated overrides (soft: managers can still override)
+  if (!isAvailableAt(cleaner.availability, cleaner.dateOverrides, task.start, timezone, task.durationMinutes)) {
+    score += OUTSIDE_AVAILABILITY_PENALTY;
+    warnings.push(
+      `Runs ${formatZonedTime(task.start, timezone)}–${formatZonedTime(taskEnd(task), timezone)}, outside the cleaner's available hours`
+    );
+  }
+
+  if (task.requiredSkills.length > 0) {
+    reasons.unshift(`Has required skills: ${task.requiredSkills.map(skill => skill.name).join(', ')}`);
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons, warnings };
+}
+
+/**
+ * Greedily propose a cleaner for each task. Cleaners' bookings grow as tasks are placed,
+ * so later tasks see the hours and travel of earlier proposals.
+ */
+export function buildRotaProposal(
+  tasks: BuilderTask[],
+  cleaners: BuilderCleaner[],
+  timezone: string = DEFAULT_TIMEZONE,
+  travelSpeedKmh: number = DEFAULT_TRAVEL_SPEED_KMH
+): RotaProposal {
+  const working = cleaners.map(cleaner => ({ ...cleaner, bookings: [...cleaner.bookings] }));
+  const skilledCount = (task: BuilderTask) =>
+    working.filter(c => task.requiredSkills.every(skill => c.skillIds.includes(skill.id))).length;
+
+  const ordered = [...tasks].sort(
+    (a, b) => skilledCount(a) - skilledCount(b) || a.start.getTime() - b.start.getTime() || a.id - b.id
+  );
+
+  const assignments: ProposedAssignment[] = [];
+  const unplaced: UnplacedTask[] = [];
+
+  for (const task of ordered) {
+    const ruledOut: string[] = [];
+    let best: { cleaner: BuilderCleaner; score: number; reasons: string[]; warnings: string[] } | null = null;
+
+    for (const cleaner of working) {
+      const failures = hardConstraintFailures(task, cleaner, timezone, travelSpeedKmh);
+      if (failures.length > 0) {
+        ruledOut.push(`${cleaner.name}: ${failures.join('; ')}`);
+        continue;
+      }
+      const candidate = scoreCandidate(task, cleaner, timezone);
+      if (!best || candidate.score < best.score || (candidate.score === best.score && cleaner.id < best.cleaner.id)) {
+        best = { cleaner, ...candidate };
+      }
+    }
+
+    if (!best) {
+      unplaced.push({
+        taskId: task.id,
+        taskTitle: task.title,
+        address: task.address,
+        scheduledDate: task.start,
+        reasons: ruledOut.length > 0 ? ruledOut : ['No active cleaners'],
+      });
+      continue;
+    }
+
+    best.cleaner.bookings.push({
+      taskId: task.id,
+      propertyId: task.propertyId,
+      location: task.location,
+      start: task.start,
+      end: taskEnd(task),
+    });
+    assignments.push({
+      taskId: task.id,
+      taskTitle: task.title,
+      address: task.address,
+      scheduledDate: task.start,
+      cleanerId: best.cleaner.id,
+      cleanerName: best.cleaner.name,
+      score: best.score,
+      reasons: best.reasons,
+      warnings: best.warnings,
+    });
+  }
+
+  assignments.sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime());
+  unplaced.sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime());
+  return { assignments, unplaced };
+}
+
+const toLocation = (property: { latitude: number | null; longitude: number | null }): Coordinates | null =>
+  property.latitude != null && property.longitude != null
+    ? { latitude: property.latitude, longitude: property.longitude }
+    : null;
+
+/**
+ * Load a company's unassigned tasks in a range (optionally limited to taskIds) and
+ * propose cleaners for them
+ */
+export async function proposeRota(
+  companyId: number,
+  from: Date,
+  to: Date,
+  taskIds?: number[],
+  now: Date = new Date()
+): Promise<RotaProposal> {
+  const [timezone, travelSpeedKmh] = await Promise.all([getCompanyTimezone(companyId), getTravelSpeed(companyId)]);
+  const { weekStart } = getWeekBounds(from, timezone);
+  const { weekEnd } = getWeekBounds(to, timezone);
+  const familiarSince = new Date(now.getTime() - FAMILIARITY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const [tasks, cleaners, booked, history] = await Promise.all([
+    prisma.task.findMany({
+      where: {
+        companyId,
+        scheduledDate: { gte: from, lte: to },
+        status: { in: [TaskStatus.DRAFT, TaskStatus.PLANNED] },
+        assignedUserId: null,
+        taskAssignments: { none: {} },
+        ...(taskIds && taskIds.length > 0 ? { id: { in: taskIds } } : {}),
+      },
+      include: {
+        property: {
+          select: {
+            id: true,
+            address: true,
+            latitude: true,
+            longitude: true,
+            requiredSkills: { where: { isRequired: true }, include: { skill: true } },
+          },
+        },
+      },
+    }),
+    prisma.user.findMany({
+      where: { companyId, role: UserRole.CLEANER, isActive: true },
+      include: {
+        cleanerSkills: { select: { skillId: true } },
+        availability: { where: { isAvailable: true } },
+        dateAvailability: { where: { date: { gte: new Date(from.getTime() - 24 * 60 * 60 * 1000), lte: to } } },
+        leaveRequests: { where: { status: 'approved', startDate: { lte: to }, endDate: { gte: from } } },
+      },
+    }),
+    prisma.task.findMany({
+      where: {
+        companyId,
+        scheduledDate: { gte: weekStart, lte: weekEnd },
+        status: { in: BOOKED_STATUSES },
+        OR: [{ assignedUserId: { not: null } }, { taskAssignments: { some: {} } }],
+      },
+      select: {
+        id: true,
+        propertyId: true,
+        scheduledDate: true,
+        estimatedDurationMinutes: true,
+        assignedUserId: true,
+        taskAssignments: { select: { userId: true } },
+        property: { select: { latitude: true, longitude: true } },
+      },
+    }),
+    prisma.task.groupBy({
+      by: ['assignedUserId', 'propertyId'],
+      where: { companyId, status: { in: FAMILIAR_STATUSES }, scheduledDate: { gte: familiarSince, lte: now } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  // Task-level skills come from job templates as an id list
+  const templateSkillIds = Array.from(new Set(tasks.flatMap(task => parseIdList(task.requiredSkillIds))));
+  const templateSkills = templateSkillIds.length > 0
+    ? await prisma.skill.findMany({ where: { id: { in: templateSkillIds } }, select: { id: true, name: true } })
+    : [];
+
+  // Tasks without an estimate use their property's average, looked up once per property
+  const unestimated = [...tasks, ...booked].filter(task => !task.estimatedDurationMinutes).map(task => task.propertyId);
+  const averages = new Map(
+    await Promise.all(
+      Array.from(new Set(unestimated)).map(async propertyId => [propertyId, await getPropertyAverageDuration(propertyId)] as const)
+    )
+  );
+  const durationFor = (task: { propertyId: number; estimatedDurationMinutes: number | null }) =>
+    task.estimatedDurationMinutes || averages.get(task.propertyId)!;
+
+  const builderTasks: BuilderTask[] = tasks.map(task => {
+    const skills = new Map<number, string>();
+    task.property.requiredSkills.forEach(ps => skills.set(ps.skillId, ps.skill.name));
+    parseIdList(task.requiredSkillIds).forEach(id => {
+      const skill = templateSkills.find(s => s.id === id);
+      if (skill) skills.set(id, skill.name);
+    });
+    return {
+      id: task.id,
+      title: task.title,
+      propertyId: task.propertyId,
+      address: task.property.address,
+      location: toLocation(task.property),
+      start: task.scheduledDate!,
+      durationMinutes: durationFor(task),
+      requiredSkills: Array.from(skills, ([id, name]) => ({ id, name })),
+    };
+  });
+
+  const builderCleaners: BuilderCleaner[] = cleaners.map(cleaner => {
+    const propertyVisits: Record<number, number> = {};
+    history
+      .filter(row => row.assignedUserId === cleaner.id)
+      .forEach(row => { propertyVisits[row.propertyId] = row._count._all; });
+
+    return {
+      id: cleaner.id,
+      name: cleaner.firstName && cleaner.lastName ? `${cleaner.firstName} ${cleaner.lastName}` : cleaner.email,
+      skillIds: cleaner.cleanerSkills.map(cs => cs.skillId),
+      maxWorkingHours: cleaner.maxWorkingHours,
+      availability: cleaner.availability,
+      dateOverrides: cleaner.dateAvailability,
+      leave: cleaner.leaveRequests,
+      bookings: booked
+        .filter(task => task.scheduledDate && getAssigneeIds(task).includes(cleaner.id))
+        .map(task => ({
+          taskId: task.id,
+          propertyId: task.propertyId,
+          location: toLocation(task.property),
+          start: task.scheduledDate!,
+          end: new Date(task.scheduledDate!.getTime() + durationFor(task) * 60000),
+        })),
+      propertyVisits,
+    };
+  });
+
+  return buildRotaProposal(builderTasks, builderCleaners, timezone, travelSpeedKmh);
+}
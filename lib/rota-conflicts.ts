@@ -4,17 +4,32 @@
  * This module provides utilities for detecting conflicts in rota assignments:
  * - Skill mismatches
  * - Availability conflicts
- * - Overlapping shifts
+ * - Overlapping shifts, and too little travel time between consecutive jobs
  * - Maximum working hours violations
+ * - Dependency order (a task scheduled before its predecessor finishes)
  * 
  * All conflicts are returned as warnings (non-blocking) to allow manual override.
+ *
+ * Days of the week, times of day and week boundaries are taken in the company's timezone
+ * (AdminConfiguration.timezone), never the server's, so they stay right across DST.
  */
 
 import prisma from "@/lib/prisma";
-import { Task, User, Property, CleanerAvailability, LeaveRequest } from "@prisma/client";
+import { parseIdList } from "@/lib/job-templates";
+import { effectiveTaskMinutes, getWorkedTimeByTask } from "@/lib/time-entries";
+import { describeOverride, findDecidingOverride, isAvailableAt, toLocalWindow } from "@/lib/availability";
+import { getTravelEstimate, getTravelSpeed, propertyCoordinates, travelShortfallMinutes } from "@/lib/travel-time";
+import {
+  DEFAULT_TIMEZONE,
+  getUserTimezone,
+  getZonedParts,
+  getZonedWeekBounds,
+  toLocalDateKey,
+} from "@/lib/timezone";
+import { Task, TaskStatus, User, Property, CleanerAvailability, LeaveRequest } from "@prisma/client";
 
 export interface ConflictWarning {
-  type: 'skill_mismatch' | 'availability' | 'overlap' | 'max_hours' | 'on_leave';
+  type: 'skill_mismatch' | 'availability' | 'overlap' | 'travel' | 'max_hours' | 'on_leave' | 'dependency';
   severity: 'warning' | 'error';
   message: string;
   details?: any;
@@ -26,21 +41,46 @@ export interface AssignmentValidationResult {
   canAssign: boolean; // true if assignment is allowed despite warnings
 }
 
+// Used when a task has no estimate and its property has no completed history
+const DEFAULT_DURATION_MINUTES = 120;
+// Completed tasks considered for a property's average duration
+const DURATION_HISTORY_SIZE = 20;
+
+/**
+ * Sunday-to-Saturday week containing a date in the given timezone, as used for max working hours
+ */
+export function getWeekBounds(date: Date, timezone: string = DEFAULT_TIMEZONE): { weekStart: Date; weekEnd: Date } {
+  return getZonedWeekBounds(date, timezone);
+}
+
 /**
- * Check if cleaner has required skills for a property
+ * Check if cleaner has required skills for a property (and for the task itself,
+ * when it was created from a job template with required skills)
  * Returns warnings if skills are missing (non-blocking - allows assignment)
  */
 export async function validateSkillCompatibility(
   cleanerId: number,
-  propertyId: number
+  propertyId: number,
+  taskId?: number
 ): Promise<ConflictWarning[]> {
   const warnings: ConflictWarning[] = [];
 
   // Get required skills for the property
-  const propertySkills = await prisma.propertyRequiredSkill.findMany({
-    where: { propertyId },
-    include: { skill: true },
-  });
+  const propertySkills: Array<{ skillId: number; isRequired: boolean; skill: { name: string } }> =
+    await prisma.propertyRequiredSkill.findMany({
+      where: { propertyId },
+      include: { skill: true },
+    });
+
+  // Task-level skills are always required
+  if (taskId) {
+    const task = await prisma.task.findUnique({ where: { id: taskId }, select: { requiredSkillIds: true } });
+    const taskSkillIds = parseIdList(task?.requiredSkillIds).filter(id => !propertySkills.some(ps => ps.skillId === id));
+    if (taskSkillIds.length > 0) {
+      const skills = await prisma.skill.findMany({ where: { id: { in: taskSkillIds } } });
+      propertySkills.push(...skills.map(skill => ({ skillId: skill.id, isRequired: true, skill })));
+    }
+  }
 
   // If no skills required, skip validation (backward compatibility)
   if (propertySkills.length === 0) {
@@ -87,25 +127,47 @@ export async function validateSkillCompatibility(
 }
 
 /**
- * Check if cleaner is available at the scheduled time
+ * Check if cleaner is available for the whole of the scheduled task. A dated override (see
+ * lib/availability.ts) takes precedence over the weekly pattern.
  */
 export async function validateAvailability(
   cleanerId: number,
-  scheduledDate: Date
+  scheduledDate: Date,
+  estimatedDurationMinutes: number | null = null,
+  timezone?: string
 ): Promise<ConflictWarning[]> {
   const warnings: ConflictWarning[] = [];
+  const tz = timezone || await getUserTimezone(cleanerId);
+  const durationMinutes = estimatedDurationMinutes || DEFAULT_DURATION_MINUTES;
 
   // Get cleaner availability
-  const dayOfWeek = scheduledDate.getDay(); // 0 = Sunday, 6 = Saturday
-  const availability = await prisma.cleanerAvailability.findMany({
-    where: {
-      userId: cleanerId,
-      dayOfWeek,
-      isAvailable: true,
-    },
-  });
+  const dayOfWeek = getZonedParts(scheduledDate, tz).weekday; // 0 = Sunday, 6 = Saturday
+  const overrideDate = new Date(`${toLocalDateKey(scheduledDate, tz)}T00:00:00.000Z`); // Local date, as stored by @db.Date
+  const [availability, overrides] = await Promise.all([
+    prisma.cleanerAvailability.findMany({
+      where: {
+        userId: cleanerId,
+        dayOfWeek,
+        isAvailable: true,
+      },
+    }),
+    prisma.availabilityOverride.findMany({
+      where: { userId: cleanerId, date: overrideDate },
+    }),
+  ]);
+
+  const window = toLocalWindow(scheduledDate, durationMinutes, tz);
+  const scheduledTime = `${window.startTime}-${window.endTime}`;
+  const override = findDecidingOverride(overrides, scheduledDate, tz, durationMinutes);
 
-  if (availability.length === 0) {
+  if (override && !override.isAvailable) {
+    warnings.push({
+      type: 'availability',
+      severity: 'warning',
+      message: `Cleaner is unavailable ${describeOverride(override)}`,
+      details: { scheduledTime, override },
+    });
+  } else if (!override && availability.length === 0 && !overrides.some(o => o.isAvailable)) {
     warnings.push({
       type: 'availability',
       severity: 'warning',
@@ -113,16 +175,8 @@ export async function validateAvailability(
       details: { dayOfWeek, scheduledDate },
     });
     return warnings;
-  }
-
-  // Check if scheduled time falls within any available window
-  const scheduledTime = `${scheduledDate.getHours().toString().padStart(2, '0')}:${scheduledDate.getMinutes().toString().padStart(2, '0')}`;
-  
-  const isAvailable = availability.some(avail => {
-    return scheduledTime >= avail.startTime && scheduledTime <= avail.endTime;
-  });
-
-  if (!isAvailable) {
+  } else if (!override && !isAvailableAt(availability, overrides, scheduledDate, tz, durationMinutes)) {
+    // Part of the task falls outside every available window
     warnings.push({
       type: 'availability',
       severity: 'warning',
@@ -134,13 +188,14 @@ export async function validateAvailability(
     });
   }
 
-  // Check for approved leave requests
+  // Check for approved leave requests. Leave is booked in whole calendar days (stored at
+  // UTC midnight), so compare against the task's local date rather than the instant.
   const leaveRequests = await prisma.leaveRequest.findMany({
     where: {
       userId: cleanerId,
       status: 'approved',
-      startDate: { lte: scheduledDate },
-      endDate: { gte: scheduledDate },
+      startDate: { lte: new Date(overrideDate.getTime() + 24 * 60 * 60 * 1000 - 1) },
+      endDate: { gte: overrideDate },
     },
   });
 
@@ -163,7 +218,54 @@ export async function validateAvailability(
 }
 
 /**
- * Check for overlapping shifts (tasks assigned to the same cleaner at overlapping times)
+ * Average minutes between start and completion, ignoring entries without both or longer
+ * than a day. Null when there is nothing to go on.
+ */
+export function averageDurationMinutes(history: Array<{ startedAt: Date | null; completedAt: Date | null }>): number | null {
+  const minutes = history
+    .filter(t => t.startedAt && t.completedAt)
+    .map(t => (t.completedAt!.getTime() - t.startedAt!.getTime()) / 60000)
+    .filter(m => m > 0 && m <= 24 * 60);
+  if (minutes.length === 0) return null;
+  return Math.round(minutes.reduce((sum, m) => sum + m, 0) / minutes.length);
+}
+
+/**
+ * Typical duration of a job at a property, from its most recent completed tasks
+ */
+export async function getPropertyAverageDuration(propertyId: number): Promise<number> {
+  const history = await prisma.task.findMany({
+    where: { propertyId, startedAt: { not: null }, completedAt: { not: null } },
+    select: { startedAt: true, completedAt: true },
+    orderBy: { completedAt: 'desc' },
+    take: DURATION_HISTORY_SIZE,
+  });
+  return averageDurationMinutes(history) ?? DEFAULT_DURATION_MINUTES;
+}
+
+/**
+ * Minutes to plan a task for: its estimate, else its property's historical average
+ */
+export async function resolveTaskDuration(propertyId: number, estimatedDurationMinutes: number | null): Promise<number> {
+  return estimatedDurationMinutes || getPropertyAverageDuration(propertyId);
+}
+
+/**
+ * resolveTaskDuration for many tasks, looking each property's average up once
+ */
+function taskDurationLookup() {
+  const averages = new Map<number, Promise<number>>();
+  return (propertyId: number, estimate: number | null) => {
+    if (estimate) return Promise.resolve(estimate);
+    if (!averages.has(propertyId)) averages.set(propertyId, getPropertyAverageDuration(propertyId));
+    return averages.get(propertyId)!;
+  };
+}
+
+/**
+ * Check for overlapping shifts (tasks assigned to the same cleaner at overlapping times), and
+ * for jobs either side that leave too little time to travel between the properties.
+ * Tasks without an estimate use their property's historical average duration.
  */
 export async function validateNoOverlap(
   cleanerId: number,
@@ -173,17 +275,24 @@ export async function validateNoOverlap(
 ): Promise<ConflictWarning[]> {
   const warnings: ConflictWarning[] = [];
 
-  // Default estimated duration: 2 hours if not specified
-  const durationMs = (estimatedDurationMinutes || 120) * 60 * 1000;
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { companyId: true, propertyId: true, property: { select: { latitude: true, longitude: true } } },
+  });
+
+  const durationFor = taskDurationLookup();
+  const duration = task
+    ? await durationFor(task.propertyId, estimatedDurationMinutes)
+    : estimatedDurationMinutes || DEFAULT_DURATION_MINUTES;
   const taskStart = scheduledDate;
-  const taskEnd = new Date(taskStart.getTime() + durationMs);
+  const taskEnd = new Date(taskStart.getTime() + duration * 60 * 1000);
 
   // Find other tasks assigned to this cleaner around the same time
-  // Look for tasks within a 6-hour window to catch potential overlaps
-  const windowStart = new Date(taskStart.getTime() - 3 * 60 * 60 * 1000);
-  const windowEnd = new Date(taskEnd.getTime() + 3 * 60 * 60 * 1000);
+  // Look far enough either side to catch long jobs and the jobs before and after
+  const windowStart = new Date(taskStart.getTime() - 12 * 60 * 60 * 1000);
+  const windowEnd = new Date(taskEnd.getTime() + 6 * 60 * 60 * 1000);
 
-  const overlappingTasks = await prisma.task.findMany({
+  const nearbyTasks = await prisma.task.findMany({
     where: {
       assignedUserId: cleanerId,
       id: { not: taskId }, // Exclude current task
@@ -196,17 +305,20 @@ export async function validateNoOverlap(
       },
     },
     include: {
-      property: { select: { address: true } },
+      property: { select: { address: true, latitude: true, longitude: true } },
     },
   });
 
-  // Check for actual overlaps
-  for (const otherTask of overlappingTasks) {
+  // The closest job ending before this one starts, and the closest starting after it ends
+  let previous: { task: typeof nearbyTasks[number]; end: Date } | null = null;
+  let next: { task: typeof nearbyTasks[number]; start: Date } | null = null;
+
+  for (const otherTask of nearbyTasks) {
     if (!otherTask.scheduledDate) continue;
 
-    const otherDuration = (otherTask.estimatedDurationMinutes || 120) * 60 * 1000;
+    const otherDuration = await durationFor(otherTask.propertyId, otherTask.estimatedDurationMinutes);
     const otherStart = otherTask.scheduledDate;
-    const otherEnd = new Date(otherStart.getTime() + otherDuration);
+    const otherEnd = new Date(otherStart.getTime() + otherDuration * 60 * 1000);
 
     // Check if time ranges overlap
     if (taskStart < otherEnd && taskEnd > otherStart) {
@@ -221,6 +333,117 @@ export async function validateNoOverlap(
           currentTaskTime: scheduledDate,
         },
       });
+    } else if (otherEnd <= taskStart) {
+      if (!previous || otherEnd > previous.end) previous = { task: otherTask, end: otherEnd };
+    } else if (!next || otherStart < next.start) {
+      next = { task: otherTask, start: otherStart };
+    }
+  }
+
+  // Travel between consecutive properties, where both have coordinates
+  const here = propertyCoordinates(task?.property);
+  if (task && here && (previous || next)) {
+    const speedKmh = await getTravelSpeed(task.companyId);
+    const legs = [
+      previous && { other: previous.task, from: previous.task.property, to: task.property, end: previous.end, start: taskStart },
+      next && { other: next.task, from: task.property, to: next.task.property, end: taskEnd, start: next.start },
+    ];
+
+    for (const leg of legs) {
+      if (!leg || leg.other.propertyId === task.propertyId) continue;
+      const from = propertyCoordinates(leg.from);
+      const to = propertyCoordinates(leg.to);
+      if (!from || !to) continue;
+
+      const travel = await getTravelEstimate(from, to, speedKmh);
+      const shortBy = travelShortfallMinutes(leg.end, leg.start, travel.minutes);
+      if (shortBy === 0) continue;
+
+      const gapMinutes = Math.max(0, Math.round((leg.start.getTime() - leg.end.getTime()) / 60000));
+      const direction = leg.other === previous?.task ? 'from' : 'to';
+      warnings.push({
+        type: 'travel',
+        severity: 'warning',
+        message: `Needs about ${travel.minutes} min to travel ${direction} "${leg.other.title}" at ${leg.other.property?.address || 'unknown location'} but has ${gapMinutes} min`,
+        details: {
+          otherTaskId: leg.other.id,
+          otherTaskTitle: leg.other.title,
+          travelMinutes: travel.minutes,
+          gapMinutes,
+          shortByMinutes: shortBy,
+          distanceKm: Math.round(travel.distanceKm * 10) / 10,
+          source: travel.source,
+        },
+      });
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Check that a task is scheduled after its predecessors finish and before its successors start
+ */
+export async function validateDependencies(
+  taskId: number,
+  scheduledDate: Date,
+  estimatedDurationMinutes: number | null = null
+): Promise<ConflictWarning[]> {
+  const warnings: ConflictWarning[] = [];
+  const durationFor = taskDurationLookup();
+
+  const taskStart = scheduledDate;
+  const taskEnd = new Date(taskStart.getTime() + (estimatedDurationMinutes || DEFAULT_DURATION_MINUTES) * 60 * 1000);
+
+  const [predecessors, successors] = await Promise.all([
+    prisma.taskDependency.findMany({
+      where: { taskId },
+      select: {
+        dependsOn: {
+          select: { id: true, title: true, status: true, scheduledDate: true, propertyId: true, estimatedDurationMinutes: true },
+        },
+      },
+    }),
+    prisma.taskDependency.findMany({
+      where: { dependsOnTaskId: taskId },
+      select: { task: { select: { id: true, title: true, status: true, scheduledDate: true } } },
+    }),
+  ]);
+
+  // Cancelled tasks never run, so they cannot be out of order
+  for (const { dependsOn } of predecessors) {
+    if (!dependsOn.scheduledDate || dependsOn.status === TaskStatus.CANCELLED) continue;
+    const predecessorMinutes = await durationFor(dependsOn.propertyId, dependsOn.estimatedDurationMinutes);
+    const predecessorEnd = new Date(dependsOn.scheduledDate.getTime() + predecessorMinutes * 60 * 1000);
+    if (taskStart < predecessorEnd) {
+      warnings.push({
+        type: 'dependency',
+        severity: 'warning',
+        message: `Starts before "${dependsOn.title}" is due to finish`,
+        details: {
+          predecessorTaskId: dependsOn.id,
+          predecessorTitle: dependsOn.title,
+          predecessorEnd,
+          currentTaskTime: scheduledDate,
+        },
+      });
+    }
+  }
+
+  for (const { task: successor } of successors) {
+    if (!successor.scheduledDate || successor.status === TaskStatus.CANCELLED) continue;
+    if (successor.scheduledDate < taskEnd) {
+      warnings.push({
+        type: 'dependency',
+        severity: 'warning',
+        message: `"${successor.title}" is scheduled to start before this task finishes`,
+        details: {
+          successorTaskId: successor.id,
+          successorTitle: successor.title,
+          successorTime: successor.scheduledDate,
+          currentTaskEnd: taskEnd,
+        },
+      });
     }
   }
 
@@ -236,7 +459,8 @@ export async function validateMaxWorkingHours(
   scheduledDate: Date,
   estimatedDurationMinutes: number | null = null,
   weekStart?: Date,
-  weekEnd?: Date
+  weekEnd?: Date,
+  timezone?: string
 ): Promise<ConflictWarning[]> {
   const warnings: ConflictWarning[] = [];
 
@@ -253,14 +477,7 @@ export async function validateMaxWorkingHours(
 
   // Calculate week boundaries if not provided
   if (!weekStart || !weekEnd) {
-    const date = new Date(scheduledDate);
-    const day = date.getDay();
-    const diff = date.getDate() - day; // Get Sunday
-    weekStart = new Date(date.setDate(diff));
-    weekStart.setHours(0, 0, 0, 0);
-    weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-    weekEnd.setHours(23, 59, 59, 999);
+    ({ weekStart, weekEnd } = getWeekBounds(scheduledDate, timezone || await getUserTimezone(cleanerId)));
   }
 
   // Calculate current hours worked in the week
@@ -277,16 +494,17 @@ export async function validateMaxWorkingHours(
       },
     },
     select: {
+      propertyId: true,
       estimatedDurationMinutes: true,
     },
   });
 
-  const currentHours = weekTasks.reduce((sum, task) => {
-    return sum + (task.estimatedDurationMinutes || 120) / 60; // Convert minutes to hours
-  }, 0);
+  const durationFor = taskDurationLookup();
+  const weekMinutes = await Promise.all(weekTasks.map(task => durationFor(task.propertyId, task.estimatedDurationMinutes)));
+  const currentHours = weekMinutes.reduce((sum, minutes) => sum + minutes / 60, 0); // Convert minutes to hours
 
   // Add the new task's hours
-  const newTaskHours = (estimatedDurationMinutes || 120) / 60;
+  const newTaskHours = (estimatedDurationMinutes || DEFAULT_DURATION_MINUTES) / 60;
   const totalHours = currentHours + newTaskHours;
 
   if (totalHours > cleaner.maxWorkingHours) {
@@ -308,7 +526,8 @@ export async function validateMaxWorkingHours(
 
 /**
  * Comprehensive validation for a cleaner-task assignment
- * Returns all conflicts as warnings (non-blocking)
+ * Returns all conflicts as warnings (non-blocking). The task's duration is resolved once (see
+ * resolveTaskDuration) so every check plans for the same length of job.
  */
 export async function validateAssignment(
   cleanerId: number,
@@ -317,9 +536,12 @@ export async function validateAssignment(
   propertyId: number,
   estimatedDurationMinutes: number | null = null,
   weekStart?: Date,
-  weekEnd?: Date
+  weekEnd?: Date,
+  timezone?: string
 ): Promise<AssignmentValidationResult> {
   const warnings: ConflictWarning[] = [];
+  const tz = timezone || await getUserTimezone(cleanerId);
+  const duration = await resolveTaskDuration(propertyId, estimatedDurationMinutes);
 
   // Run all validations in parallel
   const [
@@ -327,14 +549,16 @@ export async function validateAssignment(
     availabilityWarnings,
     overlapWarnings,
     maxHoursWarnings,
+    dependencyWarnings,
   ] = await Promise.all([
-    validateSkillCompatibility(cleanerId, propertyId),
-    validateAvailability(cleanerId, scheduledDate),
-    validateNoOverlap(cleanerId, taskId, scheduledDate, estimatedDurationMinutes),
-    validateMaxWorkingHours(cleanerId, taskId, scheduledDate, estimatedDurationMinutes, weekStart, weekEnd),
+    validateSkillCompatibility(cleanerId, propertyId, taskId),
+    validateAvailability(cleanerId, scheduledDate, duration, tz),
+    validateNoOverlap(cleanerId, taskId, scheduledDate, duration),
+    validateMaxWorkingHours(cleanerId, taskId, scheduledDate, duration, weekStart, weekEnd, tz),
+    validateDependencies(taskId, scheduledDate, duration),
   ]);
 
-  warnings.push(...skillWarnings, ...availabilityWarnings, ...overlapWarnings, ...maxHoursWarnings);
+  warnings.push(...skillWarnings, ...availabilityWarnings, ...overlapWarnings, ...maxHoursWarnings, ...dependencyWarnings);
 
   // Assignment is always allowed (warnings only, not blocking)
   // This allows managers to override warnings if needed
@@ -347,7 +571,8 @@ export async function validateAssignment(
 
 /**
  * Helper function to get cleaner's current workload (hours assigned in a week)
- * Used for workload balancing
+ * Used for workload balancing. Tasks the cleaner has clocked time on count the time
+ * actually worked (see effectiveTaskMinutes); others count their resolved duration.
  */
 export async function getCleanerWorkload(
   cleanerId: number,
@@ -357,7 +582,10 @@ export async function getCleanerWorkload(
 ): Promise<number> {
   const tasks = await prisma.task.findMany({
     where: {
-      assignedUserId: cleanerId,
+      OR: [
+        { assignedUserId: cleanerId },
+        { taskAssignments: { some: { userId: cleanerId } } },
+      ],
       id: excludeTaskId ? { not: excludeTaskId } : undefined,
       scheduledDate: {
         gte: weekStart,
@@ -368,13 +596,18 @@ export async function getCleanerWorkload(
       },
     },
     select: {
+      id: true,
+      propertyId: true,
       estimatedDurationMinutes: true,
     },
   });
+  const worked = await getWorkedTimeByTask(cleanerId, weekStart, weekEnd);
 
-  const totalMinutes = tasks.reduce((sum, task) => {
-    return sum + (task.estimatedDurationMinutes || 120);
-  }, 0);
+  const durationFor = taskDurationLookup();
+  const minutes = await Promise.all(tasks.map(async task =>
+    effectiveTaskMinutes(await durationFor(task.propertyId, task.estimatedDurationMinutes), worked.get(task.id))
+  ));
+  const totalMinutes = minutes.reduce((sum, m) => sum + m, 0);
 
   return totalMinutes / 60; // Return hours
 }
@@ -0,0 +1,235 @@
+/**
+ * Rota Draft and Publish
+ *
+ * A week's rota is a draft that managers edit freely in the rota editor: those edits don't
+ * notify anyone. Publishing snapshots the week's assignments (every assignee, including
+ * co-cleaners) as a RotaPublication and sends each affected cleaner one notification listing
+ * only their added, removed and moved jobs, worked out by diffing against the previous
+ * published snapshot.
+ *
+ * A week is 'draft' until first published, 'published' while its assignments match the latest
+ * snapshot, and 'unpublished_changes' once they've been edited since.
+ *
+ * Weeks are seven local days from weekStart (the first day shown in the rota editor), in the
+ * company's timezone.
+ */
+
+import prisma from "@/lib/prisma";
+import { TaskStatus } from "@prisma/client";
+import { sendRotaPublishedNotification } from "@/lib/notifications";
+import { getAssigneeIds } from "@/lib/shift-swaps";
+import { addLocalDays, getCompanyTimezone, getZonedDayRange, LocalDate, parseLocalDate } from "@/lib/timezone";
+
+export type RotaWeekStatus = 'draft' | 'published' | 'unpublished_changes';
+
+export interface RotaSnapshotEntry {
+  taskId: number;
+  cleanerId: number;
+  scheduledDate: string | null; // ISO timestamp
+  durationMinutes: number | null;
+  title: string;
+  address: string | null;
+}
+
+export interface RotaMove {
+  before: RotaSnapshotEntry;
+  after: RotaSnapshotEntry;
+}
+
+export interface CleanerRotaChanges {
+  cleanerId: number;
+  added: RotaSnapshotEntry[];
+  removed: RotaSnapshotEntry[];
+  moved: RotaMove[];
+}
+
+export interface RotaWeekState {
+  weekStart: string;
+  status: RotaWeekStatus;
+  version: number | null; // Latest published version
+  publishedAt: Date | null;
+  publishedBy: { id: number; firstName: string | null; lastName: string | null } | null;
+  changes: CleanerRotaChanges[]; // Pending changes against the latest published version
+}
+
+/**
+ * Per-cleaner changes between two snapshots of a week. Snapshots hold one entry per assignee
+ * of each job, so co-cleaners are told about changes too. A job moved to another cleaner is
+ * removed from one and added to the other; a job that keeps its cleaner but changes time or
+ * length is moved. Cleaners with no changes are left out.
+ */
+export function diffRotaSnapshots(previous: RotaSnapshotEntry[], current: RotaSnapshotEntry[]): CleanerRotaChanges[] {
+  const byCleaner = new Map<number, CleanerRotaChanges>();
+  const changesFor = (cleanerId: number) => {
+    if (!byCleaner.has(cleanerId)) byCleaner.set(cleanerId, { cleanerId, added: [], removed: [], moved: [] });
+    return byCleaner.get(cleanerId)!;
+  };
+
+  const key = (entry: RotaSnapshotEntry) => `${entry.taskId}:${entry.cleanerId}`;
+  const before = new Map(previous.map(entry => [key(entry), entry]));
+  const after = new Map(current.map(entry => [key(entry), entry]));
+
+  for (const entry of current) {
+    const old = before.get(key(entry));
+    if (!old) {
+      changesFor(entry.cleanerId).added.push(entry);
+    } else if (old.scheduledDate !== entry.scheduledDate || old.durationMinutes !== entry.durationMinutes) {
+      changesFor(entry.cleanerId).moved.push({ before: old, after: entry });
+    }
+  }
+  for (const old of previous) {
+    if (!after.has(key(old))) changesFor(old.cleanerId).removed.push(old);
+  }
+
+  return Array.from(byCleaner.values()).sort((a, b) => a.cleanerId - b.cleanerId);
+}
+
+/**
+ * Parse a stored snapshot, treating anything unreadable as empty
+ */
+export function parseRotaSnapshot(value: string | null | undefined): RotaSnapshotEntry[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse a rota week's first day (YYYY-MM-DD)
+ */
+export function parseRotaWeek(value: unknown): LocalDate | null {
+  return typeof value === 'string' ? parseLocalDate(value.slice(0, 10)) : null;
+}
+
+/**
+ * The week's current assignments (one entry per assignee of each job), in a stable order
+ */
+async function loadWeekAssignments(companyId: number, weekStart: LocalDate, timezone: string): Promise<RotaSnapshotEntry[]> {
+  const from = getZonedDayRange(weekStart, timezone).start;
+  const to = getZonedDayRange(addLocalDays(weekStart, 6), timezone).end;
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      companyId,
+      OR: [{ assignedUserId: { not: null } }, { taskAssignments: { some: {} } }],
+      status: { not: TaskStatus.CANCELLED },
+      scheduledDate: { gte: from, lte: to },
+    },
+    select: {
+      id: true,
+      title: true,
+      assignedUserId: true,
+      scheduledDate: true,
+      estimatedDurationMinutes: true,
+      property: { select: { address: true } },
+      taskAssignments: { select: { userId: true } },
+    },
+    orderBy: [{ scheduledDate: 'asc' }, { id: 'asc' }],
+  });
+
+  return tasks.flatMap(task =>
+    getAssigneeIds(task)
+      .sort((a, b) => a - b)
+      .map(cleanerId => ({
+        taskId: task.id,
+        cleanerId,
+        scheduledDate: task.scheduledDate ? task.scheduledDate.toISOString() : null,
+        durationMinutes: task.estimatedDurationMinutes,
+        title: task.title,
+        address: task.property?.address || null,
+      }))
+  );
+}
+
+function weekStartDate(weekStart: LocalDate): Date {
+  return new Date(Date.UTC(weekStart.year, weekStart.month - 1, weekStart.day));
+}
+
+async function latestPublication(companyId: number, weekStart: LocalDate) {
+  return prisma.rotaPublication.findFirst({
+    where: { companyId, weekStart: weekStartDate(weekStart) },
+    orderBy: { version: 'desc' },
+    include: { publishedBy: { select: { id: true, firstName: true, lastName: true } } },
+  });
+}
+
+/**
+ * Whether a week is a draft, published, or has changes since it was published
+ */
+export async function getRotaWeekState(companyId: number, weekStart: LocalDate): Promise<RotaWeekState> {
+  const timezone = await getCompanyTimezone(companyId);
+  const [latest, current] = await Promise.all([
+    latestPublication(companyId, weekStart),
+    loadWeekAssignments(companyId, weekStart, timezone),
+  ]);
+  const changes = diffRotaSnapshots(parseRotaSnapshot(latest?.snapshot), current);
+
+  return {
+    weekStart: weekStartDate(weekStart).toISOString().slice(0, 10),
+    status: !latest ? 'draft' : changes.length > 0 ? 'unpublished_changes' : 'published',
+    version: latest?.version ?? null,
+    publishedAt: latest?.publishedAt ?? null,
+    publishedBy: latest?.publishedBy ?? null,
+    changes,
+  };
+}
+
+/**
+ * Publish a week's rota: snapshot it and tell each affected cleaner what changed for them
+ */
+export async function publishRotaWeek(
+  companyId: number,
+  weekStart: LocalDate,
+  publishedById: number
+): Promise<{ state?: RotaWeekState; publicationId?: number; notified?: number; error?: string; httpStatus?: number }> {
+  const timezone = await getCompanyTimezone(companyId);
+  const [latest, current] = await Promise.all([
+    latestPublication(companyId, weekStart),
+    loadWeekAssignments(companyId, weekStart, timezone),
+  ]);
+  const changes = diffRotaSnapshots(parseRotaSnapshot(latest?.snapshot), current);
+
+  if (latest && changes.length === 0) {
+    return { error: 'No changes since this week was last published', httpStatus: 409 };
+  }
+
+  let publication;
+  try {
+    publication = await prisma.rotaPublication.create({
+      data: {
+        companyId,
+        weekStart: weekStartDate(weekStart),
+        version: (latest?.version ?? 0) + 1,
+        snapshot: JSON.stringify(current),
+        publishedById,
+      },
+      include: { publishedBy: { select: { id: true, firstName: true, lastName: true } } },
+    });
+  } catch (error: any) {
+    // Someone else published the same week at the same moment
+    if (error?.code === 'P2002') {
+      return { error: 'This week was just published by someone else', httpStatus: 409 };
+    }
+    throw error;
+  }
+
+  for (const cleanerChanges of changes) {
+    await sendRotaPublishedNotification(cleanerChanges, publication.weekStart, timezone);
+  }
+
+  return {
+    state: {
+      weekStart: publication.weekStart.toISOString().slice(0, 10),
+      status: 'published',
+      version: publication.version,
+      publishedAt: publication.publishedAt,
+      publishedBy: publication.publishedBy,
+      changes: [],
+    },
+    publicationId: publication.id,
+    notified: changes.length,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Cross-entity Search
+ *
+ * Full-text search over tasks, properties, notes, issues, users and chat messages using
+ * Postgres text search. Each entity type is queried separately with ts_rank for relevance
+ * and ts_headline for highlighted snippets; results are merged by rank.
+ *
+ * Terms are prefix-matched so partial input ("bak stre") finds "Baker Street". Queries run
+ * through the pg pool because the tsvector expressions must match the GIN expression
+ * indexes created in the add_search_indexes migration.
+ *
+ * Results are scoped to one company (or every company for platform roles). Chat messages
+ * are private, so only messages the viewer sent or received are searched.
+ */
+
+import pool from "@/lib/db";
+
+export type SearchEntityType = 'task' | 'property' | 'note' | 'issue' | 'user' | 'message';
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = ['task', 'property', 'note', 'issue', 'user', 'message'];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+const MAX_SEARCH_TERMS = 8;
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: number;
+  title: string;
+  subtitle: string | null;
+  snippet: string; // Matches wrapped in <mark></mark>
+  rank: number;
+  href: string;
+}
+
+export interface SearchOptions {
+  companyId: number | null; // null searches every company (platform roles only)
+  viewerId: number;
+  types?: SearchEntityType[];
+  limit?: number;
+}
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, ShortWord=2, MaxFragments=2';
+
+/**
+ * Convert free text into a prefix-matching tsquery ("baker st" -> "baker:* & st:*").
+ * Only letters and digits survive, so user input can never inject tsquery operators.
+ * Returns null when there is nothing to search for.
+ */
+export function toPrefixTsQuery(text: string): string | null {
+  const terms = text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\u024f]+/)
+    .filter(Boolean)
+    .slice(0, MAX_SEARCH_TERMS);
+  if (terms.length === 0) return null;
+  return terms.map(term => `${term}:*`).join(' & ');
+}
+
+/**
+ * Parse a comma-separated types filter; unknown types are ignored and an empty
+ * filter means every type
+ */
+export function parseSearchTypes(raw: string | null | undefined): SearchEntityType[] {
+  if (!raw) return SEARCH_ENTITY_TYPES;
+  const types = raw.split(',').map(t => t.trim()).filter((t): t is SearchEntityType =>
+    SEARCH_ENTITY_TYPES.includes(t as SearchEntityType)
+  );
+  return types.length > 0 ? types : SEARCH_ENTITY_TYPES;
+}
+
+/**
+ * Clamp a requested result limit
+ */
+export function clampSearchLimit(raw: string | number | null | undefined): number {
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit < 1) return DEFAULT_SEARCH_LIMIT;
+  return Math.min(limit, MAX_SEARCH_LIMIT);
+}
+
+// One query per entity type. $1 = tsquery, $2 = company id (or null), $3 = viewer id, $4 = limit.
+// The document expressions must stay identical to the GIN indexes in the migration.
+const ENTITY_QUERIES: Record<SearchEntityType, string> = {
+  task: `
+    SELECT t.id, t.title, p.address AS subtitle,
+           ts_rank(doc, q) AS rank,
+           ts_headline('english', t.title || ' ' || coalesce(t.description, ''), q, '${HEADLINE_OPTIONS}') AS snippet
+    FROM tasks t
+    JOIN properties p ON p.id = t.property_id,
+         to_tsquery('english', $1) q,
+         LATERAL (SELECT setweight(to_tsvector('english', coalesce(t.title, '')), 'A')
+                      || setweight(to_tsvector('english', coalesce(t.description, '')), 'B') AS doc) d
+    WHERE doc @@ q AND ($2::int IS NULL OR t.company_id = $2)
+    ORDER BY rank DESC LIMIT $4`,
+  property: `
+    SELECT p.id, p.address AS title, p.postcode AS subtitle,
+           ts_rank(doc, q) AS rank,
+           ts_headline('english', p.address || ' ' || coalesce(p.postcode, '') || ' ' || coalesce(p.notes, ''), q, '${HEADLINE_OPTIONS}') AS snippet
+    FROM properties p,
+         to_tsquery('english', $1) q,
+         LATERAL (SELECT setweight(to_tsvector('english', coalesce(p.address, '') || ' ' || coalesce(p.postcode, '')), 'A')
+                      || setweight(to_tsvector('english', coalesce(p.notes, '')), 'B') AS doc) d
+    WHERE doc @@ q AND ($2::int IS NULL OR p.company_id = $2)
+    ORDER BY rank DESC LIMIT $4`,
+  note: `
+    SELECT n.id, coalesce(t.title, p.address, 'Note') AS title, n.category AS subtitle,
+           ts_rank(doc, q) AS rank,
+           ts_headline('english', n.content, q, '${HEADLINE_OPTIONS}') AS snippet
+    FROM notes n
+    LEFT JOIN tasks t ON t.id = n.task_id
+    LEFT JOIN properties p ON p.id = n.property_id
+    JOIN users u ON u.id = n.user_id,
+         to_tsquery('english', $1) q,
+         LATERAL (SELECT to_tsvector('english', n.content) AS doc) d
+    WHERE doc @@ q AND n.note_type <> 'issue'
+      AND ($2::int IS NULL OR coalesce(t.company_id, p.company_id, u.company_id) = $2)
+    ORDER BY rank DESC LIMIT $4`,
+  issue: `
+    SELECT n.id, coalesce(t.title, p.address, 'Issue') AS title, n.category AS subtitle,
+           ts_rank(doc, q) AS rank,
+           ts_headline('english', n.content, q, '${HEADLINE_OPTIONS}') AS snippet
+    FROM notes n
+    LEFT JOIN tasks t ON t.id = n.task_id
+    LEFT JOIN properties p ON p.id = n.property_id
+    JOIN users u ON u.id = n.user_id,
+         to_tsquery('english', $1) q,
+         LATERAL (SELECT to_tsvector('english', n.content) AS doc) d
+    WHERE doc @@ q AND n.note_type = 'issue'
+      AND ($2::int IS NULL OR coalesce(t.company_id, p.company_id, u.company_id) = $2)
+    ORDER BY rank DESC LIMIT $4`,
+  user: `
+    SELECT u.id, trim(coalesce(u.first_name, '') || ' ' || coalesce(u.last_name, '')) AS title, u.email AS subtitle,
+           ts_rank(doc, q) AS rank,
+           ts_headline('simple', coalesce(u.first_name, '') || ' ' || coalesce(u.last_name, '') || ' ' || u.email, q, '${HEADLINE_OPTIONS}') AS snippet
+    FROM users u,
+         to_tsquery('simple', $1) q,
+         LATERAL (SELECT to_tsvector('simple', coalesce(u.first_name, '') || ' ' || coalesce(u.last_name, '') || ' ' || u.email) AS doc) d
+    WHERE doc @@ q AND ($2::int IS NULL OR u.company_id = $2)
+    ORDER BY rank DESC LIMIT $4`,
+  message: `
+    SELECT m.id, m.task_id, trim(coalesce(s.first_name, '') || ' ' || coalesce(s.last_name, '')) AS title, t.title AS subtitle,
+           ts_rank(doc, q) AS rank,
+           ts_headline('english', m.message, q, '${HEADLINE_OPTIONS}') AS snippet
+    FROM chat_messages m
+    JOIN users s ON s.id = m.sender_id
+    LEFT JOIN tasks t ON t.id = m.task_id,
+         to_tsquery('english', $1) q,
+         LATERAL (SELECT to_tsvector('english', m.message) AS doc) d
+    WHERE doc @@ q AND (m.sender_id = $3 OR m.receiver_id = $3)
+      AND ($2::int IS NULL OR s.company_id = $2)
+    ORDER BY rank DESC LIMIT $4`,
+};
+
+/**
+ * Admin page a result links to. Messages link to their task when they have one.
+ */
+export function searchResultHref(type: SearchEntityType, id: number, taskId?: number | null): string {
+  switch (type) {
+    case 'task':
+      return `/admin/tasks?taskId=${id}`;
+    case 'property':
+      return `/admin/properties?propertyId=${id}`;
+    case 'note':
+    case 'issue':
+      return `/admin/issues?noteId=${id}`;
+    case 'user':
+      return `/admin/users?userId=${id}`;
+    case 'message':
+      return taskId ? `/admin/tasks?taskId=${taskId}` : '/admin/dashboard';
+  }
+}
+
+/**
+ * Search every requested entity type and merge the results by relevance
+ */
+export async function searchAll(text: string, options: SearchOptions): Promise<SearchResult[]> {
+  const tsQuery = toPrefixTsQuery(text);
+  if (!tsQuery) return [];
+
+  const limit = clampSearchLimit(options.limit);
+  const types = options.types && options.types.length > 0 ? options.types : SEARCH_ENTITY_TYPES;
+  const params = [tsQuery, options.companyId, options.viewerId, limit];
+
+  const perType = await Promise.all(
+    types.map(async (type) => {
+      const { rows } = await pool.query(ENTITY_QUERIES[type], params);
+      return rows.map((row): SearchResult => ({
+        type,
+        id: row.id,
+        title: row.title || row.subtitle || `#${row.id}`,
+        subtitle: row.subtitle ?? null,
+        snippet: row.snippet ?? '',
+        rank: Number(row.rank),
+        href: searchResultHref(type, row.id, row.task_id),
+      }));
+    })
+  );
+
+  return perType.flat().sort((a, b) => b.rank - a.rank).slice(0, limit);
+}
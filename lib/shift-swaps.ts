@@ -0,0 +1,293 @@
+/**
+ * Shift Swaps
+ *
+ * A cleaner offers one of their upcoming tasks to a named colleague, or to any eligible
+ * cleaner in the company. Flow:
+ *   pending  -> accepted  (the colleague takes it; or declined by a named colleague)
+ *   accepted -> approved  (a manager approves; assignments move) or rejected
+ * The requester can cancel while the request is pending or accepted.
+ *
+ * On approval the requester's assignment is handed to the colleague in one transaction:
+ * their TaskAssignment row is replaced and Task.assignedUserId follows if it pointed at them.
+ * validateAssignment warnings for the colleague are returned for the manager to review but
+ * never block the swap, matching manual assignment.
+ */
+
+import prisma from "@/lib/prisma";
+import { ShiftSwapRequest, TaskStatus, UserRole } from "@prisma/client";
+import { ConflictWarning, getWeekBounds, validateAssignment } from "@/lib/rota-conflicts";
+import { sendShiftSwapNotification } from "@/lib/notifications";
+import { getCompanyTimezone } from "@/lib/timezone";
+
+export type SwapStatus = 'pending' | 'accepted' | 'approved' | 'rejected' | 'declined' | 'cancelled';
+
+// Requests still in progress; a task can have only one at a time
+export const OPEN_SWAP_STATUSES: SwapStatus[] = ['pending', 'accepted'];
+
+// Tasks that can be swapped (not yet started)
+export const SWAPPABLE_TASK_STATUSES: TaskStatus[] = [TaskStatus.PLANNED, TaskStatus.ASSIGNED];
+
+export interface SwapResult {
+  swap?: ShiftSwapRequest;
+  warnings?: ConflictWarning[];
+  error?: string;
+  httpStatus?: number;
+}
+
+interface SwapTask {
+  id: number;
+  companyId: number;
+  status: TaskStatus;
+  scheduledDate: Date | null;
+  assignedUserId: number | null;
+  taskAssignments: { userId: number }[];
+}
+
+const swapTaskSelect = {
+  id: true,
+  companyId: true,
+  status: true,
+  scheduledDate: true,
+  propertyId: true,
+  estimatedDurationMinutes: true,
+  assignedUserId: true,
+  taskAssignments: { select: { userId: true } },
+} as const;
+
+/**
+ * Everyone assigned to a task (primary assignee plus TaskAssignment rows)
+ */
+export function getAssigneeIds(task: { assignedUserId: number | null; taskAssignments: { userId: number }[] }): number[] {
+  const ids = task.taskAssignments.map(a => a.userId);
+  if (task.assignedUserId) ids.push(task.assignedUserId);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Why a task cannot be offered by a user right now, or null when it can
+ */
+export function swapTaskError(task: SwapTask, requesterId: number, now: Date = new Date()): string | null {
+  if (!getAssigneeIds(task).includes(requesterId)) return 'You are not assigned to this task';
+  if (!SWAPPABLE_TASK_STATUSES.includes(task.status)) return `Cannot swap a task that is ${task.status}`;
+  if (task.scheduledDate && task.scheduledDate <= now) return 'Cannot swap a task that has already started';
+  return null;
+}
+
+/**
+ * Why a user cannot accept or decline a request, or null when they can
+ */
+export function swapResponseError(
+  swap: Pick<ShiftSwapRequest, 'status' | 'requesterId' | 'targetUserId'>,
+  userId: number,
+  assigneeIds: number[]
+): string | null {
+  if (swap.status !== 'pending') return `This request is already ${swap.status}`;
+  if (swap.requesterId === userId) return 'You cannot respond to your own request';
+  if (swap.targetUserId && swap.targetUserId !== userId) return 'This request was offered to someone else';
+  if (assigneeIds.includes(userId)) return 'You are already assigned to this task';
+  return null;
+}
+
+/**
+ * The task's assignment after handing it from one cleaner to another
+ */
+export function swapAssignment(
+  task: { assignedUserId: number | null; taskAssignments: { userId: number }[] },
+  fromUserId: number,
+  toUserId: number
+): { assignedUserId: number | null; assigneeIds: number[] } {
+  return {
+    assignedUserId: task.assignedUserId === fromUserId ? toUserId : task.assignedUserId,
+    assigneeIds: getAssigneeIds(task).map(id => (id === fromUserId ? toUserId : id)),
+  };
+}
+
+/**
+ * Active cleaners in the company who could take a task
+ */
+export async function getEligibleSwapUserIds(task: Pick<SwapTask, 'companyId' | 'assignedUserId' | 'taskAssignments'>): Promise<number[]> {
+  const cleaners = await prisma.user.findMany({
+    where: {
+      companyId: task.companyId,
+      role: UserRole.CLEANER,
+      isActive: true,
+      id: { notIn: getAssigneeIds(task) },
+    },
+    select: { id: true },
+  });
+  return cleaners.map(cleaner => cleaner.id);
+}
+
+/**
+ * validateAssignment warnings for the colleague taking over the task
+ */
+export async function getSwapWarnings(taskId: number, userId: number): Promise<ConflictWarning[]> {
+  const task = await prisma.task.findUnique({ where: { id: taskId }, select: swapTaskSelect });
+  if (!task?.scheduledDate) return [];
+
+  const timezone = await getCompanyTimezone(task.companyId);
+  const { weekStart, weekEnd } = getWeekBounds(task.scheduledDate, timezone);
+  const validation = await validateAssignment(
+    userId,
+    task.id,
+    task.scheduledDate,
+    task.propertyId,
+    task.estimatedDurationMinutes,
+    weekStart,
+    weekEnd,
+    timezone
+  );
+  return validation.warnings;
+}
+
+/**
+ * Offer a task to a named colleague (targetUserId) or to anyone eligible (null)
+ */
+export async function createSwapRequest(
+  taskId: number,
+  requesterId: number,
+  targetUserId: number | null,
+  note: string | null,
+  now: Date = new Date()
+): Promise<SwapResult> {
+  const task = await prisma.task.findUnique({ where: { id: taskId }, select: swapTaskSelect });
+  if (!task) return { error: 'Task not found', httpStatus: 404 };
+
+  const taskError = swapTaskError(task, requesterId, now);
+  if (taskError) return { error: taskError, httpStatus: 409 };
+
+  const existing = await prisma.shiftSwapRequest.findFirst({
+    where: { taskId, requesterId, status: { in: OPEN_SWAP_STATUSES } },
+  });
+  if (existing) return { error: 'You already have an open swap request for this task', httpStatus: 409 };
+
+  const eligible = await getEligibleSwapUserIds(task);
+  if (targetUserId && !eligible.includes(targetUserId)) {
+    return { error: 'That colleague cannot take this task', httpStatus: 400 };
+  }
+
+  const swap = await prisma.shiftSwapRequest.create({
+    data: { taskId, companyId: task.companyId, requesterId, targetUserId, note },
+  });
+
+  await sendShiftSwapNotification(swap, targetUserId ? [targetUserId] : eligible, 'offered');
+  return { swap };
+}
+
+/**
+ * Accept or decline a pending request. Declining an open offer is not recorded
+ * (someone else may still take it).
+ */
+export async function respondToSwapRequest(swapId: number, userId: number, accepted: boolean): Promise<SwapResult> {
+  const swap = await prisma.shiftSwapRequest.findUnique({
+    where: { id: swapId },
+    include: { task: { select: swapTaskSelect } },
+  });
+  if (!swap) return { error: 'Swap request not found', httpStatus: 404 };
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { companyId: true, role: true, isActive: true } });
+  if (!user || user.companyId !== swap.companyId || user.role !== UserRole.CLEANER || !user.isActive) {
+    return { error: 'You cannot respond to this request', httpStatus: 403 };
+  }
+
+  const responseError = swapResponseError(swap, userId, getAssigneeIds(swap.task));
+  if (responseError) return { error: responseError, httpStatus: 409 };
+
+  if (!accepted) {
+    if (!swap.targetUserId) return { swap };
+    const declined = await prisma.shiftSwapRequest.update({ where: { id: swapId }, data: { status: 'declined' } });
+    await sendShiftSwapNotification(declined, [swap.requesterId], 'declined');
+    return { swap: declined };
+  }
+
+  // Guard against two colleagues accepting an open offer at the same time
+  const { count } = await prisma.shiftSwapRequest.updateMany({
+    where: { id: swapId, status: 'pending' },
+    data: { status: 'accepted', acceptedById: userId, acceptedAt: new Date() },
+  });
+  if (count === 0) return { error: 'This request has already been taken', httpStatus: 409 };
+
+  const updated = await prisma.shiftSwapRequest.findUniqueOrThrow({ where: { id: swapId } });
+  const managers = await prisma.user.findMany({
+    where: { companyId: swap.companyId, role: { in: [UserRole.MANAGER, UserRole.COMPANY_ADMIN] }, isActive: true },
+    select: { id: true },
+  });
+  await sendShiftSwapNotification(updated, [swap.requesterId], 'accepted');
+  await sendShiftSwapNotification(updated, managers.map(m => m.id), 'awaiting_approval');
+
+  return { swap: updated, warnings: await getSwapWarnings(swap.taskId, userId) };
+}
+
+/**
+ * Withdraw a request that has not been decided yet
+ */
+export async function cancelSwapRequest(swapId: number, userId: number): Promise<SwapResult> {
+  const swap = await prisma.shiftSwapRequest.findUnique({ where: { id: swapId } });
+  if (!swap) return { error: 'Swap request not found', httpStatus: 404 };
+  if (swap.requesterId !== userId) return { error: 'Only the requester can cancel this request', httpStatus: 403 };
+  if (!OPEN_SWAP_STATUSES.includes(swap.status as SwapStatus)) {
+    return { error: `This request is already ${swap.status}`, httpStatus: 409 };
+  }
+
+  const cancelled = await prisma.shiftSwapRequest.update({ where: { id: swapId }, data: { status: 'cancelled' } });
+  const notify = cancelled.acceptedById ?? cancelled.targetUserId;
+  if (notify) await sendShiftSwapNotification(cancelled, [notify], 'cancelled');
+  return { swap: cancelled };
+}
+
+/**
+ * Manager decision on an accepted request. Approving hands the requester's assignment to
+ * the colleague atomically; the request is rejected instead if the requester has since
+ * been taken off the task.
+ */
+export async function decideSwapRequest(
+  swapId: number,
+  managerId: number,
+  approved: boolean,
+  decisionNote: string | null
+): Promise<SwapResult> {
+  const swap = await prisma.shiftSwapRequest.findUnique({ where: { id: swapId } });
+  if (!swap) return { error: 'Swap request not found', httpStatus: 404 };
+  if (swap.status !== 'accepted' || !swap.acceptedById) {
+    return { error: swap.status === 'pending' ? 'No colleague has accepted this request yet' : `This request is already ${swap.status}`, httpStatus: 409 };
+  }
+  const fromUserId = swap.requesterId;
+  const toUserId = swap.acceptedById;
+  const decision = { decidedById: managerId, decidedAt: new Date(), decisionNote };
+
+  if (!approved) {
+    const rejected = await prisma.shiftSwapRequest.update({ where: { id: swapId }, data: { ...decision, status: 'rejected' } });
+    await sendShiftSwapNotification(rejected, [fromUserId, toUserId], 'rejected');
+    return { swap: rejected };
+  }
+
+  const warnings = await getSwapWarnings(swap.taskId, toUserId);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const task = await tx.task.findUniqueOrThrow({
+      where: { id: swap.taskId },
+      select: { id: true, status: true, scheduledDate: true, assignedUserId: true, taskAssignments: { select: { userId: true } } },
+    });
+    const assigneeIds = getAssigneeIds(task);
+    if (!assigneeIds.includes(fromUserId) || assigneeIds.includes(toUserId) || !SWAPPABLE_TASK_STATUSES.includes(task.status)) {
+      return null;
+    }
+
+    const next = swapAssignment(task, fromUserId, toUserId);
+    await tx.taskAssignment.deleteMany({ where: { taskId: task.id, userId: fromUserId } });
+    if (task.taskAssignments.some(a => a.userId === fromUserId)) {
+      await tx.taskAssignment.create({ data: { taskId: task.id, userId: toUserId } });
+    }
+    if (next.assignedUserId !== task.assignedUserId) {
+      await tx.task.update({ where: { id: task.id }, data: { assignedUserId: next.assignedUserId } });
+    }
+    return tx.shiftSwapRequest.update({ where: { id: swapId }, data: { ...decision, status: 'approved' } });
+  });
+
+  if (!result) {
+    return { error: 'The task assignment has changed since this request was made', httpStatus: 409 };
+  }
+
+  await sendShiftSwapNotification(result, [fromUserId, toUserId], 'approved');
+  return { swap: result, warnings };
+}
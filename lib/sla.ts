@@ -0,0 +1,250 @@
+/**
+ * Task SLA Deadlines
+ *
+ * Tasks can carry a must-finish-by deadline (Task.dueBy, e.g. the next guest check-in).
+ * The SLA check cron evaluates open tasks against their deadline and records breaches:
+ * - not_started: not started within slaStartWarningMinutes of the deadline
+ * - at_risk:     still IN_PROGRESS within slaFinishWarningMinutes of the deadline
+ * - missed:      the deadline passed before the task was submitted
+ *
+ * Open breaches escalate one level per run, waiting slaEscalationMinutes between levels:
+ * the assigned cleaners first, then the company's managers, then its company admins.
+ * A task counts as finished once it is submitted for QA (Task.submittedAt).
+ */
+
+import prisma from "@/lib/prisma";
+import { TaskStatus, UserRole } from "@prisma/client";
+import { sendSlaBreachNotification } from "@/lib/notifications";
+
+export type SlaBreachKind = 'not_started' | 'at_risk' | 'missed';
+
+export interface SlaSettings {
+  startWarningMinutes: number;
+  finishWarningMinutes: number;
+  escalationMinutes: number;
+}
+
+export const DEFAULT_SLA_SETTINGS: SlaSettings = {
+  startWarningMinutes: 120,
+  finishWarningMinutes: 30,
+  escalationMinutes: 30,
+};
+
+// Escalation levels, in order
+export const SLA_ESCALATION_LEVELS = ['cleaner', 'manager', 'company_admin'] as const;
+
+// Work is done once the task reaches one of these statuses (or no longer needed, if cancelled)
+export const SLA_FINISHED_STATUSES: TaskStatus[] = [
+  TaskStatus.SUBMITTED,
+  TaskStatus.QA_REVIEW,
+  TaskStatus.APPROVED,
+  TaskStatus.ARCHIVED,
+  TaskStatus.CANCELLED,
+];
+
+export interface SlaTaskState {
+  status: TaskStatus;
+  startedAt: Date | null;
+  dueBy: Date | null;
+}
+
+export interface SlaComplianceSummary {
+  tasksWithDeadline: number;
+  met: number;
+  missed: number;
+  pending: number; // Not finished and deadline still ahead
+  complianceRate: number; // Percentage of decided tasks (met + missed) that met their deadline
+}
+
+export interface SlaCheckResult {
+  breachesOpened: number;
+  breachesResolved: number;
+  escalations: { taskId: number; kind: SlaBreachKind; level: number; notifiedUserIds: number[] }[];
+}
+
+/**
+ * Decide which breach (if any) applies to a task at `now`
+ */
+export function evaluateSla(task: SlaTaskState, now: Date, settings: SlaSettings = DEFAULT_SLA_SETTINGS): SlaBreachKind | null {
+  if (!task.dueBy || SLA_FINISHED_STATUSES.includes(task.status)) return null;
+
+  const minutesLeft = (task.dueBy.getTime() - now.getTime()) / 60000;
+  if (minutesLeft <= 0) return 'missed';
+
+  if (task.status === TaskStatus.IN_PROGRESS) {
+    return minutesLeft <= settings.finishWarningMinutes ? 'at_risk' : null;
+  }
+  if (!task.startedAt && minutesLeft <= settings.startWarningMinutes) return 'not_started';
+  return null;
+}
+
+/**
+ * The level an open breach should escalate to at `now`, or null when it should wait.
+ * Level 1 (cleaner) is notified as soon as the breach is recorded.
+ */
+export function nextEscalationLevel(
+  breach: { escalationLevel: number; lastEscalatedAt: Date | null },
+  now: Date,
+  settings: SlaSettings = DEFAULT_SLA_SETTINGS
+): number | null {
+  if (breach.escalationLevel >= SLA_ESCALATION_LEVELS.length) return null;
+  if (breach.escalationLevel === 0 || !breach.lastEscalatedAt) return breach.escalationLevel + 1;
+  const waitedMinutes = (now.getTime() - breach.lastEscalatedAt.getTime()) / 60000;
+  return waitedMinutes >= settings.escalationMinutes ? breach.escalationLevel + 1 : null;
+}
+
+/**
+ * Move a deadline with its task: keeps the same offset from the start when a task is
+ * copied to `newStart` (recurring instances, series splits, week clones)
+ */
+export function shiftDeadline(source: { scheduledDate: Date | null; dueBy: Date | null }, newStart: Date): Date | null {
+  if (!source.dueBy || !source.scheduledDate) return null;
+  return new Date(newStart.getTime() + (source.dueBy.getTime() - source.scheduledDate.getTime()));
+}
+
+/**
+ * SLA compliance for tasks with a deadline
+ */
+export function summarizeSlaCompliance(
+  tasks: { dueBy: Date | null; submittedAt: Date | null; completedAt: Date | null }[],
+  now: Date = new Date()
+): SlaComplianceSummary {
+  const summary = { tasksWithDeadline: 0, met: 0, missed: 0, pending: 0, complianceRate: 0 };
+  for (const task of tasks) {
+    if (!task.dueBy) continue;
+    summary.tasksWithDeadline++;
+    const finishedAt = task.submittedAt ?? task.completedAt;
+    if (finishedAt) {
+      finishedAt <= task.dueBy ? summary.met++ : summary.missed++;
+    } else if (task.dueBy <= now) {
+      summary.missed++;
+    } else {
+      summary.pending++;
+    }
+  }
+  const decided = summary.met + summary.missed;
+  summary.complianceRate = decided > 0 ? Math.round((summary.met / decided) * 1000) / 10 : 0;
+  return summary;
+}
+
+/**
+ * Load a company's SLA thresholds (defaults when it has no configuration)
+ */
+async function getSlaSettings(companyId: number): Promise<SlaSettings> {
+  const config = await prisma.adminConfiguration.findUnique({
+    where: { companyId },
+    select: { slaStartWarningMinutes: true, slaFinishWarningMinutes: true, slaEscalationMinutes: true },
+  });
+  if (!config) return DEFAULT_SLA_SETTINGS;
+  return {
+    startWarningMinutes: config.slaStartWarningMinutes,
+    finishWarningMinutes: config.slaFinishWarningMinutes,
+    escalationMinutes: config.slaEscalationMinutes,
+  };
+}
+
+/**
+ * Users notified at an escalation level
+ */
+async function getEscalationRecipients(
+  task: { companyId: number; assignedUserId: number | null; taskAssignments: { userId: number }[] },
+  level: number
+): Promise<number[]> {
+  if (level === 1) {
+    const ids = task.taskAssignments.map(a => a.userId);
+    if (task.assignedUserId) ids.push(task.assignedUserId);
+    return Array.from(new Set(ids));
+  }
+  const role = level === 2 ? UserRole.MANAGER : UserRole.COMPANY_ADMIN;
+  const users = await prisma.user.findMany({
+    where: { companyId: task.companyId, role, isActive: true },
+    select: { id: true },
+  });
+  return users.map(user => user.id);
+}
+
+/**
+ * Evaluate every open task with a deadline, record and resolve breaches, and escalate
+ * open breaches. Safe to run repeatedly: each task has at most one open breach per kind.
+ */
+export async function runSlaCheck(now: Date = new Date()): Promise<SlaCheckResult> {
+  const result: SlaCheckResult = { breachesOpened: 0, breachesResolved: 0, escalations: [] };
+
+  const openBreaches = await prisma.slaBreach.findMany({
+    where: { resolvedAt: null },
+    select: { taskId: true },
+  });
+
+  // Look ahead far enough for the largest warning window any company uses
+  const maxWarning = await prisma.adminConfiguration.aggregate({ _max: { slaStartWarningMinutes: true } });
+  const lookaheadMinutes = Math.max(
+    maxWarning._max.slaStartWarningMinutes ?? 0,
+    DEFAULT_SLA_SETTINGS.startWarningMinutes
+  );
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      OR: [
+        {
+          dueBy: { not: null, lte: new Date(now.getTime() + lookaheadMinutes * 60000) },
+          status: { notIn: SLA_FINISHED_STATUSES },
+        },
+        { id: { in: openBreaches.map(b => b.taskId) } },
+      ],
+    },
+    select: {
+      id: true,
+      companyId: true,
+      status: true,
+      startedAt: true,
+      dueBy: true,
+      assignedUserId: true,
+      taskAssignments: { select: { userId: true } },
+      slaBreaches: { where: { resolvedAt: null } },
+    },
+  });
+
+  const settingsByCompany = new Map<number, SlaSettings>();
+  for (const task of tasks) {
+    if (!settingsByCompany.has(task.companyId)) {
+      settingsByCompany.set(task.companyId, await getSlaSettings(task.companyId));
+    }
+    const settings = settingsByCompany.get(task.companyId)!;
+    const kind = evaluateSla(task, now, settings);
+
+    // Breaches that no longer apply (task started, finished, deadline moved or a worse kind) are resolved
+    const stale = task.slaBreaches.filter(b => b.kind !== kind || b.dueBy.getTime() !== task.dueBy?.getTime());
+    if (stale.length > 0) {
+      await prisma.slaBreach.updateMany({
+        where: { id: { in: stale.map(b => b.id) } },
+        data: { resolvedAt: now },
+      });
+      result.breachesResolved += stale.length;
+    }
+    if (!kind || !task.dueBy) continue;
+
+    let breach = task.slaBreaches.find(b => b.kind === kind && b.dueBy.getTime() === task.dueBy!.getTime());
+    if (!breach) {
+      // Re-opens a breach of the same kind that was resolved earlier (e.g. after a deadline change)
+      breach = await prisma.slaBreach.upsert({
+        where: { taskId_kind: { taskId: task.id, kind } },
+        create: { taskId: task.id, companyId: task.companyId, kind, dueBy: task.dueBy, detectedAt: now },
+        update: { dueBy: task.dueBy, detectedAt: now, escalationLevel: 0, lastEscalatedAt: null, resolvedAt: null },
+      });
+      result.breachesOpened++;
+    }
+
+    const level = nextEscalationLevel(breach, now, settings);
+    if (!level) continue;
+
+    const recipients = await getEscalationRecipients(task, level);
+    await sendSlaBreachNotification(task.id, recipients, kind, task.dueBy, level);
+    await prisma.slaBreach.update({
+      where: { id: breach.id },
+      data: { escalationLevel: level, lastEscalatedAt: now },
+    });
+    result.escalations.push({ taskId: task.id, kind, level, notifiedUserIds: recipients });
+  }
+
+  return result;
+}
@@ -0,0 +1,324 @@
+/**
+ * Bulk Task Operations
+ *
+ * Applies one operation to a selection of tasks and reports per-task results:
+ * - assign / unassign cleaners (PLANNED tasks become ASSIGNED, and back when nobody is left)
+ * - shift scheduled dates (and SLA deadlines with them)
+ * - change status (through the lifecycle rules in lib/task-lifecycle)
+ * - apply a checklist template (replacing only checklists nobody has answered yet)
+ *
+ * Assignees, dates and checklists only change on tasks that have not started, so the record
+ * of work done (who did it, when, answers and photo evidence) is never rewritten.
+ *
+ * Each task is processed independently so one failure does not abort the batch.
+ * Assignment and date changes are re-checked with lib/rota-conflicts; conflicts are
+ * returned as warnings and never block the change, matching single-task assignment.
+ */
+
+import prisma from "@/lib/prisma";
+import { TaskStatus, UserRole } from "@prisma/client";
+import { ConflictWarning, validateAssignment } from "@/lib/rota-conflicts";
+import { transitionTaskStatus, updateTaskAssignment } from "@/lib/task-lifecycle";
+import { sendTaskAssignmentNotifications } from "@/lib/notifications";
+import { ChecklistItemDefinition, checklistDataForProperty, parseChecklistDefinitions } from "@/lib/checklist-items";
+import { getCurrentChecklistVersion, getPropertyChecklistAttributes } from "@/lib/checklist-templates";
+import { shiftDeadline } from "@/lib/sla";
+
+export const MAX_BULK_TASKS = 200;
+
+// Tasks whose assignees, dates and checklist can still change: once work has started they are history
+const UNSTARTED_STATUSES: TaskStatus[] = [TaskStatus.DRAFT, TaskStatus.PLANNED, TaskStatus.ASSIGNED];
+
+export type BulkOperation =
+  | { type: 'assign'; userIds: number[]; replace?: boolean }
+  | { type: 'unassign'; userIds?: number[] } // No userIds removes every assignee
+  | { type: 'shift_date'; days?: number; minutes?: number }
+  | { type: 'change_status'; status: TaskStatus; reason?: string }
+  | { type: 'apply_checklist_template'; templateId: number; replace?: boolean };
+
+export interface BulkActor {
+  userId: number;
+  role: UserRole;
+  companyId: number | null; // null for platform roles that may act across companies
+}
+
+export interface BulkTaskResult {
+  taskId: number;
+  success: boolean;
+  message?: string;
+  warnings: ConflictWarning[];
+}
+
+export interface BulkOperationResult {
+  results: BulkTaskResult[];
+  succeeded: number;
+  failed: number;
+  warningCount: number;
+}
+
+/**
+ * Validate the raw request body into an operation; returns an error message when invalid
+ */
+export function parseBulkOperation(body: any): { operation?: BulkOperation; error?: string } {
+  const type = body?.operation;
+  switch (type) {
+    case 'assign': {
+      const userIds = Array.isArray(body.userIds) ? body.userIds.map(Number).filter(Number.isInteger) : [];
+      if (userIds.length === 0) return { error: 'userIds are required to assign' };
+      return { operation: { type, userIds, replace: body.replace !== false } };
+    }
+    case 'unassign': {
+      const userIds = Array.isArray(body.userIds) ? body.userIds.map(Number).filter(Number.isInteger) : undefined;
+      return { operation: { type, userIds } };
+    }
+    case 'shift_date': {
+      const days = Number(body.days || 0);
+      const minutes = Number(body.minutes || 0);
+      if (!Number.isFinite(days) || !Number.isFinite(minutes) || (days === 0 && minutes === 0)) {
+        return { error: 'days or minutes must be a non-zero number' };
+      }
+      return { operation: { type, days, minutes } };
+    }
+    case 'change_status': {
+      if (!Object.values(TaskStatus).includes(body.status)) return { error: 'A valid status is required' };
+      return { operation: { type, status: body.status, reason: body.reason } };
+    }
+    case 'apply_checklist_template': {
+      const templateId = Number(body.templateId);
+      if (!Number.isInteger(templateId)) return { error: 'templateId is required' };
+      return { operation: { type, templateId, replace: body.replace === true } };
+    }
+    default:
+      return { error: 'operation must be one of assign, unassign, shift_date, change_status, apply_checklist_template' };
+  }
+}
+
+/**
+ * Re-run conflict checks for every assignee of a task at its current schedule
+ */
+async function checkAssignees(taskId: number): Promise<ConflictWarning[]> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: {
+      id: true,
+      propertyId: true,
+      scheduledDate: true,
+      estimatedDurationMinutes: true,
+      taskAssignments: { select: { userId: true } },
+    },
+  });
+  if (!task?.scheduledDate) return [];
+
+  const warnings: ConflictWarning[] = [];
+  for (const { userId } of task.taskAssignments) {
+    const validation = await validateAssignment(
+      userId,
+      task.id,
+      task.scheduledDate,
+      task.propertyId,
+      task.estimatedDurationMinutes
+    );
+    warnings.push(...validation.warnings);
+  }
+  return warnings;
+}
+
+const CHANGED_MESSAGE = 'Task was changed by someone else';
+
+/**
+ * Replace a task's assignees, moving it between PLANNED and ASSIGNED to match
+ */
+async function replaceAssignees(task: { id: number; status: TaskStatus }, userIds: number[], changedById: number): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const status = await updateTaskAssignment(tx, task, userIds.length > 0, { assignedUserId: userIds[0] ?? null }, changedById);
+    if (!status) return false;
+    await tx.taskAssignment.deleteMany({ where: { taskId: task.id } });
+    if (userIds.length > 0) {
+      await tx.taskAssignment.createMany({ data: userIds.map(userId => ({ taskId: task.id, userId })) });
+    }
+    return true;
+  });
+}
+
+/**
+ * Run one bulk operation over the selected tasks.
+ * Tasks outside the actor's company are reported as failures rather than silently skipped.
+ */
+export async function runBulkOperation(
+  taskIds: number[],
+  operation: BulkOperation,
+  actor: BulkActor
+): Promise<BulkOperationResult> {
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: taskIds } },
+    select: {
+      id: true,
+      companyId: true,
+      propertyId: true,
+      status: true,
+      scheduledDate: true,
+      dueBy: true,
+      startedAt: true,
+      checklistAcknowledgedAt: true,
+    },
+  });
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+
+  // Shared lookups for the whole batch
+  let cleanerCompanies = new Map<number, number | null>();
+  if (operation.type === 'assign') {
+    const users = await prisma.user.findMany({
+      where: { id: { in: operation.userIds }, role: UserRole.CLEANER },
+      select: { id: true, companyId: true },
+    });
+    cleanerCompanies = new Map(users.map(user => [user.id, user.companyId]));
+  }
+
+  let templateItems: ChecklistItemDefinition[] = [];
+  let templateCompanyId: number | null = null;
+  let templateVersionId: number | null = null;
+  if (operation.type === 'apply_checklist_template') {
+    const template = await prisma.checklistTemplate.findUnique({ where: { id: operation.templateId } });
+    const version = template ? await getCurrentChecklistVersion(template.id) : null;
+    if (template && version) {
+      templateItems = parseChecklistDefinitions(version.items);
+      templateCompanyId = template.companyId;
+      templateVersionId = version.id;
+    }
+  }
+
+  const results: BulkTaskResult[] = [];
+  for (const taskId of taskIds) {
+    const task = taskById.get(taskId);
+    if (!task || (actor.companyId !== null && task.companyId !== actor.companyId)) {
+      results.push({ taskId, success: false, message: 'Task not found', warnings: [] });
+      continue;
+    }
+
+    try {
+      switch (operation.type) {
+        case 'assign': {
+          if (!UNSTARTED_STATUSES.includes(task.status)) {
+            results.push({ taskId, success: false, message: `Cannot reassign a task that is ${task.status}`, warnings: [] });
+            continue;
+          }
+          const invalid = operation.userIds.filter(id => cleanerCompanies.get(id) !== task.companyId);
+          if (invalid.length > 0) {
+            results.push({ taskId, success: false, message: `Users ${invalid.join(', ')} are not cleaners in this company`, warnings: [] });
+            continue;
+          }
+          const existing = (await prisma.taskAssignment.findMany({ where: { taskId }, select: { userId: true } }))
+            .map(a => a.userId);
+          const userIds = Array.from(new Set([...(operation.replace ? [] : existing), ...operation.userIds]));
+          if (!(await replaceAssignees(task, userIds, actor.userId))) {
+            results.push({ taskId, success: false, message: CHANGED_MESSAGE, warnings: [] });
+            continue;
+          }
+          const added = userIds.filter(id => !existing.includes(id));
+          if (added.length > 0) await sendTaskAssignmentNotifications(taskId, added);
+          results.push({ taskId, success: true, warnings: await checkAssignees(taskId) });
+          break;
+        }
+
+        case 'unassign': {
+          if (!UNSTARTED_STATUSES.includes(task.status)) {
+            results.push({ taskId, success: false, message: `Cannot unassign a task that is ${task.status}`, warnings: [] });
+            continue;
+          }
+          const remaining = operation.userIds
+            ? (await prisma.taskAssignment.findMany({ where: { taskId }, select: { userId: true } }))
+                .map(a => a.userId)
+                .filter(id => !operation.userIds!.includes(id))
+            : [];
+          if (!(await replaceAssignees(task, remaining, actor.userId))) {
+            results.push({ taskId, success: false, message: CHANGED_MESSAGE, warnings: [] });
+            continue;
+          }
+          results.push({ taskId, success: true, warnings: [] });
+          break;
+        }
+
+        case 'shift_date': {
+          if (!task.scheduledDate) {
+            results.push({ taskId, success: false, message: 'Task is not scheduled', warnings: [] });
+            continue;
+          }
+          if (!UNSTARTED_STATUSES.includes(task.status)) {
+            results.push({ taskId, success: false, message: `Cannot move a task that is ${task.status}`, warnings: [] });
+            continue;
+          }
+          const shiftMs = ((operation.days || 0) * 24 * 60 + (operation.minutes || 0)) * 60 * 1000;
+          const scheduledDate = new Date(task.scheduledDate.getTime() + shiftMs);
+          const { count } = await prisma.task.updateMany({
+            where: { id: taskId, status: task.status, scheduledDate: task.scheduledDate },
+            data: { scheduledDate, dueBy: shiftDeadline(task, scheduledDate) },
+          });
+          if (count === 0) {
+            results.push({ taskId, success: false, message: CHANGED_MESSAGE, warnings: [] });
+            continue;
+          }
+          results.push({ taskId, success: true, warnings: await checkAssignees(taskId) });
+          break;
+        }
+
+        case 'change_status': {
+          const transition = await transitionTaskStatus(
+            taskId,
+            operation.status,
+            { userId: actor.userId, role: actor.role },
+            operation.reason
+          );
+          results.push({ taskId, success: transition.allowed, message: transition.reason, warnings: [] });
+          break;
+        }
+
+        case 'apply_checklist_template': {
+          if (templateItems.length === 0 || templateCompanyId !== task.companyId) {
+            results.push({ taskId, success: false, message: 'Checklist template not found', warnings: [] });
+            continue;
+          }
+          if (!UNSTARTED_STATUSES.includes(task.status) || task.startedAt || task.checklistAcknowledgedAt) {
+            results.push({ taskId, success: false, message: 'Checklists cannot change once a task has started', warnings: [] });
+            continue;
+          }
+          // Conditional items are filtered for the task's property
+          const items = checklistDataForProperty(templateItems, await getPropertyChecklistAttributes(task.propertyId));
+          const applied = await prisma.$transaction(async (tx) => {
+            if (operation.replace) {
+              // Answered items are evidence, as in pushChecklistVersionToTasks
+              const answered = await tx.checklistItem.count({ where: { taskId, isCompleted: true } });
+              if (answered > 0) return false;
+              await tx.checklistItem.deleteMany({ where: { taskId } });
+            }
+            const last = await tx.checklistItem.findFirst({ where: { taskId }, orderBy: { order: 'desc' } });
+            const startOrder = last ? last.order + 1 : 0;
+            await tx.checklistItem.createMany({
+              data: items.map(item => ({ taskId, ...item, order: startOrder + item.order })),
+            });
+            // Record provenance when the checklist now comes entirely from this template version
+            if (startOrder === 0) {
+              await tx.task.update({ where: { id: taskId }, data: { checklistTemplateVersionId: templateVersionId } });
+            }
+            return true;
+          });
+          if (!applied) {
+            results.push({ taskId, success: false, message: 'Checklist has answered items and cannot be replaced', warnings: [] });
+            continue;
+          }
+          results.push({ taskId, success: true, warnings: [] });
+          break;
+        }
+      }
+    } catch (error) {
+      console.error(`Bulk ${operation.type} failed for task ${taskId}:`, error);
+      results.push({ taskId, success: false, message: 'Internal error', warnings: [] });
+    }
+  }
+
+  return {
+    results,
+    succeeded: results.filter(r => r.success).length,
+    failed: results.filter(r => !r.success).length,
+    warningCount: results.reduce((sum, r) => sum + r.warnings.length, 0),
+  };
+}
@@ -0,0 +1,294 @@
+/**
+ * Task Cancellation
+ *
+ * Cancelling a task records why (a company-configurable reason code), who cancelled it and
+ * when, and moves it to CANCELLED through the lifecycle table. Cancelled tasks stay visible
+ * in reporting but drop out of workload, rota and SLA checks.
+ *
+ * Charges come from the company's cancellation policy: a list of notice tiers, each giving a
+ * flat client fee and the share of the task's estimated duration paid to each assignee.
+ * The tier used is the first (smallest) one whose maxNoticeHours is above the notice given
+ * before scheduledDate. Reason codes can waive either charge (e.g. weather).
+ */
+
+import prisma from "@/lib/prisma";
+import { TaskCancellation, TaskStatus, UserRole } from "@prisma/client";
+import { evaluateTransition } from "@/lib/task-lifecycle";
+import { sendTaskCancelledNotification } from "@/lib/notifications";
+import { getAssigneeIds } from "@/lib/shift-swaps";
+import { closedBreakMinutes } from "@/lib/time-entries";
+
+export interface CancellationReason {
+  code: string;
+  label: string;
+  chargeClient: boolean; // Apply the policy fee
+  compensateCleaner: boolean; // Apply the policy compensation
+}
+
+export interface CancellationPolicyTier {
+  maxNoticeHours: number; // Applies when less notice than this was given
+  fee: number; // Flat fee charged to the client
+  compensationPercent: number; // Share of estimatedDurationMinutes paid to each assignee
+}
+
+export interface CancellationCharges {
+  noticeHours: number | null;
+  fee: number;
+  compensationMinutes: number;
+  tier: CancellationPolicyTier | null;
+}
+
+export interface CancelResult {
+  cancellation?: TaskCancellation;
+  error?: string;
+  httpStatus?: number;
+}
+
+export const DEFAULT_CANCELLATION_REASONS: CancellationReason[] = [
+  { code: 'client_cancelled', label: 'Client cancelled', chargeClient: true, compensateCleaner: true },
+  { code: 'access_failure', label: 'Access failure', chargeClient: true, compensateCleaner: true },
+  { code: 'weather', label: 'Weather', chargeClient: false, compensateCleaner: true },
+  { code: 'staff_unavailable', label: 'Staff unavailable', chargeClient: false, compensateCleaner: false },
+  { code: 'created_in_error', label: 'Created in error', chargeClient: false, compensateCleaner: false },
+];
+
+// Tasks that can be cancelled (see TASK_TRANSITIONS)
+export const CANCELLABLE_STATUSES: TaskStatus[] = [
+  TaskStatus.DRAFT,
+  TaskStatus.PLANNED,
+  TaskStatus.ASSIGNED,
+  TaskStatus.IN_PROGRESS,
+];
+
+/**
+ * Parse stored reason codes, falling back to the defaults
+ */
+export function parseCancellationReasons(raw: string | null | undefined): CancellationReason[] {
+  if (!raw) return DEFAULT_CANCELLATION_REASONS;
+  try {
+    const { reasons, error } = validateCancellationReasons(JSON.parse(raw));
+    return error || !reasons ? DEFAULT_CANCELLATION_REASONS : reasons;
+  } catch {
+    return DEFAULT_CANCELLATION_REASONS;
+  }
+}
+
+/**
+ * Validate reason codes submitted through the configuration API
+ */
+export function validateCancellationReasons(input: unknown): { reasons?: CancellationReason[]; error?: string } {
+  if (!Array.isArray(input) || input.length === 0) return { error: 'At least one cancellation reason is required' };
+  const reasons: CancellationReason[] = [];
+  for (const item of input) {
+    const code = typeof item?.code === 'string' ? item.code.trim().toLowerCase() : '';
+    const label = typeof item?.label === 'string' ? item.label.trim() : '';
+    if (!/^[a-z0-9_]{1,50}$/.test(code)) return { error: 'Reason codes must be lowercase letters, numbers or underscores' };
+    if (!label) return { error: `Reason "${code}" needs a label` };
+    if (reasons.some(r => r.code === code)) return { error: `Duplicate reason code "${code}"` };
+    reasons.push({ code, label, chargeClient: item.chargeClient !== false, compensateCleaner: item.compensateCleaner !== false });
+  }
+  return { reasons };
+}
+
+/**
+ * Parse a stored policy; an empty or invalid policy charges nothing
+ */
+export function parseCancellationPolicy(raw: string | null | undefined): CancellationPolicyTier[] {
+  if (!raw) return [];
+  try {
+    return validateCancellationPolicy(JSON.parse(raw)).policy ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Validate policy tiers submitted through the configuration API. Tiers are returned
+ * sorted by maxNoticeHours.
+ */
+export function validateCancellationPolicy(input: unknown): { policy?: CancellationPolicyTier[]; error?: string } {
+  if (!Array.isArray(input)) return { error: 'Cancellation policy must be a list of tiers' };
+  const policy: CancellationPolicyTier[] = [];
+  for (const item of input) {
+    const maxNoticeHours = Number(item?.maxNoticeHours);
+    const fee = Number(item?.fee ?? 0);
+    const compensationPercent = Number(item?.compensationPercent ?? 0);
+    if (!Number.isFinite(maxNoticeHours) || maxNoticeHours <= 0) return { error: 'maxNoticeHours must be greater than 0' };
+    if (!Number.isFinite(fee) || fee < 0) return { error: 'Fees cannot be negative' };
+    if (!Number.isFinite(compensationPercent) || compensationPercent < 0 || compensationPercent > 100) {
+      return { error: 'compensationPercent must be between 0 and 100' };
+    }
+    if (policy.some(t => t.maxNoticeHours === maxNoticeHours)) return { error: `Duplicate tier for ${maxNoticeHours} hours` };
+    policy.push({ maxNoticeHours, fee: Math.round(fee * 100) / 100, compensationPercent });
+  }
+  return { policy: policy.sort((a, b) => a.maxNoticeHours - b.maxNoticeHours) };
+}
+
+/**
+ * Fee and compensation for cancelling a task at `now`
+ */
+export function computeCancellationCharges(
+  task: { scheduledDate: Date | null; estimatedDurationMinutes: number | null },
+  reason: CancellationReason,
+  policy: CancellationPolicyTier[],
+  now: Date = new Date()
+): CancellationCharges {
+  if (!task.scheduledDate) return { noticeHours: null, fee: 0, compensationMinutes: 0, tier: null };
+
+  const noticeHours = Math.round(((task.scheduledDate.getTime() - now.getTime()) / 3600000) * 100) / 100;
+  const tier = [...policy].sort((a, b) => a.maxNoticeHours - b.maxNoticeHours)
+    .find(t => noticeHours < t.maxNoticeHours) ?? null;
+  if (!tier) return { noticeHours, fee: 0, compensationMinutes: 0, tier: null };
+
+  return {
+    noticeHours,
+    fee: reason.chargeClient ? tier.fee : 0,
+    compensationMinutes: reason.compensateCleaner
+      ? Math.round(((task.estimatedDurationMinutes || 120) * tier.compensationPercent) / 100)
+      : 0,
+    tier,
+  };
+}
+
+/**
+ * Load a company's reason codes and policy
+ */
+export async function getCancellationSettings(
+  companyId: number
+): Promise<{ reasons: CancellationReason[]; policy: CancellationPolicyTier[] }> {
+  const config = await prisma.adminConfiguration.findUnique({
+    where: { companyId },
+    select: { cancellationReasons: true, cancellationPolicy: true },
+  });
+  return {
+    reasons: parseCancellationReasons(config?.cancellationReasons),
+    policy: parseCancellationPolicy(config?.cancellationPolicy),
+  };
+}
+
+/**
+ * Reason codes and the charges each would apply if the task were cancelled now
+ */
+export async function getCancellationPreview(taskId: number, now: Date = new Date()) {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { id: true, companyId: true, status: true, scheduledDate: true, estimatedDurationMinutes: true },
+  });
+  if (!task) return null;
+
+  const { reasons, policy } = await getCancellationSettings(task.companyId);
+  return {
+    task,
+    cancellable: CANCELLABLE_STATUSES.includes(task.status),
+    policy,
+    reasons: reasons.map(reason => ({ ...reason, charges: computeCancellationCharges(task, reason, policy, now) })),
+  };
+}
+
+/**
+ * Cancel a task with a reason code. Records the cancellation and its charges, moves the task
+ * to CANCELLED, withdraws open swap requests and open shift claims, clocks out open time
+ * entries, and notifies assignees.
+ */
+export async function cancelTask(
+  taskId: number,
+  actor: { userId: number; role: UserRole },
+  reasonCode: string,
+  note: string | null,
+  now: Date = new Date()
+): Promise<CancelResult> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: {
+      id: true,
+      companyId: true,
+      status: true,
+      scheduledDate: true,
+      estimatedDurationMinutes: true,
+      assignedUserId: true,
+      taskAssignments: { select: { userId: true } },
+    },
+  });
+  if (!task) return { error: 'Task not found', httpStatus: 404 };
+
+  const { reasons, policy } = await getCancellationSettings(task.companyId);
+  const reason = reasons.find(r => r.code === reasonCode);
+  if (!reason) return { error: `Unknown cancellation reason "${reasonCode}"`, httpStatus: 400 };
+
+  const check = evaluateTransition(task.status, TaskStatus.CANCELLED, {
+    role: actor.role,
+    checklistAcknowledged: true,
+    photoCount: 0,
+    requiredPhotoCount: 0,
+    incompleteRequiredItems: 0,
+    qaScoreCount: 0,
+    cancellationReasonCode: reason.code,
+  });
+  if (!check.allowed) return { error: check.reason, httpStatus: check.httpStatus };
+
+  const charges = computeCancellationCharges(task, reason, policy, now);
+  const historyReason = note ? `${reason.label}: ${note}` : reason.label;
+
+  // Only cancel while the task is still in the status the checks above were made against
+  const cancellation = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.task.updateMany({
+      where: { id: taskId, status: task.status },
+      data: { status: TaskStatus.CANCELLED, openShiftPublishedAt: null },
+    });
+    if (count === 0) return null;
+
+    await tx.taskStatusHistory.create({
+      data: { taskId, fromStatus: task.status, toStatus: TaskStatus.CANCELLED, changedById: actor.userId, reason: historyReason },
+    });
+    const created = await tx.taskCancellation.create({
+      data: {
+        taskId,
+        companyId: task.companyId,
+        reasonCode: reason.code,
+        reasonLabel: reason.label,
+        note,
+        cancelledById: actor.userId,
+        cancelledAt: now,
+        previousStatus: task.status,
+        noticeHours: charges.noticeHours,
+        fee: charges.fee,
+        compensationMinutes: charges.compensationMinutes,
+      },
+    });
+    await tx.shiftSwapRequest.updateMany({
+      where: { taskId, status: { in: ['pending', 'accepted'] } },
+      data: { status: 'cancelled' },
+    });
+    await tx.openShiftClaim.updateMany({
+      where: { taskId, status: 'pending' },
+      data: { status: 'rejected', decidedById: actor.userId, decidedAt: now },
+    });
+    // Clock out anyone still working the task so the entry does not run on until payroll
+    const openEntries = await tx.timeEntry.findMany({
+      where: { taskId, clockOutAt: null },
+      select: { id: true, breakMinutes: true, breakStartedAt: true },
+    });
+    for (const entry of openEntries) {
+      await tx.timeEntry.update({
+        where: { id: entry.id },
+        data: {
+          clockOutAt: now,
+          breakMinutes: closedBreakMinutes(entry, now),
+          breakStartedAt: null,
+          correctedById: actor.userId,
+          correctedAt: now,
+          correctionReason: `Clocked out when the task was cancelled (${reason.label})`,
+        },
+      });
+    }
+    return created;
+  });
+
+  if (!cancellation) {
+    return { error: 'Task status was changed by someone else; reload and try again', httpStatus: 409 };
+  }
+
+  await sendTaskCancelledNotification(taskId, getAssigneeIds(task), reason.label);
+
+  return { cancellation };
+}
@@ -0,0 +1,210 @@
+/**
+ * Task Dependencies
+ *
+ * Tasks can declare predecessor tasks to model multi-stage turnovers
+ * (strip linen -> clean -> restock -> inspect), each stage with its own cleaner.
+ * - A task cannot start until every predecessor has been submitted, approved or archived;
+ *   a cancelled predecessor no longer blocks anything
+ * - Scheduling a successor before its predecessor finishes is a rota conflict
+ *   (see validateDependencies in lib/rota-conflicts)
+ */
+
+import prisma from "@/lib/prisma";
+import { TaskStatus } from "@prisma/client";
+
+// Predecessor statuses that let a successor start (QA_REVIEW sits between SUBMITTED and APPROVED;
+// approved tasks are eventually archived, and a cancelled stage will never finish)
+export const DEPENDENCY_SATISFIED_STATUSES: TaskStatus[] = [
+  TaskStatus.SUBMITTED,
+  TaskStatus.QA_REVIEW,
+  TaskStatus.APPROVED,
+  TaskStatus.ARCHIVED,
+  TaskStatus.CANCELLED,
+];
+
+// Hard stop when walking chains so a malformed graph can never loop forever
+const MAX_CHAIN_SIZE = 100;
+
+export interface DependencyEdge {
+  taskId: number; // Successor
+  dependsOnTaskId: number; // Predecessor
+}
+
+export interface ChainTask {
+  id: number;
+  title: string;
+  status: TaskStatus;
+  scheduledDate: Date | null;
+  estimatedDurationMinutes: number | null;
+  assignedUser: { id: number; firstName: string | null; lastName: string | null; email: string } | null;
+}
+
+export interface DependencyChain {
+  predecessors: ChainTask[]; // Direct predecessors of the task
+  successors: ChainTask[]; // Direct successors of the task
+  chain: Array<ChainTask & { dependsOn: number[] }>; // Every connected task, predecessors first
+}
+
+/**
+ * Whether a predecessor in this status no longer blocks its successors
+ */
+export function isDependencySatisfied(status: TaskStatus): boolean {
+  return DEPENDENCY_SATISFIED_STATUSES.includes(status);
+}
+
+/**
+ * Order tasks so every predecessor comes before its successors (Kahn's algorithm).
+ * Ties keep the input order. Tasks caught in a cycle are appended at the end.
+ */
+export function orderByDependencies(taskIds: number[], edges: DependencyEdge[]): number[] {
+  const known = new Set(taskIds);
+  const inDegree = new Map(taskIds.map(id => [id, 0]));
+  const successors = new Map<number, number[]>();
+  for (const edge of edges) {
+    if (!known.has(edge.taskId) || !known.has(edge.dependsOnTaskId)) continue;
+    inDegree.set(edge.taskId, (inDegree.get(edge.taskId) || 0) + 1);
+    successors.set(edge.dependsOnTaskId, [...(successors.get(edge.dependsOnTaskId) || []), edge.taskId]);
+  }
+
+  const ordered: number[] = [];
+  const ready = taskIds.filter(id => inDegree.get(id) === 0);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    ordered.push(id);
+    for (const next of successors.get(id) || []) {
+      const remaining = inDegree.get(next)! - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) ready.push(next);
+    }
+  }
+
+  return [...ordered, ...taskIds.filter(id => !ordered.includes(id))];
+}
+
+/**
+ * Check whether adding `dependsOnTaskIds` as predecessors of `taskId` would create a cycle.
+ * Chains too long to walk in full are treated as cycles rather than let through unchecked.
+ */
+export async function wouldCreateCycle(taskId: number, dependsOnTaskIds: number[]): Promise<boolean> {
+  if (dependsOnTaskIds.includes(taskId)) return true;
+
+  // Walk upstream from the proposed predecessors; reaching taskId means a loop
+  const visited = new Set<number>();
+  let frontier = dependsOnTaskIds;
+  while (frontier.length > 0 && visited.size < MAX_CHAIN_SIZE) {
+    frontier.forEach(id => visited.add(id));
+    const edges = await prisma.taskDependency.findMany({
+      where: { taskId: { in: frontier } },
+      select: { dependsOnTaskId: true },
+    });
+    const upstream = edges.map(e => e.dependsOnTaskId);
+    if (upstream.includes(taskId)) return true;
+    frontier = upstream.filter(id => !visited.has(id));
+  }
+  return frontier.length > 0;
+}
+
+/**
+ * Validate proposed predecessors for a task (null for a task not created yet).
+ * Returns an error message, or null when the dependencies are acceptable.
+ */
+export async function checkDependencies(
+  taskId: number | null,
+  companyId: number,
+  dependsOnTaskIds: number[]
+): Promise<string | null> {
+  if (dependsOnTaskIds.length === 0) return null;
+
+  const found = await prisma.task.count({ where: { id: { in: dependsOnTaskIds }, companyId } });
+  if (found !== dependsOnTaskIds.length) {
+    return 'One or more predecessor tasks not found in your company';
+  }
+  if (taskId !== null && (await wouldCreateCycle(taskId, dependsOnTaskIds))) {
+    return 'Dependencies would create a cycle (or a chain too long to check)';
+  }
+  return null;
+}
+
+/**
+ * Replace a task's predecessors
+ */
+export async function setTaskDependencies(taskId: number, dependsOnTaskIds: number[]) {
+  await prisma.$transaction([
+    prisma.taskDependency.deleteMany({ where: { taskId } }),
+    prisma.taskDependency.createMany({
+      data: dependsOnTaskIds.map(dependsOnTaskId => ({ taskId, dependsOnTaskId })),
+      skipDuplicates: true,
+    }),
+  ]);
+}
+
+/**
+ * Get predecessors that still block a task from starting
+ */
+export async function getBlockingPredecessors(taskId: number) {
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { taskId },
+    select: { dependsOn: { select: { id: true, title: true, status: true } } },
+  });
+  return dependencies.map(d => d.dependsOn).filter(task => !isDependencySatisfied(task.status));
+}
+
+const chainTaskSelect = {
+  id: true,
+  title: true,
+  status: true,
+  scheduledDate: true,
+  estimatedDurationMinutes: true,
+  assignedUser: { select: { id: true, firstName: true, lastName: true, email: true } },
+} as const;
+
+/**
+ * Load the full dependency chain a task belongs to (all connected tasks, in order)
+ */
+export async function getDependencyChain(taskId: number): Promise<DependencyChain> {
+  const visited = new Set<number>([taskId]);
+  const edges: DependencyEdge[] = [];
+  const seenEdges = new Set<string>();
+  let frontier = [taskId];
+
+  while (frontier.length > 0 && visited.size < MAX_CHAIN_SIZE) {
+    const found = await prisma.taskDependency.findMany({
+      where: { OR: [{ taskId: { in: frontier } }, { dependsOnTaskId: { in: frontier } }] },
+      select: { taskId: true, dependsOnTaskId: true },
+    });
+    const next: number[] = [];
+    for (const edge of found) {
+      const key = `${edge.dependsOnTaskId}->${edge.taskId}`;
+      if (!seenEdges.has(key)) {
+        seenEdges.add(key);
+        edges.push(edge);
+      }
+      for (const id of [edge.taskId, edge.dependsOnTaskId]) {
+        if (!visited.has(id)) {
+          visited.add(id);
+          next.push(id);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: Array.from(visited) } },
+    select: chainTaskSelect,
+    orderBy: [{ scheduledDate: 'asc' }, { id: 'asc' }],
+  });
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+  const order = orderByDependencies(tasks.map(task => task.id), edges);
+
+  return {
+    predecessors: edges.filter(e => e.taskId === taskId).map(e => taskById.get(e.dependsOnTaskId)!).filter(Boolean),
+    successors: edges.filter(e => e.dependsOnTaskId === taskId).map(e => taskById.get(e.taskId)!).filter(Boolean),
+    chain: order.length > 1
+      ? order.map(id => ({
+          ...taskById.get(id)!,
+          dependsOn: edges.filter(e => e.taskId === id).map(e => e.dependsOnTaskId),
+        }))
+      : [],
+  };
+}
@@ -0,0 +1,312 @@
+/**
+ * Task Lifecycle State Machine
+ *
+ * Central definition of which TaskStatus transitions are allowed and which
+ * guards must pass before a task can enter a given status:
+ * - IN_PROGRESS requires the checklist to be acknowledged and every predecessor
+ *   task (see lib/task-dependencies) to be submitted, approved or archived
+ * - SUBMITTED requires every required checklist item to be completed, and the task's
+ *   photo requirement (from its job template) or the company's minimum photo count
+ * - APPROVED requires at least one QA score
+ * - REJECTED requires a reason
+ * - CANCELLED requires a reason code and is only applied by lib/task-cancellation,
+ *   which also records the cancellation and its charges
+ *
+ * Tasks are created in DRAFT, PLANNED or ASSIGNED. The initial status and every applied
+ * transition are recorded in the task status history.
+ */
+
+import prisma from "@/lib/prisma";
+import { Prisma, TaskStatus, UserRole } from "@prisma/client";
+import { getBlockingPredecessors } from "@/lib/task-dependencies";
+
+// Default used when a company has no AdminConfiguration row (matches /api/admin/configurations)
+export const DEFAULT_PHOTO_COUNT_REQUIREMENT = 20;
+
+export const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  [TaskStatus.DRAFT]: [TaskStatus.PLANNED, TaskStatus.ASSIGNED, TaskStatus.ARCHIVED, TaskStatus.CANCELLED],
+  [TaskStatus.PLANNED]: [TaskStatus.DRAFT, TaskStatus.ASSIGNED, TaskStatus.ARCHIVED, TaskStatus.CANCELLED],
+  [TaskStatus.ASSIGNED]: [TaskStatus.PLANNED, TaskStatus.IN_PROGRESS, TaskStatus.ARCHIVED, TaskStatus.CANCELLED],
+  [TaskStatus.IN_PROGRESS]: [TaskStatus.SUBMITTED, TaskStatus.CANCELLED],
+  [TaskStatus.SUBMITTED]: [TaskStatus.QA_REVIEW, TaskStatus.APPROVED, TaskStatus.REJECTED],
+  [TaskStatus.QA_REVIEW]: [TaskStatus.APPROVED, TaskStatus.REJECTED],
+  [TaskStatus.APPROVED]: [TaskStatus.ARCHIVED],
+  [TaskStatus.REJECTED]: [TaskStatus.ASSIGNED, TaskStatus.IN_PROGRESS, TaskStatus.ARCHIVED],
+  [TaskStatus.ARCHIVED]: [],
+  [TaskStatus.CANCELLED]: [TaskStatus.ARCHIVED],
+};
+
+// Statuses a task can be created in; later statuses are only reached through transitions
+export const INITIAL_TASK_STATUSES: TaskStatus[] = [TaskStatus.DRAFT, TaskStatus.PLANNED, TaskStatus.ASSIGNED];
+
+// Cleaners can only start and submit their own work (ASSIGNED->IN_PROGRESS->SUBMITTED)
+const CLEANER_ALLOWED_TARGETS = new Set<TaskStatus>([TaskStatus.IN_PROGRESS, TaskStatus.SUBMITTED]);
+
+export interface TransitionContext {
+  role: UserRole;
+  checklistAcknowledged: boolean;
+  photoCount: number;
+  requiredPhotoCount: number;
+  incompleteRequiredItems: number; // Required checklist items not yet completed
+  qaScoreCount: number;
+  reason?: string | null;
+  cancellationReasonCode?: string | null; // Only set by the cancellation operation
+  blockingPredecessors?: string[]; // Titles of predecessor tasks not yet submitted/approved
+}
+
+export interface TransitionCheckResult {
+  allowed: boolean;
+  reason?: string;
+  httpStatus?: number; // Suggested response status when not allowed
+}
+
+export interface TransitionResult extends TransitionCheckResult {
+  task?: {
+    id: number;
+    title: string;
+    status: TaskStatus;
+    startedAt: Date | null;
+    completedAt: Date | null;
+    updatedAt: Date;
+  };
+}
+
+/**
+ * Check whether the state machine has an edge between two statuses
+ */
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return TASK_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Get the statuses a task can move to from its current status
+ */
+export function getAllowedTransitions(from: TaskStatus, role?: UserRole): TaskStatus[] {
+  const targets = TASK_TRANSITIONS[from] || [];
+  if (role === UserRole.CLEANER) {
+    return targets.filter(status => CLEANER_ALLOWED_TARGETS.has(status));
+  }
+  return targets;
+}
+
+/**
+ * Evaluate a transition against the table, role permissions and guards.
+ * Pure function - all data must be supplied through the context.
+ */
+export function evaluateTransition(
+  from: TaskStatus,
+  to: TaskStatus,
+  context: TransitionContext
+): TransitionCheckResult {
+  if (context.role === UserRole.CLEANER && !CLEANER_ALLOWED_TARGETS.has(to)) {
+    return { allowed: false, reason: 'Insufficient permissions for this transition', httpStatus: 403 };
+  }
+
+  if (from === to) {
+    return { allowed: false, reason: `Task is already ${to}`, httpStatus: 400 };
+  }
+
+  if (!canTransition(from, to)) {
+    return { allowed: false, reason: `Cannot move task from ${from} to ${to}`, httpStatus: 400 };
+  }
+
+  if (to === TaskStatus.IN_PROGRESS && !context.checklistAcknowledged) {
+    return {
+      allowed: false,
+      reason: 'Checklist must be acknowledged before starting task. Please acknowledge the checklist first.',
+      httpStatus: 400,
+    };
+  }
+
+  if (to === TaskStatus.IN_PROGRESS && context.blockingPredecessors?.length) {
+    return {
+      allowed: false,
+      reason: `Waiting for earlier stages to be submitted: ${context.blockingPredecessors.join(', ')}`,
+      httpStatus: 409,
+    };
+  }
+
+  if (to === TaskStatus.SUBMITTED && context.incompleteRequiredItems > 0) {
+    return {
+      allowed: false,
+      reason: `${context.incompleteRequiredItems} required checklist item(s) must be completed before submission`,
+      httpStatus: 400,
+    };
+  }
+
+  if (to === TaskStatus.SUBMITTED && context.photoCount < context.requiredPhotoCount) {
+    return {
+      allowed: false,
+      reason: `Task requires ${context.requiredPhotoCount} photos before submission (${context.photoCount} uploaded)`,
+      httpStatus: 400,
+    };
+  }
+
+  if (to === TaskStatus.APPROVED && context.qaScoreCount === 0) {
+    return { allowed: false, reason: 'A QA score is required before approving the task', httpStatus: 400 };
+  }
+
+  if (to === TaskStatus.REJECTED && !context.reason?.trim()) {
+    return { allowed: false, reason: 'A reason is required when rejecting a task', httpStatus: 400 };
+  }
+
+  if (to === TaskStatus.CANCELLED && !context.cancellationReasonCode) {
+    return { allowed: false, reason: 'Tasks must be cancelled with a reason code (POST /api/tasks/[id]/cancel)', httpStatus: 400 };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Nested create for a new task's first status history entry (fromStatus null)
+ */
+export function initialStatusHistory(status: TaskStatus, changedById: number | null) {
+  return { create: { fromStatus: null, toStatus: status, changedById } };
+}
+
+/**
+ * Status a task moves to when its assignees change: DRAFT and PLANNED tasks become ASSIGNED
+ * when someone is assigned, and ASSIGNED tasks go back to PLANNED when nobody is left.
+ * Other statuses are kept.
+ */
+export function assignmentStatus(current: TaskStatus, hasAssignee: boolean): TaskStatus {
+  if (hasAssignee) {
+    return current === TaskStatus.DRAFT || current === TaskStatus.PLANNED ? TaskStatus.ASSIGNED : current;
+  }
+  return current === TaskStatus.ASSIGNED ? TaskStatus.PLANNED : current;
+}
+
+/**
+ * Apply an assignment change to a task (inside the caller's transaction), moving its status to
+ * match and recording the move in the status history. Only applies while the task is still in
+ * the status it was read with (plus any extra `where`); returns the new status, or null when
+ * the task changed in the meantime.
+ */
+export async function updateTaskAssignment(
+  tx: Prisma.TransactionClient,
+  task: { id: number; status: TaskStatus },
+  hasAssignee: boolean,
+  data: Prisma.TaskUncheckedUpdateManyInput,
+  changedById: number | null,
+  where: Prisma.TaskWhereInput = {}
+): Promise<TaskStatus | null> {
+  const status = assignmentStatus(task.status, hasAssignee);
+  const { count } = await tx.task.updateMany({
+    where: { ...where, id: task.id, status: task.status },
+    data: { ...data, status },
+  });
+  if (count === 0) return null;
+
+  if (status !== task.status) {
+    await tx.taskStatusHistory.create({
+      data: {
+        taskId: task.id,
+        fromStatus: task.status,
+        toStatus: status,
+        changedById,
+        reason: hasAssignee ? 'Cleaner assigned' : 'Cleaners unassigned',
+      },
+    });
+  }
+  return status;
+}
+
+/**
+ * Load guard data for a task and apply a status transition.
+ * Updates the task and records a status history entry in a single transaction; a concurrent
+ * change to the task's status makes the transition fail with 409 rather than both applying.
+ * Pass `tx` to run inside the caller's transaction alongside other changes to the task.
+ */
+export async function transitionTaskStatus(
+  taskId: number,
+  to: TaskStatus,
+  actor: { userId: number; role: UserRole },
+  reason?: string | null,
+  tx?: Prisma.TransactionClient
+): Promise<TransitionResult> {
+  const db = tx ?? prisma;
+  const task = await db.task.findUnique({
+    where: { id: taskId },
+    select: {
+      id: true,
+      companyId: true,
+      status: true,
+      startedAt: true,
+      completedAt: true,
+      checklistAcknowledgedAt: true,
+      photoCountRequirement: true,
+      _count: {
+        select: {
+          photos: true,
+          qaScores: true,
+          checklists: { where: { isRequired: true, isCompleted: false } },
+        },
+      },
+    },
+  });
+
+  if (!task) {
+    return { allowed: false, reason: 'Task not found', httpStatus: 404 };
+  }
+
+  const config = await db.adminConfiguration.findUnique({
+    where: { companyId: task.companyId },
+    select: { photoCountRequirement: true },
+  });
+
+  const blockingPredecessors = to === TaskStatus.IN_PROGRESS ? await getBlockingPredecessors(taskId) : [];
+
+  const check = evaluateTransition(task.status, to, {
+    role: actor.role,
+    checklistAcknowledged: !!task.checklistAcknowledgedAt,
+    photoCount: task._count.photos,
+    requiredPhotoCount: task.photoCountRequirement ?? config?.photoCountRequirement ?? DEFAULT_PHOTO_COUNT_REQUIREMENT,
+    incompleteRequiredItems: task._count.checklists,
+    qaScoreCount: task._count.qaScores,
+    reason,
+    blockingPredecessors: blockingPredecessors.map(p => p.title),
+  });
+
+  if (!check.allowed) {
+    return check;
+  }
+
+  const data: Prisma.TaskUncheckedUpdateManyInput = { status: to };
+  if (to === TaskStatus.IN_PROGRESS && !task.startedAt) data.startedAt = new Date();
+  if (to === TaskStatus.SUBMITTED) data.submittedAt = new Date(); // Latest submission counts for SLA deadlines
+  if ((to === TaskStatus.APPROVED || to === TaskStatus.ARCHIVED) && !task.completedAt) data.completedAt = new Date();
+
+  // Only apply while the task is still in the status the guards were checked against
+  const apply = async (tx: Prisma.TransactionClient) => {
+    const { count } = await tx.task.updateMany({ where: { id: taskId, status: task.status }, data });
+    if (count === 0) return null;
+
+    await tx.taskStatusHistory.create({
+      data: {
+        taskId,
+        fromStatus: task.status,
+        toStatus: to,
+        changedById: actor.userId,
+        reason: reason?.trim() || null,
+      },
+    });
+    return tx.task.findUniqueOrThrow({
+      where: { id: taskId },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        startedAt: true,
+        completedAt: true,
+        updatedAt: true,
+      },
+    });
+  };
+  const updated = tx ? await apply(tx) : await prisma.$transaction(apply);
+
+  if (!updated) {
+    return { allowed: false, reason: 'Task status was changed by someone else; reload and try again', httpStatus: 409 };
+  }
+
+  return { allowed: true, task: updated };
+}
@@ -0,0 +1,295 @@
+/**
+ * Time Entries (clock-in / clock-out)
+ *
+ * Each assignee on a task records their own time: clock in, optional breaks, clock out.
+ * The location sent at clock-in and clock-out is checked against the property with
+ * validateGeofence and stored on the entry; being outside the geofence is recorded but
+ * does not block clocking (managers review it instead).
+ *
+ * Worked time = clock-out (or now) - clock-in - breaks. Payroll and rota workload use
+ * worked time where entries exist and fall back to the task's estimate otherwise. Payroll
+ * only pays clocked-out entries: one still open (a forgotten clock-out) is flagged for a
+ * manager to correct instead of being paid up to the moment payroll runs.
+ * Managers can correct entries; corrections are stamped on the entry and audited.
+ */
+
+import prisma from "@/lib/prisma";
+import { TaskStatus, TimeEntry } from "@prisma/client";
+import { Coordinates, validateGeofence } from "@/lib/geolocation";
+
+export type ClockAction = 'clock_in' | 'clock_out' | 'start_break' | 'end_break';
+
+export const CLOCK_ACTIONS: ClockAction[] = ['clock_in', 'clock_out', 'start_break', 'end_break'];
+
+// Tasks that can be worked on
+export const CLOCKABLE_STATUSES: TaskStatus[] = [TaskStatus.ASSIGNED, TaskStatus.IN_PROGRESS, TaskStatus.REJECTED];
+
+export interface ClockLocationResult {
+  latitude: number | null;
+  longitude: number | null;
+  distance: number | null;
+  withinGeofence: boolean | null;
+}
+
+export interface ClockResult {
+  entry?: TimeEntry;
+  error?: string;
+  httpStatus?: number;
+}
+
+export interface WorkedTime {
+  minutes: number;
+  open: boolean; // The user is still clocked in
+}
+
+export interface PayableTime {
+  minutesByTask: Map<number, number>; // From clocked-out entries
+  openEntries: Array<{ id: number; taskId: number; clockInAt: Date }>; // Not paid until corrected
+}
+
+export interface TimeEntryCorrection {
+  clockInAt?: Date;
+  clockOutAt?: Date | null;
+  breakMinutes?: number;
+  reason: string;
+}
+
+/**
+ * Minutes worked on an entry, excluding completed breaks and any break in progress
+ */
+export function workedMinutes(
+  entry: Pick<TimeEntry, 'clockInAt' | 'clockOutAt' | 'breakMinutes' | 'breakStartedAt'>,
+  now: Date = new Date()
+): number {
+  const end = entry.clockOutAt ?? now;
+  const ongoingBreak = !entry.clockOutAt && entry.breakStartedAt
+    ? (now.getTime() - entry.breakStartedAt.getTime()) / 60000
+    : 0;
+  const minutes = (end.getTime() - entry.clockInAt.getTime()) / 60000 - entry.breakMinutes - ongoingBreak;
+  return Math.max(0, Math.round(minutes));
+}
+
+/**
+ * Minutes to count for a task in workload planning: the time actually worked once the
+ * assignee has clocked out, otherwise the estimate (or the time so far, if already longer)
+ */
+export function effectiveTaskMinutes(estimateMinutes: number, worked: WorkedTime | undefined): number {
+  if (!worked) return estimateMinutes;
+  return worked.open ? Math.max(worked.minutes, estimateMinutes) : worked.minutes;
+}
+
+/**
+ * Check a clock-in/out location against the property. Missing coordinates on either side
+ * give a null geofence result rather than a failure.
+ */
+export function checkClockLocation(
+  location: Partial<Coordinates> | null | undefined,
+  property: { latitude: number | null; longitude: number | null },
+  radiusMeters: number
+): ClockLocationResult {
+  const latitude = location?.latitude !== undefined && location.latitude !== null ? Number(location.latitude) : null;
+  const longitude = location?.longitude !== undefined && location.longitude !== null ? Number(location.longitude) : null;
+  if (latitude === null || longitude === null || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return { latitude: null, longitude: null, distance: null, withinGeofence: null };
+  }
+  if (property.latitude === null || property.longitude === null) {
+    return { latitude, longitude, distance: null, withinGeofence: null };
+  }
+  const check = validateGeofence({ latitude, longitude }, { latitude: property.latitude, longitude: property.longitude }, radiusMeters);
+  return { latitude, longitude, distance: check.distance, withinGeofence: check.isWithinGeofence };
+}
+
+/**
+ * Validate a manager correction request body
+ */
+export function parseTimeEntryCorrection(
+  body: any,
+  current: Pick<TimeEntry, 'clockInAt' | 'clockOutAt'>
+): { correction?: TimeEntryCorrection; error?: string } {
+  const reason = typeof body?.reason === 'string' ? body.reason.trim() : '';
+  if (!reason) return { error: 'A reason is required when correcting a time entry' };
+
+  const correction: TimeEntryCorrection = { reason };
+  if (body.clockInAt !== undefined) {
+    const clockInAt = new Date(body.clockInAt);
+    if (Number.isNaN(clockInAt.getTime())) return { error: 'clockInAt must be a valid date' };
+    correction.clockInAt = clockInAt;
+  }
+  if (body.clockOutAt !== undefined) {
+    const clockOutAt = body.clockOutAt === null ? null : new Date(body.clockOutAt);
+    if (clockOutAt && Number.isNaN(clockOutAt.getTime())) return { error: 'clockOutAt must be a valid date' };
+    correction.clockOutAt = clockOutAt;
+  }
+  if (body.breakMinutes !== undefined) {
+    const breakMinutes = Number(body.breakMinutes);
+    if (!Number.isInteger(breakMinutes) || breakMinutes < 0) return { error: 'breakMinutes must be a whole number' };
+    correction.breakMinutes = breakMinutes;
+  }
+
+  const clockInAt = correction.clockInAt ?? current.clockInAt;
+  const clockOutAt = correction.clockOutAt !== undefined ? correction.clockOutAt : current.clockOutAt;
+  if (clockOutAt && clockOutAt <= clockInAt) return { error: 'clockOutAt must be after clockInAt' };
+  if (clockOutAt && correction.breakMinutes !== undefined &&
+      correction.breakMinutes >= (clockOutAt.getTime() - clockInAt.getTime()) / 60000) {
+    return { error: 'Breaks cannot be longer than the time clocked' };
+  }
+
+  return { correction };
+}
+
+async function getGeofenceRadius(companyId: number): Promise<number> {
+  const config = await prisma.adminConfiguration.findUnique({
+    where: { companyId },
+    select: { geofenceRadius: true },
+  });
+  return config?.geofenceRadius ?? 150;
+}
+
+/**
+ * Record a clock action for a user on a task
+ */
+export async function recordClockAction(
+  taskId: number,
+  userId: number,
+  action: ClockAction,
+  location?: Partial<Coordinates> | null,
+  now: Date = new Date()
+): Promise<ClockResult> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: {
+      id: true,
+      companyId: true,
+      status: true,
+      assignedUserId: true,
+      taskAssignments: { where: { userId }, select: { id: true } },
+      property: { select: { latitude: true, longitude: true } },
+    },
+  });
+  if (!task) return { error: 'Task not found', httpStatus: 404 };
+  if (task.assignedUserId !== userId && task.taskAssignments.length === 0) {
+    return { error: 'You are not assigned to this task', httpStatus: 403 };
+  }
+
+  const open = await prisma.timeEntry.findFirst({
+    where: { userId, clockOutAt: null },
+    orderBy: { clockInAt: 'desc' },
+  });
+
+  if (action === 'clock_in') {
+    if (open) {
+      return {
+        error: open.taskId === taskId ? 'Already clocked in to this task' : `Clock out of task #${open.taskId} first`,
+        httpStatus: 409,
+      };
+    }
+    if (!CLOCKABLE_STATUSES.includes(task.status)) {
+      return { error: `Cannot clock in to a task that is ${task.status}`, httpStatus: 409 };
+    }
+    const check = checkClockLocation(location, task.property, await getGeofenceRadius(task.companyId));
+    const entry = await prisma.timeEntry.create({
+      data: {
+        taskId,
+        userId,
+        companyId: task.companyId,
+        clockInAt: now,
+        clockInLatitude: check.latitude,
+        clockInLongitude: check.longitude,
+        clockInDistance: check.distance,
+        clockInWithinGeofence: check.withinGeofence,
+      },
+    });
+    return { entry };
+  }
+
+  if (!open || open.taskId !== taskId) {
+    return { error: 'Not clocked in to this task', httpStatus: 409 };
+  }
+
+  if (action === 'start_break') {
+    if (open.breakStartedAt) return { error: 'Already on a break', httpStatus: 409 };
+    return { entry: await prisma.timeEntry.update({ where: { id: open.id }, data: { breakStartedAt: now } }) };
+  }
+
+  // Ending a break, or clocking out during one, adds the break to the total
+  const breakMinutes = closedBreakMinutes(open, now);
+
+  if (action === 'end_break') {
+    if (!open.breakStartedAt) return { error: 'Not on a break', httpStatus: 409 };
+    return {
+      entry: await prisma.timeEntry.update({ where: { id: open.id }, data: { breakMinutes, breakStartedAt: null } }),
+    };
+  }
+
+  const check = checkClockLocation(location, task.property, await getGeofenceRadius(task.companyId));
+  const entry = await prisma.timeEntry.update({
+    where: { id: open.id },
+    data: {
+      clockOutAt: now,
+      breakMinutes,
+      breakStartedAt: null,
+      clockOutLatitude: check.latitude,
+      clockOutLongitude: check.longitude,
+      clockOutDistance: check.distance,
+      clockOutWithinGeofence: check.withinGeofence,
+    },
+  });
+  return { entry };
+}
+
+/**
+ * Break minutes for an entry once any ongoing break ends at `now`
+ */
+export function closedBreakMinutes(
+  entry: Pick<TimeEntry, 'breakMinutes' | 'breakStartedAt'>,
+  now: Date = new Date()
+): number {
+  return entry.breakStartedAt
+    ? entry.breakMinutes + Math.round((now.getTime() - entry.breakStartedAt.getTime()) / 60000)
+    : entry.breakMinutes;
+}
+
+/**
+ * Time a user worked per task, from time entries that started in a period
+ */
+export async function getWorkedTimeByTask(
+  userId: number,
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): Promise<Map<number, WorkedTime>> {
+  const entries = await prisma.timeEntry.findMany({
+    where: { userId, clockInAt: { gte: from, lte: to } },
+    select: { taskId: true, clockInAt: true, clockOutAt: true, breakMinutes: true, breakStartedAt: true },
+  });
+  const byTask = new Map<number, WorkedTime>();
+  for (const entry of entries) {
+    const worked = byTask.get(entry.taskId) ?? { minutes: 0, open: false };
+    byTask.set(entry.taskId, {
+      minutes: worked.minutes + workedMinutes(entry, now),
+      open: worked.open || !entry.clockOutAt,
+    });
+  }
+  return byTask;
+}
+
+/**
+ * Payable time per task from entries that started in a period. Entries without a clock-out
+ * are left out and returned separately so they can be corrected.
+ */
+export async function getPayableTimeByTask(userId: number, from: Date, to: Date): Promise<PayableTime> {
+  const entries = await prisma.timeEntry.findMany({
+    where: { userId, clockInAt: { gte: from, lte: to } },
+    select: { id: true, taskId: true, clockInAt: true, clockOutAt: true, breakMinutes: true, breakStartedAt: true },
+    orderBy: { clockInAt: 'asc' },
+  });
+  const payable: PayableTime = { minutesByTask: new Map(), openEntries: [] };
+  for (const entry of entries) {
+    if (!entry.clockOutAt) {
+      payable.openEntries.push({ id: entry.id, taskId: entry.taskId, clockInAt: entry.clockInAt });
+      continue;
+    }
+    payable.minutesByTask.set(entry.taskId, (payable.minutesByTask.get(entry.taskId) ?? 0) + workedMinutes(entry));
+  }
+  return payable;
+}
@@ -0,0 +1,273 @@
+/**
+ * Timezone Utilities
+ *
+ * Converts between UTC instants and wall-clock time in a company's
+ * AdminConfiguration.timezone (IANA name, e.g. "Europe/London") using Intl,
+ * so calculations are independent of the server's local timezone.
+ */
+
+import prisma from "@/lib/prisma";
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday, 6 = Saturday
+}
+
+export interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a timezone name is a valid IANA identifier
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock parts of an instant in the given timezone
+ */
+export function getZonedParts(date: Date, timezone: string = DEFAULT_TIMEZONE): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAY_INDEX[parts.weekday],
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ */
+export function getTimezoneOffsetMs(date: Date, timezone: string = DEFAULT_TIMEZONE): number {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in the given timezone to a UTC instant.
+ * Times skipped by a DST jump resolve forward (01:30 on the spring-forward day becomes 02:30);
+ * ambiguous times in the autumn resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(
+  local: LocalDate & { hour?: number; minute?: number; second?: number },
+  timezone: string = DEFAULT_TIMEZONE
+): Date {
+  const wallAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour || 0, local.minute || 0, local.second || 0);
+
+  // Try the offsets in effect either side of the wall time and keep the earliest exact match
+  const offsetBefore = getTimezoneOffsetMs(new Date(wallAsUtc - 24 * 60 * 60 * 1000), timezone);
+  const offsetAfter = getTimezoneOffsetMs(new Date(wallAsUtc + 24 * 60 * 60 * 1000), timezone);
+  const candidates = [wallAsUtc - offsetBefore, wallAsUtc - offsetAfter].sort((a, b) => a - b);
+
+  for (const candidate of candidates) {
+    if (candidate + getTimezoneOffsetMs(new Date(candidate), timezone) === wallAsUtc) {
+      return new Date(candidate);
+    }
+  }
+
+  // Wall time does not exist (DST gap) - shift forward by the size of the gap
+  return new Date(wallAsUtc - offsetBefore);
+}
+
+/**
+ * Start of the calendar day (00:00 local) containing the instant, as a UTC instant
+ */
+export function startOfZonedDay(date: Date, timezone: string = DEFAULT_TIMEZONE): Date {
+  const p = getZonedParts(date, timezone);
+  return zonedTimeToUtc({ year: p.year, month: p.month, day: p.day }, timezone);
+}
+
+/**
+ * End of the calendar day (23:59:59.999 local) containing the instant, as a UTC instant
+ */
+export function endOfZonedDay(date: Date, timezone: string = DEFAULT_TIMEZONE): Date {
+  const next = addLocalDays(getZonedParts(date, timezone), 1);
+  return new Date(zonedTimeToUtc(next, timezone).getTime() - 1);
+}
+
+/**
+ * UTC instants spanning a local calendar date, start inclusive and end at 23:59:59.999.
+ * Days are 23 or 25 hours long when DST starts or ends.
+ */
+export function getZonedDayRange(date: LocalDate, timezone: string = DEFAULT_TIMEZONE): { start: Date; end: Date } {
+  const start = zonedTimeToUtc(date, timezone);
+  const end = new Date(zonedTimeToUtc(addLocalDays(date, 1), timezone).getTime() - 1);
+  return { start, end };
+}
+
+/**
+ * UTC instants spanning whole local days from one YYYY-MM-DD date to another, as used for
+ * payroll periods. Full ISO timestamps are reduced to their date. Null when either is invalid.
+ */
+export function getZonedPeriod(
+  startDate: string,
+  endDate: string,
+  timezone: string = DEFAULT_TIMEZONE
+): { periodStart: Date; periodEnd: Date } | null {
+  const start = parseLocalDate(String(startDate).slice(0, 10));
+  const end = parseLocalDate(String(endDate).slice(0, 10));
+  if (!start || !end) return null;
+  return { periodStart: getZonedDayRange(start, timezone).start, periodEnd: getZonedDayRange(end, timezone).end };
+}
+
+/**
+ * UTC instants spanning a local calendar month (month is 1-12)
+ */
+export function getZonedMonthRange(year: number, month: number, timezone: string = DEFAULT_TIMEZONE): { start: Date; end: Date } {
+  const nextMonth = month === 12 ? { year: year + 1, month: 1 } : { year, month: month + 1 };
+  return {
+    start: zonedTimeToUtc({ year, month, day: 1 }, timezone),
+    end: new Date(zonedTimeToUtc({ ...nextMonth, day: 1 }, timezone).getTime() - 1),
+  };
+}
+
+/**
+ * Sunday-to-Saturday local week containing the instant, as UTC instants
+ */
+export function getZonedWeekBounds(date: Date, timezone: string = DEFAULT_TIMEZONE): { weekStart: Date; weekEnd: Date } {
+  const parts = getZonedParts(date, timezone);
+  const sunday = addLocalDays(parts, -parts.weekday);
+  return {
+    weekStart: zonedTimeToUtc(sunday, timezone),
+    weekEnd: new Date(zonedTimeToUtc(addLocalDays(sunday, 7), timezone).getTime() - 1),
+  };
+}
+
+/**
+ * The same wall-clock time a number of local days later (or earlier), so 09:00 stays
+ * 09:00 across a DST change even though the elapsed time is 23 or 25 hours
+ */
+export function addZonedDays(date: Date, days: number, timezone: string = DEFAULT_TIMEZONE): Date {
+  const parts = getZonedParts(date, timezone);
+  const target = addLocalDays(parts, days);
+  return zonedTimeToUtc({ ...target, hour: parts.hour, minute: parts.minute, second: parts.second }, timezone);
+}
+
+/**
+ * Local wall-clock time of an instant as HH:MM
+ */
+export function formatZonedTime(date: Date, timezone: string = DEFAULT_TIMEZONE): string {
+  const p = getZonedParts(date, timezone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+/**
+ * Human-readable local date and time for messages ("Thu 6 Mar 2025, 09:00")
+ */
+export function formatZonedDateTime(date: Date, timezone: string = DEFAULT_TIMEZONE): string {
+  return date.toLocaleString('en-GB', {
+    timeZone: timezone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Add calendar days to a local date (no timezone involved)
+ */
+export function addLocalDays(date: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/**
+ * Day of week (0 = Sunday) for a local date
+ */
+export function getLocalWeekday(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/**
+ * Format a local date as YYYY-MM-DD
+ */
+export function formatLocalDate(date: LocalDate): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD string into a local date
+ */
+export function parseLocalDate(value: string): LocalDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+/**
+ * Local calendar date key (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function toLocalDateKey(date: Date, timezone: string = DEFAULT_TIMEZONE): string {
+  return formatLocalDate(getZonedParts(date, timezone));
+}
+
+/**
+ * Get a company's configured timezone, falling back to UTC
+ */
+export async function getCompanyTimezone(companyId: number): Promise<string> {
+  const config = await prisma.adminConfiguration.findUnique({
+    where: { companyId },
+    select: { timezone: true },
+  });
+
+  const timezone = config?.timezone || DEFAULT_TIMEZONE;
+  return isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Timezone of the company a user belongs to, falling back to UTC
+ */
+export async function getUserTimezone(userId: number): Promise<string> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { companyId: true } });
+  return user?.companyId ? getCompanyTimezone(user.companyId) : DEFAULT_TIMEZONE;
+}
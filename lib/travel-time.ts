@@ -0,0 +1,98 @@
+/**
+ * Travel Time Between Jobs
+ *
+ * Estimates how long a cleaner needs to get from one property to the next, so that
+ * back-to-back jobs at properties far apart are flagged (see validateNoOverlap in
+ * lib/rota-conflicts.ts).
+ *
+ * By default the estimate is the straight-line distance between Property.latitude/longitude
+ * at the company's average speed (AdminConfiguration.travelSpeedKmh). A routing service can
+ * be plugged in with setTravelTimeProvider; when it has no answer for a pair of properties,
+ * the straight-line estimate is used instead.
+ */
+
+import prisma from "@/lib/prisma";
+import { calculateDistance, Coordinates } from "@/lib/geolocation";
+
+export const DEFAULT_TRAVEL_SPEED_KMH = 30;
+
+export interface TravelTimeProvider {
+  name: string;
+  /** Minutes to travel between two points, or null when the provider can't tell */
+  estimateMinutes(from: Coordinates, to: Coordinates): Promise<number | null>;
+}
+
+export interface TravelEstimate {
+  minutes: number;
+  distanceKm: number;
+  source: string; // Provider name, or 'straight_line'
+}
+
+let provider: TravelTimeProvider | null = null;
+
+/**
+ * Use a routing provider for travel estimates (null goes back to straight-line estimates)
+ */
+export function setTravelTimeProvider(next: TravelTimeProvider | null): void {
+  provider = next;
+}
+
+/**
+ * Coordinates of a property, or null when it hasn't been geocoded
+ */
+export function propertyCoordinates(property: { latitude: number | null; longitude: number | null } | null | undefined): Coordinates | null {
+  if (!property || property.latitude === null || property.longitude === null) return null;
+  return { latitude: property.latitude, longitude: property.longitude };
+}
+
+/**
+ * Straight-line travel estimate in whole minutes (rounded up) at an average speed
+ */
+export function estimateTravelMinutes(from: Coordinates, to: Coordinates, speedKmh: number = DEFAULT_TRAVEL_SPEED_KMH): number {
+  const km = calculateDistance(from, to) / 1000;
+  return Math.ceil((km / speedKmh) * 60);
+}
+
+/**
+ * Travel estimate between two points, from the provider when one is set and answers
+ */
+export async function getTravelEstimate(
+  from: Coordinates,
+  to: Coordinates,
+  speedKmh: number = DEFAULT_TRAVEL_SPEED_KMH
+): Promise<TravelEstimate> {
+  const distanceKm = calculateDistance(from, to) / 1000;
+
+  if (provider) {
+    try {
+      const minutes = await provider.estimateMinutes(from, to);
+      if (minutes !== null && Number.isFinite(minutes) && minutes >= 0) {
+        return { minutes: Math.ceil(minutes), distanceKm, source: provider.name };
+      }
+    } catch (error) {
+      console.error(`Travel time provider ${provider.name} failed:`, error);
+    }
+  }
+
+  return { minutes: estimateTravelMinutes(from, to, speedKmh), distanceKm, source: 'straight_line' };
+}
+
+/**
+ * Minutes short of the travel time between one job ending and the next starting (0 when
+ * there is enough time)
+ */
+export function travelShortfallMinutes(previousEnd: Date, nextStart: Date, travelMinutes: number): number {
+  const gapMinutes = (nextStart.getTime() - previousEnd.getTime()) / 60000;
+  return Math.max(0, Math.ceil(travelMinutes - gapMinutes));
+}
+
+/**
+ * Load a company's average travel speed (default when it has no configuration)
+ */
+export async function getTravelSpeed(companyId: number): Promise<number> {
+  const config = await prisma.adminConfiguration.findUnique({
+    where: { companyId },
+    select: { travelSpeedKmh: true },
+  });
+  return config?.travelSpeedKmh || DEFAULT_TRAVEL_SPEED_KMH;
+}
@@ -0,0 +1,252 @@
+/**
+ * Week Cloning
+ *
+ * Copies a source week's jobs into one or more target weeks, keeping each job's weekday and
+ * local start time in the company's timezone (so 09:00 stays 09:00 across DST). Weeks are
+ * seven local days from their first day, as shown in the rota editor.
+ *
+ * Only live jobs are copied: cancelled and archived jobs are skipped, as are jobs that belong
+ * to a recurring series (the series generates its own occurrences) and jobs that already exist
+ * in the target week at the same property and time. Jobs can be limited to some properties or
+ * cleaners.
+ *
+ * Each copy with a cleaner is checked with validateAssignment against the target week, so
+ * leave and availability changes made since the source week show up as warnings. Copies
+ * aren't checked against each other, only against jobs already on the rota. A dry run returns
+ * the plan without creating anything.
+ */
+
+import prisma from "@/lib/prisma";
+import { TaskStatus, UserRole } from "@prisma/client";
+import { copyChecklistForProperty } from "@/lib/checklist-templates";
+import { shiftDeadline } from "@/lib/sla";
+import { initialStatusHistory } from "@/lib/task-lifecycle";
+import { ConflictWarning, getWeekBounds, validateAssignment } from "@/lib/rota-conflicts";
+import {
+  addLocalDays,
+  addZonedDays,
+  formatLocalDate,
+  getCompanyTimezone,
+  getZonedDayRange,
+  LocalDate,
+} from "@/lib/timezone";
+
+// Upper bound on target weeks in one request
+export const MAX_CLONE_TARGET_WEEKS = 12;
+
+const SKIPPED_STATUSES: TaskStatus[] = [TaskStatus.CANCELLED, TaskStatus.ARCHIVED];
+
+export interface WeekCloneOptions {
+  companyId: number;
+  sourceWeekStart: LocalDate;
+  targetWeekStarts: LocalDate[];
+  propertyIds?: number[];
+  cleanerIds?: number[];
+  dryRun?: boolean;
+  createdById?: number; // Recorded as the author of the copies' initial status
+}
+
+export interface ClonePlanItem {
+  sourceTaskId: number;
+  targetWeekStart: string;
+  title: string;
+  propertyId: number;
+  address: string | null;
+  cleanerId: number | null;
+  scheduledDate: Date;
+  warnings: ConflictWarning[];
+  taskId?: number; // Set once created
+}
+
+export interface CloneSkip {
+  sourceTaskId: number;
+  title: string;
+  targetWeekStart?: string; // Missing when skipped for every target week
+  reason: string;
+}
+
+export interface WeekClonePlan {
+  dryRun: boolean;
+  sourceWeekStart: string;
+  targetWeekStarts: string[];
+  items: ClonePlanItem[];
+  skipped: CloneSkip[];
+}
+
+/**
+ * Why a source job is never copied, or null when it can be
+ */
+export function cloneSkipReason(task: {
+  status: TaskStatus;
+  isRecurring: boolean;
+  parentTaskId: number | null;
+  scheduledDate: Date | null;
+}): string | null {
+  if (!task.scheduledDate) return 'Not scheduled';
+  if (task.status === TaskStatus.CANCELLED) return 'Cancelled';
+  if (task.status === TaskStatus.ARCHIVED) return 'Archived';
+  if (task.isRecurring || task.parentTaskId !== null) return 'Covered by a recurring series';
+  return null;
+}
+
+/**
+ * Whole days from one local date to another
+ */
+export function localDaysBetween(from: LocalDate, to: LocalDate): number {
+  return Math.round(
+    (Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / (24 * 60 * 60 * 1000)
+  );
+}
+
+/**
+ * Consecutive weeks starting on a date (first day of each)
+ */
+export function consecutiveWeeks(first: LocalDate, count: number): LocalDate[] {
+  return Array.from({ length: count }, (_, i) => addLocalDays(first, i * 7));
+}
+
+function weekRange(weekStart: LocalDate, timezone: string): { gte: Date; lte: Date } {
+  return {
+    gte: getZonedDayRange(weekStart, timezone).start,
+    lte: getZonedDayRange(addLocalDays(weekStart, 6), timezone).end,
+  };
+}
+
+/**
+ * Plan a clone and, unless it's a dry run, create the tasks
+ */
+export async function cloneWeek(options: WeekCloneOptions): Promise<WeekClonePlan> {
+  const { companyId, sourceWeekStart, targetWeekStarts, propertyIds, cleanerIds, dryRun = false, createdById } = options;
+  const timezone = await getCompanyTimezone(companyId);
+
+  const sourceTasks = await prisma.task.findMany({
+    where: {
+      companyId,
+      scheduledDate: weekRange(sourceWeekStart, timezone),
+      ...(propertyIds && propertyIds.length > 0 ? { propertyId: { in: propertyIds } } : {}),
+      ...(cleanerIds && cleanerIds.length > 0 ? { assignedUserId: { in: cleanerIds } } : {}),
+    },
+    include: { checklists: true, property: { select: { address: true } } },
+    orderBy: [{ scheduledDate: 'asc' }, { id: 'asc' }],
+  });
+
+  // Copies keep their cleaner only while the cleaner is still active in the company
+  const activeCleanerIds = new Set(
+    (
+      await prisma.user.findMany({
+        where: { companyId, role: UserRole.CLEANER, isActive: true },
+        select: { id: true },
+      })
+    ).map(cleaner => cleaner.id)
+  );
+
+  const plan: WeekClonePlan = {
+    dryRun,
+    sourceWeekStart: formatLocalDate(sourceWeekStart),
+    targetWeekStarts: targetWeekStarts.map(formatLocalDate),
+    items: [],
+    skipped: [],
+  };
+
+  const copyable = sourceTasks.filter(task => {
+    const reason = cloneSkipReason(task);
+    if (reason) plan.skipped.push({ sourceTaskId: task.id, title: task.title, reason });
+    return !reason;
+  });
+
+  for (const targetWeekStart of targetWeekStarts) {
+    const targetKey = formatLocalDate(targetWeekStart);
+    const offsetDays = localDaysBetween(sourceWeekStart, targetWeekStart);
+
+    // Jobs already in the target week, to avoid cloning the same week twice
+    const existing = await prisma.task.findMany({
+      where: {
+        companyId,
+        scheduledDate: weekRange(targetWeekStart, timezone),
+        status: { notIn: SKIPPED_STATUSES },
+      },
+      select: { propertyId: true, scheduledDate: true },
+    });
+    const existingKeys = new Set(existing.map(task => `${task.propertyId}|${task.scheduledDate?.getTime()}`));
+
+    for (const task of copyable) {
+      const scheduledDate = addZonedDays(task.scheduledDate!, offsetDays, timezone);
+      if (existingKeys.has(`${task.propertyId}|${scheduledDate.getTime()}`)) {
+        plan.skipped.push({ sourceTaskId: task.id, title: task.title, targetWeekStart: targetKey, reason: 'Already in target week' });
+        continue;
+      }
+
+      const cleanerId = task.assignedUserId && activeCleanerIds.has(task.assignedUserId) ? task.assignedUserId : null;
+      const warnings: ConflictWarning[] = [];
+      if (task.assignedUserId && !cleanerId) {
+        warnings.push({
+          type: 'availability',
+          severity: 'warning',
+          message: 'Cleaner is no longer active; the copy will be unassigned',
+          details: { cleanerId: task.assignedUserId },
+        });
+      }
+      if (cleanerId) {
+        const { weekStart, weekEnd } = getWeekBounds(scheduledDate, timezone);
+        const validation = await validateAssignment(
+          cleanerId,
+          task.id,
+          scheduledDate,
+          task.propertyId,
+          task.estimatedDurationMinutes,
+          weekStart,
+          weekEnd,
+          timezone
+        );
+        // Dependencies aren't copied, so the source job's dependency checks don't apply
+        warnings.push(...validation.warnings.filter(warning => warning.type !== 'dependency'));
+      }
+
+      const item: ClonePlanItem = {
+        sourceTaskId: task.id,
+        targetWeekStart: targetKey,
+        title: task.title,
+        propertyId: task.propertyId,
+        address: task.property?.address || null,
+        cleanerId,
+        scheduledDate,
+        warnings,
+      };
+
+      if (!dryRun) {
+        const clonedTask = await prisma.task.create({
+          data: {
+            title: task.title,
+            description: task.description,
+            companyId: task.companyId,
+            propertyId: task.propertyId,
+            assignedUserId: cleanerId,
+            scheduledDate,
+            dueBy: shiftDeadline(task, scheduledDate),
+            status: TaskStatus.PLANNED,
+            statusHistory: initialStatusHistory(TaskStatus.PLANNED, createdById ?? null),
+            estimatedDurationMinutes: task.estimatedDurationMinutes,
+            jobTemplateId: task.jobTemplateId,
+            requiredSkillIds: task.requiredSkillIds,
+            photoCountRequirement: task.photoCountRequirement,
+            checklistTemplateVersionId: task.checklistTemplateVersionId,
+          },
+        });
+
+        // Clone checklists (template checklists are rebuilt for the property's current attributes)
+        const checklist = await copyChecklistForProperty(task, task.propertyId);
+        if (checklist.length > 0) {
+          await prisma.checklistItem.createMany({
+            data: checklist.map(entry => ({ taskId: clonedTask.id, ...entry })),
+          });
+        }
+        item.taskId = clonedTask.id;
+      }
+
+      plan.items.push(item);
+      existingKeys.add(`${task.propertyId}|${scheduledDate.getTime()}`);
+    }
+  }
+
+  return plan;
+}
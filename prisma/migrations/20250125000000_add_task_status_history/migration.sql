@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "task_status_history" (
+    "id" SERIAL NOT NULL,
+    "task_id" INTEGER NOT NULL,
+    "from_status" "TaskStatus",
+    "to_status" "TaskStatus" NOT NULL,
+    "changed_by_id" INTEGER,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "task_status_history_task_id_idx" ON "task_status_history"("task_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "task_status_history_changed_by_id_idx" ON "task_status_history"("changed_by_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "task_status_history_created_at_idx" ON "task_status_history"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "task_status_history" ADD CONSTRAINT "task_status_history_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_status_history" ADD CONSTRAINT "task_status_history_changed_by_id_fkey" FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
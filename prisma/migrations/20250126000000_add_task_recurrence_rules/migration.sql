@@ -0,0 +1,29 @@
+-- Add iCalendar RRULE recurrence fields to tasks
+ALTER TABLE "tasks"
+  ADD COLUMN IF NOT EXISTS "recurrence_rule" TEXT,
+  ADD COLUMN IF NOT EXISTS "recurrence_exdates" TEXT,
+  ADD COLUMN IF NOT EXISTS "recurrence_overrides" TEXT,
+  ADD COLUMN IF NOT EXISTS "occurrence_date" TIMESTAMP(3);
+
+-- Convert legacy recurring patterns to equivalent rules
+UPDATE "tasks" SET "recurrence_rule" = CASE "recurring_pattern"
+    WHEN 'daily' THEN 'FREQ=DAILY'
+    WHEN 'weekly' THEN 'FREQ=WEEKLY'
+    WHEN 'biweekly' THEN 'FREQ=WEEKLY;INTERVAL=2'
+    WHEN 'monthly' THEN 'FREQ=MONTHLY'
+  END
+WHERE "is_recurring" = true AND "recurrence_rule" IS NULL AND "recurring_pattern" IS NOT NULL;
+
+-- Existing instances were generated exactly on their occurrence start
+UPDATE "tasks" SET "occurrence_date" = "scheduled_date"
+WHERE "parent_task_id" IS NOT NULL AND "occurrence_date" IS NULL;
+
+-- Older runs could generate the same occurrence twice; keep the first instance's occurrence date
+UPDATE "tasks" t SET "occurrence_date" = NULL
+WHERE t."parent_task_id" IS NOT NULL AND EXISTS (
+  SELECT 1 FROM "tasks" o
+  WHERE o."parent_task_id" = t."parent_task_id" AND o."occurrence_date" = t."occurrence_date" AND o."id" < t."id"
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "tasks_parent_task_id_occurrence_date_key" ON "tasks"("parent_task_id", "occurrence_date");
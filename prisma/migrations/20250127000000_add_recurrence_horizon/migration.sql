@@ -0,0 +1,3 @@
+-- Per-company horizon for the rolling recurring task generator
+ALTER TABLE "admin_configurations"
+  ADD COLUMN IF NOT EXISTS "recurrence_horizon_days" INTEGER NOT NULL DEFAULT 14;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "job_templates" (
+    "id" SERIAL NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "checklist_template_id" INTEGER,
+    "estimated_duration_minutes" INTEGER,
+    "budget" DECIMAL(10,2),
+    "required_skill_ids" TEXT,
+    "photo_count_requirement" INTEGER,
+    "property_types" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "job_template_id" INTEGER;
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "required_skill_ids" TEXT;
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "photo_count_requirement" INTEGER;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "job_templates_company_id_idx" ON "job_templates"("company_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tasks_job_template_id_idx" ON "tasks"("job_template_id");
+
+-- AddForeignKey
+ALTER TABLE "job_templates" ADD CONSTRAINT "job_templates_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_templates" ADD CONSTRAINT "job_templates_checklist_template_id_fkey" FOREIGN KEY ("checklist_template_id") REFERENCES "checklist_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_job_template_id_fkey" FOREIGN KEY ("job_template_id") REFERENCES "job_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "checklist_items" ADD COLUMN IF NOT EXISTS "item_type" TEXT NOT NULL DEFAULT 'tick';
+ALTER TABLE "checklist_items" ADD COLUMN IF NOT EXISTS "is_required" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "checklist_items" ADD COLUMN IF NOT EXISTS "unit" TEXT;
+ALTER TABLE "checklist_items" ADD COLUMN IF NOT EXISTS "answer_boolean" BOOLEAN;
+ALTER TABLE "checklist_items" ADD COLUMN IF NOT EXISTS "answer_number" DOUBLE PRECISION;
+ALTER TABLE "checklist_items" ADD COLUMN IF NOT EXISTS "answer_text" TEXT;
+ALTER TABLE "checklist_items" ADD COLUMN IF NOT EXISTS "comment" TEXT;
+ALTER TABLE "checklist_items" ADD COLUMN IF NOT EXISTS "completed_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "photos" ADD COLUMN IF NOT EXISTS "checklist_item_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "photos_checklist_item_id_idx" ON "photos"("checklist_item_id");
+
+-- AddForeignKey
+ALTER TABLE "photos" ADD CONSTRAINT "photos_checklist_item_id_fkey" FOREIGN KEY ("checklist_item_id") REFERENCES "checklist_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "checklist_templates" ADD COLUMN IF NOT EXISTS "current_version" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "checklist_templates" ADD COLUMN IF NOT EXISTS "archived_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "checklist_template_versions" (
+    "id" SERIAL NOT NULL,
+    "template_id" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "items" TEXT NOT NULL,
+    "change_note" TEXT,
+    "created_by_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "checklist_template_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "checklist_template_version_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "checklist_template_versions_template_id_version_key" ON "checklist_template_versions"("template_id", "version");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tasks_checklist_template_version_id_idx" ON "tasks"("checklist_template_version_id");
+
+-- AddForeignKey
+ALTER TABLE "checklist_template_versions" ADD CONSTRAINT "checklist_template_versions_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "checklist_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "checklist_template_versions" ADD CONSTRAINT "checklist_template_versions_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_checklist_template_version_id_fkey" FOREIGN KEY ("checklist_template_version_id") REFERENCES "checklist_template_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing templates become version 1
+INSERT INTO "checklist_template_versions" ("template_id", "version", "items", "change_note", "created_at")
+SELECT "id", 1, "items", 'Initial version', "created_at"
+FROM "checklist_templates"
+ON CONFLICT ("template_id", "version") DO NOTHING;
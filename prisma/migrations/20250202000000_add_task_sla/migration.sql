@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "due_by" TIMESTAMP(3);
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "submitted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "admin_configurations" ADD COLUMN IF NOT EXISTS "sla_start_warning_minutes" INTEGER NOT NULL DEFAULT 120;
+ALTER TABLE "admin_configurations" ADD COLUMN IF NOT EXISTS "sla_finish_warning_minutes" INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE "admin_configurations" ADD COLUMN IF NOT EXISTS "sla_escalation_minutes" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "sla_breaches" (
+    "id" SERIAL NOT NULL,
+    "task_id" INTEGER NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "due_by" TIMESTAMP(3) NOT NULL,
+    "detected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "escalation_level" INTEGER NOT NULL DEFAULT 0,
+    "last_escalated_at" TIMESTAMP(3),
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "sla_breaches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tasks_due_by_idx" ON "tasks"("due_by");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "sla_breaches_task_id_kind_key" ON "sla_breaches"("task_id", "kind");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "sla_breaches_company_id_idx" ON "sla_breaches"("company_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "sla_breaches_resolved_at_idx" ON "sla_breaches"("resolved_at");
+
+-- AddForeignKey
+ALTER TABLE "sla_breaches" ADD CONSTRAINT "sla_breaches_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "time_entries" (
+    "id" SERIAL NOT NULL,
+    "task_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "clock_in_at" TIMESTAMP(3) NOT NULL,
+    "clock_out_at" TIMESTAMP(3),
+    "break_minutes" INTEGER NOT NULL DEFAULT 0,
+    "break_started_at" TIMESTAMP(3),
+    "clock_in_latitude" DOUBLE PRECISION,
+    "clock_in_longitude" DOUBLE PRECISION,
+    "clock_in_distance" INTEGER,
+    "clock_in_within_geofence" BOOLEAN,
+    "clock_out_latitude" DOUBLE PRECISION,
+    "clock_out_longitude" DOUBLE PRECISION,
+    "clock_out_distance" INTEGER,
+    "clock_out_within_geofence" BOOLEAN,
+    "corrected_by_id" INTEGER,
+    "corrected_at" TIMESTAMP(3),
+    "correction_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "time_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "time_entries_task_id_idx" ON "time_entries"("task_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "time_entries_user_id_clock_in_at_idx" ON "time_entries"("user_id", "clock_in_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "time_entries_company_id_idx" ON "time_entries"("company_id");
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_corrected_by_id_fkey" FOREIGN KEY ("corrected_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
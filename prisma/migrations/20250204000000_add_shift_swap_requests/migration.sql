@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "shift_swap_requests" (
+    "id" SERIAL NOT NULL,
+    "task_id" INTEGER NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "requester_id" INTEGER NOT NULL,
+    "target_user_id" INTEGER,
+    "accepted_by_id" INTEGER,
+    "decided_by_id" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "note" TEXT,
+    "decision_note" TEXT,
+    "accepted_at" TIMESTAMP(3),
+    "decided_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shift_swap_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "shift_swap_requests_task_id_idx" ON "shift_swap_requests"("task_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "shift_swap_requests_company_id_status_idx" ON "shift_swap_requests"("company_id", "status");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "shift_swap_requests_requester_id_idx" ON "shift_swap_requests"("requester_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "shift_swap_requests_target_user_id_idx" ON "shift_swap_requests"("target_user_id");
+
+-- AddForeignKey
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_requester_id_fkey" FOREIGN KEY ("requester_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_target_user_id_fkey" FOREIGN KEY ("target_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_accepted_by_id_fkey" FOREIGN KEY ("accepted_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_swap_requests" ADD CONSTRAINT "shift_swap_requests_decided_by_id_fkey" FOREIGN KEY ("decided_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
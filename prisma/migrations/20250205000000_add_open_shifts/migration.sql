@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "open_shift_published_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "admin_configurations" ADD COLUMN IF NOT EXISTS "open_shift_claim_mode" TEXT NOT NULL DEFAULT 'first_come';
+ALTER TABLE "admin_configurations" ADD COLUMN IF NOT EXISTS "open_shift_weekly_claim_cap" INTEGER;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "open_shift_claims" (
+    "id" SERIAL NOT NULL,
+    "task_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "decided_by_id" INTEGER,
+    "decided_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "open_shift_claims_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tasks_open_shift_published_at_idx" ON "tasks"("open_shift_published_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "open_shift_claims_task_id_user_id_key" ON "open_shift_claims"("task_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "open_shift_claims_company_id_status_idx" ON "open_shift_claims"("company_id", "status");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "open_shift_claims_user_id_status_idx" ON "open_shift_claims"("user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "open_shift_claims" ADD CONSTRAINT "open_shift_claims_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_shift_claims" ADD CONSTRAINT "open_shift_claims_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_shift_claims" ADD CONSTRAINT "open_shift_claims_decided_by_id_fkey" FOREIGN KEY ("decided_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- AlterEnum
+ALTER TYPE "TaskStatus" ADD VALUE IF NOT EXISTS 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "admin_configurations" ADD COLUMN IF NOT EXISTS "cancellation_reasons" TEXT;
+ALTER TABLE "admin_configurations" ADD COLUMN IF NOT EXISTS "cancellation_policy" TEXT;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "task_cancellations" (
+    "id" SERIAL NOT NULL,
+    "task_id" INTEGER NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "reason_code" VARCHAR(50) NOT NULL,
+    "reason_label" TEXT NOT NULL,
+    "note" TEXT,
+    "cancelled_by_id" INTEGER,
+    "cancelled_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "previous_status" "TaskStatus" NOT NULL,
+    "notice_hours" DOUBLE PRECISION,
+    "fee" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "compensation_minutes" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "task_cancellations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "task_cancellations_task_id_key" ON "task_cancellations"("task_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "task_cancellations_company_id_cancelled_at_idx" ON "task_cancellations"("company_id", "cancelled_at");
+
+-- AddForeignKey
+ALTER TABLE "task_cancellations" ADD CONSTRAINT "task_cancellations_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_cancellations" ADD CONSTRAINT "task_cancellations_cancelled_by_id_fkey" FOREIGN KEY ("cancelled_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- Full-text search indexes used by lib/search.ts.
+-- Expression indexes cannot be declared in schema.prisma; the expressions must match
+-- the tsvector documents built in lib/search.ts exactly for Postgres to use them.
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tasks_search_idx" ON "tasks" USING GIN (
+    (setweight(to_tsvector('english', coalesce("title", '')), 'A')
+        || setweight(to_tsvector('english', coalesce("description", '')), 'B'))
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "properties_search_idx" ON "properties" USING GIN (
+    (setweight(to_tsvector('english', coalesce("address", '') || ' ' || coalesce("postcode", '')), 'A')
+        || setweight(to_tsvector('english', coalesce("notes", '')), 'B'))
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "notes_search_idx" ON "notes" USING GIN (to_tsvector('english', "content"));
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "users_search_idx" ON "users" USING GIN (
+    to_tsvector('simple', coalesce("first_name", '') || ' ' || coalesce("last_name", '') || ' ' || "email")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "chat_messages_search_idx" ON "chat_messages" USING GIN (to_tsvector('english', "message"));
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "admin_configurations" ADD COLUMN IF NOT EXISTS "travel_speed_kmh" INTEGER NOT NULL DEFAULT 30;
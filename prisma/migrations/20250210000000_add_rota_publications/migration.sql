@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "rota_publications" (
+    "id" SERIAL NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "week_start" DATE NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" TEXT NOT NULL,
+    "published_by_id" INTEGER NOT NULL,
+    "published_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rota_publications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "rota_publications_company_id_week_start_version_key" ON "rota_publications"("company_id", "week_start", "version");
+
+-- AddForeignKey
+ALTER TABLE "rota_publications" ADD CONSTRAINT "rota_publications_published_by_id_fkey" FOREIGN KEY ("published_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
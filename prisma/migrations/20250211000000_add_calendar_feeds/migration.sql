@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "calendar_feeds" (
+    "id" SERIAL NOT NULL,
+    "token" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "user_id" INTEGER,
+    "property_id" INTEGER,
+    "created_by_id" INTEGER NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "last_accessed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calendar_feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "calendar_feeds_token_key" ON "calendar_feeds"("token");
+CREATE INDEX IF NOT EXISTS "calendar_feeds_company_id_idx" ON "calendar_feeds"("company_id");
+CREATE INDEX IF NOT EXISTS "calendar_feeds_user_id_idx" ON "calendar_feeds"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_property_id_fkey" FOREIGN KEY ("property_id") REFERENCES "properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;